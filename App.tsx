@@ -4,6 +4,8 @@ import { AppState, Platform } from 'react-native';
 import { AppNavigator } from './src/navigation/AppNavigator';
 import { performanceMonitor } from './src/utils/performanceMonitor';
 import { getAudioCleanupManager, setupAudioCleanupLifecycle } from './src/services/audioCleanup';
+import { loadCustomProviders } from './src/services/customProviders';
+import { SettingsProvider } from './src/providers/SettingsProvider';
 
 export default function App() {
   useEffect(() => {
@@ -16,6 +18,11 @@ export default function App() {
     // Setup audio cleanup lifecycle
     setupAudioCleanupLifecycle();
 
+    // Register user-defined OpenAI-compatible endpoints as chat providers
+    loadCustomProviders().catch(error => {
+      console.error('Failed to load custom providers:', error);
+    });
+
     // Handle app state changes for memory management
     const handleAppStateChange = (nextAppState: string) => {
       if (nextAppState === 'background') {
@@ -37,9 +44,9 @@ export default function App() {
   }, []);
 
   return (
-    <>
+    <SettingsProvider>
       <AppNavigator />
       <StatusBar style="auto" />
-    </>
+    </SettingsProvider>
   );
 }
@@ -0,0 +1,276 @@
+#!/usr/bin/env node
+// Local stand-in for the OpenAI Realtime API, for testing the realtime voice
+// engine without an API key. It speaks the same WebSocket events: a simple
+// energy-based VAD plays the part of server VAD, and every turn is answered
+// with a short tone and a canned transcript.
+//
+//   npm run mock:realtime            (listens on ws://0.0.0.0:8765)
+//   PORT=9000 npm run mock:realtime
+//
+// Then set Voice Settings → Voice Engine → Server URL to ws://<this machine's IP>:8765
+
+const { WebSocketServer } = require('ws');
+
+const PORT = Number(process.env.PORT) || 8765;
+const SAMPLE_RATE = 24000;
+// PCM16 frames with an RMS above this count as speech
+const SPEECH_RMS = Number(process.env.SPEECH_RMS) || 800;
+const FRAME_SAMPLES = SAMPLE_RATE / 50; // 20ms
+const REPLY_DELTA_MS = 100;
+// Replies stream faster than they play, like the real server
+const REPLY_SEND_INTERVAL_MS = 40;
+
+let nextId = 1;
+const newId = (prefix) => `${prefix}_mock${nextId++}`;
+
+function toneDelta(startSample, sampleCount, totalSamples) {
+  const pcm = Buffer.alloc(sampleCount * 2);
+  for (let i = 0; i < sampleCount; i++) {
+    const n = startSample + i;
+    // Fade in and out so segment boundaries do not click
+    const envelope = Math.min(1, n / 2400, (totalSamples - n) / 2400);
+    const sample = Math.sin((2 * Math.PI * 330 * n) / SAMPLE_RATE) * 0.25 * envelope;
+    pcm.writeInt16LE(Math.round(sample * 32767), i * 2);
+  }
+  return pcm.toString('base64');
+}
+
+function frameRms(pcm, offset) {
+  let sum = 0;
+  for (let i = 0; i < FRAME_SAMPLES; i++) {
+    const sample = pcm.readInt16LE(offset + i * 2);
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / FRAME_SAMPLES);
+}
+
+function handleConnection(socket, request) {
+  const send = (event) => {
+    if (socket.readyState !== socket.OPEN) return;
+    const eventId = newId('event');
+    socket.send(JSON.stringify({ event_id: eventId, ...event }));
+    if (event.type !== 'response.audio.delta' && event.type !== 'response.audio_transcript.delta') {
+      console.log(`  → ${event.type}`);
+    }
+  };
+
+  const session = {
+    id: newId('sess'),
+    model: new URL(request.url, 'ws://localhost').searchParams.get('model'),
+    voice: 'alloy',
+    turn_detection: { type: 'server_vad', silence_duration_ms: 700 },
+  };
+  // Samples received since the last commit
+  let bufferedSamples = 0;
+  // Sample count since the session started, for audio_start_ms/audio_end_ms
+  let totalSamples = 0;
+  let leftover = Buffer.alloc(0);
+  let speaking = false;
+  let lastSpeechSample = 0;
+  let speechStartSample = 0;
+  let turn = 0;
+  let activeResponse = null;
+
+  console.log(`🎧 Client connected (model ${session.model})`);
+  send({ type: 'session.created', session });
+
+  const commit = () => {
+    if (bufferedSamples === 0) {
+      send({
+        type: 'error',
+        error: {
+          type: 'invalid_request_error',
+          code: 'input_audio_buffer_commit_empty',
+          message: 'Error committing input audio buffer: buffer is empty.',
+        },
+      });
+      return false;
+    }
+
+    const itemId = newId('item');
+    const seconds = (bufferedSamples / SAMPLE_RATE).toFixed(1);
+    bufferedSamples = 0;
+    turn++;
+
+    send({ type: 'input_audio_buffer.committed', item_id: itemId, previous_item_id: null });
+    send({ type: 'conversation.item.created', item: { id: itemId, type: 'message', role: 'user', content: [{ type: 'input_audio' }] } });
+    // Transcription finishes a little after the turn, as it does upstream
+    setTimeout(() => {
+      send({
+        type: 'conversation.item.input_audio_transcription.completed',
+        item_id: itemId,
+        content_index: 0,
+        transcript: `Mock question ${turn} (${seconds} seconds of audio)`,
+      });
+    }, 300);
+    return true;
+  };
+
+  const respond = () => {
+    if (activeResponse) {
+      send({ type: 'error', error: { type: 'invalid_request_error', message: 'A response is already in progress.' } });
+      return;
+    }
+
+    const responseId = newId('resp');
+    const itemId = newId('item');
+    const text = `This is mock reply number ${turn}. Talk over me to test interruption, or wait for me to finish.`;
+    const words = text.split(' ');
+    const replySamples = Math.round(SAMPLE_RATE * 0.35 * words.length);
+    const deltaSamples = (SAMPLE_RATE * REPLY_DELTA_MS) / 1000;
+    let sentSamples = 0;
+    let sentWords = 0;
+
+    send({ type: 'response.created', response: { id: responseId, status: 'in_progress', output: [] } });
+    send({ type: 'response.output_item.added', response_id: responseId, output_index: 0, item: { id: itemId, type: 'message', role: 'assistant' } });
+
+    const finish = (status) => {
+      clearInterval(activeResponse.timer);
+      activeResponse = null;
+      if (status === 'completed') {
+        send({ type: 'response.audio.done', response_id: responseId, item_id: itemId, output_index: 0, content_index: 0 });
+        send({ type: 'response.audio_transcript.done', response_id: responseId, item_id: itemId, output_index: 0, content_index: 0, transcript: text });
+        send({ type: 'response.output_item.done', response_id: responseId, output_index: 0, item: { id: itemId, type: 'message', role: 'assistant' } });
+      }
+      const outputAudioTokens = Math.round((sentSamples / SAMPLE_RATE) * 20);
+      send({
+        type: 'response.done',
+        response: {
+          id: responseId,
+          status,
+          usage: {
+            total_tokens: 150 + outputAudioTokens + sentWords,
+            input_tokens: 150,
+            output_tokens: outputAudioTokens + sentWords,
+            input_token_details: { text_tokens: 100, audio_tokens: 50, cached_tokens: 0 },
+            output_token_details: { text_tokens: sentWords, audio_tokens: outputAudioTokens },
+          },
+        },
+      });
+    };
+
+    activeResponse = {
+      id: responseId,
+      finish,
+      timer: setInterval(() => {
+        const count = Math.min(deltaSamples, replySamples - sentSamples);
+        send({ type: 'response.audio.delta', response_id: responseId, item_id: itemId, output_index: 0, content_index: 0, delta: toneDelta(sentSamples, count, replySamples) });
+        sentSamples += count;
+
+        // Keep the transcript roughly in step with the audio
+        const wordsDue = Math.ceil((sentSamples / replySamples) * words.length);
+        while (sentWords < wordsDue) {
+          const delta = (sentWords === 0 ? '' : ' ') + words[sentWords++];
+          send({ type: 'response.audio_transcript.delta', response_id: responseId, item_id: itemId, output_index: 0, content_index: 0, delta });
+        }
+
+        if (sentSamples >= replySamples) {
+          finish('completed');
+        }
+      }, REPLY_SEND_INTERVAL_MS),
+    };
+  };
+
+  // Energy-based stand-in for server VAD
+  const detectSpeech = (pcm) => {
+    const data = Buffer.concat([leftover, pcm]);
+    let offset = 0;
+    for (; offset + FRAME_SAMPLES * 2 <= data.length; offset += FRAME_SAMPLES * 2) {
+      const frameStart = totalSamples;
+      totalSamples += FRAME_SAMPLES;
+      if (frameRms(data, offset) >= SPEECH_RMS) {
+        lastSpeechSample = totalSamples;
+        if (!speaking) {
+          speaking = true;
+          speechStartSample = frameStart;
+          send({ type: 'input_audio_buffer.speech_started', audio_start_ms: Math.round((frameStart / SAMPLE_RATE) * 1000), item_id: newId('item') });
+        }
+      } else if (speaking) {
+        const silenceMs = ((totalSamples - lastSpeechSample) / SAMPLE_RATE) * 1000;
+        if (silenceMs >= (session.turn_detection?.silence_duration_ms ?? 700)) {
+          speaking = false;
+          send({ type: 'input_audio_buffer.speech_stopped', audio_end_ms: Math.round((totalSamples / SAMPLE_RATE) * 1000) });
+          console.log(`  🗣️ Turn of ${((lastSpeechSample - speechStartSample) / SAMPLE_RATE).toFixed(1)}s`);
+          if (commit() && session.turn_detection?.create_response !== false) {
+            respond();
+          }
+        }
+      }
+    }
+    leftover = data.subarray(offset);
+  };
+
+  socket.on('message', (raw) => {
+    let event;
+    try {
+      event = JSON.parse(raw.toString());
+    } catch (error) {
+      send({ type: 'error', error: { type: 'invalid_request_error', message: 'Invalid JSON' } });
+      return;
+    }
+    if (event.type !== 'input_audio_buffer.append') {
+      console.log(`← ${event.type}`);
+    }
+
+    switch (event.type) {
+      case 'session.update':
+        Object.assign(session, event.session);
+        send({ type: 'session.updated', session });
+        break;
+
+      case 'conversation.item.create':
+        send({ type: 'conversation.item.created', item: { id: newId('item'), ...event.item } });
+        break;
+
+      case 'input_audio_buffer.append': {
+        const pcm = Buffer.from(event.audio || '', 'base64');
+        bufferedSamples += pcm.length / 2;
+        if (session.turn_detection?.type === 'server_vad') {
+          detectSpeech(pcm);
+        }
+        break;
+      }
+
+      case 'input_audio_buffer.commit':
+        speaking = false;
+        commit();
+        break;
+
+      case 'input_audio_buffer.clear':
+        bufferedSamples = 0;
+        speaking = false;
+        send({ type: 'input_audio_buffer.cleared' });
+        break;
+
+      case 'response.create':
+        respond();
+        break;
+
+      case 'response.cancel':
+        if (activeResponse) {
+          activeResponse.finish('cancelled');
+        }
+        break;
+
+      case 'conversation.item.truncate':
+        send({ type: 'conversation.item.truncated', item_id: event.item_id, content_index: event.content_index, audio_end_ms: event.audio_end_ms });
+        break;
+
+      default:
+        send({ type: 'error', error: { type: 'invalid_request_error', message: `Unknown event type: ${event.type}` } });
+    }
+  });
+
+  socket.on('close', () => {
+    if (activeResponse) {
+      clearInterval(activeResponse.timer);
+    }
+    console.log('🎧 Client disconnected');
+  });
+}
+
+const server = new WebSocketServer({ port: PORT });
+server.on('connection', handleConnection);
+server.on('listening', () => {
+  console.log(`🎧 Mock realtime server listening on ws://0.0.0.0:${PORT}`);
+});
@@ -11,17 +11,23 @@ import {
   Alert,
   Linking,
   Image,
+  ScrollView,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import * as ImagePicker from 'expo-image-picker';
 
 import { VoiceRecordingOverlay } from './VoiceRecordingOverlay';
+import { TemplateVariablesModal } from './TemplateVariablesModal';
 import { useVoiceToText } from '../hooks/useVoiceToText';
+import { PromptTemplateService } from '@/services/promptTemplateStorage';
+import { PromptTemplate } from '@/types';
+import { extractVariables, parseSlashQuery } from '@/utils/promptTemplates';
 
 interface ChatInputWithVoiceProps {
   onSendMessage: (message: string, type: 'text' | 'voice') => void;
   onImageMessage?: (imageUri: string, prompt: string) => void;
+  onStopGeneration?: () => void;
   isProcessing?: boolean;
   disabled?: boolean;
   placeholder?: string;
@@ -41,6 +47,7 @@ const isTablet = screenWidth > 768;
 export function ChatInputWithVoice({
   onSendMessage,
   onImageMessage,
+  onStopGeneration,
   isProcessing = false,
   disabled = false,
   placeholder = 'Message...',
@@ -58,6 +65,11 @@ export function ChatInputWithVoice({
   const [showVoiceModal, setShowVoiceModal] = useState(false);
   const [selectedImageUri, setSelectedImageUri] = useState<string | null>(null);
   const [showAttachmentMenu, setShowAttachmentMenu] = useState(false);
+  // Prompt templates matching a "/command" being typed
+  const [templateSuggestions, setTemplateSuggestions] = useState<PromptTemplate[]>([]);
+  // Template whose variables are being filled in
+  const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null);
+  const slashQueryRef = useRef<string | null>(null);
   const textInputRef = useRef<TextInput>(null);
   const insets = useSafeAreaInsets();
 
@@ -97,6 +109,8 @@ export function ChatInputWithVoice({
       }
       setMessage('');
       setIsExpanded(false);
+      slashQueryRef.current = null;
+      setTemplateSuggestions([]);
     }
   };
 
@@ -113,6 +127,13 @@ export function ChatInputWithVoice({
     }
   };
 
+  const handleStopGeneration = () => {
+    if (onStopGeneration) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      onStopGeneration();
+    }
+  };
+
   const handleConversationMode = () => {
     if (onEnterVoiceMode) {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -274,6 +295,70 @@ export function ChatInputWithVoice({
   const handleTextChange = (text: string) => {
     setMessage(text);
     setIsExpanded(text.length > 50 || text.includes('\n') || selectedImageUri !== null);
+
+    const slashQuery = parseSlashQuery(text);
+    slashQueryRef.current = slashQuery;
+    if (slashQuery === null) {
+      setTemplateSuggestions([]);
+      return;
+    }
+
+    PromptTemplateService.searchTemplates(slashQuery).then(templates => {
+      // Ignore results for a query the user has typed past
+      if (slashQueryRef.current === slashQuery) {
+        setTemplateSuggestions(templates);
+      }
+    });
+  };
+
+  const insertPrompt = (prompt: string) => {
+    slashQueryRef.current = null;
+    setTemplateSuggestions([]);
+    setMessage(prompt);
+    setIsExpanded(true);
+    setTimeout(() => {
+      textInputRef.current?.focus();
+    }, 100);
+  };
+
+  const handleTemplateSelect = (template: PromptTemplate) => {
+    Haptics.selectionAsync();
+
+    if (extractVariables(template.content).length > 0) {
+      // Counted once the variables form is confirmed
+      setTemplateSuggestions([]);
+      setActiveTemplate(template);
+    } else {
+      PromptTemplateService.recordUsage(template.id);
+      insertPrompt(template.content);
+    }
+  };
+
+  const renderTemplateSuggestions = () => {
+    if (templateSuggestions.length === 0) return null;
+
+    return (
+      <View style={styles.templateMenu}>
+        <ScrollView keyboardShouldPersistTaps="handled" style={styles.templateMenuScroll}>
+          {templateSuggestions.map((template) => (
+            <TouchableOpacity
+              key={template.id}
+              style={styles.templateMenuItem}
+              onPress={() => handleTemplateSelect(template)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.templateMenuHeader}>
+                <Text style={styles.templateCommand}>/{template.command}</Text>
+                <Text style={styles.templateName} numberOfLines={1}>{template.name}</Text>
+              </View>
+              <Text style={styles.templatePreview} numberOfLines={1}>
+                {template.content}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+    );
   };
 
   const handleFocus = () => {
@@ -289,6 +374,19 @@ export function ChatInputWithVoice({
   const renderActionButton = () => {
     const hasInput = message.trim().length > 0 || selectedImageUri !== null;
     
+    if (isProcessing && onStopGeneration) {
+      // Let the user abort the in-flight response
+      return (
+        <TouchableOpacity
+          style={[styles.actionButton, styles.stopButton]}
+          onPress={handleStopGeneration}
+          accessibilityLabel="Stop generating"
+        >
+          <View style={styles.stopIcon} />
+        </TouchableOpacity>
+      );
+    }
+
     if (isProcessing) {
       return (
         <View style={[styles.actionButton, styles.sendButton, styles.actionButtonDisabled]}>
@@ -421,6 +519,8 @@ export function ChatInputWithVoice({
         { paddingBottom: Math.max(insets.bottom - 8, 4) },
       ]}>
         <View style={styles.inputWrapper}>
+          {renderTemplateSuggestions()}
+
           {/* Main Input Row */}
           <View style={styles.mainInputRow}>
             {/* Plus Button */}
@@ -507,6 +607,17 @@ export function ChatInputWithVoice({
         enableHaptics={true}
       />
 
+      <TemplateVariablesModal
+        template={activeTemplate}
+        onInsert={(prompt) => {
+          if (activeTemplate) {
+            PromptTemplateService.recordUsage(activeTemplate.id);
+          }
+          setActiveTemplate(null);
+          insertPrompt(prompt);
+        }}
+        onCancel={() => setActiveTemplate(null)}
+      />
     </>
   );
 }
@@ -612,6 +723,15 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '600',
   },
+  stopButton: {
+    backgroundColor: '#000000',
+  },
+  stopIcon: {
+    width: 14,
+    height: 14,
+    borderRadius: 2,
+    backgroundColor: '#FFFFFF',
+  },
   voiceButton: {
     backgroundColor: '#E5E5EA',
   },
@@ -753,4 +873,51 @@ const styles = StyleSheet.create({
     backgroundColor: '#E5E5EA',
     marginHorizontal: 16,
   },
+  templateMenu: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#E5E5EA',
+    marginBottom: 8,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 4,
+      },
+    }),
+  },
+  templateMenuScroll: {
+    maxHeight: 220,
+  },
+  templateMenuItem: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  templateMenuHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  templateCommand: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  templateName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000000',
+  },
+  templatePreview: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
 });
\ No newline at end of file
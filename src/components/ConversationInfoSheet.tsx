@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Dimensions,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BlurView } from 'expo-blur';
+import { ConversationSettings, ModelType, Persona } from '@/types';
+import { getChatProviderInfo, getRegisteredModels } from '@/services/chatProviders';
+
+interface ConversationInfoSheetProps {
+  isVisible: boolean;
+  title: string;
+  createdAt?: Date;
+  messageCount: number;
+  totalTokens?: number;
+  persona: Persona;
+  // Rolling summary of older messages, shown read-only
+  summary?: string;
+  settings: ConversationSettings;
+  // Values used where the conversation has no override
+  defaults: {
+    model: ModelType;
+    temperature: number;
+    maxTokens: number;
+  };
+  onSave: (settings: ConversationSettings) => void;
+  onClose: () => void;
+}
+
+const { height: screenHeight } = Dimensions.get('window');
+const TEMPERATURE_OPTIONS = [0.2, 0.5, 0.7, 1.0, 1.3];
+
+export function ConversationInfoSheet({
+  isVisible,
+  title,
+  createdAt,
+  messageCount,
+  totalTokens,
+  persona,
+  summary,
+  settings,
+  defaults,
+  onSave,
+  onClose,
+}: ConversationInfoSheetProps) {
+  const [draft, setDraft] = useState<ConversationSettings>(settings);
+  const [maxTokensText, setMaxTokensText] = useState('');
+  const insets = useSafeAreaInsets();
+
+  // Start from the saved overrides each time the sheet opens
+  useEffect(() => {
+    if (isVisible) {
+      setDraft(settings);
+      setMaxTokensText(settings.maxTokens?.toString() ?? '');
+    }
+  }, [isVisible]);
+
+  if (!isVisible) return null;
+
+  const update = (changes: ConversationSettings) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    const maxTokens = parseInt(maxTokensText, 10);
+    onSave({
+      ...draft,
+      maxTokens: !isNaN(maxTokens) && maxTokens >= 1 && maxTokens <= 4000 ? maxTokens : undefined,
+      systemPrompt: draft.systemPrompt?.trim() || undefined,
+    });
+  };
+
+  const renderChips = <T,>(
+    options: Array<{ value: T | undefined; label: string }>,
+    selected: T | undefined,
+    onSelect: (value: T | undefined) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map((option) => {
+        const isActive = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, isActive && styles.chipActive]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={isVisible}
+      transparent
+      animationType="slide"
+      statusBarTranslucent
+      onRequestClose={onClose}
+    >
+      <BlurView intensity={20} style={styles.overlay}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={[styles.sheet, { paddingBottom: insets.bottom + 20 }]}>
+            {/* Header */}
+            <View style={styles.header}>
+              <TouchableOpacity
+                onPress={onClose}
+                style={styles.headerButton}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.headerTitle}>Conversation</Text>
+              <TouchableOpacity
+                onPress={handleSave}
+                style={styles.headerButton}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Text style={styles.saveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+              {/* Summary */}
+              <Text style={styles.title} numberOfLines={2}>{title}</Text>
+              <Text style={styles.meta}>
+                {[
+                  createdAt ? `Started ${createdAt.toLocaleDateString()}` : 'Not saved yet',
+                  `${messageCount} message${messageCount === 1 ? '' : 's'}`,
+                  totalTokens ? `${totalTokens.toLocaleString()} tokens` : null,
+                  `${persona.icon} ${persona.name}`,
+                ].filter(Boolean).join(' · ')}
+              </Text>
+
+              {summary && (
+                <>
+                  <Text style={styles.label}>Summary of Earlier Messages</Text>
+                  <Text style={styles.summaryText}>{summary}</Text>
+                  <Text style={styles.sectionNote}>
+                    Older messages are sent to the model as this summary. It is updated as the conversation grows.
+                  </Text>
+                </>
+              )}
+
+              <Text style={styles.sectionNote}>
+                Settings here apply to this conversation only. "Default" uses the persona and app settings.
+              </Text>
+
+              <Text style={styles.label}>Model</Text>
+              {renderChips<ModelType>(
+                [
+                  { value: undefined, label: `Default (${getChatProviderInfo(defaults.model)?.shortName ?? defaults.model})` },
+                  ...getRegisteredModels().map(({ model, info }) => ({ value: model, label: info.shortName })),
+                ],
+                draft.model,
+                (model) => update({ model })
+              )}
+
+              <Text style={styles.label}>Temperature</Text>
+              {renderChips<number>(
+                [
+                  { value: undefined, label: `Default (${defaults.temperature.toFixed(1)})` },
+                  ...TEMPERATURE_OPTIONS.map(value => ({ value, label: value.toFixed(1) })),
+                ],
+                draft.temperature,
+                (temperature) => update({ temperature })
+              )}
+
+              <Text style={styles.label}>Max Tokens</Text>
+              <TextInput
+                style={styles.textInput}
+                value={maxTokensText}
+                onChangeText={setMaxTokensText}
+                placeholder={`Default (${defaults.maxTokens})`}
+                placeholderTextColor="#8E8E93"
+                keyboardType="numeric"
+              />
+
+              <Text style={styles.label}>System Prompt</Text>
+              <TextInput
+                style={[styles.textInput, styles.promptInput]}
+                value={draft.systemPrompt || ''}
+                onChangeText={(systemPrompt) => update({ systemPrompt })}
+                placeholder={`Default: the ${persona.name} persona's prompt`}
+                placeholderTextColor="#8E8E93"
+                multiline
+                textAlignVertical="top"
+              />
+
+              <View style={styles.switchRow}>
+                <View style={styles.switchContent}>
+                  <Text style={styles.switchTitle}>Tools</Text>
+                  <Text style={styles.switchDescription}>Web search, calculator and date lookups</Text>
+                </View>
+                <Switch
+                  value={draft.toolsEnabled !== false}
+                  onValueChange={(enabled) => update({ toolsEnabled: enabled ? undefined : false })}
+                  trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: screenHeight * 0.9,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerButton: {
+    minWidth: 60,
+    minHeight: 44,
+    justifyContent: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+    textAlign: 'right',
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 20,
+  },
+  meta: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 4,
+  },
+  sectionNote: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 16,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#000000',
+    lineHeight: 20,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 12,
+    overflow: 'hidden',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  chipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#000000',
+  },
+  promptInput: {
+    minHeight: 100,
+    maxHeight: 180,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  switchContent: {
+    flex: 1,
+    marginRight: 16,
+  },
+  switchTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  switchDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+});
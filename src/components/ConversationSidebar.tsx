@@ -22,6 +22,8 @@ interface ConversationSidebarProps {
   onClose: () => void;
   onConversationSelect: (conversationId: string) => void;
   onNewConversation: () => void;
+  // Opens the full conversation list, with semantic search and related conversations
+  onOpenConversationList?: () => void;
   currentConversationId?: string;
 }
 
@@ -54,13 +56,14 @@ const ConversationItem = memo(({ conversation, isSelected, onPress, onDelete }:
 
   const previewText = useMemo(() => {
     const lastMessage = conversation.messages[conversation.messages.length - 1];
-    if (lastMessage) {
-      return lastMessage.content.length > 50 
-        ? lastMessage.content.substring(0, 50) + '...'
-        : lastMessage.content;
+    const preview = lastMessage?.content ?? conversation.lastMessagePreview;
+    if (preview) {
+      return preview.length > 50 
+        ? preview.substring(0, 50) + '...'
+        : preview;
     }
     return 'No messages';
-  }, [conversation.messages]);
+  }, [conversation.messages, conversation.lastMessagePreview]);
 
   // Memoize styles
   const itemStyle = useMemo(() => [
@@ -98,6 +101,7 @@ const ConversationItem = memo(({ conversation, isSelected, onPress, onDelete }:
     prevProps.conversation.title === nextProps.conversation.title &&
     prevProps.conversation.lastActivity.getTime() === nextProps.conversation.lastActivity.getTime() &&
     prevProps.isSelected === nextProps.isSelected &&
+    prevProps.conversation.messageCount === nextProps.conversation.messageCount &&
     prevProps.conversation.messages.length === nextProps.conversation.messages.length
   );
 });
@@ -107,6 +111,7 @@ const ConversationSidebarComponent = ({
   onClose,
   onConversationSelect,
   onNewConversation,
+  onOpenConversationList,
   currentConversationId,
 }: ConversationSidebarProps) => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
@@ -366,6 +371,16 @@ const ConversationSidebarComponent = ({
             </TouchableOpacity>
           </View>
 
+          {onOpenConversationList && (
+            <TouchableOpacity
+              style={styles.allConversationsButton}
+              onPress={onOpenConversationList}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.allConversationsText}>🗂 All conversations</Text>
+            </TouchableOpacity>
+          )}
+
           {/* Conversations List */}
           <FlatList
             data={conversations}
@@ -443,6 +458,14 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     gap: 12,
   },
+  allConversationsButton: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  allConversationsText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
   newButton: {
     width: 32,
     height: 32,
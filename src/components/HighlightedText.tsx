@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { Text, StyleProp, TextStyle } from 'react-native';
+import { TextRange } from '@/types';
+
+interface HighlightedTextProps {
+  text: string;
+  // Sorted, non-overlapping ranges of `text` to emphasize
+  highlights: TextRange[];
+  style?: StyleProp<TextStyle>;
+  highlightStyle?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+export function HighlightedText({
+  text,
+  highlights,
+  style,
+  highlightStyle,
+  numberOfLines,
+}: HighlightedTextProps) {
+  const segments = useMemo(() => {
+    const result: Array<{ text: string; highlighted: boolean }> = [];
+    let cursor = 0;
+
+    highlights.forEach(range => {
+      if (range.start > cursor) {
+        result.push({ text: text.slice(cursor, range.start), highlighted: false });
+      }
+      result.push({ text: text.slice(range.start, range.end), highlighted: true });
+      cursor = range.end;
+    });
+
+    if (cursor < text.length) {
+      result.push({ text: text.slice(cursor), highlighted: false });
+    }
+
+    return result;
+  }, [text, highlights]);
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {segments.map((segment, index) => (
+        <Text key={index} style={segment.highlighted ? highlightStyle : undefined}>
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { memo, useMemo, useCallback } from 'react';
+import React, { memo, useMemo, useCallback, useState } from 'react';
 import {
   View,
   Text,
@@ -9,6 +9,7 @@ import {
   Platform,
   Image,
   Alert,
+  TextInput,
 } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import Markdown from 'react-native-markdown-display';
@@ -19,19 +20,40 @@ interface MessageBubbleProps {
   onRetry?: () => void;
   onPlayAudio?: () => void;
   isAudioPlaying?: boolean;
+  // Editing a user message forks the conversation from that point
+  onEdit?: (content: string) => void;
+  // Position among sibling branches, when the message has alternatives
+  branchPosition?: { index: number; count: number };
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  // Assistant messages: ask again (optionally with another model) and compare the alternatives
+  onRegenerate?: () => void;
+  onCompare?: () => void;
+  // Briefly set when the message is opened from search results
+  isHighlighted?: boolean;
 }
 
 const { width: screenWidth } = Dimensions.get('window');
 const isTablet = screenWidth > 768;
 
+// Appended to partial assistant output while a response is streaming in
+const STREAMING_CURSOR = ' ▍';
+
 const MessageBubbleComponent = ({
   message,
   onRetry,
   onPlayAudio,
   isAudioPlaying,
+  onEdit,
+  branchPosition,
+  onSwitchBranch,
+  onRegenerate,
+  onCompare,
+  isHighlighted,
 }: MessageBubbleProps) => {
   const isUser = message.role === 'user';
   const isAssistant = message.role === 'assistant';
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(message.content);
   
   // Memoize expensive calculations
   const formattedTime = useMemo(() => {
@@ -46,7 +68,8 @@ const MessageBubbleComponent = ({
   const containerStyle = useMemo(() => [
     styles.messageContainer,
     isUser ? styles.userMessageContainer : styles.assistantMessageContainer,
-  ], [isUser]);
+    isHighlighted && styles.highlightedMessage,
+  ], [isUser, isHighlighted]);
 
   const bubbleStyle = useMemo(() => [
     isUser ? styles.userBubble : styles.assistantMessage,
@@ -244,6 +267,97 @@ const MessageBubbleComponent = ({
     </TouchableOpacity>
   ), [handleCopyMessage]);
 
+  const startEditing = useCallback(() => {
+    setEditText(message.content);
+    setIsEditing(true);
+  }, [message.content]);
+
+  const cancelEditing = useCallback(() => {
+    setIsEditing(false);
+    setEditText(message.content);
+  }, [message.content]);
+
+  const submitEdit = useCallback(() => {
+    const content = editText.trim();
+    setIsEditing(false);
+    if (content && content !== message.content.trim()) {
+      onEdit?.(content);
+    }
+  }, [editText, message.content, onEdit]);
+
+  const renderEditButton = useCallback(() => {
+    if (!onEdit) return null;
+
+    return (
+      <TouchableOpacity
+        style={styles.copyButton}
+        onPress={startEditing}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Text style={styles.copyButtonText}>✏️</Text>
+      </TouchableOpacity>
+    );
+  }, [onEdit, startEditing]);
+
+  const renderRegenerateButton = useCallback(() => {
+    if (!onRegenerate) return null;
+
+    return (
+      <TouchableOpacity
+        style={styles.copyButton}
+        onPress={onRegenerate}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Text style={styles.copyButtonText}>🔄</Text>
+      </TouchableOpacity>
+    );
+  }, [onRegenerate]);
+
+  const renderCompareButton = useCallback(() => {
+    if (!onCompare || !branchPosition || branchPosition.count < 2) return null;
+
+    return (
+      <TouchableOpacity
+        style={styles.copyButton}
+        onPress={onCompare}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Text style={styles.copyButtonText}>⚖️</Text>
+      </TouchableOpacity>
+    );
+  }, [onCompare, branchPosition]);
+
+  // "‹ 2 / 3 ›" switcher between sibling branches
+  const renderBranchSwitcher = useCallback((light: boolean) => {
+    if (!branchPosition || branchPosition.count < 2) return null;
+
+    const canGoBack = branchPosition.index > 0;
+    const canGoForward = branchPosition.index < branchPosition.count - 1;
+    const textStyle = [styles.branchText, light && styles.branchTextLight];
+
+    return (
+      <View style={styles.branchSwitcher}>
+        <TouchableOpacity
+          onPress={() => onSwitchBranch?.(-1)}
+          disabled={!canGoBack || !onSwitchBranch}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 4 }}
+        >
+          <Text style={[textStyle, !canGoBack && styles.branchArrowDisabled]}>‹</Text>
+        </TouchableOpacity>
+        <Text style={textStyle}>
+          {branchPosition.index + 1} / {branchPosition.count}
+        </Text>
+        <TouchableOpacity
+          onPress={() => onSwitchBranch?.(1)}
+          disabled={!canGoForward || !onSwitchBranch}
+          hitSlop={{ top: 8, bottom: 8, left: 4, right: 8 }}
+        >
+          <Text style={[textStyle, !canGoForward && styles.branchArrowDisabled]}>›</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }, [branchPosition, onSwitchBranch]);
+
   const renderImage = useCallback(() => {
     const imageSource = message.imageUrl || (message.imageBase64 ? `data:image/jpeg;base64,${message.imageBase64}` : null);
     if (!imageSource) return null;
@@ -270,9 +384,33 @@ const MessageBubbleComponent = ({
             <>
               {renderImage()}
               
-              <Text style={messageTextStyle}>
-                {message.content}
-              </Text>
+              {isEditing ? (
+                <View>
+                  <TextInput
+                    style={styles.editInput}
+                    value={editText}
+                    onChangeText={setEditText}
+                    multiline
+                    autoFocus
+                  />
+                  <View style={styles.editActions}>
+                    <TouchableOpacity style={styles.editButton} onPress={cancelEditing}>
+                      <Text style={styles.editButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.editButton, styles.editButtonPrimary]}
+                      onPress={submitEdit}
+                      disabled={!editText.trim()}
+                    >
+                      <Text style={[styles.editButtonText, styles.editButtonTextPrimary]}>Send</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <Text style={messageTextStyle}>
+                  {message.content}
+                </Text>
+              )}
               
               {message.error && renderError()}
               
@@ -282,8 +420,10 @@ const MessageBubbleComponent = ({
                 </Text>
                 
                 <View style={styles.messageActions}>
+                  {renderBranchSwitcher(true)}
                   {renderTokenCount()}
                   {renderAudioButton()}
+                  {!isEditing && renderEditButton()}
                   {renderCopyButton()}
                 </View>
               </View>
@@ -296,7 +436,7 @@ const MessageBubbleComponent = ({
 
   // Assistant message - full width, no bubble
   return (
-    <View style={styles.assistantContainer}>
+    <View style={[styles.assistantContainer, isHighlighted && styles.highlightedMessage]}>
       <View style={styles.assistantAvatar}>
         <Text style={styles.assistantAvatarText}>🎩</Text>
       </View>
@@ -309,24 +449,38 @@ const MessageBubbleComponent = ({
             {renderImage()}
             
             <Markdown style={markdownStyles}>
-              {message.content}
+              {message.isStreaming ? `${message.content}${STREAMING_CURSOR}` : message.content}
             </Markdown>
             
             {message.error && renderError()}
             
-            {renderGroundingSources()}
-            
-            <View style={styles.assistantFooter}>
-              <Text style={timestampStyle}>
-                {formattedTime}
-              </Text>
-              
-              <View style={styles.messageActions}>
-                {renderTokenCount()}
-                {renderAudioButton()}
-                {renderCopyButton()}
-              </View>
-            </View>
+            {/* Sources and actions only make sense once the response is complete */}
+            {!message.isStreaming && (
+              <>
+                {renderGroundingSources()}
+                
+                <View style={styles.assistantFooter}>
+                  <Text style={timestampStyle}>
+                    {formattedTime}
+                    {message.metadata?.stopped && (
+                      <Text style={styles.stoppedLabel}>  ·  Stopped</Text>
+                    )}
+                    {message.metadata?.speechInterrupted && (
+                      <Text style={styles.stoppedLabel}>  ·  Interrupted</Text>
+                    )}
+                  </Text>
+                  
+                  <View style={styles.messageActions}>
+                    {renderBranchSwitcher(false)}
+                    {renderTokenCount()}
+                    {renderAudioButton()}
+                    {renderCompareButton()}
+                    {renderRegenerateButton()}
+                    {renderCopyButton()}
+                  </View>
+                </View>
+              </>
+            )}
           </>
         )}
       </View>
@@ -340,10 +494,18 @@ export const MessageBubble = memo(MessageBubbleComponent, (prevProps, nextProps)
     prevProps.message.id === nextProps.message.id &&
     prevProps.message.content === nextProps.message.content &&
     prevProps.message.isLoading === nextProps.message.isLoading &&
+    prevProps.message.isStreaming === nextProps.message.isStreaming &&
+    prevProps.message.metadata?.stopped === nextProps.message.metadata?.stopped &&
+    prevProps.message.metadata?.speechInterrupted === nextProps.message.metadata?.speechInterrupted &&
     prevProps.message.error === nextProps.message.error &&
     prevProps.message.imageUrl === nextProps.message.imageUrl &&
     prevProps.message.imageBase64 === nextProps.message.imageBase64 &&
     prevProps.isAudioPlaying === nextProps.isAudioPlaying &&
+    prevProps.isHighlighted === nextProps.isHighlighted &&
+    !!prevProps.onEdit === !!nextProps.onEdit &&
+    !!prevProps.onRegenerate === !!nextProps.onRegenerate &&
+    prevProps.branchPosition?.index === nextProps.branchPosition?.index &&
+    prevProps.branchPosition?.count === nextProps.branchPosition?.count &&
     prevProps.message.timestamp.getTime() === nextProps.message.timestamp.getTime()
   );
 });
@@ -385,6 +547,9 @@ const styles = StyleSheet.create({
     // This is not used anymore - replaced by assistantContainer
   },
   // New ChatGPT-style assistant layout
+  highlightedMessage: {
+    backgroundColor: '#FFF8D6',
+  },
   assistantContainer: {
     flexDirection: 'row',
     paddingHorizontal: 16,
@@ -447,6 +612,9 @@ const styles = StyleSheet.create({
   assistantTimestamp: {
     color: '#666666',
   },
+  stoppedLabel: {
+    fontStyle: 'italic',
+  },
   tokenCount: {
     fontSize: 11,
     color: '#666666',
@@ -556,4 +724,54 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.7,
   },
+  branchSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  branchText: {
+    fontSize: 12,
+    color: '#666666',
+    fontWeight: '500',
+  },
+  branchTextLight: {
+    color: '#FFFFFF',
+  },
+  branchArrowDisabled: {
+    opacity: 0.3,
+  },
+  editInput: {
+    minWidth: 200,
+    maxHeight: 200,
+    fontSize: 16,
+    lineHeight: 22,
+    color: '#000000',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  editButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  editButtonPrimary: {
+    backgroundColor: '#FFFFFF',
+  },
+  editButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  editButtonTextPrimary: {
+    color: '#007AFF',
+  },
 });
\ No newline at end of file
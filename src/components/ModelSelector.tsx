@@ -6,6 +6,7 @@ import {
   StyleSheet,
 } from 'react-native';
 import { ModelType } from '@/types';
+import { getRegisteredModels } from '@/services/chatProviders';
 
 interface ModelSelectorProps {
   selectedModel: ModelType;
@@ -13,24 +14,10 @@ interface ModelSelectorProps {
   style?: any;
 }
 
-const modelInfo = {
-  'gpt-4o': {
-    name: 'GPT-4o',
-    description: 'OpenAI\'s most capable model',
-    color: '#10A37F',
-  },
-  'gemini-2.5-flash': {
-    name: 'Gemini 2.5 Flash',
-    description: 'Google\'s fastest multimodal model',
-    color: '#4285F4',
-  },
-} as const;
-
 export function ModelSelector({ selectedModel, onModelSelect, style }: ModelSelectorProps) {
   return (
     <View style={[styles.container, style]}>
-      {Object.entries(modelInfo).map(([modelKey, info]) => {
-        const model = modelKey as ModelType;
+      {getRegisteredModels().map(({ model, info }) => {
         const isSelected = selectedModel === model;
         
         return (
@@ -0,0 +1,102 @@
+import React from 'react';
+import {
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Persona } from '@/types';
+
+interface PersonaSelectorProps {
+  personas: Persona[];
+  selectedPersonaId: string;
+  onPersonaSelect: (persona: Persona) => void;
+  onManagePersonas?: () => void;
+  style?: any;
+}
+
+export function PersonaSelector({
+  personas,
+  selectedPersonaId,
+  onPersonaSelect,
+  onManagePersonas,
+  style,
+}: PersonaSelectorProps) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={style}
+      contentContainerStyle={styles.container}
+    >
+      {personas.map((persona) => {
+        const isSelected = persona.id === selectedPersonaId;
+
+        return (
+          <TouchableOpacity
+            key={persona.id}
+            style={[styles.chip, isSelected && styles.selectedChip]}
+            onPress={() => onPersonaSelect(persona)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.chipIcon}>{persona.icon}</Text>
+            <Text style={[styles.chipName, isSelected && styles.selectedChipName]} numberOfLines={1}>
+              {persona.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+      {onManagePersonas && (
+        <TouchableOpacity
+          style={[styles.chip, styles.manageChip]}
+          onPress={onManagePersonas}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.manageChipText}>Edit…</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 2,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#FFFFFF',
+    maxWidth: 180,
+  },
+  selectedChip: {
+    borderColor: '#007AFF',
+    backgroundColor: '#F0F7FF',
+  },
+  chipIcon: {
+    fontSize: 16,
+    marginRight: 6,
+  },
+  chipName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  selectedChipName: {
+    color: '#007AFF',
+  },
+  manageChip: {
+    borderStyle: 'dashed',
+  },
+  manageChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666666',
+  },
+});
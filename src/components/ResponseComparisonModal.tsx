@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Dimensions,
+  FlatList,
+  ScrollView,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Markdown from 'react-native-markdown-display';
+import { Message, ModelType } from '@/types';
+import { getChatProviderInfo } from '@/services/chatProviders';
+
+interface ResponseComparisonModalProps {
+  isVisible: boolean;
+  // Alternative responses to the same message, oldest first
+  responses: Message[];
+  activeResponseId: string | null;
+  onSelect: (messageId: string) => void;
+  onClose: () => void;
+}
+
+const { width: screenWidth } = Dimensions.get('window');
+
+const formatLatency = (processingTime?: number): string => {
+  if (!processingTime) return '—';
+  return processingTime < 1000 ? `${processingTime} ms` : `${(processingTime / 1000).toFixed(1)} s`;
+};
+
+const getModelLabel = (model?: string): string => {
+  if (!model) return 'Unknown model';
+  return getChatProviderInfo(model as ModelType)?.name ?? model;
+};
+
+const getModelColor = (model?: string): string =>
+  (model && getChatProviderInfo(model as ModelType)?.color) || '#8E8E93';
+
+export function ResponseComparisonModal({
+  isVisible,
+  responses,
+  activeResponseId,
+  onSelect,
+  onClose,
+}: ResponseComparisonModalProps) {
+  const insets = useSafeAreaInsets();
+  const listRef = useRef<FlatList<Message>>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+
+  // Open on the response currently shown in the conversation
+  useEffect(() => {
+    if (!isVisible) return;
+
+    const activeIndex = Math.max(0, responses.findIndex(response => response.id === activeResponseId));
+    setPageIndex(activeIndex);
+    setTimeout(() => {
+      listRef.current?.scrollToOffset({ offset: activeIndex * screenWidth, animated: false });
+    }, 0);
+  }, [isVisible, activeResponseId, responses]);
+
+  const handleScrollEnd = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setPageIndex(Math.round(event.nativeEvent.contentOffset.x / screenWidth));
+  }, []);
+
+  const renderResponse = useCallback(({ item, index }: { item: Message; index: number }) => {
+    const usage = item.metadata?.usage;
+    const isActive = item.id === activeResponseId;
+
+    return (
+      <View style={styles.page}>
+        <View style={styles.statsCard}>
+          <View style={styles.modelRow}>
+            <View style={[styles.modelDot, { backgroundColor: getModelColor(item.metadata?.model) }]} />
+            <Text style={styles.modelName} numberOfLines={1}>
+              {getModelLabel(item.metadata?.model)}
+            </Text>
+            <Text style={styles.pageLabel}>
+              {index + 1} / {responses.length}
+            </Text>
+          </View>
+
+          <View style={styles.statsRow}>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{formatLatency(item.metadata?.processingTime)}</Text>
+              <Text style={styles.statLabel}>Latency</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{usage?.promptTokens ?? '—'}</Text>
+              <Text style={styles.statLabel}>Prompt</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{usage?.completionTokens ?? item.tokenCount ?? '—'}</Text>
+              <Text style={styles.statLabel}>Completion</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{usage?.totalTokens ?? '—'}</Text>
+              <Text style={styles.statLabel}>Total</Text>
+            </View>
+          </View>
+        </View>
+
+        <ScrollView style={styles.responseScroll} contentContainerStyle={styles.responseContent}>
+          <Markdown>{item.content}</Markdown>
+          {item.metadata?.stopped && (
+            <Text style={styles.stoppedLabel}>Stopped before completion</Text>
+          )}
+        </ScrollView>
+
+        <TouchableOpacity
+          style={[styles.selectButton, isActive && styles.selectButtonActive]}
+          onPress={() => onSelect(item.id)}
+          disabled={isActive}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.selectButtonText, isActive && styles.selectButtonTextActive]}>
+            {isActive ? 'Shown in conversation' : 'Use this response'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }, [activeResponseId, responses.length, onSelect]);
+
+  if (!isVisible) return null;
+
+  return (
+    <Modal
+      visible={isVisible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { paddingBottom: insets.bottom + 12 }]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.headerSpacer} />
+          <Text style={styles.headerTitle}>Compare Responses</Text>
+          <TouchableOpacity
+            onPress={onClose}
+            style={styles.closeButton}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.closeButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          ref={listRef}
+          data={responses}
+          renderItem={renderResponse}
+          keyExtractor={(item) => item.id}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          onMomentumScrollEnd={handleScrollEnd}
+          getItemLayout={(_, index) => ({ length: screenWidth, offset: screenWidth * index, index })}
+        />
+
+        {/* Page indicator */}
+        <View style={styles.dots}>
+          {responses.map((response, index) => (
+            <View
+              key={response.id}
+              style={[styles.dot, index === pageIndex && styles.dotActive]}
+            />
+          ))}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  closeButton: {
+    width: 50,
+    alignItems: 'flex-end',
+  },
+  closeButtonText: {
+    fontSize: 17,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  page: {
+    width: screenWidth,
+    padding: 16,
+  },
+  statsCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  modelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modelDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  modelName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  pageLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  statLabel: {
+    fontSize: 11,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  responseScroll: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+  },
+  responseContent: {
+    padding: 16,
+  },
+  stoppedLabel: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+  selectButton: {
+    marginTop: 12,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  selectButtonActive: {
+    backgroundColor: '#E5E5EA',
+  },
+  selectButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  selectButtonTextActive: {
+    color: '#8E8E93',
+  },
+  dots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+    paddingTop: 4,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#C7C7CC',
+  },
+  dotActive: {
+    backgroundColor: '#007AFF',
+  },
+});
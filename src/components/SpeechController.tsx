@@ -9,8 +9,11 @@ import {
 } from 'react-native';
 import { Audio } from 'expo-av';
 import * as Haptics from 'expo-haptics';
+import * as Speech from 'expo-speech';
 
 import { SpeakingIndicator, SpeakingState } from './SpeakingIndicator';
+import { TextToSpeechService } from '@/services/TextToSpeechService';
+import { VoiceType } from '@/types';
 
 export type SpeechControllerState = 'idle' | 'preparing' | 'speaking' | 'paused' | 'stopping' | 'stopped' | 'error';
 
@@ -18,7 +21,7 @@ export interface SpeechQueueItem {
   id: string;
   text: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
-  voice?: string;
+  voice?: VoiceType;
   speed?: number;
   volume?: number;
   onStart?: () => void;
@@ -27,7 +30,8 @@ export interface SpeechQueueItem {
 }
 
 interface SpeechControllerProps {
-  onSpeechRequest?: (text: string, options?: any) => Promise<string>; // Returns audio URI
+  // Returns audio URI; defaults to TextToSpeechService with the app's voice settings
+  onSpeechRequest?: (text: string, options?: any) => Promise<string>;
   onStateChange?: (state: SpeechControllerState) => void;
   autoPlay?: boolean;
   allowInterruption?: boolean;
@@ -56,6 +60,8 @@ export function SpeechController({
   const [currentItem, setCurrentItem] = useState<SpeechQueueItem | null>(null);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [progress, setProgress] = useState(0);
+  // The current item is read by the device voice instead of a loaded sound
+  const deviceSpeechRef = useRef(false);
 
   // Animation refs
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -176,6 +182,10 @@ export function SpeechController({
   };
 
   const cleanup = async () => {
+    if (deviceSpeechRef.current) {
+      deviceSpeechRef.current = false;
+      Speech.stop();
+    }
     if (sound) {
       try {
         await sound.unloadAsync();
@@ -256,12 +266,6 @@ export function SpeechController({
   };
 
   const startSpeech = async (item: SpeechQueueItem) => {
-    if (!onSpeechRequest) {
-      updateState('error');
-      item.onError?.('No speech request handler provided');
-      return;
-    }
-
     try {
       updateState('preparing');
       setProgress(0);
@@ -269,11 +273,26 @@ export function SpeechController({
       item.onStart?.();
 
       // Request speech synthesis
-      const audioUri = await onSpeechRequest(item.text, {
-        voice: item.voice,
-        speed: item.speed,
-        volume: item.volume,
-      });
+      let audioUri: string;
+      if (onSpeechRequest) {
+        audioUri = await onSpeechRequest(item.text, {
+          voice: item.voice,
+          speed: item.speed,
+          volume: item.volume,
+        });
+      } else {
+        try {
+          audioUri = await TextToSpeechService.synthesize(item.text, {
+            voice: item.voice,
+            speed: item.speed,
+          });
+        } catch (error) {
+          // No key, no network or over budget: read it with the device voice instead
+          console.warn('TTS unavailable, using the device voice:', error);
+          speakWithDevice(item);
+          return;
+        }
+      }
 
       // Load and play audio
       updateState('speaking');
@@ -304,6 +323,27 @@ export function SpeechController({
     }
   };
 
+  const speakWithDevice = (item: SpeechQueueItem) => {
+    deviceSpeechRef.current = true;
+    updateState('speaking');
+    Speech.speak(item.text, {
+      rate: item.speed,
+      volume: item.volume,
+      onDone: () => {
+        deviceSpeechRef.current = false;
+        handleSpeechComplete();
+      },
+      onError: (error) => {
+        deviceSpeechRef.current = false;
+        console.error('Device speech error:', error);
+        updateState('error');
+        item.onError?.(error.message || 'Speech synthesis failed');
+        setCurrentItem(null);
+      },
+    });
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+  };
+
   const onPlaybackStatusUpdate = (status: any) => {
     if (status.isLoaded) {
       const progressPercent = status.durationMillis > 0 
@@ -340,7 +380,11 @@ export function SpeechController({
 
     try {
       updateState('stopping');
-      
+
+      if (deviceSpeechRef.current) {
+        deviceSpeechRef.current = false;
+        Speech.stop();
+      }
       if (sound) {
         await sound.stopAsync();
         await sound.unloadAsync();
@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Dimensions,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BlurView } from 'expo-blur';
+import { PromptTemplate } from '@/types';
+import { extractVariables, formatVariableLabel, renderTemplate } from '@/utils/promptTemplates';
+
+interface TemplateVariablesModalProps {
+  template: PromptTemplate | null;
+  onInsert: (prompt: string) => void;
+  onCancel: () => void;
+}
+
+const { height: screenHeight } = Dimensions.get('window');
+
+export function TemplateVariablesModal({ template, onInsert, onCancel }: TemplateVariablesModalProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const insets = useSafeAreaInsets();
+
+  const variables = template ? extractVariables(template.content) : [];
+
+  // Start each template with an empty form
+  useEffect(() => {
+    setValues({});
+  }, [template?.id]);
+
+  if (!template) return null;
+
+  const canInsert = variables.every(name => values[name]?.trim());
+
+  return (
+    <Modal
+      visible
+      transparent
+      animationType="slide"
+      statusBarTranslucent
+      onRequestClose={onCancel}
+    >
+      <BlurView intensity={20} style={styles.overlay}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={[styles.modal, { paddingBottom: insets.bottom + 20 }]}>
+            {/* Header */}
+            <View style={styles.header}>
+              <TouchableOpacity
+                onPress={onCancel}
+                style={styles.cancelButton}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.headerTitle} numberOfLines={1}>/{template.command}</Text>
+              <TouchableOpacity
+                onPress={() => onInsert(renderTemplate(template.content, values))}
+                style={[
+                  styles.insertButton,
+                  canInsert ? styles.insertButtonActive : styles.insertButtonDisabled,
+                ]}
+                disabled={!canInsert}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.insertButtonText}>Insert</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+              {variables.map((name, index) => (
+                <View key={name} style={styles.inputSection}>
+                  <Text style={styles.inputLabel}>{formatVariableLabel(name)}</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={values[name] || ''}
+                    onChangeText={(text) => setValues(prev => ({ ...prev, [name]: text }))}
+                    placeholderTextColor="#8E8E93"
+                    multiline
+                    autoFocus={index === 0}
+                  />
+                </View>
+              ))}
+
+              {/* Preview */}
+              <View style={styles.inputSection}>
+                <Text style={styles.inputLabel}>Preview</Text>
+                <Text style={styles.previewText}>{renderTemplate(template.content, values)}</Text>
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: screenHeight * 0.9,
+    minHeight: screenHeight * 0.5,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+    minHeight: 64,
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    minWidth: 80,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    textAlign: 'center',
+  },
+  insertButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 22,
+    minWidth: 80,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  insertButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  insertButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  insertButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  inputSection: {
+    marginTop: 20,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#000000',
+    minHeight: 48,
+    maxHeight: 140,
+    textAlignVertical: 'top',
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+  },
+});
@@ -26,6 +26,8 @@ interface VoiceConversationOverlayProps {
   onStopListening: () => void;
   onToggleListening: () => void;
   isListening: boolean;
+  // Voice activity detection has heard the user in the current turn
+  isSpeechDetected?: boolean;
   currentText?: string;
   responseText?: string;
   enableHaptics?: boolean;
@@ -39,6 +41,7 @@ export const VoiceConversationOverlay: React.FC<VoiceConversationOverlayProps> =
   onStopListening,
   onToggleListening,
   isListening,
+  isSpeechDetected = false,
   currentText = '',
   responseText = '',
   enableHaptics = true,
@@ -228,7 +231,7 @@ export const VoiceConversationOverlay: React.FC<VoiceConversationOverlayProps> =
   const getStateText = () => {
     switch (voiceState) {
       case 'listening':
-        return 'Listening...';
+        return isSpeechDetected ? 'Listening... pause when you\'re done' : 'Listening...';
       case 'processing':
         return 'Processing...';
       case 'speaking':
@@ -38,6 +38,8 @@ export function VoiceOutputTestScreen() {
   const [currentVolume, setCurrentVolume] = useState(0.8);
   const [isMuted, setIsMuted] = useState(false);
   const [useSystemVolume, setUseSystemVolume] = useState(false);
+  // Real synthesis calls the paid TTS API, so it is opt-in
+  const [useRealSpeech, setUseRealSpeech] = useState(false);
 
   // Audio states for testing
   const [playbackState, setPlaybackState] = useState<PlaybackState>('idle');
@@ -488,9 +490,21 @@ export function VoiceOutputTestScreen() {
       <Text style={[styles.sectionTitle, { color: colors.text }]}>
         Speech Controller
       </Text>
+
+      <View style={styles.speechToggle}>
+        <Text style={[styles.themeLabel, { color: colors.textSecondary }]}>
+          Real TTS (billed)
+        </Text>
+        <Switch
+          value={useRealSpeech}
+          onValueChange={setUseRealSpeech}
+          trackColor={{ false: colors.border, true: colors.primary + '80' }}
+          thumbColor={useRealSpeech ? colors.primary : colors.textSecondary}
+        />
+      </View>
       
       <SpeechController
-        onSpeechRequest={mockSpeechRequest}
+        onSpeechRequest={useRealSpeech ? undefined : mockSpeechRequest}
         style={[styles.component, { backgroundColor: colors.card }]}
         size="large"
         theme={theme}
@@ -587,6 +601,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  speechToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
   navigation: {
     maxHeight: 60,
   },
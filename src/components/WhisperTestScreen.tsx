@@ -220,6 +220,12 @@ export function WhisperTestScreen() {
           </Text>
         )}
 
+        {!!progress.totalSegments && (
+          <Text style={styles.progressDetails}>
+            {progress.segmentsCompleted || 0} of {progress.totalSegments} segments transcribed
+          </Text>
+        )}
+
         {canCancel && (
           <TouchableOpacity
             style={styles.cancelButton}
@@ -1,5 +1,7 @@
 // Cost optimization configuration for OpenAI API usage
 
+import { RealtimeUsage } from '@/types';
+
 export interface CostOptimizationConfig {
   // Context management
   maxContextMessages: number;      // Maximum messages to send as context
@@ -22,7 +24,7 @@ export interface CostOptimizationConfig {
 export const DEFAULT_COST_OPTIMIZATION: CostOptimizationConfig = {
   // Context management - reduces input token costs
   maxContextMessages: 20,          // ~10 conversation exchanges
-  maxContextTokens: 3000,          // ~$0.003 per request at GPT-4 rates
+  maxContextTokens: 3000,          // ~$0.0075 per request at GPT-4o rates
   
   // Model selection - use cheaper models when possible
   useGPT4ForComplexTasks: true,
@@ -65,15 +67,49 @@ export const QUALITY_FIRST_CONFIG: CostOptimizationConfig = {
 // Cost estimation helpers
 export const estimateTokenCost = (inputTokens: number, outputTokens: number, model: string = 'gpt-4o') => {
   const rates = {
-    'gpt-4o': { input: 0.005, output: 0.015 },      // per 1K tokens
+    'gpt-4o': { input: 0.0025, output: 0.01 },      // per 1K tokens
     'gpt-4': { input: 0.03, output: 0.06 },
-    'gpt-3.5-turbo': { input: 0.001, output: 0.002 },
+    'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
+    'gemini-2.5-flash': { input: 0.0003, output: 0.0025 },
+    'claude-sonnet-4-5': { input: 0.003, output: 0.015 },
   };
   
   const rate = rates[model as keyof typeof rates] || rates['gpt-4o'];
   return (inputTokens / 1000) * rate.input + (outputTokens / 1000) * rate.output;
 };
 
+// Audio and search pricing, for the usage ledger
+export const WHISPER_COST_PER_MINUTE = 0.006;
+export const TAVILY_COST_PER_SEARCH = 0.008;
+
+export const estimateTranscriptionCost = (audioSeconds: number) =>
+  (audioSeconds / 60) * WHISPER_COST_PER_MINUTE;
+
+// Embeddings bill input tokens only (per 1K tokens)
+export const estimateEmbeddingCost = (tokens: number, model: string = 'text-embedding-3-small') => {
+  const ratePer1KTokens = model === 'text-embedding-3-large' ? 0.00013 : 0.00002;
+  return (tokens / 1000) * ratePer1KTokens;
+};
+
+export const estimateSpeechCost = (characters: number, model: string = 'tts-1') => {
+  const ratePer1KCharacters = model === 'tts-1-hd' ? 0.03 : 0.015;
+  return (characters / 1000) * ratePer1KCharacters;
+};
+
+// Realtime speech-to-speech bills audio tokens far above text tokens (per 1K tokens)
+const REALTIME_RATES = {
+  textInput: 0.005,
+  textOutput: 0.02,
+  audioInput: 0.04,
+  audioOutput: 0.08,
+};
+
+export const estimateRealtimeCost = (usage: RealtimeUsage) =>
+  ((usage.inputTokens - usage.inputAudioTokens) / 1000) * REALTIME_RATES.textInput +
+  (usage.inputAudioTokens / 1000) * REALTIME_RATES.audioInput +
+  ((usage.outputTokens - usage.outputAudioTokens) / 1000) * REALTIME_RATES.textOutput +
+  (usage.outputAudioTokens / 1000) * REALTIME_RATES.audioOutput;
+
 export const getOptimizationStrategy = (totalMessages: number): CostOptimizationConfig => {
   if (totalMessages < 10) {
     return DEFAULT_COST_OPTIMIZATION;
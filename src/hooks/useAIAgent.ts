@@ -1,8 +1,12 @@
 import { useState, useCallback, useRef } from 'react';
 import { Alert } from 'react-native';
-import { getOpenAIService } from '@/services/OpenAIService';
+import { ChatProvider, getChatProvider, StreamDeltaHandler } from '@/services/chatProviders';
 import { AIAgentService } from '@/services/AIAgentService';
-import { Message, OpenAIError } from '@/types';
+import { Message, ModelType, OpenAIError } from '@/types';
+import { isAbortError, withConversationSummary, withMemories } from '@/utils/openai';
+import { MemoryStorageService } from '@/services/memoryStorage';
+import { ContextSummary, ConversationSummaryService } from '@/services/conversationSummary';
+import { isBudgetExceededError, UsageLedgerService } from '@/services/usageLedger';
 
 interface UseAIAgentState {
   isLoading: boolean;
@@ -12,16 +16,76 @@ interface UseAIAgentState {
 }
 
 interface UseAIAgentOptions {
+  model?: ModelType;
+  // Conversation the queries belong to, for the usage ledger
   conversationId?: string;
   systemPrompt?: string;
-  onSuccess?: (response: string) => void;
+  temperature?: number;
+  maxTokens?: number;
+  onSuccess?: (message: Message) => void;
   onError?: (error: OpenAIError | Error) => void;
+  onCancel?: () => void;
   onStepUpdate?: (step: string) => void;
+  onDelta?: StreamDeltaHandler;
   enableWebSearch?: boolean;
   enableCalculator?: boolean;
   enableDateTime?: boolean;
+  // Add relevant long-term memories to the system prompt
+  memoryEnabled?: boolean;
+  // Tools the agent may use (from the persona); all tools when undefined
+  enabledTools?: string[];
+  // Rolling summary of the conversation's older messages
+  contextSummary?: ContextSummary;
+  // Called when older messages were folded into the summary, so it can be saved
+  onSummaryUpdate?: (summary: ContextSummary) => void;
 }
 
+const DEFAULT_MODEL: ModelType = 'gpt-4o';
+
+// Record which registered model answered and how long the whole request took
+const withResponseMetadata = (response: Message, model: ModelType, startedAt: number): Message => ({
+  ...response,
+  metadata: {
+    ...response.metadata,
+    model,
+    processingTime: Date.now() - startedAt,
+  },
+});
+
+// Memories relevant to the latest user message; memory problems never block a reply
+const loadMemories = async (messages: Message[]): Promise<string[]> => {
+  const latestUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+  try {
+    const memories = await MemoryStorageService.getRelevantMemories(latestUserMessage?.content || '');
+    return memories.map(memory => memory.content);
+  } catch (error) {
+    console.warn('Failed to load memories:', error);
+    return [];
+  }
+};
+
+// Fold history that overflows the context budget into the rolling summary
+const prepareContext = async (
+  messages: Message[],
+  provider: ChatProvider,
+  options: UseAIAgentOptions,
+  customOptions: Partial<UseAIAgentOptions> | undefined,
+  signal: AbortSignal
+) => {
+  const context = await ConversationSummaryService.prepareContext(
+    messages,
+    provider,
+    customOptions?.contextSummary ?? options.contextSummary,
+    signal,
+    customOptions?.conversationId ?? options.conversationId
+  );
+  if (context.summaryUpdated && context.summary) {
+    options.onSummaryUpdate?.(context.summary);
+    customOptions?.onSummaryUpdate?.(context.summary);
+  }
+  return context;
+};
+
 export function useAIAgent(options: UseAIAgentOptions = {}) {
   const [state, setState] = useState<UseAIAgentState>({
     isLoading: false,
@@ -31,43 +95,64 @@ export function useAIAgent(options: UseAIAgentOptions = {}) {
   });
 
   const agentRef = useRef<AIAgentService | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Resolve the provider for the requested model
+  const getProvider = useCallback((model?: ModelType): ChatProvider => {
+    try {
+      return getChatProvider(model || options.model || DEFAULT_MODEL);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to initialize chat provider';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      throw error;
+    }
+  }, [options.model]);
 
-  // Initialize AI Agent service
-  const getAgent = useCallback(() => {
+  // Initialize AI Agent service, pointing it at the selected provider
+  const getAgent = useCallback((model?: ModelType) => {
+    const provider = getProvider(model);
     if (!agentRef.current) {
-      try {
-        const openAIService = getOpenAIService();
-        agentRef.current = new AIAgentService(openAIService);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Failed to initialize AI Agent service';
-        setState(prev => ({ ...prev, error: errorMessage }));
-        throw error;
-      }
+      agentRef.current = new AIAgentService(provider);
+    } else {
+      agentRef.current.setProvider(provider);
     }
     return agentRef.current;
-  }, []);
+  }, [getProvider]);
+
+  // Reset state after the in-flight request was cancelled by the user
+  const handleCancelled = useCallback((customOptions?: Partial<UseAIAgentOptions>) => {
+    abortControllerRef.current = null;
+    setState(prev => ({
+      ...prev,
+      isLoading: false,
+      currentStep: null
+    }));
+
+    options.onCancel?.();
+    customOptions?.onCancel?.();
+  }, [options]);
 
   // Process query through AI Agent pipeline
   const processQuery = useCallback(async (
-    query: string,
-    conversationId?: string,
+    messages: Message[],
     customOptions?: Partial<UseAIAgentOptions>
-  ): Promise<string | null> => {
+  ): Promise<Message | null> => {
     try {
-      setState(prev => ({ 
-        ...prev, 
-        isLoading: true, 
-        error: null, 
-        currentStep: 'Analyzing query...', 
-        toolsUsed: [] 
+      setState(prev => ({
+        ...prev,
+        isLoading: true,
+        error: null,
+        currentStep: 'Analyzing query...',
+        toolsUsed: []
       }));
-      
-      const agent = getAgent();
-      const convId = conversationId || options.conversationId;
-      
-      if (!convId) {
-        throw new Error('Conversation ID is required for AI Agent processing');
-      }
+
+      await UsageLedgerService.assertWithinBudget();
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const startedAt = Date.now();
+
+      const agent = getAgent(customOptions?.model);
 
       // Step 1: Intent Analysis
       setState(prev => ({ ...prev, currentStep: 'Understanding your request...' }));
@@ -81,45 +166,63 @@ export function useAIAgent(options: UseAIAgentOptions = {}) {
       setState(prev => ({ ...prev, currentStep: 'Generating response...' }));
       options.onStepUpdate?.('Generating response...');
 
-      const response = await agent.processQuery(
-        query,
-        convId,
-        options.systemPrompt || customOptions?.systemPrompt
-      );
+      const context = await prepareContext(messages, agent.getProvider(), options, customOptions, abortController.signal);
+      const memoryEnabled = customOptions?.memoryEnabled ?? options.memoryEnabled;
+      const agentResponse = await agent.processQuery(context.messages, {
+        systemPrompt: withConversationSummary(
+          customOptions?.systemPrompt || options.systemPrompt,
+          context.summary?.summary
+        ),
+        memories: memoryEnabled ? await loadMemories(messages) : undefined,
+        temperature: customOptions?.temperature ?? options.temperature,
+        maxTokens: customOptions?.maxTokens ?? options.maxTokens,
+        enabledTools: customOptions?.enabledTools ?? options.enabledTools,
+        conversationId: customOptions?.conversationId ?? options.conversationId,
+        onDelta: customOptions?.onDelta || options.onDelta,
+        signal: abortController.signal,
+      });
+      const response = withResponseMetadata(agentResponse, agent.getProvider().model, startedAt);
 
-      // Get tools that were used
-      const availableTools = agent.getAvailableTools();
-      
-      setState(prev => ({ 
-        ...prev, 
-        isLoading: false, 
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
         currentStep: null,
-        toolsUsed: availableTools // This would need to be updated based on actual tools used
+        toolsUsed: response.metadata?.toolsUsed || []
       }));
-      
+
       options.onSuccess?.(response);
       customOptions?.onSuccess?.(response);
-      
+
       return response;
     } catch (error) {
+      if (isAbortError(error)) {
+        handleCancelled(customOptions);
+        return null;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Failed to process query with AI Agent';
-      setState(prev => ({ 
-        ...prev, 
-        error: errorMessage, 
-        isLoading: false, 
-        currentStep: null 
+      setState(prev => ({
+        ...prev,
+        error: errorMessage,
+        isLoading: false,
+        currentStep: null
       }));
-      
+
       options.onError?.(error as OpenAIError | Error);
       customOptions?.onError?.(error as OpenAIError | Error);
-      
+
+      // The budget dialog was already shown by the usage ledger
+      if (isBudgetExceededError(error)) {
+        return null;
+      }
+
       Alert.alert(
         'AI Agent Error',
         'Failed to process your request. Would you like to try with basic chat instead?',
         [
           { text: 'Cancel', style: 'cancel' },
-          { 
-            text: 'Use Basic Chat', 
+          {
+            text: 'Use Basic Chat',
             onPress: () => {
               // This would fallback to basic OpenAI service
               console.log('Falling back to basic chat...');
@@ -127,107 +230,94 @@ export function useAIAgent(options: UseAIAgentOptions = {}) {
           },
         ]
       );
-      
+
       return null;
     }
-  }, [options, getAgent]);
+  }, [options, getAgent, handleCancelled]);
 
   // Send message with Image (enhanced for AI Agent)
   const processImageQuery = useCallback(async (
-    message: Message,
-    conversationId?: string,
+    messages: Message[],
     customOptions?: Partial<UseAIAgentOptions>
-  ): Promise<string | null> => {
+  ): Promise<Message | null> => {
     try {
-      setState(prev => ({ 
-        ...prev, 
-        isLoading: true, 
-        error: null, 
-        currentStep: 'Analyzing image...', 
-        toolsUsed: [] 
+      setState(prev => ({
+        ...prev,
+        isLoading: true,
+        error: null,
+        currentStep: 'Analyzing image...',
+        toolsUsed: []
       }));
-      
-      const agent = getAgent();
-      const convId = conversationId || options.conversationId;
-      
-      if (!convId) {
-        throw new Error('Conversation ID is required for AI Agent processing');
+
+      await UsageLedgerService.assertWithinBudget();
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const startedAt = Date.now();
+
+      // Image messages go straight to the provider since the agent
+      // system is primarily for text-based tool calling
+      const provider = getProvider(customOptions?.model);
+      if (!provider.capabilities.vision) {
+        throw new Error(`${provider.model} does not support image input`);
       }
 
-      // For image messages, we still need to use the OpenAI service directly
-      // since the agent system is primarily for text-based tool calling
       setState(prev => ({ ...prev, currentStep: 'Processing image with AI...' }));
       options.onStepUpdate?.('Processing image with AI...');
 
-      // Get the OpenAI service directly for image processing
-      const openAIService = getOpenAIService();
-      const response = await openAIService.sendMessageWithContext(
-        message,
-        convId,
-        options.systemPrompt || customOptions?.systemPrompt
-      );
+      const context = await prepareContext(messages, provider, options, customOptions, abortController.signal);
+      const memoryEnabled = customOptions?.memoryEnabled ?? options.memoryEnabled;
+      const requestOptions = {
+        systemPrompt: withMemories(
+          withConversationSummary(customOptions?.systemPrompt || options.systemPrompt, context.summary?.summary),
+          memoryEnabled ? await loadMemories(messages) : undefined
+        ),
+        temperature: customOptions?.temperature ?? options.temperature,
+        maxTokens: customOptions?.maxTokens ?? options.maxTokens,
+        signal: abortController.signal,
+        conversationId: customOptions?.conversationId ?? options.conversationId,
+      };
+      const onDelta = customOptions?.onDelta || options.onDelta;
+      const providerResponse = onDelta && provider.capabilities.streaming
+        ? await provider.streamChat(context.messages, onDelta, requestOptions)
+        : await provider.sendChat(context.messages, requestOptions);
+      const response = withResponseMetadata(providerResponse, provider.model, startedAt);
 
-      if (response.choices[0]?.message?.content) {
-        const content = response.choices[0].message.content;
-        
-        setState(prev => ({ 
-          ...prev, 
-          isLoading: false, 
+      if (response.content) {
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
           currentStep: null,
           toolsUsed: ['ImageAnalysis']
         }));
-        
-        options.onSuccess?.(content);
-        customOptions?.onSuccess?.(content);
-        
-        return content;
+
+        options.onSuccess?.(response);
+        customOptions?.onSuccess?.(response);
+
+        return response;
       }
 
       throw new Error('No response content received');
     } catch (error) {
+      if (isAbortError(error)) {
+        handleCancelled(customOptions);
+        return null;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Failed to process image query';
-      setState(prev => ({ 
-        ...prev, 
-        error: errorMessage, 
-        isLoading: false, 
-        currentStep: null 
+      setState(prev => ({
+        ...prev,
+        error: errorMessage,
+        isLoading: false,
+        currentStep: null
       }));
-      
+
       options.onError?.(error as OpenAIError | Error);
       customOptions?.onError?.(error as OpenAIError | Error);
-      
-      return null;
-    }
-  }, [options, getAgent]);
 
-  // Set conversation history (pass through to OpenAI service)
-  const setConversationHistory = useCallback((
-    conversationId: string,
-    messages: Message[]
-  ) => {
-    try {
-      const agent = getAgent();
-      // Access the OpenAI service through the agent to set history
-      const openAIService = getOpenAIService();
-      openAIService.setConversationHistory(conversationId, messages);
-    } catch (error) {
-      console.error('[useAIAgent] Failed to set conversation history:', error);
+      return null;
     }
-  }, [getAgent]);
-
-  // Clear conversation history
-  const clearConversationHistory = useCallback((conversationId?: string) => {
-    try {
-      const openAIService = getOpenAIService();
-      if (conversationId) {
-        openAIService.clearConversationHistory(conversationId);
-      } else {
-        openAIService.clearAllConversationHistory();
-      }
-    } catch (error) {
-      console.error('[useAIAgent] Failed to clear conversation history:', error);
-    }
-  }, []);
+  }, [options, getProvider, handleCancelled]);
 
   // Get available tools
   const getAvailableTools = useCallback(() => {
@@ -240,6 +330,14 @@ export function useAIAgent(options: UseAIAgentOptions = {}) {
     }
   }, [getAgent]);
 
+  // Cancel the in-flight query, including queued requests and running tools
+  const cancelRequest = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+    }
+  }, []);
+
   // Clear error state
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }));
@@ -251,13 +349,12 @@ export function useAIAgent(options: UseAIAgentOptions = {}) {
     error: state.error,
     currentStep: state.currentStep,
     toolsUsed: state.toolsUsed,
-    
+
     // Actions
     processQuery,
     processImageQuery,
-    setConversationHistory,
-    clearConversationHistory,
     getAvailableTools,
+    cancelRequest,
     clearError,
   };
-}
\ No newline at end of file
+}
@@ -2,6 +2,7 @@ import { useState, useCallback, useRef } from 'react';
 import { Alert } from 'react-native';
 import { getOpenAIService, OpenAIService } from '@/services/OpenAIService';
 import { Message, OpenAIChatResponse, OpenAIError } from '@/types';
+import { isAbortError } from '@/utils/openai';
 
 interface UseOpenAIState {
   isLoading: boolean;
@@ -50,11 +51,14 @@ export function useOpenAI(options: UseOpenAIOptions = {}) {
     try {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
       
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
       const service = getService();
       const response = await service.sendSingleMessage(message, {
         max_tokens: 4000,
         temperature: 0.7,
-      });
+      }, abortController.signal);
 
       setState(prev => ({ ...prev, lastResponse: response, isLoading: false }));
       
@@ -63,6 +67,11 @@ export function useOpenAI(options: UseOpenAIOptions = {}) {
       
       return response;
     } catch (error) {
+      if (isAbortError(error)) {
+        setState(prev => ({ ...prev, isLoading: false }));
+        return null;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
       setState(prev => ({ ...prev, error: errorMessage, isLoading: false }));
       
@@ -93,6 +102,9 @@ export function useOpenAI(options: UseOpenAIOptions = {}) {
     try {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
       
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
       const service = getService();
       const convId = conversationId || options.conversationId;
       
@@ -107,7 +119,8 @@ export function useOpenAI(options: UseOpenAIOptions = {}) {
         {
           max_tokens: 4000,
           temperature: 0.7,
-        }
+        },
+        abortController.signal
       );
 
       setState(prev => ({ ...prev, lastResponse: response, isLoading: false }));
@@ -117,6 +130,11 @@ export function useOpenAI(options: UseOpenAIOptions = {}) {
       
       return response;
     } catch (error) {
+      if (isAbortError(error)) {
+        setState(prev => ({ ...prev, isLoading: false }));
+        return null;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Failed to send message with context';
       setState(prev => ({ ...prev, error: errorMessage, isLoading: false }));
       
@@ -141,11 +159,12 @@ export function useOpenAI(options: UseOpenAIOptions = {}) {
   // Set conversation history from existing messages
   const setConversationHistory = useCallback((
     conversationId: string,
-    messages: Message[]
+    messages: Message[],
+    activeLeafId?: string
   ) => {
     try {
       const service = getService();
-      service.setConversationHistory(conversationId, messages);
+      service.setConversationHistory(conversationId, messages, activeLeafId);
     } catch (error) {
       console.error('[useOpenAI] Failed to set conversation history:', error);
     }
@@ -0,0 +1,363 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import * as Haptics from 'expo-haptics';
+import { Message, VoiceType } from '@/types';
+import { UsageLedgerService } from '@/services/usageLedger';
+import { SpeechResult, TextToSpeechService } from '@/services/TextToSpeechService';
+import {
+  DEFAULT_REALTIME_URL,
+  RealtimeResponse,
+  RealtimeVoicePhase,
+  RealtimeVoiceService,
+} from '@/services/RealtimeVoiceService';
+import { isRealtimeVoiceSupported } from '@/services/realtimeAudio';
+import { base64ToBytes, bytesToBase64, extractWavData } from '@/utils/pcmAudio';
+import { VoiceModeActions, VoiceModeState, VoiceState } from './useVoiceMode';
+
+interface RealtimeVoiceModeConfig {
+  enableHaptics?: boolean;
+  // Realtime WebSocket endpoint; defaults to OpenAI
+  url?: string;
+  apiKey?: string;
+  voice?: VoiceType;
+  speechRate?: number;
+  instructions?: string;
+  // Conversation so far, sent to the model when the session opens
+  history?: Message[];
+  conversationId?: string;
+  // Milliseconds of silence after which the server ends the turn
+  silenceDuration?: number;
+  // Keep the mic open during replies so speaking interrupts them
+  bargeIn?: boolean;
+  onUserTranscript?: (text: string) => void;
+  onResponseComplete?: (response: RealtimeResponse) => void;
+  onError?: (error: string) => void;
+}
+
+type PhaseState = Pick<VoiceModeState, 'voiceState' | 'isListening' | 'isProcessing' | 'isSpeaking' | 'isSpeechDetected'>;
+
+// How each session phase is shown through the shared voice mode state
+const PHASE_STATES: Record<RealtimeVoicePhase, PhaseState> = {
+  connecting: { voiceState: 'processing', isListening: false, isProcessing: true, isSpeaking: false, isSpeechDetected: false },
+  listening: { voiceState: 'listening', isListening: true, isProcessing: false, isSpeaking: false, isSpeechDetected: false },
+  userSpeaking: { voiceState: 'listening', isListening: true, isProcessing: false, isSpeaking: false, isSpeechDetected: true },
+  thinking: { voiceState: 'processing', isListening: false, isProcessing: true, isSpeaking: false, isSpeechDetected: false },
+  speaking: { voiceState: 'speaking', isListening: false, isProcessing: false, isSpeaking: true, isSpeechDetected: false },
+};
+
+// No session: tapping the orb reconnects
+const DISCONNECTED_STATE: PhaseState = {
+  voiceState: 'idle',
+  isListening: false,
+  isProcessing: false,
+  isSpeaking: false,
+  isSpeechDetected: false,
+};
+
+/**
+ * Voice mode over a realtime speech-to-speech session. Exposes the same
+ * state and actions as useVoiceMode, so VoiceConversationOverlay drives
+ * either engine. The server detects turns, so the mic stays open for the
+ * whole session and tapping only ends a turn early or stops a reply.
+ */
+export const useRealtimeVoiceMode = (config: RealtimeVoiceModeConfig = {}): [VoiceModeState, VoiceModeActions] => {
+  const { enableHaptics = true } = config;
+
+  const [state, setState] = useState<VoiceModeState>({
+    isVoiceModeActive: false,
+    voiceState: 'idle',
+    isListening: false,
+    isProcessing: false,
+    isSpeaking: false,
+    isSpeechDetected: false,
+    currentTranscription: '',
+    currentResponse: '',
+    error: null,
+    recordingUri: null,
+    audioPermission: false,
+  });
+
+  const serviceRef = useRef<RealtimeVoiceService | null>(null);
+  // Aborted to stop a reply spoken through speakResponse
+  const speechSessionRef = useRef<AbortController | null>(null);
+  // The session's callbacks outlive the render they were created in
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const reportError = useCallback((error: string) => {
+    setState(prev => ({ ...prev, error }));
+    configRef.current.onError?.(error);
+  }, []);
+
+  // Request audio permissions
+  const requestAudioPermission = useCallback(async () => {
+    try {
+      const { status } = await Audio.requestPermissionsAsync();
+      setState(prev => ({ ...prev, audioPermission: status === 'granted' }));
+      return status === 'granted';
+    } catch (error) {
+      console.error('Error requesting audio permission:', error);
+      setState(prev => ({ ...prev, error: 'Failed to request audio permission' }));
+      return false;
+    }
+  }, []);
+
+  const setPhase = useCallback((phase: RealtimeVoicePhase) => {
+    setState(prev => ({
+      ...prev,
+      ...PHASE_STATES[phase],
+      // A new question replaces the last exchange on screen
+      ...(phase === 'userSpeaking' ? { currentTranscription: '', currentResponse: '' } : {}),
+    }));
+  }, []);
+
+  const closeSession = useCallback(async () => {
+    const service = serviceRef.current;
+    serviceRef.current = null;
+    speechSessionRef.current?.abort();
+    speechSessionRef.current = null;
+    if (service) {
+      await service.disconnect();
+    }
+  }, []);
+
+  const exitVoiceMode = useCallback(async () => {
+    await closeSession();
+
+    setState(prev => ({
+      ...prev,
+      isVoiceModeActive: false,
+      voiceState: 'idle',
+      isListening: false,
+      isProcessing: false,
+      isSpeaking: false,
+      isSpeechDetected: false,
+      currentTranscription: '',
+      currentResponse: '',
+      recordingUri: null,
+      error: null,
+    }));
+
+    if (enableHaptics) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  }, [closeSession, enableHaptics]);
+
+  const openSession = useCallback(async () => {
+    const { url, apiKey, voice, instructions, history, conversationId, silenceDuration, bargeIn } = configRef.current;
+
+    const service = new RealtimeVoiceService({
+      url,
+      apiKey,
+      voice,
+      instructions,
+      history,
+      conversationId,
+      silenceDuration,
+      bargeIn,
+      onPhaseChange: (phase) => {
+        if (serviceRef.current === service) setPhase(phase);
+      },
+      onUserTranscript: (text) => {
+        setState(prev => ({ ...prev, currentTranscription: text }));
+        configRef.current.onUserTranscript?.(text);
+      },
+      onResponseTranscript: (text) => {
+        setState(prev => ({ ...prev, currentResponse: text }));
+      },
+      onResponseComplete: (response) => {
+        configRef.current.onResponseComplete?.(response);
+        // End the session once the reply pushed spend past the monthly budget
+        UsageLedgerService.assertWithinBudget().catch(() => {
+          if (serviceRef.current === service) exitVoiceMode();
+        });
+      },
+      onError: reportError,
+      onClose: () => {
+        if (serviceRef.current !== service) return;
+        serviceRef.current = null;
+        setState(prev => ({ ...prev, ...DISCONNECTED_STATE }));
+        reportError('The realtime voice session was closed. Tap to reconnect.');
+      },
+    });
+    serviceRef.current = service;
+
+    try {
+      await service.connect();
+    } catch (error) {
+      console.error('Error starting realtime voice session:', error);
+      if (serviceRef.current === service) {
+        serviceRef.current = null;
+        await service.disconnect();
+        setState(prev => ({ ...prev, ...DISCONNECTED_STATE }));
+        reportError(error instanceof Error ? error.message : 'Failed to connect to the realtime server');
+      }
+    }
+  }, [setPhase, reportError, exitVoiceMode]);
+
+  // Enter voice mode
+  const enterVoiceMode = useCallback(async () => {
+    if (!isRealtimeVoiceSupported()) {
+      reportError('Realtime voice is not supported on this device');
+      return;
+    }
+
+    // Asked only here, so the mic prompt never appears for users on the classic engine
+    if (!state.audioPermission) {
+      const hasPermission = await requestAudioPermission();
+      if (!hasPermission) {
+        setState(prev => ({ ...prev, error: 'Audio permission is required for voice mode' }));
+        return;
+      }
+    }
+
+    const { url, apiKey } = configRef.current;
+    if (!apiKey && (!url || url === DEFAULT_REALTIME_URL)) {
+      reportError('OpenAI API key not configured');
+      return;
+    }
+
+    try {
+      await UsageLedgerService.assertWithinBudget();
+    } catch (error) {
+      // The user has already been told the budget is used up
+      return;
+    }
+
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: true,
+      playsInSilentModeIOS: true,
+      shouldDuckAndroid: true,
+      playThroughEarpieceAndroid: false,
+      staysActiveInBackground: false,
+    });
+
+    setState(prev => ({
+      ...prev,
+      isVoiceModeActive: true,
+      currentTranscription: '',
+      currentResponse: '',
+      error: null,
+    }));
+
+    if (enableHaptics) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+
+    await openSession();
+  }, [state.audioPermission, requestAudioPermission, reportError, openSession, enableHaptics]);
+
+  // The mic streams for the whole session; this only reconnects a dropped one
+  const startListening = useCallback(async () => {
+    if (!serviceRef.current) {
+      setState(prev => ({ ...prev, error: null }));
+      await openSession();
+    }
+  }, [openSession]);
+
+  // End the turn without waiting for the server to hear silence
+  const stopListening = useCallback(async () => {
+    serviceRef.current?.commitTurn();
+    if (enableHaptics) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  }, [enableHaptics]);
+
+  const stopSpeaking = useCallback(async () => {
+    speechSessionRef.current?.abort();
+    speechSessionRef.current = null;
+    await serviceRef.current?.interrupt();
+  }, []);
+
+  const toggleListening = useCallback(async () => {
+    if (state.isSpeaking) {
+      await stopSpeaking();
+    } else if (state.isListening) {
+      await stopListening();
+    } else {
+      await startListening();
+    }
+  }, [state.isSpeaking, state.isListening, stopSpeaking, stopListening, startListening]);
+
+  // Send a recorded WAV clip as one turn; its transcript arrives through onUserTranscript
+  const processVoiceInput = useCallback(async (audioUri: string): Promise<string> => {
+    const service = serviceRef.current;
+    if (!service) {
+      reportError('Realtime voice session is not connected');
+      return '';
+    }
+
+    try {
+      const base64 = await FileSystem.readAsStringAsync(audioUri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      service.sendAudioTurn(bytesToBase64(extractWavData(base64ToBytes(base64))));
+    } catch (error) {
+      console.error('Error sending voice input:', error);
+      reportError(error instanceof Error ? error.message : 'Failed to send voice input');
+    }
+    return '';
+  }, [reportError]);
+
+  // Read text aloud with TTS, muting the mic so the session does not answer it
+  const speakResponse = useCallback(async (text: string): Promise<SpeechResult> => {
+    speechSessionRef.current?.abort();
+    const session = new AbortController();
+    speechSessionRef.current = session;
+    const service = serviceRef.current;
+
+    service?.setMicMuted(true);
+    setState(prev => ({ ...prev, ...PHASE_STATES.speaking, currentResponse: text }));
+    try {
+      return await TextToSpeechService.speak(text, {
+        voice: configRef.current.voice,
+        speed: configRef.current.speechRate,
+        apiKey: configRef.current.apiKey || '',
+        signal: session.signal,
+      });
+    } catch (error) {
+      console.error('Error speaking response:', error);
+      reportError(error instanceof Error ? error.message : 'Failed to speak response');
+      return { interrupted: session.signal.aborted, spokenText: '' };
+    } finally {
+      if (speechSessionRef.current === session) {
+        speechSessionRef.current = null;
+      }
+      service?.setMicMuted(false);
+      setState(prev => ({ ...prev, ...(serviceRef.current ? PHASE_STATES.listening : DISCONNECTED_STATE) }));
+    }
+  }, [reportError]);
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  // Set voice state (for external control)
+  const setVoiceState = useCallback((newState: VoiceState) => {
+    setState(prev => ({ ...prev, voiceState: newState }));
+  }, []);
+
+  // Close the session on unmount
+  useEffect(() => {
+    return () => {
+      closeSession();
+    };
+  }, [closeSession]);
+
+  const actions: VoiceModeActions = {
+    enterVoiceMode,
+    exitVoiceMode,
+    startListening,
+    stopListening,
+    toggleListening,
+    processVoiceInput,
+    speakResponse,
+    stopSpeaking,
+    clearError,
+    setVoiceState,
+  };
+
+  return [state, actions];
+};
@@ -2,6 +2,15 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
 import * as Haptics from 'expo-haptics';
+import { AudioQualityType, VoiceType } from '@/types';
+import { UsageLedgerService } from '@/services/usageLedger';
+import { SpeechResult, TextToSpeechService } from '@/services/TextToSpeechService';
+import { estimateAudioDuration } from '@/utils/whisper';
+import {
+  DEFAULT_VAD_HANG_TIME,
+  DEFAULT_VAD_SILENCE_THRESHOLD,
+  VoiceActivityDetector,
+} from '@/utils/voiceActivity';
 
 // Global recording state coordination (same pattern as useAudioRecorder)
 declare global {
@@ -15,22 +24,43 @@ if (typeof global.globalRecordingInProgress === 'undefined') {
 
 export type VoiceState = 'idle' | 'listening' | 'processing' | 'speaking';
 
+// How often the recorder reports its metering level while detecting speech
+const METERING_INTERVAL = 100;
+// Extra decibels needed to interrupt playback, since the reply itself leaks into the mic
+const BARGE_IN_MARGIN = 6;
+
 interface VoiceModeConfig {
   enableHaptics?: boolean;
   maxRecordingDuration?: number;
   whisperApiKey?: string;
   ttsApiKey?: string;
+  voice?: VoiceType;
+  speechRate?: number;
+  // 'hd' uses the higher quality (and pricier) TTS model
+  audioQuality?: AudioQualityType;
+  // End the turn automatically after the user stops speaking
+  voiceActivityDetection?: boolean;
+  // Decibels above the ambient noise that count as speech
+  silenceThreshold?: number;
+  // Milliseconds of silence that end the turn
+  silenceDuration?: number;
+  // Reopen the mic after each spoken reply
+  continuousConversation?: boolean;
+  // Keep a mic monitor open during playback so speaking interrupts the reply
+  bargeIn?: boolean;
   onTranscriptionComplete?: (text: string) => void;
   onAIResponseComplete?: (text: string) => void;
   onError?: (error: string) => void;
 }
 
-interface VoiceModeState {
+export interface VoiceModeState {
   isVoiceModeActive: boolean;
   voiceState: VoiceState;
   isListening: boolean;
   isProcessing: boolean;
   isSpeaking: boolean;
+  // Voice activity detection has heard the user in the current turn
+  isSpeechDetected: boolean;
   currentTranscription: string;
   currentResponse: string;
   error: string | null;
@@ -38,14 +68,14 @@ interface VoiceModeState {
   audioPermission: boolean;
 }
 
-interface VoiceModeActions {
+export interface VoiceModeActions {
   enterVoiceMode: () => void;
   exitVoiceMode: () => void;
   startListening: () => Promise<void>;
   stopListening: () => Promise<void>;
   toggleListening: () => Promise<void>;
   processVoiceInput: (audioUri: string) => Promise<string>;
-  speakResponse: (text: string) => Promise<void>;
+  speakResponse: (text: string) => Promise<SpeechResult>;
   stopSpeaking: () => Promise<void>;
   clearError: () => void;
   setVoiceState: (state: VoiceState) => void;
@@ -57,6 +87,14 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
     maxRecordingDuration = 60000,
     whisperApiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY,
     ttsApiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY,
+    voice = 'alloy',
+    speechRate = 1.0,
+    audioQuality = 'standard',
+    voiceActivityDetection = false,
+    silenceThreshold = DEFAULT_VAD_SILENCE_THRESHOLD,
+    silenceDuration = DEFAULT_VAD_HANG_TIME,
+    continuousConversation = false,
+    bargeIn = false,
     onTranscriptionComplete,
     onAIResponseComplete,
     onError,
@@ -68,6 +106,7 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
     isListening: false,
     isProcessing: false,
     isSpeaking: false,
+    isSpeechDetected: false,
     currentTranscription: '',
     currentResponse: '',
     error: null,
@@ -76,8 +115,22 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
   });
 
   const recordingRef = useRef<Audio.Recording | null>(null);
-  const soundRef = useRef<Audio.Sound | null>(null);
   const recordingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // The current turn was ended by maxRecordingDuration rather than the user or VAD
+  const stoppedByTimeLimitRef = useRef(false);
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  // Aborted to stop the reply being spoken and its pending TTS requests
+  const speechSessionRef = useRef<AbortController | null>(null);
+  const monitorRef = useRef<Audio.Recording | null>(null);
+  // Set while the monitor is still starting, so stopping can wait for it
+  const monitorStartRef = useRef<Promise<void> | null>(null);
+  // Room noise from the last listening turn, reused when the user barges in mid-sentence
+  const ambientLevelRef = useRef<number | null>(null);
+  const resumeAfterBargeInRef = useRef(false);
+  // Recorder and playback callbacks outlive the render they were created in
+  const isVoiceModeActiveRef = useRef(false);
+  const startListeningRef = useRef<(() => Promise<void>) | null>(null);
+  const stopListeningRef = useRef<(() => Promise<void>) | null>(null);
 
   // Request audio permissions
   const requestAudioPermission = useCallback(async () => {
@@ -118,6 +171,7 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
     }
 
     await initializeAudioSession();
+    isVoiceModeActiveRef.current = true;
     setState(prev => ({
       ...prev,
       isVoiceModeActive: true,
@@ -132,6 +186,10 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
 
   // Exit voice mode
   const exitVoiceMode = useCallback(async () => {
+    isVoiceModeActiveRef.current = false;
+    detectorRef.current = null;
+    speechSessionRef.current?.abort();
+
     // Stop any ongoing recording
     if (recordingRef.current) {
       try {
@@ -144,17 +202,6 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
       global.globalRecordingInProgress = false;
     }
 
-    // Stop any ongoing playback
-    if (soundRef.current) {
-      try {
-        await soundRef.current.stopAsync();
-        await soundRef.current.unloadAsync();
-        soundRef.current = null;
-      } catch (error) {
-        console.error('Error stopping playback:', error);
-      }
-    }
-
     // Clear timeout
     if (recordingTimeoutRef.current) {
       clearTimeout(recordingTimeoutRef.current);
@@ -168,6 +215,7 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
       isListening: false,
       isProcessing: false,
       isSpeaking: false,
+      isSpeechDetected: false,
       currentTranscription: '',
       currentResponse: '',
       recordingUri: null,
@@ -196,16 +244,48 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
     try {
       // Set global recording flag
       global.globalRecordingInProgress = true;
+      stoppedByTimeLimitRef.current = false;
+      const resumeAfterBargeIn = resumeAfterBargeInRef.current;
+      resumeAfterBargeInRef.current = false;
       setState(prev => ({
         ...prev,
         isListening: true,
+        isSpeechDetected: false,
         voiceState: 'listening',
         currentTranscription: '',
         error: null,
       }));
 
       const recording = new Audio.Recording();
-      await recording.prepareToRecordAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
+      await recording.prepareToRecordAsync({
+        ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
+        isMeteringEnabled: voiceActivityDetection,
+      });
+
+      if (voiceActivityDetection) {
+        const detector = new VoiceActivityDetector({
+          silenceThreshold,
+          hangTime: silenceDuration,
+          ambientLevel: resumeAfterBargeIn ? ambientLevelRef.current ?? undefined : undefined,
+        });
+        detectorRef.current = detector;
+
+        recording.setProgressUpdateInterval(METERING_INTERVAL);
+        recording.setOnRecordingStatusUpdate((status) => {
+          if (!status.isRecording || detectorRef.current !== detector) return;
+
+          const hadSpeech = detector.hasSpeech;
+          const event = detector.process(status.metering);
+          if (!hadSpeech && detector.hasSpeech) {
+            setState(prev => ({ ...prev, isSpeechDetected: true }));
+          }
+          if (event === 'endOfSpeech') {
+            console.log('🎙️ End of speech detected');
+            stopListeningRef.current?.();
+          }
+        });
+      }
+
       await recording.startAsync();
       recordingRef.current = recording;
 
@@ -215,7 +295,8 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
 
       // Set maximum recording duration
       recordingTimeoutRef.current = setTimeout(() => {
-        stopListening();
+        stoppedByTimeLimitRef.current = true;
+        stopListeningRef.current?.();
       }, maxRecordingDuration);
 
     } catch (error) {
@@ -229,12 +310,22 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
         error: 'Failed to start recording',
       }));
     }
-  }, [state.audioPermission, enableHaptics, maxRecordingDuration]);
+  }, [state.audioPermission, enableHaptics, maxRecordingDuration, voiceActivityDetection, silenceThreshold, silenceDuration]);
 
   // Stop listening
   const stopListening = useCallback(async () => {
     if (!recordingRef.current) return;
 
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    const detector = detectorRef.current;
+    detectorRef.current = null;
+    const stoppedByTimeLimit = stoppedByTimeLimitRef.current;
+    stoppedByTimeLimitRef.current = false;
+    if (detector?.ambientNoiseLevel != null) {
+      ambientLevelRef.current = detector.ambientNoiseLevel;
+    }
+
     try {
       setState(prev => ({
         ...prev,
@@ -248,13 +339,28 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
         recordingTimeoutRef.current = null;
       }
 
-      await recordingRef.current.stopAndUnloadAsync();
-      const uri = recordingRef.current.getURI();
-      recordingRef.current = null;
+      await recording.stopAndUnloadAsync();
+      const uri = recording.getURI();
       
       // Clear global recording flag
       global.globalRecordingInProgress = false;
 
+      // Nothing was said before the time limit: skip transcribing silence. A turn the
+      // user ended, or one without real metering to judge by, is always transcribed
+      if (stoppedByTimeLimit && detector?.hasMetering && !detector.hasSpeech) {
+        console.log('🎙️ No speech detected, discarding recording');
+        if (uri) {
+          await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+        }
+        setState(prev => ({
+          ...prev,
+          isProcessing: false,
+          isSpeechDetected: false,
+          voiceState: 'idle',
+        }));
+        return;
+      }
+
       if (uri) {
         setState(prev => ({ ...prev, recordingUri: uri }));
         
@@ -272,6 +378,9 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
           if (onTranscriptionComplete) {
             onTranscriptionComplete(transcription);
           }
+        } else {
+          // Nothing usable was transcribed; the user can tap to try again
+          setState(prev => ({ ...prev, isProcessing: false, voiceState: 'idle' }));
         }
       }
 
@@ -293,6 +402,9 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
     }
   }, [enableHaptics, onTranscriptionComplete]);
 
+  startListeningRef.current = startListening;
+  stopListeningRef.current = stopListening;
+
   // Toggle listening
   const toggleListening = useCallback(async () => {
     if (state.isListening) {
@@ -316,6 +428,7 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
       if (!fileInfo.exists) {
         throw new Error('Audio file does not exist');
       }
+      await UsageLedgerService.assertWithinBudget();
 
       const formData = new FormData();
       formData.append('file', {
@@ -340,6 +453,7 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
       }
 
       const transcription = await response.text();
+      UsageLedgerService.recordTranscription(estimateAudioDuration(fileInfo.size));
       
       // Clean up the audio file
       try {
@@ -359,71 +473,87 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
     }
   }, [whisperApiKey, onError]);
 
-  // Helper function to split text into speakable chunks
-  const splitTextIntoChunks = useCallback((text: string): string[] => {
-    // Remove markdown formatting for speech
-    let cleanText = text
-      .replace(/#{1,6}\s+/g, '') // Remove headers
-      .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
-      .replace(/\*(.*?)\*/g, '$1') // Remove italic
-      .replace(/`(.*?)`/g, '$1') // Remove inline code
-      .replace(/```[\s\S]*?```/g, '') // Remove code blocks
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links, keep text
-      .replace(/[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu, '') // Remove all emojis
-      .replace(/[•▪▫◦‣⁃]/g, '-') // Replace bullet points with dashes
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
-
-    // Split into sentences, respecting punctuation
-    const sentences = cleanText
-      .split(/(?<=[.!?])\s+/)
-      .filter(sentence => sentence.trim().length > 0);
-
-    const chunks: string[] = [];
-    let currentChunk = '';
-    const maxChunkLength = 200; // Optimal length for TTS
-
-    for (const sentence of sentences) {
-      if ((currentChunk + sentence).length <= maxChunkLength) {
-        currentChunk += (currentChunk ? ' ' : '') + sentence;
-      } else {
-        if (currentChunk) {
-          chunks.push(currentChunk.trim());
-        }
-        currentChunk = sentence;
+  const releaseMonitor = async (monitor: Audio.Recording) => {
+    try {
+      await monitor.stopAndUnloadAsync();
+      const uri = monitor.getURI();
+      if (uri) {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
       }
+    } catch (error) {
+      console.warn('Failed to stop barge-in monitor:', error);
     }
+    global.globalRecordingInProgress = false;
+  };
 
-    if (currentChunk) {
-      chunks.push(currentChunk.trim());
-    }
+  // Low-quality recording used only for its metering level while a reply plays
+  const startBargeInMonitor = useCallback((session: AbortController, onSpeech: () => void) => {
+    if (global.globalRecordingInProgress) return;
+    global.globalRecordingInProgress = true;
 
-    // Filter and validate chunks
-    return chunks
-      .filter(chunk => chunk.length > 0)
-      .filter(chunk => {
-        // Remove chunks that are only whitespace or special characters
-        const validContent = chunk.replace(/[\s\-–—•▪▫◦‣⁃]/g, '').trim();
-        return validContent.length > 0;
-      })
-      .map(chunk => {
-        // Ensure chunk ends with proper punctuation for TTS
-        const trimmed = chunk.trim();
-        if (!/[.!?。！？]$/.test(trimmed)) {
-          return trimmed + '.';
-        }
-        return trimmed;
-      });
+    const start = (async () => {
+      const monitor = new Audio.Recording();
+      try {
+        await monitor.prepareToRecordAsync({
+          ...Audio.RecordingOptionsPresets.LOW_QUALITY,
+          isMeteringEnabled: true,
+        });
+
+        // Calibration runs while the reply is already playing, so its level becomes the baseline
+        const detector = new VoiceActivityDetector({
+          silenceThreshold: silenceThreshold + BARGE_IN_MARGIN,
+          hangTime: silenceDuration,
+        });
+        monitor.setProgressUpdateInterval(METERING_INTERVAL);
+        monitor.setOnRecordingStatusUpdate((status) => {
+          if (!status.isRecording || session.signal.aborted) return;
+
+          detector.process(status.metering);
+          if (detector.hasSpeech) {
+            console.log('🎙️ Barge-in detected, interrupting reply');
+            onSpeech();
+          }
+        });
+
+        await monitor.startAsync();
+      } catch (error) {
+        console.warn('Failed to start barge-in monitor:', error);
+        await releaseMonitor(monitor);
+        return;
+      }
+
+      // The reply ended or was replaced while the monitor was starting
+      if (session.signal.aborted) {
+        await releaseMonitor(monitor);
+        return;
+      }
+      monitorRef.current = monitor;
+    })();
+
+    monitorStartRef.current = start;
+    start.finally(() => {
+      if (monitorStartRef.current === start) {
+        monitorStartRef.current = null;
+      }
+    });
+  }, [silenceThreshold, silenceDuration]);
+
+  const stopBargeInMonitor = useCallback(async () => {
+    await monitorStartRef.current;
+
+    const monitor = monitorRef.current;
+    if (!monitor) return;
+    monitorRef.current = null;
+    await releaseMonitor(monitor);
   }, []);
 
   // Speak response using progressive chunking for immediate feedback
-  const speakResponse = useCallback(async (text: string): Promise<void> => {
-    if (!ttsApiKey) {
-      const error = 'OpenAI API key not configured';
-      setState(prev => ({ ...prev, error }));
-      if (onError) onError(error);
-      return;
-    }
+  const speakResponse = useCallback(async (text: string): Promise<SpeechResult> => {
+    // A new reply replaces whatever was still being spoken
+    speechSessionRef.current?.abort();
+    const session = new AbortController();
+    speechSessionRef.current = session;
+    let bargedIn = false;
 
     try {
       // Immediately set speaking state
@@ -434,182 +564,44 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
         currentResponse: text,
       }));
 
-      // Split text into manageable chunks
-      const chunks = splitTextIntoChunks(text);
-      
-      if (chunks.length === 0) {
-        setState(prev => ({
-          ...prev,
-          isSpeaking: false,
-          voiceState: 'idle',
-          currentResponse: '',
-        }));
-        return;
-      }
-
-      console.log(`🎤 Speaking response in ${chunks.length} chunks`);
-
-      // Configure audio for speaker playback immediately
+      // Configure audio for speaker playback immediately; barge-in needs the mic as well
       await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
+        allowsRecordingIOS: bargeIn,
         playsInSilentModeIOS: true,
         shouldDuckAndroid: false,
         playThroughEarpieceAndroid: false,
         staysActiveInBackground: false,
       });
 
-      // Start generating the first chunk immediately for faster feedback
-      let firstChunkPromise: Promise<string> | null = null;
-      if (chunks.length > 0) {
-        firstChunkPromise = (async () => {
-          const response = await fetch('https://api.openai.com/v1/audio/speech', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${ttsApiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: 'tts-1-hd', // Use HD model for better quality
-              input: chunks[0],
-              voice: 'alloy',
-              response_format: 'mp3',
-              speed: 1.0,
-            }),
-          });
-
-          if (!response.ok) {
-            const errorBody = await response.text().catch(() => 'Unknown error');
-            console.error('TTS API Error Details:', {
-              status: response.status,
-              statusText: response.statusText,
-              chunk: chunks[0],
-              errorBody
-            });
-            throw new Error(`OpenAI TTS API error: ${response.status} - ${errorBody}`);
-          }
-
-          const audioBlob = await response.blob();
-          const audioUri = `${FileSystem.cacheDirectory}tts_chunk_0_${Date.now()}.mp3`;
-          
-          // Convert and save audio
-          const base64 = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-              const base64data = reader.result as string;
-              resolve(base64data.split(',')[1]);
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(audioBlob);
-          });
-
-          await FileSystem.writeAsStringAsync(audioUri, base64, {
-            encoding: FileSystem.EncodingType.Base64,
-          });
-
-          return audioUri;
-        })();
-      }
-
-      // Process chunks sequentially, starting with the pre-generated first chunk
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        console.log(`🎤 Processing chunk ${i + 1}/${chunks.length}: "${chunk.substring(0, 50)}..."`);
-
-        try {
-          let audioUri: string;
-
-          if (i === 0 && firstChunkPromise) {
-            // Use the pre-generated first chunk for immediate playback
-            audioUri = await firstChunkPromise;
-          } else {
-            // Generate audio for subsequent chunks
-            const response = await fetch('https://api.openai.com/v1/audio/speech', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${ttsApiKey}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                model: 'tts-1-hd', // Use HD model for better quality
-                input: chunk,
-                voice: 'alloy',
-                response_format: 'mp3',
-                speed: 1.0,
-              }),
-            });
-
-            if (!response.ok) {
-              const errorBody = await response.text().catch(() => 'Unknown error');
-              console.error('TTS API Error Details:', {
-                status: response.status,
-                statusText: response.statusText,
-                chunk,
-                chunkIndex: index,
-                errorBody
-              });
-              throw new Error(`OpenAI TTS API error: ${response.status} - ${errorBody}`);
-            }
-
-            const audioBlob = await response.blob();
-            audioUri = `${FileSystem.cacheDirectory}tts_chunk_${i}_${Date.now()}.mp3`;
-            
-            // Convert and save audio
-            const base64 = await new Promise<string>((resolve, reject) => {
-              const reader = new FileReader();
-              reader.onloadend = () => {
-                const base64data = reader.result as string;
-                resolve(base64data.split(',')[1]);
-              };
-              reader.onerror = reject;
-              reader.readAsDataURL(audioBlob);
-            });
-
-            await FileSystem.writeAsStringAsync(audioUri, base64, {
-              encoding: FileSystem.EncodingType.Base64,
+      const result = await TextToSpeechService.speak(text, {
+        voice,
+        speed: speechRate,
+        quality: audioQuality,
+        // Without a key the device voice is used
+        apiKey: ttsApiKey || '',
+        signal: session.signal,
+        onChunkStart: (index) => {
+          if (bargeIn && index === 0) {
+            startBargeInMonitor(session, () => {
+              bargedIn = true;
+              session.abort();
             });
           }
+        },
+      });
 
-          // Play this chunk immediately
-          const { sound } = await Audio.Sound.createAsync(
-            { uri: audioUri },
-            { 
-              shouldPlay: true,
-              volume: 1.0,
-              rate: 1.0,
-              shouldCorrectPitch: true,
-            }
-          );
-          
-          soundRef.current = sound;
-          await sound.setVolumeAsync(1.0);
-
-          // Wait for this chunk to finish before starting next
-          await new Promise<void>((resolve) => {
-            sound.setOnPlaybackStatusUpdate(async (status) => {
-              if (status.isLoaded && status.didJustFinish) {
-                await sound.unloadAsync();
-                await FileSystem.deleteAsync(audioUri, { idempotent: true });
-                resolve();
-              }
-            });
-          });
-
-        } catch (error) {
-          console.error(`Error processing chunk ${i + 1}:`, error);
-          // Continue with next chunk instead of failing completely
-        }
+      await stopBargeInMonitor();
+      if (speechSessionRef.current === session) {
+        speechSessionRef.current = null;
       }
 
-      // All chunks completed
       setState(prev => ({
         ...prev,
         isSpeaking: false,
         voiceState: 'idle',
         currentResponse: '',
       }));
-      
-      soundRef.current = null;
-      
+
       // Restore recording audio mode
       try {
         await initializeAudioSession();
@@ -617,6 +609,14 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
         console.warn('Failed to restore audio session:', error);
       }
 
+      // Hand the turn back to the user: right away after barge-in, or when hands-free
+      if ((bargedIn || continuousConversation) && isVoiceModeActiveRef.current) {
+        resumeAfterBargeInRef.current = bargedIn;
+        await startListeningRef.current?.();
+      }
+
+      return result;
+
     } catch (error) {
       console.error('Error speaking response:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to speak response';
@@ -628,20 +628,16 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
         error: errorMessage,
       }));
       if (onError) onError(errorMessage);
+      await stopBargeInMonitor();
+      return { interrupted: session.signal.aborted, spokenText: '' };
     }
-  }, [ttsApiKey, onError, splitTextIntoChunks, initializeAudioSession]);
+  }, [ttsApiKey, voice, speechRate, audioQuality, continuousConversation, bargeIn, onError, initializeAudioSession, startBargeInMonitor, stopBargeInMonitor]);
 
   // Stop speaking
   const stopSpeaking = useCallback(async () => {
-    if (soundRef.current) {
-      try {
-        await soundRef.current.stopAsync();
-        await soundRef.current.unloadAsync();
-        soundRef.current = null;
-      } catch (error) {
-        console.error('Error stopping speech:', error);
-      }
-    }
+    // Stops playback and any pending TTS requests
+    speechSessionRef.current?.abort();
+    speechSessionRef.current = null;
 
     setState(prev => ({
       ...prev,
@@ -669,11 +665,14 @@ export const useVoiceMode = (config: VoiceModeConfig = {}): [VoiceModeState, Voi
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      isVoiceModeActiveRef.current = false;
+      speechSessionRef.current?.abort();
       if (recordingRef.current) {
         recordingRef.current.stopAndUnloadAsync();
       }
-      if (soundRef.current) {
-        soundRef.current.unloadAsync();
+      if (monitorRef.current) {
+        monitorRef.current.stopAndUnloadAsync();
+        global.globalRecordingInProgress = false;
       }
       if (recordingTimeoutRef.current) {
         clearTimeout(recordingTimeoutRef.current);
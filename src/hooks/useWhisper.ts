@@ -9,6 +9,8 @@ interface TranscriptionProgress {
   bytesUploaded?: number;
   totalBytes?: number;
   estimatedTimeRemaining?: number;
+  segmentsCompleted?: number;
+  totalSegments?: number;
 }
 
 interface TranscriptionResult {
@@ -324,5 +326,7 @@ export function useWhisper(options: UseWhisperOptions = {}) {
     bytesUploaded: state.progress?.bytesUploaded,
     totalBytes: state.progress?.totalBytes,
     estimatedTimeRemaining: state.progress?.estimatedTimeRemaining,
+    segmentsCompleted: state.progress?.segmentsCompleted,
+    totalSegments: state.progress?.totalSegments,
   };
 }
\ No newline at end of file
@@ -4,11 +4,35 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { ChatScreen } from '@/screens/ChatScreen';
 import { SettingsScreen } from '@/screens/SettingsScreen';
 import { ConversationListScreen } from '@/screens/ConversationListScreen';
+import { APISettingsScreen } from '@/screens/APISettingsScreen';
+import { VoiceSettingsScreen } from '@/screens/VoiceSettingsScreen';
+import { AudioSettingsScreen } from '@/screens/AudioSettingsScreen';
+import { AppearanceSettingsScreen } from '@/screens/AppearanceSettingsScreen';
+import { PrivacySettingsScreen } from '@/screens/PrivacySettingsScreen';
+import { BackupSettingsScreen } from '@/screens/BackupSettingsScreen';
+import { AccessibilitySettingsScreen } from '@/screens/AccessibilitySettingsScreen';
+import { AboutScreen } from '@/screens/AboutScreen';
+import { MemorySettingsScreen } from '@/screens/MemorySettingsScreen';
+import { PersonaSettingsScreen } from '@/screens/PersonaSettingsScreen';
+import { PromptLibraryScreen } from '@/screens/PromptLibraryScreen';
+import { UsageDashboardScreen } from '@/screens/UsageDashboardScreen';
 
 export type RootStackParamList = {
-  ConversationList: undefined;
-  Chat: { conversationId?: string };
+  ConversationList: { currentConversationId?: string } | undefined;
+  Chat: { conversationId?: string; messageId?: string };
   Settings: undefined;
+  APISettings: undefined;
+  VoiceSettings: undefined;
+  AudioSettings: undefined;
+  AppearanceSettings: undefined;
+  PrivacySettings: undefined;
+  BackupSettings: undefined;
+  AccessibilitySettings: undefined;
+  AboutScreen: undefined;
+  MemorySettings: undefined;
+  PersonaSettings: undefined;
+  PromptLibrary: undefined;
+  UsageDashboard: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -32,6 +56,22 @@ export function AppNavigator() {
           component={SettingsScreen}
           options={{ title: 'Settings' }}
         />
+
+        {/* Settings detail screens render their own header with a back button */}
+        <Stack.Group screenOptions={{ headerShown: false }}>
+          <Stack.Screen name="APISettings" component={APISettingsScreen} />
+          <Stack.Screen name="VoiceSettings" component={VoiceSettingsScreen} />
+          <Stack.Screen name="AudioSettings" component={AudioSettingsScreen} />
+          <Stack.Screen name="AppearanceSettings" component={AppearanceSettingsScreen} />
+          <Stack.Screen name="PrivacySettings" component={PrivacySettingsScreen} />
+          <Stack.Screen name="BackupSettings" component={BackupSettingsScreen} />
+          <Stack.Screen name="AccessibilitySettings" component={AccessibilitySettingsScreen} />
+          <Stack.Screen name="AboutScreen" component={AboutScreen} />
+          <Stack.Screen name="MemorySettings" component={MemorySettingsScreen} />
+          <Stack.Screen name="PersonaSettings" component={PersonaSettingsScreen} />
+          <Stack.Screen name="PromptLibrary" component={PromptLibraryScreen} />
+          <Stack.Screen name="UsageDashboard" component={UsageDashboardScreen} />
+        </Stack.Group>
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -0,0 +1,92 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { AppSettings } from '@/types';
+import { SettingsStorageService } from '@/services/settingsStorage';
+import { configureOpenAIService } from '@/services/OpenAIService';
+
+interface SettingsContextType {
+  // Current settings (defaults until the stored ones are loaded)
+  settings: AppSettings;
+  isLoaded: boolean;
+
+  // Persist changes; every subscriber, including this context, updates live
+  updateSetting: <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => Promise<void>;
+  updateSettings: (settings: Partial<AppSettings>) => Promise<void>;
+  reloadSettings: () => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextType | null>(null);
+
+interface SettingsProviderProps {
+  children: ReactNode;
+}
+
+// Push the API-related settings into the shared OpenAI service
+const applyServiceSettings = (settings: AppSettings) => {
+  configureOpenAIService({
+    ...(settings.openaiApiKey ? { apiKey: settings.openaiApiKey } : {}),
+    maxTokens: settings.maxTokens,
+    temperature: settings.temperature,
+    requestTimeout: settings.apiTimeout,
+  });
+};
+
+export function SettingsProvider({ children }: SettingsProviderProps) {
+  const [settings, setSettings] = useState<AppSettings>(
+    () => SettingsStorageService.getDefaultSettings()
+  );
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const handleSettingsChange = useCallback((nextSettings: AppSettings) => {
+    applyServiceSettings(nextSettings);
+    setSettings(nextSettings);
+  }, []);
+
+  const reloadSettings = useCallback(async () => {
+    const loadedSettings = await SettingsStorageService.loadSettings();
+    handleSettingsChange(loadedSettings);
+    setIsLoaded(true);
+  }, [handleSettingsChange]);
+
+  // Load stored settings and follow saves made anywhere in the app
+  useEffect(() => {
+    const unsubscribe = SettingsStorageService.addChangeListener(handleSettingsChange);
+
+    reloadSettings().catch(error => {
+      console.error('Failed to load settings:', error);
+      setIsLoaded(true);
+    });
+
+    return unsubscribe;
+  }, [handleSettingsChange, reloadSettings]);
+
+  const updateSetting = useCallback(async <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    await SettingsStorageService.updateSetting(key, value);
+  }, []);
+
+  const updateSettings = useCallback(async (partialSettings: Partial<AppSettings>) => {
+    await SettingsStorageService.saveSettings(partialSettings);
+  }, []);
+
+  const contextValue = useMemo<SettingsContextType>(() => ({
+    settings,
+    isLoaded,
+    updateSetting,
+    updateSettings,
+    reloadSettings,
+  }), [settings, isLoaded, updateSetting, updateSettings, reloadSettings]);
+
+  return (
+    <SettingsContext.Provider value={contextValue}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+// Hook to use settings context
+export function useSettings(): SettingsContextType {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+}
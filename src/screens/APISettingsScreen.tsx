@@ -12,8 +12,15 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
-import { AppSettings } from '@/types';
+import { AppSettings, CustomProviderConfig } from '@/types';
 import { SettingsStorageService } from '@/services/settingsStorage';
+import {
+  fetchCustomProviderModels,
+  generateCustomProviderId,
+  normalizeCustomBaseUrl,
+  registerCustomProviders,
+  resetUnregisteredModels,
+} from '@/services/customProviders';
 
 interface SettingItem {
   key: keyof AppSettings;
@@ -36,6 +43,13 @@ export function APISettingsScreen() {
   const [isSaving, setIsSaving] = useState(false);
   const [apiKeyVisible, setApiKeyVisible] = useState(false);
   const [tempApiKey, setTempApiKey] = useState('');
+  const [customProviders, setCustomProviders] = useState<CustomProviderConfig[]>([]);
+  const [providerName, setProviderName] = useState('');
+  const [providerBaseUrl, setProviderBaseUrl] = useState('');
+  const [providerApiKey, setProviderApiKey] = useState('');
+  const [providerVision, setProviderVision] = useState(false);
+  const [providerTools, setProviderTools] = useState(false);
+  const [isFetchingModels, setIsFetchingModels] = useState(false);
 
   // Load settings
   const loadSettings = useCallback(async () => {
@@ -44,6 +58,7 @@ export function APISettingsScreen() {
       const loadedSettings = await SettingsStorageService.loadSettings();
       setSettings(loadedSettings);
       setTempApiKey(loadedSettings.openaiApiKey);
+      setCustomProviders(await SettingsStorageService.getCustomProviders());
     } catch (error) {
       console.error('Failed to load settings:', error);
       Alert.alert('Error', 'Failed to load settings');
@@ -108,6 +123,96 @@ export function APISettingsScreen() {
     }
   }, [tempApiKey, saveSetting]);
 
+  // Persist custom providers and re-register their models with the chat registry
+  const applyCustomProviders = useCallback(async () => {
+    const providers = await SettingsStorageService.getCustomProviders();
+    registerCustomProviders(providers);
+    await resetUnregisteredModels();
+    setCustomProviders(providers);
+  }, []);
+
+  // Add custom endpoint after fetching its model list
+  const addCustomProvider = useCallback(async () => {
+    if (!providerName.trim() || !providerBaseUrl.trim()) {
+      Alert.alert('Error', 'Please enter a name and base URL');
+      return;
+    }
+
+    try {
+      setIsFetchingModels(true);
+      const models = await fetchCustomProviderModels(providerBaseUrl, providerApiKey.trim() || undefined);
+
+      if (models.length === 0) {
+        Alert.alert('No Models', 'The server did not report any models at /v1/models.');
+        return;
+      }
+
+      await SettingsStorageService.saveCustomProvider({
+        id: generateCustomProviderId(),
+        name: providerName.trim(),
+        baseUrl: normalizeCustomBaseUrl(providerBaseUrl),
+        apiKey: providerApiKey.trim() || undefined,
+        models,
+        capabilities: {
+          vision: providerVision,
+          tools: providerTools,
+        },
+        createdAt: new Date().toISOString(),
+      });
+      await applyCustomProviders();
+
+      setProviderName('');
+      setProviderBaseUrl('');
+      setProviderApiKey('');
+      setProviderVision(false);
+      setProviderTools(false);
+      Alert.alert('Success', `Added ${models.length} model${models.length === 1 ? '' : 's'} from ${providerName.trim()}`);
+    } catch (error) {
+      console.error('Failed to add custom provider:', error);
+      Alert.alert('Error', `Failed to reach the server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsFetchingModels(false);
+    }
+  }, [providerName, providerBaseUrl, providerApiKey, providerVision, providerTools, applyCustomProviders]);
+
+  // Re-fetch the model list of an existing endpoint
+  const refreshCustomProvider = useCallback(async (provider: CustomProviderConfig) => {
+    try {
+      setIsFetchingModels(true);
+      const models = await fetchCustomProviderModels(provider.baseUrl, provider.apiKey);
+      await SettingsStorageService.saveCustomProvider({ ...provider, models });
+      await applyCustomProviders();
+    } catch (error) {
+      console.error('Failed to refresh custom provider:', error);
+      Alert.alert('Error', `Failed to refresh models: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsFetchingModels(false);
+    }
+  }, [applyCustomProviders]);
+
+  const removeCustomProvider = useCallback((provider: CustomProviderConfig) => {
+    Alert.alert(
+      'Remove Endpoint',
+      `Remove ${provider.name} and its ${provider.models.length} model${provider.models.length === 1 ? '' : 's'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SettingsStorageService.deleteCustomProvider(provider.id);
+              await applyCustomProviders();
+            } catch (error) {
+              console.error('Failed to remove custom provider:', error);
+              Alert.alert('Error', 'Failed to remove endpoint');
+            }
+          },
+        },
+      ]
+    );
+  }, [applyCustomProviders]);
+
   // API Settings configuration
   const apiSettings: SettingItem[] = [
     {
@@ -199,6 +304,103 @@ export function APISettingsScreen() {
     </View>
   );
 
+  // Render custom OpenAI-compatible endpoints section
+  const renderCustomProvidersSection = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Custom Endpoints</Text>
+      <Text style={styles.sectionDescription}>
+        Connect self-hosted servers that speak the OpenAI chat API (Ollama, llama.cpp, vLLM). Their models appear in the model selector.
+      </Text>
+
+      {customProviders.map((provider) => (
+        <View key={provider.id} style={styles.providerItem}>
+          <View style={styles.providerHeader}>
+            <View style={styles.providerInfo}>
+              <Text style={styles.providerName}>{provider.name}</Text>
+              <Text style={styles.providerUrl} numberOfLines={1}>{provider.baseUrl}</Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => refreshCustomProvider(provider)}
+              disabled={isFetchingModels}
+              style={styles.providerAction}
+            >
+              <Text style={styles.providerActionText}>Refresh</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => removeCustomProvider(provider)}
+              style={styles.providerAction}
+            >
+              <Text style={[styles.providerActionText, styles.providerRemoveText]}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.providerModels} numberOfLines={2}>
+            {provider.models.join(', ')}
+          </Text>
+          <Text style={styles.helpText}>
+            {[
+              provider.capabilities.vision && 'Vision',
+              provider.capabilities.tools && 'Tools',
+              provider.apiKey ? 'API key set' : 'No API key',
+            ].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+      ))}
+
+      <TextInput
+        style={styles.providerInput}
+        value={providerName}
+        onChangeText={setProviderName}
+        placeholder="Name (e.g. Home Ollama)"
+        editable={!isFetchingModels}
+      />
+      <TextInput
+        style={styles.providerInput}
+        value={providerBaseUrl}
+        onChangeText={setProviderBaseUrl}
+        placeholder="http://192.168.1.10:11434"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        editable={!isFetchingModels}
+      />
+      <TextInput
+        style={styles.providerInput}
+        value={providerApiKey}
+        onChangeText={setProviderApiKey}
+        placeholder="API key (optional)"
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!isFetchingModels}
+      />
+
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>Supports images</Text>
+        <Switch value={providerVision} onValueChange={setProviderVision} disabled={isFetchingModels} />
+      </View>
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>Supports tool calling</Text>
+        <Switch value={providerTools} onValueChange={setProviderTools} disabled={isFetchingModels} />
+      </View>
+
+      <TouchableOpacity
+        style={[styles.testButton, isFetchingModels && styles.testButtonDisabled]}
+        onPress={addCustomProvider}
+        disabled={isFetchingModels}
+      >
+        {isFetchingModels ? (
+          <ActivityIndicator color="#FFFFFF" size="small" />
+        ) : (
+          <Text style={styles.testButtonText}>Fetch Models & Add</Text>
+        )}
+      </TouchableOpacity>
+
+      <Text style={styles.helpText}>
+        Models are read from /v1/models. API keys are stored securely on your device.
+      </Text>
+    </View>
+  );
+
   // Render setting item
   const renderSetting = (setting: SettingItem) => {
     if (!settings) return null;
@@ -355,6 +557,9 @@ export function APISettingsScreen() {
           </View>
         </View>
 
+        {/* Custom Endpoints */}
+        {renderCustomProvidersSection()}
+
         {/* Model Settings */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Model Configuration</Text>
@@ -611,4 +816,64 @@ const styles = StyleSheet.create({
     color: '#666666',
     lineHeight: 20,
   },
+  providerItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+    marginBottom: 12,
+  },
+  providerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  providerInfo: {
+    flex: 1,
+  },
+  providerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  providerUrl: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  providerAction: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  providerActionText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  providerRemoveText: {
+    color: '#FF3B30',
+  },
+  providerModels: {
+    fontSize: 13,
+    color: '#000000',
+    marginTop: 8,
+  },
+  providerInput: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    color: '#000000',
+    marginBottom: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#000000',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { AppSettings } from '@/types';
+import { SettingsStorageService } from '@/services/settingsStorage';
+
+export function AccessibilitySettingsScreen() {
+  const navigation = useNavigation();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load settings
+  const loadSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const loadedSettings = await SettingsStorageService.loadSettings();
+      setSettings(loadedSettings);
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+      Alert.alert('Error', 'Failed to load settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // Save setting
+  const saveSetting = useCallback(async (key: keyof AppSettings, value: any) => {
+    try {
+      setIsSaving(true);
+      await SettingsStorageService.updateSetting(key, value);
+      setSettings(prev => prev ? { ...prev, [key]: value } : null);
+    } catch (error) {
+      console.error(`Failed to save ${key}:`, error);
+      Alert.alert('Error', `Failed to save ${key}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  // Accessibility toggles
+  const accessibilityOptions: Array<{
+    key: 'voiceOverEnabled' | 'highContrast' | 'reduceMotion' | 'largeText';
+    title: string;
+    description: string;
+  }> = [
+    {
+      key: 'voiceOverEnabled',
+      title: 'Screen Reader Support',
+      description: 'Announce new messages and status changes',
+    },
+    {
+      key: 'highContrast',
+      title: 'High Contrast',
+      description: 'Increase contrast between text and backgrounds',
+    },
+    {
+      key: 'reduceMotion',
+      title: 'Reduce Motion',
+      description: 'Minimize animations and transitions',
+    },
+    {
+      key: 'largeText',
+      title: 'Large Text',
+      description: 'Use larger text throughout the app',
+    },
+  ];
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading settings...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Accessibility</Text>
+        </View>
+
+        {/* Accessibility Options */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Display & Interaction</Text>
+          <Text style={styles.sectionDescription}>
+            Adjust the app to your needs
+          </Text>
+
+          {accessibilityOptions.map((option) => (
+            <View key={option.key} style={styles.switchItem}>
+              <View style={styles.switchContent}>
+                <Text style={styles.switchTitle}>{option.title}</Text>
+                <Text style={styles.switchDescription}>{option.description}</Text>
+              </View>
+              <Switch
+                value={settings?.[option.key] || false}
+                onValueChange={(value) => saveSetting(option.key, value)}
+                disabled={isSaving}
+                trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+                thumbColor="#FFFFFF"
+                accessibilityLabel={option.title}
+              />
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  switchItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  switchContent: {
+    flex: 1,
+    marginRight: 16,
+  },
+  switchTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  switchDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+});
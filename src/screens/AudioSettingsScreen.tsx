@@ -0,0 +1,452 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { AppSettings } from '@/types';
+import { SettingsStorageService } from '@/services/settingsStorage';
+
+export function AudioSettingsScreen() {
+  const navigation = useNavigation();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load settings
+  const loadSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const loadedSettings = await SettingsStorageService.loadSettings();
+      setSettings(loadedSettings);
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+      Alert.alert('Error', 'Failed to load settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // Save setting
+  const saveSetting = useCallback(async (key: keyof AppSettings, value: any) => {
+    try {
+      setIsSaving(true);
+      await SettingsStorageService.updateSetting(key, value);
+      setSettings(prev => prev ? { ...prev, [key]: value } : null);
+    } catch (error) {
+      console.error(`Failed to save ${key}:`, error);
+      Alert.alert('Error', `Failed to save ${key}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  // Playback quality options
+  const audioQualityOptions = [
+    { value: 'standard', label: 'Standard', description: 'Faster responses, smaller files' },
+    { value: 'hd', label: 'HD', description: 'Higher fidelity speech output' },
+  ];
+
+  // Recording quality options
+  const recordingQualityOptions = [
+    { value: 'low', label: 'Low', description: 'Smallest files, good for slow connections' },
+    { value: 'medium', label: 'Medium', description: 'Balanced quality and size' },
+    { value: 'high', label: 'High', description: 'Best transcription accuracy' },
+  ];
+
+  // Maximum recording duration options (milliseconds)
+  const durationOptions = [
+    { value: 60000, label: '1 min' },
+    { value: 120000, label: '2 min' },
+    { value: 300000, label: '5 min' },
+    { value: 600000, label: '10 min' },
+  ];
+
+  // Audio file retention options (days)
+  const retentionOptions = [
+    { value: 7, label: '7 days' },
+    { value: 30, label: '30 days' },
+    { value: 90, label: '90 days' },
+    { value: 365, label: '1 year' },
+  ];
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading settings...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Audio & Recording</Text>
+        </View>
+
+        {/* Playback Quality */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Playback Quality</Text>
+          <Text style={styles.sectionDescription}>
+            Quality of spoken AI responses
+          </Text>
+
+          {audioQualityOptions.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.optionItem,
+                settings?.audioQuality === option.value && styles.optionItemActive,
+              ]}
+              onPress={() => saveSetting('audioQuality', option.value)}
+              disabled={isSaving}
+            >
+              <View style={styles.optionContent}>
+                <Text style={[
+                  styles.optionTitle,
+                  settings?.audioQuality === option.value && styles.optionTitleActive,
+                ]}>
+                  {option.label}
+                </Text>
+                <Text style={[
+                  styles.optionDescription,
+                  settings?.audioQuality === option.value && styles.optionDescriptionActive,
+                ]}>
+                  {option.description}
+                </Text>
+              </View>
+              {settings?.audioQuality === option.value && (
+                <Text style={styles.checkmark}>✓</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Recording Quality */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Recording Quality</Text>
+          <Text style={styles.sectionDescription}>
+            Quality of voice recordings sent for transcription
+          </Text>
+
+          {recordingQualityOptions.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.optionItem,
+                settings?.recordingQuality === option.value && styles.optionItemActive,
+              ]}
+              onPress={() => saveSetting('recordingQuality', option.value)}
+              disabled={isSaving}
+            >
+              <View style={styles.optionContent}>
+                <Text style={[
+                  styles.optionTitle,
+                  settings?.recordingQuality === option.value && styles.optionTitleActive,
+                ]}>
+                  {option.label}
+                </Text>
+                <Text style={[
+                  styles.optionDescription,
+                  settings?.recordingQuality === option.value && styles.optionDescriptionActive,
+                ]}>
+                  {option.description}
+                </Text>
+              </View>
+              {settings?.recordingQuality === option.value && (
+                <Text style={styles.checkmark}>✓</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Recording Limit */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Maximum Recording Length</Text>
+          <Text style={styles.sectionDescription}>
+            Recordings stop automatically after this duration
+          </Text>
+
+          <View style={styles.chipRow}>
+            {durationOptions.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.chip,
+                  settings?.maxRecordingDuration === option.value && styles.chipActive,
+                ]}
+                onPress={() => saveSetting('maxRecordingDuration', option.value)}
+                disabled={isSaving}
+              >
+                <Text style={[
+                  styles.chipText,
+                  settings?.maxRecordingDuration === option.value && styles.chipTextActive,
+                ]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Audio Files */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Audio Files</Text>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Save Audio Files</Text>
+              <Text style={styles.switchDescription}>
+                Keep recordings and spoken responses with conversations
+              </Text>
+            </View>
+            <Switch
+              value={settings?.saveAudioFiles || false}
+              onValueChange={(value) => saveSetting('saveAudioFiles', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Auto-Delete Audio</Text>
+              <Text style={styles.switchDescription}>
+                Remove saved audio files after a retention period
+              </Text>
+            </View>
+            <Switch
+              value={settings?.autoDeleteAudio || false}
+              onValueChange={(value) => saveSetting('autoDeleteAudio', value)}
+              disabled={isSaving || !settings?.saveAudioFiles}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          {settings?.saveAudioFiles && settings?.autoDeleteAudio && (
+            <View style={styles.subsection}>
+              <Text style={styles.subsectionTitle}>Keep audio for</Text>
+              <View style={styles.chipRow}>
+                {retentionOptions.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.chip,
+                      settings?.audioFileRetentionDays === option.value && styles.chipActive,
+                    ]}
+                    onPress={() => saveSetting('audioFileRetentionDays', option.value)}
+                    disabled={isSaving}
+                  >
+                    <Text style={[
+                      styles.chipText,
+                      settings?.audioFileRetentionDays === option.value && styles.chipTextActive,
+                    ]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+        </View>
+
+        {/* Playback */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Playback</Text>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Background Audio</Text>
+              <Text style={styles.switchDescription}>
+                Continue playing responses when the app is in the background
+              </Text>
+            </View>
+            <Switch
+              value={settings?.backgroundAudioEnabled || false}
+              onValueChange={(value) => saveSetting('backgroundAudioEnabled', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  subsection: {
+    paddingTop: 12,
+  },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 8,
+  },
+  optionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    marginBottom: 8,
+    backgroundColor: '#FFFFFF',
+  },
+  optionItemActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#E3F2FD',
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  optionTitleActive: {
+    color: '#007AFF',
+  },
+  optionDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  optionDescriptionActive: {
+    color: '#0066CC',
+  },
+  checkmark: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#E3F2FD',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  chipTextActive: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  switchItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  switchContent: {
+    flex: 1,
+    marginRight: 16,
+  },
+  switchTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  switchDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+});
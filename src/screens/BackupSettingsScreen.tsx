@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { AppSettings } from '@/types';
+import { SettingsStorageService } from '@/services/settingsStorage';
+import { ConversationExportService } from '@/services/conversationExport';
+
+export function BackupSettingsScreen() {
+  const navigation = useNavigation();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Load settings
+  const loadSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const loadedSettings = await SettingsStorageService.loadSettings();
+      setSettings(loadedSettings);
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+      Alert.alert('Error', 'Failed to load settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // Save setting
+  const saveSetting = useCallback(async (key: keyof AppSettings, value: any) => {
+    try {
+      setIsSaving(true);
+      await SettingsStorageService.updateSetting(key, value);
+      setSettings(prev => prev ? { ...prev, [key]: value } : null);
+    } catch (error) {
+      console.error(`Failed to save ${key}:`, error);
+      Alert.alert('Error', `Failed to save ${key}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  // Export a full backup through the share sheet
+  const exportBackup = useCallback(async () => {
+    try {
+      setIsExporting(true);
+      await ConversationExportService.exportBackup();
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      Alert.alert('Error', 'Failed to export backup');
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  // Backup frequency options
+  const frequencyOptions = [
+    { value: 'daily', label: 'Daily', description: 'Back up every day' },
+    { value: 'weekly', label: 'Weekly', description: 'Back up once a week' },
+    { value: 'monthly', label: 'Monthly', description: 'Back up once a month' },
+  ];
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading settings...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Backup & Export</Text>
+        </View>
+
+        {/* Automatic Backup */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Automatic Backup</Text>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Auto Backup</Text>
+              <Text style={styles.switchDescription}>
+                Periodically back up conversations and settings
+              </Text>
+            </View>
+            <Switch
+              value={settings?.autoBackup || false}
+              onValueChange={(value) => saveSetting('autoBackup', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          {settings?.autoBackup && (
+            <View style={styles.subsection}>
+              <Text style={styles.subsectionTitle}>Frequency</Text>
+              {frequencyOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.optionItem,
+                    settings?.backupFrequency === option.value && styles.optionItemActive,
+                  ]}
+                  onPress={() => saveSetting('backupFrequency', option.value)}
+                  disabled={isSaving}
+                >
+                  <View style={styles.optionContent}>
+                    <Text style={[
+                      styles.optionTitle,
+                      settings?.backupFrequency === option.value && styles.optionTitleActive,
+                    ]}>
+                      {option.label}
+                    </Text>
+                    <Text style={[
+                      styles.optionDescription,
+                      settings?.backupFrequency === option.value && styles.optionDescriptionActive,
+                    ]}>
+                      {option.description}
+                    </Text>
+                  </View>
+                  {settings?.backupFrequency === option.value && (
+                    <Text style={styles.checkmark}>✓</Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* Backup Contents */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Backup Options</Text>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Cloud Backup</Text>
+              <Text style={styles.switchDescription}>
+                Store backups in your cloud account
+              </Text>
+            </View>
+            <Switch
+              value={settings?.cloudBackupEnabled || false}
+              onValueChange={(value) => saveSetting('cloudBackupEnabled', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Include Audio</Text>
+              <Text style={styles.switchDescription}>
+                Add saved audio files to backups (larger file size)
+              </Text>
+            </View>
+            <Switch
+              value={settings?.backupIncludeAudio || false}
+              onValueChange={(value) => saveSetting('backupIncludeAudio', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        </View>
+
+        {/* Manual Export */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Export</Text>
+          <Text style={styles.sectionDescription}>
+            Save a backup file of all conversations now
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.actionButton, isExporting && styles.actionButtonDisabled]}
+            onPress={exportBackup}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.actionButtonText}>Export Backup</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  subsection: {
+    paddingTop: 12,
+  },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 8,
+  },
+  optionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    marginBottom: 8,
+    backgroundColor: '#FFFFFF',
+  },
+  optionItemActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#E3F2FD',
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  optionTitleActive: {
+    color: '#007AFF',
+  },
+  optionDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  optionDescriptionActive: {
+    color: '#0066CC',
+  },
+  checkmark: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  switchItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  switchContent: {
+    flex: 1,
+    marginRight: 16,
+  },
+  switchTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  switchDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  actionButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -13,52 +13,126 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRoute, RouteProp, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MessageBubble } from '@/components/MessageBubble';
 import { ChatInputWithVoice } from '@/components/ChatInputWithVoice';
 import { ConversationSidebar } from '@/components/ConversationSidebar';
 import { VoiceConversationOverlay } from '@/components/VoiceConversationOverlay';
 import { ModelSelector } from '@/components/ModelSelector';
-import { useOpenAI } from '@/hooks/useOpenAI';
+import { PersonaSelector } from '@/components/PersonaSelector';
+import { ResponseComparisonModal } from '@/components/ResponseComparisonModal';
+import { ConversationInfoSheet } from '@/components/ConversationInfoSheet';
+import { ContextSummary } from '@/services/conversationSummary';
 import { useAIAgent } from '@/hooks/useAIAgent';
 import { useVoiceMode } from '@/hooks/useVoiceMode';
-import { Message, ModelType } from '@/types';
-import { GeminiService } from '@/services/GeminiService';
+import { useRealtimeVoiceMode } from '@/hooks/useRealtimeVoiceMode';
+import { isRealtimeVoiceSupported } from '@/services/realtimeAudio';
+import { DEFAULT_REALTIME_URL, REALTIME_MODEL } from '@/services/RealtimeVoiceService';
+import { useSettings } from '@/providers/SettingsProvider';
+import { ConversationSettings, Message, ModelType, Persona } from '@/types';
+import { getChatProvider, getChatProviderInfo, getRegisteredModels } from '@/services/chatProviders';
 import { RootStackParamList } from '@/navigation/AppNavigator';
-import { convertOpenAIResponseToMessage, generateConversationTitle, getSystemPrompt } from '@/utils/openai';
+import { DEFAULT_PERSONA_ID, findPersona, getPersonaSystemPrompt, getPersonas } from '@/services/personas';
 import { ConversationStorageService } from '@/services/conversationStorage';
+import { MemoryStorageService } from '@/services/memoryStorage';
 import { Conversation } from '@/types';
 import { MessageSkeleton } from '@/components/SkeletonLoader';
 import { SparklingOrb } from '@/components/SparklingOrb';
 import { performanceMonitor, measureAsync } from '@/utils/performanceMonitor';
+import { getDataUrlImageFormat } from '@/utils/images';
+import {
+  BranchState,
+  detachBranch,
+  forkBranch,
+  getBranchPositions,
+  getSiblingMessages,
+  switchBranch,
+} from '@/utils/messageTree';
 
 type ChatScreenRouteProp = RouteProp<RootStackParamList, 'Chat'>;
+type ChatScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Chat'>;
 
 const { width: screenWidth } = Dimensions.get('window');
 const isTablet = screenWidth > 768;
 
+// Title shown until the conversation gets a generated one, e.g. "HatGPT 4o"
+const getDefaultTitle = (model: ModelType): string =>
+  `HatGPT ${getChatProviderInfo(model)?.shortName ?? model}`;
+
+const isDefaultTitle = (title: string): boolean =>
+  getRegisteredModels().some(({ model }) => getDefaultTitle(model) === title);
+
+// Conversations saved before per-conversation settings keep the model that last answered
+const inferConversationSettings = (messages: Message[]): ConversationSettings => {
+  const lastModel = [...messages].reverse().find(msg => msg.role === 'assistant')?.metadata?.model as ModelType | undefined;
+  return lastModel && getChatProviderInfo(lastModel) ? { model: lastModel } : {};
+};
+
 const ChatScreenComponent = () => {
   const route = useRoute<ChatScreenRouteProp>();
-  const navigation = useNavigation();
+  const navigation = useNavigation<ChatScreenNavigationProp>();
+  const { settings, updateSetting } = useSettings();
   const [messages, setMessages] = useState<Message[]>([]);
+  // Messages on inactive branches of the conversation tree
+  const [branchMessages, setBranchMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [isGeminiLoading, setIsGeminiLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [currentPlayingAudio, setCurrentPlayingAudio] = useState<string | null>(null);
   const [conversationId, setConversationId] = useState(() => route.params?.conversationId || `conv_${Date.now()}`);
   const [conversation, setConversation] = useState<Conversation | null>(null);
-  const [conversationTitle, setConversationTitle] = useState('HatGPT Gemini');
-  const [selectedModel, setSelectedModel] = useState<ModelType>('gemini-2.5-flash');
+  const [conversationTitle, setConversationTitle] = useState(() => getDefaultTitle(settings.model));
+  // Persona chosen for this conversation; the default persona until one is picked
+  const [personaId, setPersonaId] = useState<string | undefined>(undefined);
+  const persona = useMemo(() => findPersona(settings, personaId), [settings, personaId]);
+  // Overrides for this conversation only, on top of the persona and app settings
+  const [conversationSettings, setConversationSettings] = useState<ConversationSettings>({});
+  const conversationSettingsRef = useRef(conversationSettings);
+  conversationSettingsRef.current = conversationSettings;
+  // Rolling summary of the messages that no longer fit in the model context
+  const [contextSummary, setContextSummary] = useState<ContextSummary | undefined>(undefined);
+  const contextSummaryRef = useRef(contextSummary);
+  contextSummaryRef.current = contextSummary;
+  const [showInfoSheet, setShowInfoSheet] = useState(false);
+  // Conversation override, then the persona's model, then the app default; skipping ones not registered here
+  const defaultModel = persona.model && getChatProviderInfo(persona.model) ? persona.model : settings.model;
+  const selectedModel = conversationSettings.model && getChatProviderInfo(conversationSettings.model)
+    ? conversationSettings.model
+    : defaultModel;
   const [showModelSelector, setShowModelSelector] = useState(false);
+  // Assistant message awaiting a model choice for regeneration
+  const [regenerateMessageId, setRegenerateMessageId] = useState<string | null>(null);
+  // Assistant message whose alternatives are open in the comparison view
+  const [comparisonMessageId, setComparisonMessageId] = useState<string | null>(null);
   const [isSidebarVisible, setIsSidebarVisible] = useState(false);
   const [isAtBottom, setIsAtBottom] = useState(true);
   const [showScrollButton, setShowScrollButton] = useState(false);
   const [wasAtBottomBeforeProcessing, setWasAtBottomBeforeProcessing] = useState(true);
   const flatListRef = useRef<FlatList>(null);
+  // Message to bring into view once the conversation loads (opened from search)
+  const scrollTargetRef = useRef<string | null>(route.params?.messageId ?? null);
+  // Set when the load scrolled to a message, so the scroll-to-bottom effect leaves it there
+  const scrolledToMessageRef = useRef(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // ID of the assistant message currently being streamed in, if any
+  const streamingMessageIdRef = useRef<string | null>(null);
+  // Latest inactive branches, for saves triggered from callbacks created in earlier renders
+  const branchMessagesRef = useRef<Message[]>(branchMessages);
+  branchMessagesRef.current = branchMessages;
 
   // Voice mode state
-  const [voiceModeState, voiceModeActions] = useVoiceMode({
+  const [classicVoiceState, classicVoiceActions] = useVoiceMode({
     enableHaptics: true,
     maxRecordingDuration: 60000,
+    whisperApiKey: settings.openaiApiKey || undefined,
+    ttsApiKey: settings.openaiApiKey || undefined,
+    voice: persona.voice ?? settings.voiceType,
+    speechRate: settings.speechRate,
+    audioQuality: settings.audioQuality,
+    voiceActivityDetection: settings.handsFreeVoice,
+    continuousConversation: settings.handsFreeVoice,
+    silenceThreshold: settings.vadSilenceThreshold,
+    silenceDuration: settings.vadHangTime,
+    bargeIn: settings.voiceBargeIn,
     onTranscriptionComplete: (text) => {
       // When transcription is complete, send it as a message
       if (text.trim()) {
@@ -71,6 +145,60 @@ const ChatScreenComponent = () => {
     },
   });
 
+  // The realtime session transcribes and answers by itself; its turns are only recorded here
+  const [realtimeVoiceState, realtimeVoiceActions] = useRealtimeVoiceMode({
+    enableHaptics: true,
+    url: settings.realtimeUrl || undefined,
+    // The OpenAI key only ever goes to OpenAI, never to a custom server
+    apiKey: !settings.realtimeUrl || settings.realtimeUrl === DEFAULT_REALTIME_URL
+      ? settings.openaiApiKey || undefined
+      : undefined,
+    voice: persona.voice ?? settings.voiceType,
+    speechRate: settings.speechRate,
+    instructions: conversationSettings.systemPrompt || getPersonaSystemPrompt(persona, settings),
+    history: messages,
+    conversationId,
+    silenceDuration: settings.vadHangTime,
+    bargeIn: settings.voiceBargeIn,
+    onUserTranscript: (text) => {
+      const userMessage: Message = {
+        id: generateMessageId(),
+        content: text,
+        role: 'user',
+        timestamp: new Date(),
+        metadata: { inputType: 'voice' },
+      };
+      appendVoiceMessage(userMessage);
+      rememberFacts(userMessage);
+    },
+    onResponseComplete: (response) => {
+      appendVoiceMessage({
+        id: generateMessageId(),
+        content: response.text,
+        role: 'assistant',
+        timestamp: new Date(),
+        metadata: {
+          model: REALTIME_MODEL,
+          usage: response.usage && {
+            promptTokens: response.usage.inputTokens,
+            completionTokens: response.usage.outputTokens,
+            totalTokens: response.usage.inputTokens + response.usage.outputTokens,
+          },
+          ...(response.interrupted ? { speechInterrupted: true, spokenText: response.spokenText } : {}),
+        },
+      });
+    },
+    onError: (error) => {
+      console.error('Realtime voice error:', error);
+      Alert.alert('Voice Error', error);
+    },
+  });
+
+  const [voiceModeState, voiceModeActions] =
+    settings.voiceEngine === 'realtime' && isRealtimeVoiceSupported()
+      ? [realtimeVoiceState, realtimeVoiceActions]
+      : [classicVoiceState, classicVoiceActions];
+
   // Performance tracking
   useEffect(() => {
     performanceMonitor.trackComponentMount('ChatScreen');
@@ -88,43 +216,29 @@ const ChatScreenComponent = () => {
     toolsUsed,
     processQuery,
     processImageQuery,
-    setConversationHistory: setAgentHistory,
-    clearConversationHistory: clearAgentHistory,
+    cancelRequest: cancelAgentRequest,
     clearError: clearAgentError,
   } = useAIAgent({
+    model: selectedModel,
     conversationId,
-    systemPrompt: getSystemPrompt('chatgpt'),
+    systemPrompt: conversationSettings.systemPrompt || getPersonaSystemPrompt(persona, settings),
+    temperature: conversationSettings.temperature ?? persona.temperature ?? settings.temperature,
+    maxTokens: conversationSettings.maxTokens ?? settings.maxTokens,
+    memoryEnabled: settings.memoryEnabled,
+    enabledTools: conversationSettings.toolsEnabled === false ? [] : persona.enabledTools,
+    contextSummary,
+    onSummaryUpdate: (summary) => {
+      // Saved together with the reply by saveCurrentConversation
+      contextSummaryRef.current = summary;
+      setContextSummary(summary);
+    },
     onStepUpdate: (step) => {
       console.log('🤖 AI Agent step:', step);
     },
-    onSuccess: async (response) => {
+    onDelta: (_delta, content) => updateStreamingMessage(content),
+    onSuccess: async (assistantMessage) => {
       try {
-        // Create assistant message from AI Agent response
-        const assistantMessage: Message = {
-          id: generateMessageId(),
-          content: response,
-          role: 'assistant',
-          timestamp: new Date(),
-          metadata: {
-            agentUsed: true,
-            toolsUsed: toolsUsed,
-          },
-        };
-        
-        // Use functional state update to ensure we have the latest messages
-        setMessages(currentMessages => {
-          const updatedMessages = [...currentMessages, assistantMessage];
-          console.log('✅ AI Agent response - updated messages:', updatedMessages.map(m => ({ 
-            role: m.role, 
-            content: m.content.substring(0, 50),
-            toolsUsed: m.metadata?.toolsUsed
-          })));
-          
-          // Save conversation with the updated messages
-          saveCurrentConversation(updatedMessages);
-          
-          return updatedMessages;
-        });
+        const messageId = commitAssistantMessage(assistantMessage);
         
         // If voice mode is active, speak the response
         if (voiceModeState.isVoiceModeActive) {
@@ -132,7 +246,10 @@ const ChatScreenComponent = () => {
           voiceModeActions.setVoiceState('speaking');
           // For voice mode, we'll use the text response as-is since our voice system prompt
           // already optimizes for speech delivery
-          await voiceModeActions.speakResponse(response);
+          const speech = await voiceModeActions.speakResponse(assistantMessage.content);
+          if (speech.interrupted) {
+            markSpeechInterrupted(messageId, speech.spokenText);
+          }
         }
       } catch (error) {
         console.error('Error processing AI Agent response:', error);
@@ -143,63 +260,15 @@ const ChatScreenComponent = () => {
         }
       }
     },
-    onError: (error) => {
-      console.error('AI Agent error:', error);
-      Alert.alert('AI Agent Error', 'Failed to get enhanced AI response. Falling back to basic chat.');
-      // Reset to idle state on error
+    onCancel: () => {
+      stopStreamingMessage();
       if (voiceModeState.isVoiceModeActive) {
         voiceModeActions.setVoiceState('idle');
       }
     },
-  });
-
-  // Fallback OpenAI hook for basic functionality
-  const {
-    isLoading: openAILoading,
-    error: openAIError,
-    sendMessageWithContext,
-    setConversationHistory,
-    clearConversationHistory,
-    clearError,
-  } = useOpenAI({
-    conversationId,
-    systemPrompt: getSystemPrompt('chatgpt'),
-    onSuccess: async (response) => {
-      try {
-        const assistantMessage = convertOpenAIResponseToMessage(response, conversationId);
-        
-        // Use functional state update to ensure we have the latest messages
-        setMessages(currentMessages => {
-          const updatedMessages = [...currentMessages, assistantMessage];
-          console.log('✅ AI response - updated messages:', updatedMessages.map(m => ({ 
-            role: m.role, 
-            content: m.content.substring(0, 50) 
-          })));
-          
-          // Save conversation with the updated messages
-          saveCurrentConversation(updatedMessages);
-          
-          return updatedMessages;
-        });
-        
-        // If voice mode is active, speak the response
-        if (voiceModeState.isVoiceModeActive) {
-          // Transition directly to speaking state
-          voiceModeActions.setVoiceState('speaking');
-          await voiceModeActions.speakResponse(assistantMessage.content);
-        }
-      } catch (error) {
-        console.error('Error processing OpenAI response:', error);
-        Alert.alert('Error', 'Failed to process AI response');
-        // Reset to idle state on error
-        if (voiceModeState.isVoiceModeActive) {
-          voiceModeActions.setVoiceState('idle');
-        }
-      }
-    },
     onError: (error) => {
-      console.error('OpenAI error:', error);
-      Alert.alert('AI Error', 'Failed to get AI response. Please try again.');
+      console.error('AI Agent error:', error);
+      discardStreamingMessage();
       // Reset to idle state on error
       if (voiceModeState.isVoiceModeActive) {
         voiceModeActions.setVoiceState('idle');
@@ -210,9 +279,13 @@ const ChatScreenComponent = () => {
   useEffect(() => {
     // Update conversation ID when route params change
     if (route.params?.conversationId && route.params.conversationId !== conversationId) {
+      scrollTargetRef.current = route.params.messageId ?? null;
       setConversationId(route.params.conversationId);
+    } else if (route.params?.messageId) {
+      // Already showing this conversation: just bring the message into view
+      scrollToMessage(route.params.messageId, messages);
     }
-  }, [route.params?.conversationId]);
+  }, [route.params?.conversationId, route.params?.messageId]);
 
   useEffect(() => {
     // Load existing conversation if conversationId is provided
@@ -221,18 +294,27 @@ const ChatScreenComponent = () => {
     } else {
       // Reset for new conversation
       setMessages([]);
+      setBranchMessages([]);
       setConversation(null);
-      setConversationTitle(selectedModel === 'gpt-4o' ? 'HatGPT 4o' : 'HatGPT Gemini');
+      setPersonaId(undefined);
+      setConversationSettings({});
+      setContextSummary(undefined);
+      setConversationTitle(getDefaultTitle(defaultModel));
       // Reset scroll states for new conversation
       setIsAtBottom(true);
       setShowScrollButton(false);
       setWasAtBottomBeforeProcessing(true);
     }
-  }, [conversationId, selectedModel]);
+  }, [conversationId]);
 
   // Scroll to bottom when messages are loaded from conversation history
   useEffect(() => {
-    if (messages.length > 0 && conversation && !isLoading && !agentLoading && !openAILoading && !isGeminiLoading) {
+    if (messages.length > 0 && conversation && !isLoading && !agentLoading) {
+      if (scrolledToMessageRef.current) {
+        scrolledToMessageRef.current = false;
+        return;
+      }
+
       // This means we just loaded a conversation from history
       setTimeout(() => {
         if (flatListRef.current) {
@@ -249,7 +331,28 @@ const ChatScreenComponent = () => {
         }
       }, 600);
     }
-  }, [messages.length, conversation?.id, isLoading, agentLoading, openAILoading, isGeminiLoading]);
+  }, [messages.length, conversation?.id, isLoading, agentLoading]);
+
+  // Scroll to a message and highlight it for a moment; false if it is not on the active branch
+  const scrollToMessage = useCallback((messageId: string, currentMessages: Message[]): boolean => {
+    const index = currentMessages.findIndex(msg => msg.id === messageId);
+    if (index === -1) {
+      return false;
+    }
+
+    setWasAtBottomBeforeProcessing(false);
+    setHighlightedMessageId(messageId);
+
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.3 });
+    }, 300);
+
+    setTimeout(() => {
+      setHighlightedMessageId(current => (current === messageId ? null : current));
+    }, 2500);
+
+    return true;
+  }, []);
 
   const loadConversation = useCallback(async (loadConversationId: string) => {
     await measureAsync('load_conversation', async () => {
@@ -269,10 +372,20 @@ const ChatScreenComponent = () => {
           });
           setConversation(loadedConversation);
           setMessages(loadedConversation.messages);
+          setBranchMessages(loadedConversation.branchMessages || []);
           setConversationTitle(loadedConversation.title);
-          // Set history in both AI Agent and OpenAI service
-          setAgentHistory(loadConversationId, loadedConversation.messages);
-          setConversationHistory(loadConversationId, loadedConversation.messages);
+          setPersonaId(loadedConversation.personaId);
+          setContextSummary(loadedConversation.summary && loadedConversation.summarizedThroughId
+            ? { summary: loadedConversation.summary, summarizedThroughId: loadedConversation.summarizedThroughId }
+            : undefined);
+          setConversationSettings(loadedConversation.settings || inferConversationSettings(loadedConversation.messages));
+
+          const targetMessageId = scrollTargetRef.current;
+          scrollTargetRef.current = null;
+          if (targetMessageId && scrollToMessage(targetMessageId, loadedConversation.messages)) {
+            scrolledToMessageRef.current = true;
+            return;
+          }
           
           // Auto-scroll to bottom when loading existing conversation
           // Use multiple attempts to ensure scroll works
@@ -300,16 +413,120 @@ const ChatScreenComponent = () => {
         setIsLoading(false);
       }
     }, { conversationId: loadConversationId, messageCount: messages.length });
-  }, [setAgentHistory, setConversationHistory]);
+  }, []);
 
   const generateMessageId = () => {
     return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   };
 
+  // Show the partial assistant response, creating the placeholder on the first delta
+  const updateStreamingMessage = (content: string) => {
+    const streamingId = streamingMessageIdRef.current;
+
+    if (!streamingId) {
+      const id = generateMessageId();
+      streamingMessageIdRef.current = id;
+      setMessages(currentMessages => [
+        ...currentMessages,
+        {
+          id,
+          content,
+          role: 'assistant',
+          timestamp: new Date(),
+          isStreaming: true,
+        },
+      ]);
+      return;
+    }
+
+    setMessages(currentMessages =>
+      currentMessages.map(msg => (msg.id === streamingId ? { ...msg, content } : msg))
+    );
+  };
+
+  // Replace the streamed placeholder (if any) with the final message and persist; returns its id
+  const commitAssistantMessage = (assistantMessage: Message): string => {
+    const streamingId = streamingMessageIdRef.current;
+    streamingMessageIdRef.current = null;
+
+    // Use functional state update to ensure we have the latest messages
+    setMessages(currentMessages => {
+      const hasPlaceholder = !!streamingId && currentMessages.some(msg => msg.id === streamingId);
+      const updatedMessages = hasPlaceholder
+        ? currentMessages.map(msg => (msg.id === streamingId ? { ...assistantMessage, id: streamingId } : msg))
+        : [...currentMessages, assistantMessage];
+
+      // Save conversation with the updated messages
+      saveCurrentConversation(updatedMessages);
+
+      return updatedMessages;
+    });
+
+    return streamingId || assistantMessage.id;
+  };
+
+  // Record how much of a spoken reply was heard before the user interrupted it
+  const markSpeechInterrupted = (messageId: string, spokenText: string) => {
+    setMessages(currentMessages => {
+      const updatedMessages = currentMessages.map(msg =>
+        msg.id === messageId
+          ? { ...msg, metadata: { ...msg.metadata, speechInterrupted: true, spokenText } }
+          : msg
+      );
+
+      saveCurrentConversation(updatedMessages);
+
+      return updatedMessages;
+    });
+  };
+
+  // Add a turn spoken in a realtime voice session and persist
+  const appendVoiceMessage = (message: Message) => {
+    setMessages(currentMessages => {
+      const updatedMessages = [...currentMessages, message];
+
+      saveCurrentConversation(updatedMessages);
+
+      return updatedMessages;
+    });
+    scrollToBottom();
+  };
+
+  // Keep whatever was generated before the user pressed Stop, marked as stopped
+  const stopStreamingMessage = () => {
+    const streamingId = streamingMessageIdRef.current;
+    if (!streamingId) return;
+
+    streamingMessageIdRef.current = null;
+    setMessages(currentMessages => {
+      const updatedMessages = currentMessages.map(msg =>
+        msg.id === streamingId
+          ? { ...msg, isStreaming: false, metadata: { ...msg.metadata, stopped: true } }
+          : msg
+      );
+
+      saveCurrentConversation(updatedMessages);
+
+      return updatedMessages;
+    });
+  };
+
+  const handleStopGeneration = useCallback(() => {
+    cancelAgentRequest();
+  }, [cancelAgentRequest]);
+
+  const discardStreamingMessage = () => {
+    const streamingId = streamingMessageIdRef.current;
+    if (!streamingId) return;
+
+    streamingMessageIdRef.current = null;
+    setMessages(currentMessages => currentMessages.filter(msg => msg.id !== streamingId));
+  };
+
   const generateConversationTitle = useCallback((messages: Message[]): string => {
     // Find the first user message
     const firstUserMessage = messages.find(msg => msg.role === 'user');
-    if (!firstUserMessage) return selectedModel === 'gpt-4o' ? 'HatGPT 4o' : 'HatGPT Gemini';
+    if (!firstUserMessage) return getDefaultTitle(selectedModel);
 
     let content = firstUserMessage.content.trim();
     
@@ -340,35 +557,38 @@ const ChatScreenComponent = () => {
     return content;
   }, [selectedModel]);
 
-  const saveCurrentConversation = async (currentMessages: Message[]) => {
+  const saveCurrentConversation = async (
+    currentMessages: Message[],
+    currentBranchMessages: Message[] = branchMessagesRef.current
+  ) => {
     try {
       // Generate title if this is a new conversation and we have messages
       let title = conversationTitle;
       
       // Only generate a new title if this is a completely new conversation (has the default title)
-      if ((title === 'HatGPT 4o' || title === 'HatGPT Gemini') && currentMessages.length >= 1) {
+      if (isDefaultTitle(title) && currentMessages.length >= 1) {
         // First, generate a quick local title from the first message
         title = generateConversationTitle(currentMessages);
         setConversationTitle(title);
         
         // If we have 2+ messages, try to generate a better AI-powered title
         if (currentMessages.length >= 2) {
-          const apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-          if (apiKey) {
-            try {
-              const aiTitle = await ConversationStorageService.generateTitle(currentMessages, apiKey);
-              if (aiTitle && aiTitle !== title && aiTitle.length > 5) {
-                title = aiTitle;
-                setConversationTitle(title);
-              }
-            } catch (error) {
-              console.warn('Failed to generate AI title, keeping local title');
+          try {
+            const aiTitle = await ConversationStorageService.generateTitle(
+              currentMessages,
+              getChatProvider(selectedModel)
+            );
+            if (aiTitle && aiTitle !== title && aiTitle.length > 5) {
+              title = aiTitle;
+              setConversationTitle(title);
             }
+          } catch (error) {
+            console.warn('Failed to generate AI title, keeping local title');
           }
         }
       }
       // For existing conversations, preserve the existing title
-      else if (conversation && conversation.title && conversation.title !== 'HatGPT 4o' && conversation.title !== 'HatGPT Gemini') {
+      else if (conversation && conversation.title && !isDefaultTitle(conversation.title)) {
         title = conversation.title;
       }
 
@@ -376,6 +596,7 @@ const ChatScreenComponent = () => {
         id: conversationId,
         title,
         messages: currentMessages,
+        branchMessages: currentBranchMessages,
         createdAt: conversation?.createdAt || new Date(),
         updatedAt: new Date(),
         lastActivity: new Date(),
@@ -384,6 +605,10 @@ const ChatScreenComponent = () => {
         isArchived: conversation?.isArchived || false,
         isStarred: conversation?.isStarred || false,
         tags: conversation?.tags || [],
+        personaId: persona.id,
+        settings: conversationSettingsRef.current,
+        summary: contextSummaryRef.current?.summary,
+        summarizedThroughId: contextSummaryRef.current?.summarizedThroughId,
       };
 
       console.log('💾 Saving conversation:', {
@@ -405,6 +630,14 @@ const ChatScreenComponent = () => {
     }
   };
 
+  // Learn durable facts from what the user said, in the background (opt-in)
+  const rememberFacts = (userMessage: Message) => {
+    if (!settings.memoryEnabled) return;
+
+    MemoryStorageService.extractMemories(userMessage, conversationId, getChatProvider(selectedModel))
+      .catch(error => console.warn('Failed to extract memories:', error));
+  };
+
   const handleSendMessage = async (messageContent: string, type: 'text' | 'voice' = 'text') => {
     if (!messageContent.trim()) return;
 
@@ -424,79 +657,24 @@ const ChatScreenComponent = () => {
 
     // Save conversation after user message
     await saveCurrentConversation(updatedMessages);
+    rememberFacts(userMessage);
 
     // Remember scroll position before processing starts
     setWasAtBottomBeforeProcessing(isAtBottom);
 
-    try {
-      if (selectedModel === 'gemini-2.5-flash') {
-        // Use Gemini API directly
-        const geminiApiKey = process.env.EXPO_PUBLIC_GOOGLE_GEMINI_API_KEY;
-        if (!geminiApiKey) {
-          throw new Error('Gemini API key not found');
-        }
-
-        setIsGeminiLoading(true);
-        const geminiService = new GeminiService(geminiApiKey);
-        const response = await geminiService.sendMessage(updatedMessages, {
-          temperature: 0.7,
-          maxTokens: 4096,
-          systemPrompt: getSystemPrompt('chatgpt'),
-        });
-
-        const assistantMessage = geminiService.convertResponseToMessage(response, conversationId);
-        
-        setMessages(currentMessages => {
-          const newMessages = [...currentMessages, assistantMessage];
-          saveCurrentConversation(newMessages);
-          return newMessages;
-        });
-
-        // If voice mode is active, speak the response
-        if (voiceModeState.isVoiceModeActive) {
-          voiceModeActions.setVoiceState('speaking');
-          await voiceModeActions.speakResponse(assistantMessage.content);
-        }
-      } else {
-        // Use AI Agent for enhanced processing (OpenAI)
-        await processQuery(messageContent, conversationId);
-      }
-    } catch (error) {
-      console.error('Error sending message:', error);
-      
-      // Fallback to basic OpenAI if agent fails and it's not Gemini
-      if (selectedModel !== 'gemini-2.5-flash') {
-        try {
-          console.log('Falling back to basic OpenAI...');
-          await sendMessageWithContext(messageContent, conversationId);
-        } catch (fallbackError) {
-          console.error('Fallback also failed:', fallbackError);
-          
-          // Update user message with error state
-          setMessages(prev => 
-            prev.map(msg => 
-              msg.id === userMessage.id 
-                ? { ...msg, error: 'Failed to send message' }
-                : msg
-            )
-          );
-        }
-      } else {
-        // Update user message with error state for Gemini
+    // Route through the AI Agent against whichever provider is selected
+    await processQuery(updatedMessages, {
+      onError: () => {
+        // Update user message with error state
         setMessages(prev => 
           prev.map(msg => 
             msg.id === userMessage.id 
-              ? { ...msg, error: 'Failed to send message to Gemini' }
+              ? { ...msg, error: 'Failed to send message' }
               : msg
           )
         );
-      }
-    } finally {
-      // Reset Gemini loading state
-      if (selectedModel === 'gemini-2.5-flash') {
-        setIsGeminiLoading(false);
-      }
-    }
+      },
+    });
   };
 
   const handleImageMessage = async (imageUri: string, prompt: string) => {
@@ -510,7 +688,7 @@ const ChatScreenComponent = () => {
       
       reader.onloadend = async () => {
         const base64data = reader.result as string;
-        const base64 = base64data.split(',')[1]; // Remove data:image/jpeg;base64, prefix
+        const base64 = base64data.split(',')[1]; // Remove data:image/...;base64, prefix
 
         console.log('[ChatScreen] Processing image:', {
           imageUri,
@@ -528,7 +706,7 @@ const ChatScreenComponent = () => {
           metadata: { 
             inputType: 'image',
             imageSettings: {
-              format: 'jpeg',
+              format: getDataUrlImageFormat(base64data) || 'jpeg',
               originalSize: { width: 0, height: 0 }, // Will be filled by actual image dimensions
             }
           },
@@ -553,60 +731,24 @@ const ChatScreenComponent = () => {
         // Remember scroll position before processing starts
         setWasAtBottomBeforeProcessing(isAtBottom);
 
-        try {
-          if (selectedModel === 'gemini-2.5-flash') {
-            // Use Gemini API for image processing
-            const geminiApiKey = process.env.EXPO_PUBLIC_GOOGLE_GEMINI_API_KEY;
-            if (!geminiApiKey) {
-              throw new Error('Gemini API key not found');
-            }
+        console.log('[ChatScreen] Sending image message:', {
+          messageId: userMessage.id,
+          hasImageBase64: !!userMessage.imageBase64,
+          model: selectedModel,
+        });
 
-            setIsGeminiLoading(true);
-            const geminiService = new GeminiService(geminiApiKey);
-            const response = await geminiService.sendMessage(updatedMessages, {
-              temperature: 0.7,
-              maxTokens: 4096,
-              systemPrompt: getSystemPrompt('chatgpt'),
-            });
-
-            const assistantMessage = geminiService.convertResponseToMessage(response, conversationId);
-            
-            setMessages(currentMessages => {
-              const newMessages = [...currentMessages, assistantMessage];
-              saveCurrentConversation(newMessages);
-              return newMessages;
-            });
-
-            console.log('[ChatScreen] Successfully sent image message to Gemini');
-          } else {
-            // Use AI Agent for image processing (OpenAI)
-            console.log('[ChatScreen] Sending image message to AI Agent:', {
-              messageId: userMessage.id,
-              hasImageBase64: !!userMessage.imageBase64,
-              conversationId,
-            });
-            
-            await processImageQuery(userMessage, conversationId);
-            
-            console.log('[ChatScreen] Successfully sent image message');
-          }
-        } catch (error) {
-          console.error('Error sending image message:', error);
-          
-          // Update user message with error state
-          setMessages(prev => 
-            prev.map(msg => 
-              msg.id === userMessage.id 
-                ? { ...msg, error: `Failed to send image message${selectedModel === 'gemini-2.5-flash' ? ' to Gemini' : ''}` }
-                : msg
-            )
-          );
-        } finally {
-          // Reset Gemini loading state
-          if (selectedModel === 'gemini-2.5-flash') {
-            setIsGeminiLoading(false);
-          }
-        }
+        await processImageQuery(updatedMessages, {
+          onError: () => {
+            // Update user message with error state
+            setMessages(prev => 
+              prev.map(msg => 
+                msg.id === userMessage.id 
+                  ? { ...msg, error: 'Failed to send image message' }
+                  : msg
+              )
+            );
+          },
+        });
       };
 
       reader.readAsDataURL(blob);
@@ -616,8 +758,129 @@ const ChatScreenComponent = () => {
     }
   };
 
+  // Fork the conversation at an earlier user message and answer the edited version;
+  // the original continuation stays available as a sibling branch
+  const handleEditMessage = async (messageId: string, newContent: string) => {
+    if (!newContent.trim() || agentLoading) return;
+
+    const originalMessage = messages.find(msg => msg.id === messageId);
+    if (!originalMessage || originalMessage.role !== 'user') return;
+
+    const editedMessage: Message = {
+      id: generateMessageId(),
+      content: newContent,
+      role: 'user',
+      timestamp: new Date(),
+      imageBase64: originalMessage.imageBase64,
+      imageUrl: originalMessage.imageUrl,
+      metadata: originalMessage.metadata?.inputType === 'image'
+        ? { inputType: 'image', imageSettings: originalMessage.metadata.imageSettings }
+        : undefined,
+    };
+
+    const branchState = forkBranch(
+      messages,
+      branchMessagesRef.current,
+      messageId,
+      editedMessage
+    );
+    setMessages(branchState.messages);
+    setBranchMessages(branchState.branchMessages);
+    branchMessagesRef.current = branchState.branchMessages;
+
+    scrollToBottom();
+    await saveCurrentConversation(branchState.messages, branchState.branchMessages);
+    rememberFacts(editedMessage);
+    setWasAtBottomBeforeProcessing(isAtBottom);
+
+    const runQuery = editedMessage.imageBase64 ? processImageQuery : processQuery;
+    await runQuery(branchState.messages, {
+      onError: () => {
+        setMessages(prev =>
+          prev.map(msg =>
+            msg.id === editedMessage.id
+              ? { ...msg, error: 'Failed to send message' }
+              : msg
+          )
+        );
+      },
+    });
+  };
+
+  // Make a sibling branch of an active message the one shown in the conversation
+  const activateBranch = (messageId: string, targetId: string) => {
+    if (agentLoading || messageId === targetId) return;
+
+    const branchState = switchBranch(messages, branchMessagesRef.current, messageId, targetId);
+    setMessages(branchState.messages);
+    setBranchMessages(branchState.branchMessages);
+    branchMessagesRef.current = branchState.branchMessages;
+
+    saveCurrentConversation(branchState.messages, branchState.branchMessages);
+  };
+
+  // Show the previous/next sibling branch of a message
+  const handleSwitchBranch = (messageId: string, direction: -1 | 1) => {
+    const position = getBranchPositions(messages, branchMessagesRef.current).get(messageId);
+    const targetId = position?.siblingIds[position.index + direction];
+    if (targetId) {
+      activateBranch(messageId, targetId);
+    }
+  };
+
+  // Put the previous branch back when a regeneration ended without any response
+  const restoreUnansweredBranch = (previousState: BranchState) => {
+    setMessages(previousState.messages);
+    setBranchMessages(previousState.branchMessages);
+    branchMessagesRef.current = previousState.branchMessages;
+    saveCurrentConversation(previousState.messages, previousState.branchMessages);
+  };
+
+  // Ask for a new answer to the same message, optionally with another model;
+  // the previous answer is kept as a sibling branch for comparison
+  const handleRegenerateMessage = async (messageId: string, model: ModelType = selectedModel) => {
+    if (agentLoading) return;
+
+    const targetMessage = messages.find(msg => msg.id === messageId);
+    if (!targetMessage || targetMessage.role !== 'assistant') return;
+
+    const previousState: BranchState = { messages, branchMessages: branchMessagesRef.current };
+    const branchState = detachBranch(messages, branchMessagesRef.current, messageId);
+    setMessages(branchState.messages);
+    setBranchMessages(branchState.branchMessages);
+    branchMessagesRef.current = branchState.branchMessages;
+
+    await saveCurrentConversation(branchState.messages, branchState.branchMessages);
+    setWasAtBottomBeforeProcessing(isAtBottom);
+
+    console.log('🔄 Regenerating response with', model);
+
+    // A failed reply is discarded, but a stopped one keeps whatever streamed in
+    let hasPartialResponse = false;
+    const lastMessage = branchState.messages[branchState.messages.length - 1];
+    const runQuery = lastMessage?.imageBase64 ? processImageQuery : processQuery;
+    await runQuery(branchState.messages, {
+      model,
+      onDelta: (_delta, content) => {
+        hasPartialResponse = true;
+        updateStreamingMessage(content);
+      },
+      onError: () => restoreUnansweredBranch(previousState),
+      onCancel: () => {
+        if (!hasPartialResponse) {
+          restoreUnansweredBranch(previousState);
+        }
+      },
+    });
+  };
+
   const handleRetryMessage = (messageId: string) => {
     const message = messages.find(msg => msg.id === messageId);
+    if (message?.role === 'assistant') {
+      handleRegenerateMessage(messageId);
+      return;
+    }
+
     if (message && message.role === 'user') {
       // Remove the failed message and resend
       setMessages(prev => prev.filter(msg => msg.id !== messageId));
@@ -675,6 +938,12 @@ const ChatScreenComponent = () => {
     }
   }, [conversationId, navigation]);
 
+  // The list shows conversations related to the one open here
+  const handleOpenConversationList = useCallback(() => {
+    setIsSidebarVisible(false);
+    navigation.navigate('ConversationList', { currentConversationId: conversationId });
+  }, [conversationId, navigation]);
+
   // Handle new conversation from sidebar
   const handleNewConversation = useCallback(() => {
     try {
@@ -687,18 +956,18 @@ const ChatScreenComponent = () => {
       // Reset conversation state
       setConversationId(newConversationId);
       setMessages([]);
+      setBranchMessages([]);
       setConversation(null);
-      setConversationTitle(selectedModel === 'gpt-4o' ? 'HatGPT 4o' : 'HatGPT Gemini');
+      setPersonaId(undefined);
+      setConversationSettings({});
+      setContextSummary(undefined);
+      setConversationTitle(getDefaultTitle(defaultModel));
       
       // Reset scroll states for new conversation
       setIsAtBottom(true);
       setShowScrollButton(false);
       setWasAtBottomBeforeProcessing(true);
       
-      // Clear conversation history in both AI Agent and OpenAI service
-      clearAgentHistory(conversationId);
-      clearConversationHistory(conversationId);
-      
       // Track navigation for performance monitoring
       performanceMonitor.trackNavigation('Chat', 'NewChat', { newConversationId });
       
@@ -707,13 +976,52 @@ const ChatScreenComponent = () => {
       console.error('Failed to create new conversation:', error);
       Alert.alert('Error', 'Failed to create new conversation');
     }
-  }, [conversationId, clearConversationHistory, selectedModel]);
+  }, [defaultModel]);
+
+  // Use a persona for the rest of this conversation
+  const handlePersonaSelect = useCallback((selectedPersona: Persona) => {
+    setPersonaId(selectedPersona.id);
+    setShowModelSelector(false);
+
+    if (conversation) {
+      setConversation({ ...conversation, personaId: selectedPersona.id });
+      ConversationStorageService.updateConversation(conversationId, { personaId: selectedPersona.id })
+        .catch(error => console.error('Failed to save conversation persona:', error));
+    }
+  }, [conversation, conversationId]);
+
+  // Change this conversation's overrides, saving them right away once the conversation exists
+  const updateConversationSettings = useCallback((changes: ConversationSettings) => {
+    const updated = { ...conversationSettingsRef.current, ...changes };
+    setConversationSettings(updated);
+    conversationSettingsRef.current = updated;
+
+    if (conversation) {
+      setConversation({ ...conversation, settings: updated });
+      ConversationStorageService.updateConversation(conversationId, { settings: updated })
+        .catch(error => console.error('Failed to save conversation settings:', error));
+    }
+  }, [conversation, conversationId]);
 
   // Toggle sidebar visibility
   const toggleSidebar = useCallback(() => {
     setIsSidebarVisible(prev => !prev);
   }, []);
 
+  const branchPositions = useMemo(
+    () => getBranchPositions(messages, branchMessages),
+    [messages, branchMessages]
+  );
+
+  // Memoized bubbles keep their first callbacks, so route branch actions through a ref
+  const branchActionsRef = useRef({ handleEditMessage, handleSwitchBranch });
+  branchActionsRef.current = { handleEditMessage, handleSwitchBranch };
+
+  const comparisonResponses = useMemo(
+    () => comparisonMessageId ? getSiblingMessages(messages, branchMessages, comparisonMessageId) : [],
+    [comparisonMessageId, messages, branchMessages]
+  );
+
   // Memoized render functions for better performance
   const renderMessage = useCallback(({ item }: { item: Message }) => (
     <MessageBubble
@@ -721,13 +1029,22 @@ const ChatScreenComponent = () => {
       onRetry={() => handleRetryMessage(item.id)}
       onPlayAudio={() => handlePlayAudio(item.id)}
       isAudioPlaying={currentPlayingAudio === item.id}
+      onEdit={item.role === 'user' && !item.isLoading ? (content) => branchActionsRef.current.handleEditMessage(item.id, content) : undefined}
+      branchPosition={branchPositions.get(item.id)}
+      onSwitchBranch={(direction) => branchActionsRef.current.handleSwitchBranch(item.id, direction)}
+      onRegenerate={item.role === 'assistant' ? () => setRegenerateMessageId(item.id) : undefined}
+      onCompare={() => setComparisonMessageId(item.id)}
+      isHighlighted={highlightedMessageId === item.id}
     />
-  ), [handleRetryMessage, handlePlayAudio, currentPlayingAudio]);
+  ), [handleRetryMessage, handlePlayAudio, currentPlayingAudio, branchPositions, highlightedMessageId]);
 
   const renderLoadingMessage = useCallback(() => (
     <MessageSkeleton isUser={false} />
   ), []);
 
+  // Once the first delta lands the streamed bubble replaces the skeleton
+  const isStreamingResponse = messages.some(msg => msg.isStreaming);
+
   const handleSuggestionPress = useCallback((suggestion: string) => {
     handleSendMessage(suggestion, 'text');
   }, [handleSendMessage]);
@@ -789,12 +1106,22 @@ const ChatScreenComponent = () => {
         activeOpacity={0.7}
       >
         <Text style={styles.headerTitle} numberOfLines={1}>
-          {selectedModel === 'gpt-4o' ? 'HatGPT 4o' : 'HatGPT Gemini'}
+          {persona.id !== DEFAULT_PERSONA_ID ? `${persona.icon} ` : ''}{getDefaultTitle(selectedModel)}
         </Text>
         <Text style={styles.modelIndicator}>▼</Text>
       </TouchableOpacity>
       
       
+      <TouchableOpacity
+        style={styles.infoButton}
+        onPress={() => setShowInfoSheet(true)}
+        activeOpacity={0.7}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        accessibilityLabel="Conversation settings"
+      >
+        <Text style={styles.infoIcon}>ⓘ</Text>
+      </TouchableOpacity>
+
       <TouchableOpacity
         style={styles.refreshButton}
         onPress={handleNewConversation}
@@ -812,14 +1139,92 @@ const ChatScreenComponent = () => {
     <SafeAreaView style={styles.container}>
       {renderHeader()}
       
+      {/* Model choice for regenerating a response */}
+      {regenerateMessageId && (
+        <View style={styles.modelSelectorContainer}>
+          <View style={styles.regenerateHeader}>
+            <Text style={styles.regenerateTitle}>Regenerate with</Text>
+            <TouchableOpacity
+              onPress={() => setRegenerateMessageId(null)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Text style={styles.regenerateCancel}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+          <ModelSelector
+            selectedModel={selectedModel}
+            onModelSelect={(model) => {
+              const messageId = regenerateMessageId;
+              setRegenerateMessageId(null);
+              handleRegenerateMessage(messageId, model);
+            }}
+          />
+        </View>
+      )}
+
+      <ConversationInfoSheet
+        isVisible={showInfoSheet}
+        title={conversationTitle}
+        createdAt={conversation?.createdAt}
+        messageCount={messages.length}
+        totalTokens={conversation?.totalTokens}
+        persona={persona}
+        summary={contextSummary?.summary}
+        settings={conversationSettings}
+        defaults={{
+          model: defaultModel,
+          temperature: persona.temperature ?? settings.temperature,
+          maxTokens: settings.maxTokens,
+        }}
+        onSave={(updatedSettings) => {
+          setShowInfoSheet(false);
+          // Replace rather than merge so cleared fields go back to their defaults
+          updateConversationSettings({
+            model: undefined,
+            temperature: undefined,
+            maxTokens: undefined,
+            systemPrompt: undefined,
+            toolsEnabled: undefined,
+            ...updatedSettings,
+          });
+        }}
+        onClose={() => setShowInfoSheet(false)}
+      />
+
+      <ResponseComparisonModal
+        isVisible={comparisonResponses.length > 1}
+        responses={comparisonResponses}
+        activeResponseId={comparisonMessageId}
+        onSelect={(responseId) => {
+          if (comparisonMessageId) {
+            activateBranch(comparisonMessageId, responseId);
+            setComparisonMessageId(responseId);
+          }
+        }}
+        onClose={() => setComparisonMessageId(null)}
+      />
+      
       {/* Model Selector Dropdown */}
       {showModelSelector && (
         <View style={styles.modelSelectorContainer}>
+          <PersonaSelector
+            personas={getPersonas(settings)}
+            selectedPersonaId={persona.id}
+            onPersonaSelect={handlePersonaSelect}
+            onManagePersonas={() => {
+              setShowModelSelector(false);
+              navigation.navigate('PersonaSettings');
+            }}
+          />
           <ModelSelector
             selectedModel={selectedModel}
             onModelSelect={(model) => {
-              setSelectedModel(model);
+              updateConversationSettings({ model });
               setShowModelSelector(false);
+              // Remember the choice as the default model
+              updateSetting('model', model).catch(error => {
+                console.error('Failed to save selected model:', error);
+              });
             }}
           />
         </View>
@@ -843,13 +1248,20 @@ const ChatScreenComponent = () => {
           showsVerticalScrollIndicator={false}
           onScroll={handleScroll}
           scrollEventThrottle={100}
+          onScrollToIndexFailed={({ index, averageItemLength }) => {
+            // Item not measured yet: jump near it, then retry once it has rendered
+            flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+            setTimeout(() => {
+              flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.3 });
+            }, 300);
+          }}
           onContentSizeChange={(contentWidth, contentHeight) => {
             // Auto-scroll to show AI thinking animation when processing starts
-            if ((agentLoading || openAILoading || isGeminiLoading) && messages.length > 0) {
+            if ((agentLoading) && messages.length > 0) {
               scrollToShowProcessing();
             }
             // Only auto-scroll after AI completes if user was at bottom before processing
-            else if (!agentLoading && !openAILoading && !isGeminiLoading && wasAtBottomBeforeProcessing && messages.length > 0) {
+            else if (!agentLoading && wasAtBottomBeforeProcessing && messages.length > 0) {
               setTimeout(() => {
                 flatListRef.current?.scrollToEnd({ animated: true });
               }, 100);
@@ -863,7 +1275,7 @@ const ChatScreenComponent = () => {
             />
           }
           ListEmptyComponent={renderEmptyState}
-          ListFooterComponent={(agentLoading || openAILoading || isGeminiLoading) ? renderLoadingMessage : undefined}
+          ListFooterComponent={(agentLoading) && !isStreamingResponse ? renderLoadingMessage : undefined}
           removeClippedSubviews={Platform.OS === 'android'}
           maxToRenderPerBatch={10}
           windowSize={5}
@@ -875,8 +1287,9 @@ const ChatScreenComponent = () => {
         <ChatInputWithVoice
           onSendMessage={handleSendMessage}
           onImageMessage={handleImageMessage}
-          isProcessing={agentLoading || openAILoading || isGeminiLoading}
-          disabled={isLoading || agentLoading || openAILoading || isGeminiLoading}
+          onStopGeneration={handleStopGeneration}
+          isProcessing={agentLoading}
+          disabled={isLoading || agentLoading}
           enableVoiceToText={true}
           enableTextEditing={false}
           autoCompleteOnTranscription={true}
@@ -886,13 +1299,10 @@ const ChatScreenComponent = () => {
         />
         
         
-        {(agentError || openAIError) && (
+        {agentError && (
           <View style={styles.errorBanner}>
-            <Text style={styles.errorText}>{agentError || openAIError}</Text>
-            <TouchableOpacity onPress={() => {
-              clearAgentError();
-              clearError();
-            }} style={styles.errorDismiss}>
+            <Text style={styles.errorText}>{agentError}</Text>
+            <TouchableOpacity onPress={clearAgentError} style={styles.errorDismiss}>
               <Text style={styles.errorDismissText}>Dismiss</Text>
             </TouchableOpacity>
           </View>
@@ -904,6 +1314,7 @@ const ChatScreenComponent = () => {
         onClose={() => setIsSidebarVisible(false)}
         onConversationSelect={handleConversationSelect}
         onNewConversation={handleNewConversation}
+        onOpenConversationList={handleOpenConversationList}
         currentConversationId={conversationId}
       />
 
@@ -915,6 +1326,7 @@ const ChatScreenComponent = () => {
         onStopListening={voiceModeActions.stopListening}
         onToggleListening={voiceModeActions.toggleListening}
         isListening={voiceModeState.isListening}
+        isSpeechDetected={voiceModeState.isSpeechDetected}
         currentText={voiceModeState.currentTranscription}
         responseText={voiceModeState.currentResponse}
         enableHaptics={true}
@@ -978,6 +1390,17 @@ const styles = StyleSheet.create({
   headerSpacer: {
     width: 40,
   },
+  infoButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  infoIcon: {
+    fontSize: 20,
+    color: '#000000',
+  },
   refreshButton: {
     width: 32,
     height: 32,
@@ -1112,6 +1535,21 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     fontWeight: '600',
   },
+  regenerateHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  regenerateTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  regenerateCancel: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
   modelSelectorContainer: {
     position: 'absolute',
     top: 80, // Below header
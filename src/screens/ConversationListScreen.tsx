@@ -8,17 +8,20 @@ import {
   TouchableOpacity,
   Alert,
   RefreshControl,
+  ScrollView,
   Dimensions,
   Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { Conversation, ConversationSearchFilters } from '@/types';
+import { Conversation, ConversationSearchFilters, MessageSearchResult } from '@/types';
 import { ConversationStorageService } from '@/services/conversationStorage';
+import { HighlightedText } from '@/components/HighlightedText';
 import { RootStackParamList } from '@/navigation/AppNavigator';
 
 type ConversationListNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ConversationList'>;
+type ConversationListRouteProp = RouteProp<RootStackParamList, 'ConversationList'>;
 
 const { width: screenWidth } = Dimensions.get('window');
 const isTablet = screenWidth > 768;
@@ -56,12 +59,16 @@ function ConversationItem({
     }
   };
 
+  // List results are loaded without messages, so prefer the stored count
+  const messageCount = conversation.messageCount ?? conversation.messages.length;
+
   const getPreviewText = () => {
     const lastMessage = conversation.messages[conversation.messages.length - 1];
-    if (lastMessage) {
-      return lastMessage.content.length > 80 
-        ? lastMessage.content.substring(0, 80) + '...'
-        : lastMessage.content;
+    const preview = lastMessage?.content ?? conversation.lastMessagePreview;
+    if (preview) {
+      return preview.length > 80 
+        ? preview.substring(0, 80) + '...'
+        : preview;
     }
     return 'No messages';
   };
@@ -93,7 +100,7 @@ function ConversationItem({
       
       <View style={styles.conversationFooter}>
         <Text style={styles.messageCount}>
-          {conversation.messages.length} message{conversation.messages.length !== 1 ? 's' : ''}
+          {messageCount} message{messageCount !== 1 ? 's' : ''}
         </Text>
         
         <View style={styles.actionButtons}>
@@ -128,9 +135,42 @@ function ConversationItem({
   );
 }
 
+interface MessageResultItemProps {
+  result: MessageSearchResult;
+  onPress: () => void;
+}
+
+function MessageResultItem({ result, onPress }: MessageResultItemProps) {
+  return (
+    <TouchableOpacity style={styles.messageResultItem} onPress={onPress} activeOpacity={0.7}>
+      <View style={styles.messageResultHeader}>
+        <Text style={styles.messageResultTitle} numberOfLines={1}>
+          {result.conversationTitle}
+        </Text>
+        <Text style={styles.messageResultRole}>
+          {result.role === 'user' ? 'You' : 'Assistant'}
+        </Text>
+      </View>
+      <HighlightedText
+        text={result.snippet}
+        highlights={result.highlights}
+        style={styles.messageResultSnippet}
+        highlightStyle={styles.messageResultHighlight}
+        numberOfLines={3}
+      />
+    </TouchableOpacity>
+  );
+}
+
 export function ConversationListScreen() {
   const navigation = useNavigation<ConversationListNavigationProp>();
+  const route = useRoute<ConversationListRouteProp>();
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  // Past conversations similar to the one that is open
+  const [relatedConversations, setRelatedConversations] = useState<Conversation[]>([]);
+  const [searchMode, setSearchMode] = useState<'keyword' | 'semantic'>('keyword');
+  // Individual messages matching the search query
+  const [messageResults, setMessageResults] = useState<MessageSearchResult[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -145,6 +185,7 @@ export function ConversationListScreen() {
 
     if (searchQuery.trim()) {
       filters.query = searchQuery.trim();
+      filters.searchMode = searchMode;
     }
 
     switch (selectedFilter) {
@@ -162,14 +203,22 @@ export function ConversationListScreen() {
     }
 
     return filters;
-  }, [searchQuery, selectedFilter]);
+  }, [searchQuery, selectedFilter, searchMode]);
 
   // Load conversations
   const loadConversations = useCallback(async () => {
     try {
       setIsLoading(true);
-      const loadedConversations = await ConversationStorageService.getConversations(searchFilters);
+      const [loadedConversations, loadedMessageResults] = await Promise.all([
+        ConversationStorageService.getConversations(searchFilters),
+        !searchFilters.query
+          ? Promise.resolve([])
+          : searchFilters.searchMode === 'semantic'
+            ? ConversationStorageService.searchMessagesByMeaning(searchFilters.query, 20)
+            : ConversationStorageService.searchMessages(searchFilters.query, 20),
+      ]);
       setConversations(loadedConversations);
+      setMessageResults(loadedMessageResults);
     } catch (error) {
       console.error('Failed to load conversations:', error);
       Alert.alert('Error', 'Failed to load conversations');
@@ -183,6 +232,27 @@ export function ConversationListScreen() {
     loadConversations();
   }, [loadConversations]);
 
+  // Related conversations for the chat the list was opened from
+  useEffect(() => {
+    let cancelled = false;
+    const currentConversationId = route.params?.currentConversationId;
+    setRelatedConversations([]);
+
+    const loadRelated = async () => {
+      if (!currentConversationId) return;
+
+      const related = await ConversationStorageService.getRelatedConversations(currentConversationId);
+      if (!cancelled) {
+        setRelatedConversations(related);
+      }
+    };
+
+    loadRelated();
+    return () => {
+      cancelled = true;
+    };
+  }, [route.params?.currentConversationId]);
+
   // Refresh conversations
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -195,9 +265,9 @@ export function ConversationListScreen() {
     navigation.navigate('Chat');
   }, [navigation]);
 
-  // Open conversation
-  const openConversation = useCallback((conversationId: string) => {
-    navigation.navigate('Chat', { conversationId });
+  // Open conversation, optionally scrolled to one of its messages
+  const openConversation = useCallback((conversationId: string, messageId?: string) => {
+    navigation.navigate('Chat', { conversationId, messageId });
   }, [navigation]);
 
   // Star/unstar conversation
@@ -286,6 +356,58 @@ export function ConversationListScreen() {
     />
   ), [openConversation, handleLongPress, toggleStar, toggleArchive, deleteConversation]);
 
+  // Render message search results above the matching conversations
+  const renderMessageResults = useCallback(() => {
+    if (!searchQuery.trim() && relatedConversations.length > 0) {
+      return (
+        <View style={styles.searchSection}>
+          <Text style={styles.searchSectionTitle}>Related to your current chat</Text>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.relatedList}
+          >
+            {relatedConversations.map(related => (
+              <TouchableOpacity
+                key={related.id}
+                style={styles.relatedItem}
+                onPress={() => openConversation(related.id)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.relatedTitle} numberOfLines={2}>{related.title}</Text>
+                {related.lastMessagePreview && (
+                  <Text style={styles.relatedPreview} numberOfLines={2}>
+                    {related.lastMessagePreview}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      );
+    }
+
+    if (messageResults.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.searchSection}>
+        <Text style={styles.searchSectionTitle}>Messages</Text>
+        {messageResults.map(result => (
+          <MessageResultItem
+            key={result.messageId}
+            result={result}
+            onPress={() => openConversation(result.conversationId, result.messageId)}
+          />
+        ))}
+        {conversations.length > 0 && (
+          <Text style={styles.searchSectionTitle}>Conversations</Text>
+        )}
+      </View>
+    );
+  }, [searchQuery, relatedConversations, messageResults, conversations.length, openConversation]);
+
   // Render empty state
   const renderEmptyState = useCallback(() => (
     <View style={styles.emptyState}>
@@ -355,6 +477,34 @@ export function ConversationListScreen() {
         />
       </View>
 
+      {/* Search mode */}
+      {searchQuery.trim().length > 0 && (
+        <View style={styles.filterContainer}>
+          {[
+            { key: 'keyword', label: 'Keywords' },
+            { key: 'semantic', label: 'Meaning' },
+          ].map(mode => (
+            <TouchableOpacity
+              key={mode.key}
+              style={[
+                styles.filterPill,
+                searchMode === mode.key && styles.filterPillActive,
+              ]}
+              onPress={() => setSearchMode(mode.key as 'keyword' | 'semantic')}
+            >
+              <Text
+                style={[
+                  styles.filterPillText,
+                  searchMode === mode.key && styles.filterPillTextActive,
+                ]}
+              >
+                {mode.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       {/* Filter Pills */}
       {renderFilterPills()}
 
@@ -366,7 +516,7 @@ export function ConversationListScreen() {
         style={styles.conversationsList}
         contentContainerStyle={[
           styles.conversationsContainer,
-          conversations.length === 0 && styles.conversationsContainerEmpty,
+          conversations.length === 0 && messageResults.length === 0 && styles.conversationsContainerEmpty,
         ]}
         showsVerticalScrollIndicator={false}
         refreshControl={
@@ -376,7 +526,8 @@ export function ConversationListScreen() {
             tintColor="#007AFF"
           />
         }
-        ListEmptyComponent={renderEmptyState}
+        ListHeaderComponent={renderMessageResults}
+        ListEmptyComponent={messageResults.length === 0 ? renderEmptyState : undefined}
         removeClippedSubviews={Platform.OS === 'android'}
         maxToRenderPerBatch={10}
         windowSize={10}
@@ -572,6 +723,70 @@ const styles = StyleSheet.create({
     fontSize: 10,
     color: '#8E8E93',
   },
+  searchSection: {
+    marginBottom: 4,
+  },
+  searchSectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  relatedList: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  relatedItem: {
+    width: 180,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 12,
+  },
+  relatedTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  relatedPreview: {
+    fontSize: 12,
+    color: '#666666',
+    lineHeight: 16,
+  },
+  messageResultItem: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  messageResultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  messageResultTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    marginRight: 8,
+  },
+  messageResultRole: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  messageResultSnippet: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+  },
+  messageResultHighlight: {
+    backgroundColor: '#FFF3B0',
+    color: '#000000',
+    fontWeight: '600',
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
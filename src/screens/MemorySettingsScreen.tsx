@@ -0,0 +1,448 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { AppSettings, MemoryFact } from '@/types';
+import { SettingsStorageService } from '@/services/settingsStorage';
+import { MemoryStorageService } from '@/services/memoryStorage';
+import { RootStackParamList } from '@/navigation/AppNavigator';
+
+type MemorySettingsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MemorySettings'>;
+
+export function MemorySettingsScreen() {
+  const navigation = useNavigation<MemorySettingsNavigationProp>();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [memories, setMemories] = useState<MemoryFact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newMemory, setNewMemory] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  // Load settings and memories
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [loadedSettings, loadedMemories] = await Promise.all([
+        SettingsStorageService.loadSettings(),
+        MemoryStorageService.getMemories(),
+      ]);
+      setSettings(loadedSettings);
+      setMemories(loadedMemories);
+    } catch (error) {
+      console.error('Failed to load memories:', error);
+      Alert.alert('Error', 'Failed to load memories');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const reloadMemories = useCallback(async () => {
+    setMemories(await MemoryStorageService.getMemories());
+  }, []);
+
+  // Save setting
+  const saveSetting = useCallback(async (key: keyof AppSettings, value: any) => {
+    try {
+      setIsSaving(true);
+      await SettingsStorageService.updateSetting(key, value);
+      setSettings(prev => prev ? { ...prev, [key]: value } : null);
+    } catch (error) {
+      console.error(`Failed to save ${key}:`, error);
+      Alert.alert('Error', `Failed to save ${key}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const addMemory = useCallback(async () => {
+    if (!newMemory.trim()) return;
+
+    try {
+      await MemoryStorageService.addMemory(newMemory);
+      setNewMemory('');
+      await reloadMemories();
+    } catch (error) {
+      console.error('Failed to add memory:', error);
+      Alert.alert('Error', 'Failed to add memory');
+    }
+  }, [newMemory, reloadMemories]);
+
+  const startEditing = useCallback((memory: MemoryFact) => {
+    setEditingId(memory.id);
+    setEditText(memory.content);
+  }, []);
+
+  const saveEdit = useCallback(async () => {
+    if (!editingId || !editText.trim()) return;
+
+    try {
+      await MemoryStorageService.updateMemory(editingId, editText);
+      setEditingId(null);
+      await reloadMemories();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update memory');
+    }
+  }, [editingId, editText, reloadMemories]);
+
+  const deleteMemory = useCallback((memory: MemoryFact) => {
+    Alert.alert(
+      'Forget Memory',
+      `"${memory.content}" will no longer be used in conversations.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await MemoryStorageService.deleteMemory(memory.id);
+              await reloadMemories();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete memory');
+            }
+          },
+        },
+      ]
+    );
+  }, [reloadMemories]);
+
+  const clearMemories = useCallback(() => {
+    Alert.alert(
+      'Forget Everything',
+      'All remembered facts will be deleted from this device. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget All',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await MemoryStorageService.clearMemories();
+              setMemories([]);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to clear memories');
+            }
+          },
+        },
+      ]
+    );
+  }, []);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading memories...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Memory</Text>
+        </View>
+
+        {/* Memory toggle */}
+        <View style={styles.section}>
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Long-term Memory</Text>
+              <Text style={styles.switchDescription}>
+                Remember facts you share, like the tools you use or your time zone, and use them in new conversations. Messages are sent to the selected model to find these facts.
+              </Text>
+            </View>
+            <Switch
+              value={settings?.memoryEnabled || false}
+              onValueChange={(value) => saveSetting('memoryEnabled', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        </View>
+
+        {/* Add memory */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Add a Memory</Text>
+          <View style={styles.addRow}>
+            <TextInput
+              style={styles.textInput}
+              value={newMemory}
+              onChangeText={setNewMemory}
+              placeholder="e.g. Prefers metric units"
+              placeholderTextColor="#C7C7CC"
+              returnKeyType="done"
+              onSubmitEditing={addMemory}
+            />
+            <TouchableOpacity
+              style={[styles.addButton, !newMemory.trim() && styles.buttonDisabled]}
+              onPress={addMemory}
+              disabled={!newMemory.trim()}
+            >
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Memories */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Remembered ({memories.length})</Text>
+          {memories.length === 0 && (
+            <Text style={styles.sectionDescription}>
+              Nothing remembered yet
+            </Text>
+          )}
+
+          {memories.map((memory) => (
+            <View key={memory.id} style={styles.memoryItem}>
+              {editingId === memory.id ? (
+                <View>
+                  <TextInput
+                    style={styles.textInput}
+                    value={editText}
+                    onChangeText={setEditText}
+                    multiline
+                    autoFocus
+                  />
+                  <View style={styles.memoryActions}>
+                    <TouchableOpacity onPress={() => setEditingId(null)}>
+                      <Text style={styles.memoryActionText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={saveEdit} disabled={!editText.trim()}>
+                      <Text style={[styles.memoryActionText, styles.memoryActionPrimary]}>Save</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <>
+                  <Text style={styles.memoryContent}>{memory.content}</Text>
+                  <View style={styles.memoryFooter}>
+                    {memory.source ? (
+                      <TouchableOpacity
+                        onPress={() => navigation.navigate('Chat', {
+                          conversationId: memory.source!.conversationId,
+                          messageId: memory.source!.messageId,
+                        })}
+                      >
+                        <Text style={styles.memorySource}>
+                          From a conversation · {memory.createdAt.toLocaleDateString()} ›
+                        </Text>
+                      </TouchableOpacity>
+                    ) : (
+                      <Text style={styles.memoryMeta}>
+                        Added by you · {memory.createdAt.toLocaleDateString()}
+                      </Text>
+                    )}
+                    <View style={styles.memoryActions}>
+                      <TouchableOpacity onPress={() => startEditing(memory)}>
+                        <Text style={styles.memoryActionText}>Edit</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={() => deleteMemory(memory)}>
+                        <Text style={[styles.memoryActionText, styles.memoryActionDanger]}>Delete</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                </>
+              )}
+            </View>
+          ))}
+
+          {memories.length > 0 && (
+            <TouchableOpacity style={styles.dangerButton} onPress={clearMemories}>
+              <Text style={styles.dangerButtonText}>Forget Everything</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  switchItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  switchContent: {
+    flex: 1,
+    marginRight: 16,
+  },
+  switchTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  switchDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  textInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000000',
+    backgroundColor: '#FFFFFF',
+  },
+  addButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  memoryItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  memoryContent: {
+    fontSize: 16,
+    color: '#000000',
+    marginBottom: 6,
+  },
+  memoryFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  memorySource: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  memoryMeta: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  memoryActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 4,
+  },
+  memoryActionText: {
+    fontSize: 14,
+    color: '#666666',
+    fontWeight: '500',
+  },
+  memoryActionPrimary: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  memoryActionDanger: {
+    color: '#FF3B30',
+  },
+  dangerButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+});
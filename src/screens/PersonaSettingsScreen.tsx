@@ -0,0 +1,582 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import * as Clipboard from 'expo-clipboard';
+import { AppSettings, ModelType, Persona, VoiceType } from '@/types';
+import { SettingsStorageService } from '@/services/settingsStorage';
+import { getChatProviderInfo, getRegisteredModels } from '@/services/chatProviders';
+import {
+  DEFAULT_PERSONA_ID,
+  PERSONA_TOOLS,
+  generatePersonaId,
+  getPersonas,
+  parsePersonas,
+  sharePersonas,
+} from '@/services/personas';
+
+const VOICE_OPTIONS: VoiceType[] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+const TEMPERATURE_OPTIONS = [0.2, 0.5, 0.7, 1.0, 1.3];
+
+export function PersonaSettingsScreen() {
+  const navigation = useNavigation();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // Persona being created or edited; null while the list is shown
+  const [draft, setDraft] = useState<Persona | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setSettings(await SettingsStorageService.loadSettings());
+    } catch (error) {
+      console.error('Failed to load personas:', error);
+      Alert.alert('Error', 'Failed to load personas');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // Save setting
+  const saveSetting = useCallback(async <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    try {
+      setIsSaving(true);
+      await SettingsStorageService.updateSetting(key, value);
+      setSettings(prev => prev ? { ...prev, [key]: value } : null);
+    } catch (error) {
+      console.error(`Failed to save ${key}:`, error);
+      Alert.alert('Error', `Failed to save ${key}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const customPersonas = settings?.personas || [];
+
+  const startNewPersona = useCallback(() => {
+    setDraft({ id: generatePersonaId(), name: '', icon: '🤖', systemPrompt: '' });
+  }, []);
+
+  // Built-in personas cannot be edited, so they are copied first
+  const duplicatePersona = useCallback((persona: Persona) => {
+    const { isBuiltIn, ...copy } = persona;
+    setDraft({ ...copy, id: generatePersonaId(), name: `${persona.name} Copy` });
+  }, []);
+
+  const saveDraft = useCallback(async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim() || !draft.systemPrompt.trim()) {
+      Alert.alert('Error', 'Please enter a name and a system prompt');
+      return;
+    }
+
+    const persona: Persona = {
+      ...draft,
+      name: draft.name.trim(),
+      icon: draft.icon.trim() || '🤖',
+      systemPrompt: draft.systemPrompt.trim(),
+    };
+    const exists = customPersonas.some(existing => existing.id === persona.id);
+    await saveSetting(
+      'personas',
+      exists
+        ? customPersonas.map(existing => (existing.id === persona.id ? persona : existing))
+        : [...customPersonas, persona]
+    );
+    setDraft(null);
+  }, [draft, customPersonas, saveSetting]);
+
+  const deletePersona = useCallback((persona: Persona) => {
+    Alert.alert(
+      'Delete Persona',
+      `Delete ${persona.name}? Conversations that used it switch to the default persona.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await saveSetting('personas', customPersonas.filter(existing => existing.id !== persona.id));
+            if (settings?.defaultPersonaId === persona.id) {
+              await saveSetting('defaultPersonaId', DEFAULT_PERSONA_ID);
+            }
+          },
+        },
+      ]
+    );
+  }, [customPersonas, settings?.defaultPersonaId, saveSetting]);
+
+  const importFromClipboard = useCallback(async () => {
+    try {
+      const imported = parsePersonas(await Clipboard.getStringAsync());
+      await saveSetting('personas', [...customPersonas, ...imported]);
+      Alert.alert('Imported', `Added ${imported.length} persona${imported.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      Alert.alert('Import Failed', `Copy exported persona JSON first. ${error instanceof Error ? error.message : ''}`);
+    }
+  }, [customPersonas, saveSetting]);
+
+  const sharePersonaList = useCallback(async (personas: Persona[]) => {
+    try {
+      await sharePersonas(personas);
+    } catch (error) {
+      console.error('Failed to share personas:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to share personas');
+    }
+  }, []);
+
+  const describePersona = (persona: Persona): string => [
+    persona.model ? getChatProviderInfo(persona.model)?.shortName ?? `${persona.model} (unavailable)` : null,
+    persona.temperature !== undefined ? `Temp ${persona.temperature.toFixed(1)}` : null,
+    persona.enabledTools ? `${persona.enabledTools.length} tool${persona.enabledTools.length === 1 ? '' : 's'}` : null,
+    persona.voice ? `Voice: ${persona.voice}` : null,
+  ].filter(Boolean).join(' · ') || 'Uses your default settings';
+
+  const renderOptionChips = <T,>(
+    options: Array<{ value: T | undefined; label: string }>,
+    selected: T | undefined,
+    onSelect: (value: T | undefined) => void
+  ) => (
+    <View style={styles.selectContainer}>
+      {options.map((option) => {
+        const isActive = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.selectOption, isActive && styles.selectOptionActive]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text style={[styles.selectOptionText, isActive && styles.selectOptionTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderEditor = (persona: Persona) => {
+    const update = (changes: Partial<Persona>) => setDraft(prev => prev ? { ...prev, ...changes } : prev);
+    const enabledTools = persona.enabledTools ?? PERSONA_TOOLS.map(tool => tool.name);
+
+    const toggleTool = (toolName: string, enabled: boolean) => {
+      const nextTools = enabled
+        ? [...enabledTools, toolName]
+        : enabledTools.filter(name => name !== toolName);
+      // Store undefined for "all tools" so tools added later are enabled too
+      update({ enabledTools: nextTools.length === PERSONA_TOOLS.length ? undefined : nextTools });
+    };
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>
+          {customPersonas.some(existing => existing.id === persona.id) ? 'Edit Persona' : 'New Persona'}
+        </Text>
+
+        <View style={styles.nameRow}>
+          <TextInput
+            style={[styles.textInput, styles.iconInput]}
+            value={persona.icon}
+            onChangeText={(icon) => update({ icon })}
+            maxLength={4}
+          />
+          <TextInput
+            style={[styles.textInput, styles.nameInput]}
+            value={persona.name}
+            onChangeText={(name) => update({ name })}
+            placeholder="Name (e.g. Code Reviewer)"
+          />
+        </View>
+
+        <Text style={styles.fieldLabel}>System Prompt</Text>
+        <TextInput
+          style={[styles.textInput, styles.promptInput]}
+          value={persona.systemPrompt}
+          onChangeText={(systemPrompt) => update({ systemPrompt })}
+          placeholder="How should the assistant behave?"
+          multiline
+          textAlignVertical="top"
+        />
+
+        <Text style={styles.fieldLabel}>Default Model</Text>
+        {renderOptionChips<ModelType>(
+          [
+            { value: undefined, label: 'Current' },
+            ...getRegisteredModels().map(({ model, info }) => ({ value: model, label: info.shortName })),
+          ],
+          persona.model,
+          (model) => update({ model })
+        )}
+
+        <Text style={styles.fieldLabel}>Temperature</Text>
+        {renderOptionChips<number>(
+          [
+            { value: undefined, label: 'Default' },
+            ...TEMPERATURE_OPTIONS.map(value => ({ value, label: value.toFixed(1) })),
+          ],
+          persona.temperature,
+          (temperature) => update({ temperature })
+        )}
+
+        <Text style={styles.fieldLabel}>Tools</Text>
+        {PERSONA_TOOLS.map((tool) => (
+          <View key={tool.name} style={styles.switchRow}>
+            <Text style={styles.switchLabel}>{tool.label}</Text>
+            <Switch
+              value={enabledTools.includes(tool.name)}
+              onValueChange={(enabled) => toggleTool(tool.name, enabled)}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        ))}
+
+        <Text style={styles.fieldLabel}>Voice</Text>
+        {renderOptionChips<VoiceType>(
+          [
+            { value: undefined, label: 'Default' },
+            ...VOICE_OPTIONS.map(voice => ({ value: voice, label: voice.charAt(0).toUpperCase() + voice.slice(1) })),
+          ],
+          persona.voice,
+          (voice) => update({ voice })
+        )}
+
+        <View style={styles.editorActions}>
+          <TouchableOpacity style={[styles.secondaryButton, styles.editorButton]} onPress={() => setDraft(null)}>
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.editorButton, isSaving && styles.buttonDisabled]}
+            onPress={saveDraft}
+            disabled={isSaving}
+          >
+            <Text style={styles.primaryButtonText}>Save Persona</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (isLoading || !settings) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading personas...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => (draft ? setDraft(null) : navigation.goBack())}
+          >
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Personas</Text>
+        </View>
+
+        {draft ? renderEditor(draft) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Personas</Text>
+              <Text style={styles.sectionDescription}>
+                Pick a persona from the model menu in a chat. New chats start with the default persona.
+              </Text>
+
+              {getPersonas(settings).map((persona) => {
+                const isDefault = persona.id === settings.defaultPersonaId;
+                return (
+                  <View key={persona.id} style={styles.personaItem}>
+                    <View style={styles.personaHeader}>
+                      <Text style={styles.personaIcon}>{persona.icon}</Text>
+                      <View style={styles.personaInfo}>
+                        <Text style={styles.personaName}>
+                          {persona.name}{isDefault ? '  · Default' : ''}
+                        </Text>
+                        <Text style={styles.personaDescription} numberOfLines={1}>
+                          {describePersona(persona)}
+                        </Text>
+                      </View>
+                    </View>
+                    <View style={styles.personaActions}>
+                      {!isDefault && (
+                        <TouchableOpacity onPress={() => saveSetting('defaultPersonaId', persona.id)}>
+                          <Text style={styles.personaActionText}>Make Default</Text>
+                        </TouchableOpacity>
+                      )}
+                      {persona.isBuiltIn ? (
+                        <TouchableOpacity onPress={() => duplicatePersona(persona)}>
+                          <Text style={styles.personaActionText}>Duplicate</Text>
+                        </TouchableOpacity>
+                      ) : (
+                        <>
+                          <TouchableOpacity onPress={() => setDraft(persona)}>
+                            <Text style={styles.personaActionText}>Edit</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity onPress={() => sharePersonaList([persona])}>
+                            <Text style={styles.personaActionText}>Share</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity onPress={() => deletePersona(persona)}>
+                            <Text style={[styles.personaActionText, styles.personaDeleteText]}>Delete</Text>
+                          </TouchableOpacity>
+                        </>
+                      )}
+                    </View>
+                  </View>
+                );
+              })}
+
+              <TouchableOpacity style={styles.primaryButton} onPress={startNewPersona}>
+                <Text style={styles.primaryButtonText}>New Persona</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Share</Text>
+              <Text style={styles.sectionDescription}>
+                Personas are shared as JSON. To import, copy the JSON and paste it here.
+              </Text>
+              <TouchableOpacity
+                style={[styles.secondaryButton, customPersonas.length === 0 && styles.buttonDisabled]}
+                onPress={() => sharePersonaList(customPersonas)}
+                disabled={customPersonas.length === 0}
+              >
+                <Text style={styles.secondaryButtonText}>Export My Personas</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.secondaryButton, styles.stackedButton]} onPress={importFromClipboard}>
+                <Text style={styles.secondaryButtonText}>Import from Clipboard</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  personaItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  personaHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  personaIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  personaInfo: {
+    flex: 1,
+  },
+  personaName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  personaDescription: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  personaActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 8,
+  },
+  personaActionText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  personaDeleteText: {
+    color: '#FF3B30',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000000',
+    backgroundColor: '#FFFFFF',
+  },
+  iconInput: {
+    width: 56,
+    textAlign: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  promptInput: {
+    minHeight: 120,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  selectContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  selectOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#FFFFFF',
+  },
+  selectOptionActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  selectOptionText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  selectOptionTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#000000',
+  },
+  editorActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  editorButton: {
+    flex: 1,
+  },
+  primaryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  stackedButton: {
+    marginTop: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
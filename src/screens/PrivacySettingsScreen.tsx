@@ -0,0 +1,360 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { AppSettings } from '@/types';
+import { SettingsStorageService } from '@/services/settingsStorage';
+import { ConversationStorageService } from '@/services/conversationStorage';
+
+export function PrivacySettingsScreen() {
+  const navigation = useNavigation();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load settings
+  const loadSettings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const loadedSettings = await SettingsStorageService.loadSettings();
+      setSettings(loadedSettings);
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+      Alert.alert('Error', 'Failed to load settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // Save setting
+  const saveSetting = useCallback(async (key: keyof AppSettings, value: any) => {
+    try {
+      setIsSaving(true);
+      await SettingsStorageService.updateSetting(key, value);
+      setSettings(prev => prev ? { ...prev, [key]: value } : null);
+    } catch (error) {
+      console.error(`Failed to save ${key}:`, error);
+      Alert.alert('Error', `Failed to save ${key}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  // Delete every stored conversation after confirmation
+  const clearConversations = useCallback(() => {
+    Alert.alert(
+      'Delete All Conversations',
+      'This will permanently delete all conversations stored on this device. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ConversationStorageService.clearAllConversations();
+              Alert.alert('Done', 'All conversations have been deleted');
+            } catch (error) {
+              console.error('Failed to clear conversations:', error);
+              Alert.alert('Error', 'Failed to delete conversations');
+            }
+          },
+        },
+      ]
+    );
+  }, []);
+
+  // Auto-lock timeout options (milliseconds)
+  const autoLockOptions = [
+    { value: 60000, label: '1 min' },
+    { value: 300000, label: '5 min' },
+    { value: 900000, label: '15 min' },
+    { value: 1800000, label: '30 min' },
+  ];
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading settings...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Privacy & Security</Text>
+        </View>
+
+        {/* Data Sharing */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Data Sharing</Text>
+          <Text style={styles.sectionDescription}>
+            Control what information leaves your device
+          </Text>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Usage Analytics</Text>
+              <Text style={styles.switchDescription}>
+                Share anonymous usage statistics to improve the app
+              </Text>
+            </View>
+            <Switch
+              value={settings?.analytics || false}
+              onValueChange={(value) => saveSetting('analytics', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Crash Reports</Text>
+              <Text style={styles.switchDescription}>
+                Send diagnostic reports when the app crashes
+              </Text>
+            </View>
+            <Switch
+              value={settings?.crashReporting || false}
+              onValueChange={(value) => saveSetting('crashReporting', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Data Collection</Text>
+              <Text style={styles.switchDescription}>
+                Allow collection of feature usage data
+              </Text>
+            </View>
+            <Switch
+              value={settings?.dataCollection || false}
+              onValueChange={(value) => saveSetting('dataCollection', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        </View>
+
+        {/* Security */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Security</Text>
+
+          <View style={styles.switchItem}>
+            <View style={styles.switchContent}>
+              <Text style={styles.switchTitle}>Biometric Lock</Text>
+              <Text style={styles.switchDescription}>
+                Require Face ID or fingerprint to open the app
+              </Text>
+            </View>
+            <Switch
+              value={settings?.biometricLock || false}
+              onValueChange={(value) => saveSetting('biometricLock', value)}
+              disabled={isSaving}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          {settings?.biometricLock && (
+            <View style={styles.subsection}>
+              <Text style={styles.subsectionTitle}>Lock after inactivity</Text>
+              <View style={styles.chipRow}>
+                {autoLockOptions.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.chip,
+                      settings?.autoLockTimeout === option.value && styles.chipActive,
+                    ]}
+                    onPress={() => saveSetting('autoLockTimeout', option.value)}
+                    disabled={isSaving}
+                  >
+                    <Text style={[
+                      styles.chipText,
+                      settings?.autoLockTimeout === option.value && styles.chipTextActive,
+                    ]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+        </View>
+
+        {/* Stored Data */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Stored Data</Text>
+          <Text style={styles.sectionDescription}>
+            Conversations are stored only on this device
+          </Text>
+
+          <TouchableOpacity
+            style={styles.dangerButton}
+            onPress={clearConversations}
+            disabled={isSaving}
+          >
+            <Text style={styles.dangerButtonText}>Delete All Conversations</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  subsection: {
+    paddingTop: 12,
+  },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#E3F2FD',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  chipTextActive: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  switchItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  switchContent: {
+    flex: 1,
+    marginRight: 16,
+  },
+  switchTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  switchDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  dangerButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+});
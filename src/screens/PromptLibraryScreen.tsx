@@ -0,0 +1,512 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import * as Clipboard from 'expo-clipboard';
+import { PromptTemplate } from '@/types';
+import { PromptTemplateService } from '@/services/promptTemplateStorage';
+import { extractVariables, toCommand } from '@/utils/promptTemplates';
+
+// Template being edited, with tags as typed
+type TemplateDraft = PromptTemplate & { tagsText: string };
+
+export function PromptLibraryScreen() {
+  const navigation = useNavigation();
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setTemplates(await PromptTemplateService.getTemplates());
+    } catch (error) {
+      console.error('Failed to load prompt templates:', error);
+      Alert.alert('Error', 'Failed to load prompt templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const allTags = useMemo(
+    () => Array.from(new Set(templates.flatMap(template => template.tags))).sort(),
+    [templates]
+  );
+
+  const visibleTemplates = selectedTag
+    ? templates.filter(template => template.tags.includes(selectedTag))
+    : templates;
+
+  const editTemplate = useCallback((template: PromptTemplate) => {
+    setDraft({ ...template, tagsText: template.tags.join(', ') });
+  }, []);
+
+  const saveDraft = useCallback(async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim() || !draft.content.trim()) {
+      Alert.alert('Error', 'Please enter a name and the prompt text');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const { tagsText, ...template } = draft;
+      await PromptTemplateService.saveTemplate({ ...template, tags: tagsText.split(',') });
+      setDraft(null);
+      await loadTemplates();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [draft, loadTemplates]);
+
+  const deleteTemplate = useCallback((template: PromptTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete /${template.command}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await PromptTemplateService.deleteTemplate(template.id);
+              await loadTemplates();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete template');
+            }
+          },
+        },
+      ]
+    );
+  }, [loadTemplates]);
+
+  const importFromClipboard = useCallback(async () => {
+    try {
+      const imported = await PromptTemplateService.importTemplates(await Clipboard.getStringAsync());
+      await loadTemplates();
+      Alert.alert('Imported', `Added ${imported} template${imported === 1 ? '' : 's'}`);
+    } catch (error) {
+      Alert.alert('Import Failed', `Copy exported template JSON first. ${error instanceof Error ? error.message : ''}`);
+    }
+  }, [loadTemplates]);
+
+  const shareTemplates = useCallback(async () => {
+    try {
+      await PromptTemplateService.shareTemplates(visibleTemplates);
+    } catch (error) {
+      console.error('Failed to share prompt templates:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to share templates');
+    }
+  }, [visibleTemplates]);
+
+  const renderEditor = (template: TemplateDraft) => {
+    const update = (changes: Partial<TemplateDraft>) => setDraft(prev => prev ? { ...prev, ...changes } : prev);
+    const variables = extractVariables(template.content);
+    const isNew = !templates.some(existing => existing.id === template.id);
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{isNew ? 'New Template' : 'Edit Template'}</Text>
+
+        <Text style={styles.fieldLabel}>Name</Text>
+        <TextInput
+          style={styles.textInput}
+          value={template.name}
+          onChangeText={(name) => update({ name })}
+          placeholder="e.g. Code Review"
+        />
+
+        <Text style={styles.fieldLabel}>Command</Text>
+        <View style={styles.commandRow}>
+          <Text style={styles.commandPrefix}>/</Text>
+          <TextInput
+            style={[styles.textInput, styles.commandInput]}
+            value={template.command}
+            onChangeText={(command) => update({ command })}
+            placeholder={toCommand(template.name) || 'review'}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+
+        <Text style={styles.fieldLabel}>Prompt</Text>
+        <TextInput
+          style={[styles.textInput, styles.contentInput]}
+          value={template.content}
+          onChangeText={(content) => update({ content })}
+          placeholder={'Translate into {{language}}:\n\n{{text}}'}
+          multiline
+          textAlignVertical="top"
+        />
+        <Text style={styles.helpText}>
+          {variables.length > 0
+            ? `Asks for: ${variables.join(', ')}`
+            : 'Use {{name}} for values to fill in when the template is inserted.'}
+        </Text>
+
+        <Text style={styles.fieldLabel}>Tags</Text>
+        <TextInput
+          style={styles.textInput}
+          value={template.tagsText}
+          onChangeText={(tagsText) => update({ tagsText })}
+          placeholder="code, writing"
+          autoCapitalize="none"
+        />
+
+        <View style={styles.editorActions}>
+          <TouchableOpacity style={[styles.secondaryButton, styles.editorButton]} onPress={() => setDraft(null)}>
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.editorButton, isSaving && styles.buttonDisabled]}
+            onPress={saveDraft}
+            disabled={isSaving}
+          >
+            <Text style={styles.primaryButtonText}>Save Template</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading templates...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => (draft ? setDraft(null) : navigation.goBack())}
+          >
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Prompt Library</Text>
+        </View>
+
+        {draft ? renderEditor(draft) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Templates</Text>
+              <Text style={styles.sectionDescription}>
+                Type / in a chat to insert a template.
+              </Text>
+
+              {allTags.length > 0 && (
+                <View style={styles.tagRow}>
+                  {[null, ...allTags].map((tag) => (
+                    <TouchableOpacity
+                      key={tag ?? 'all'}
+                      style={[styles.tagChip, selectedTag === tag && styles.tagChipActive]}
+                      onPress={() => setSelectedTag(tag)}
+                    >
+                      <Text style={[styles.tagChipText, selectedTag === tag && styles.tagChipTextActive]}>
+                        {tag ?? 'All'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {visibleTemplates.length === 0 && (
+                <Text style={styles.helpText}>No templates yet</Text>
+              )}
+
+              {visibleTemplates.map((template) => (
+                <View key={template.id} style={styles.templateItem}>
+                  <View style={styles.templateHeader}>
+                    <Text style={styles.templateCommand}>/{template.command}</Text>
+                    <Text style={styles.templateName} numberOfLines={1}>{template.name}</Text>
+                    <Text style={styles.templateUsage}>
+                      {template.usageCount} use{template.usageCount === 1 ? '' : 's'}
+                    </Text>
+                  </View>
+                  <Text style={styles.templateContent} numberOfLines={2}>{template.content}</Text>
+                  <View style={styles.templateFooter}>
+                    <Text style={styles.templateTags} numberOfLines={1}>
+                      {template.tags.map(tag => `#${tag}`).join(' ')}
+                    </Text>
+                    <View style={styles.templateActions}>
+                      <TouchableOpacity onPress={() => editTemplate(template)}>
+                        <Text style={styles.templateActionText}>Edit</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={() => deleteTemplate(template)}>
+                        <Text style={[styles.templateActionText, styles.templateDeleteText]}>Delete</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                </View>
+              ))}
+
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={() => editTemplate({ ...PromptTemplateService.createTemplate(), tags: selectedTag ? [selectedTag] : [] })}
+              >
+                <Text style={styles.primaryButtonText}>New Template</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Share</Text>
+              <Text style={styles.sectionDescription}>
+                Templates are shared as JSON{selectedTag ? `; only #${selectedTag} is exported while that tag is selected` : ''}. To import, copy the JSON and paste it here.
+              </Text>
+              <TouchableOpacity
+                style={[styles.secondaryButton, visibleTemplates.length === 0 && styles.buttonDisabled]}
+                onPress={shareTemplates}
+                disabled={visibleTemplates.length === 0}
+              >
+                <Text style={styles.secondaryButtonText}>Export Templates</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.secondaryButton, styles.stackedButton]} onPress={importFromClipboard}>
+                <Text style={styles.secondaryButtonText}>Import from Clipboard</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  helpText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 6,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tagChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  tagChipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  tagChipText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  tagChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  templateItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  templateHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  templateCommand: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  templateName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#000000',
+  },
+  templateUsage: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  templateContent: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 4,
+  },
+  templateFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  templateTags: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  templateActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  templateActionText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  templateDeleteText: {
+    color: '#FF3B30',
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000000',
+    backgroundColor: '#FFFFFF',
+  },
+  commandRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  commandPrefix: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginRight: 6,
+  },
+  commandInput: {
+    flex: 1,
+  },
+  contentInput: {
+    minHeight: 140,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  editorButton: {
+    flex: 1,
+  },
+  primaryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  stackedButton: {
+    marginTop: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -66,7 +66,31 @@ export function SettingsScreen() {
       description: 'OpenAI API configuration and model settings',
       icon: '🔗',
       color: '#007AFF',
-      onPress: () => navigation.navigate('APISettings' as any),
+      onPress: () => navigation.navigate('APISettings'),
+    },
+    {
+      id: 'personas',
+      title: 'Personas',
+      description: 'Assistant profiles with their own prompt, model, tools and voice',
+      icon: '🎭',
+      color: '#5856D6',
+      onPress: () => navigation.navigate('PersonaSettings'),
+    },
+    {
+      id: 'prompts',
+      title: 'Prompt Library',
+      description: 'Reusable prompts you can insert by typing /',
+      icon: '📚',
+      color: '#30B0C7',
+      onPress: () => navigation.navigate('PromptLibrary'),
+    },
+    {
+      id: 'usage',
+      title: 'Usage & Costs',
+      description: 'Estimated spend per day, model and conversation, with a monthly budget',
+      icon: '💵',
+      color: '#30D158',
+      onPress: () => navigation.navigate('UsageDashboard'),
     },
     {
       id: 'voice',
@@ -74,7 +98,7 @@ export function SettingsScreen() {
       description: 'Voice type, speed, and audio preferences',
       icon: '🎙️',
       color: '#34C759',
-      onPress: () => navigation.navigate('VoiceSettings' as any),
+      onPress: () => navigation.navigate('VoiceSettings'),
     },
     {
       id: 'audio',
@@ -82,7 +106,7 @@ export function SettingsScreen() {
       description: 'Audio quality, recording, and playback settings',
       icon: '🔊',
       color: '#FF9500',
-      onPress: () => navigation.navigate('AudioSettings' as any),
+      onPress: () => navigation.navigate('AudioSettings'),
     },
     {
       id: 'appearance',
@@ -90,7 +114,7 @@ export function SettingsScreen() {
       description: 'Theme, colors, fonts, and display options',
       icon: '🎨',
       color: '#AF52DE',
-      onPress: () => navigation.navigate('AppearanceSettings' as any),
+      onPress: () => navigation.navigate('AppearanceSettings'),
     },
     {
       id: 'privacy',
@@ -98,7 +122,15 @@ export function SettingsScreen() {
       description: 'Data collection, analytics, and security settings',
       icon: '🔒',
       color: '#FF3B30',
-      onPress: () => navigation.navigate('PrivacySettings' as any),
+      onPress: () => navigation.navigate('PrivacySettings'),
+    },
+    {
+      id: 'memory',
+      title: 'Memory',
+      description: 'Facts remembered across conversations',
+      icon: '🧠',
+      color: '#FF2D55',
+      onPress: () => navigation.navigate('MemorySettings'),
     },
     {
       id: 'backup',
@@ -106,7 +138,7 @@ export function SettingsScreen() {
       description: 'Data backup, export, and sync settings',
       icon: '💾',
       color: '#5AC8FA',
-      onPress: () => navigation.navigate('BackupSettings' as any),
+      onPress: () => navigation.navigate('BackupSettings'),
     },
     {
       id: 'accessibility',
@@ -114,7 +146,7 @@ export function SettingsScreen() {
       description: 'Voice over, contrast, and accessibility options',
       icon: '♿',
       color: '#FFCC02',
-      onPress: () => navigation.navigate('AccessibilitySettings' as any),
+      onPress: () => navigation.navigate('AccessibilitySettings'),
     },
     {
       id: 'about',
@@ -122,7 +154,7 @@ export function SettingsScreen() {
       description: 'App information, version, and support',
       icon: 'ℹ️',
       color: '#8E8E93',
-      onPress: () => navigation.navigate('AboutScreen' as any),
+      onPress: () => navigation.navigate('AboutScreen'),
     },
   ];
 
@@ -0,0 +1,618 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ModelType, UsageKind } from '@/types';
+import {
+  BudgetStatus,
+  getMonthStart,
+  UsageBreakdownItem,
+  UsageLedgerService,
+  UsageSummary,
+} from '@/services/usageLedger';
+import { getChatProviderInfo } from '@/services/chatProviders';
+import { RootStackParamList } from '@/navigation/AppNavigator';
+
+type UsageDashboardNavigationProp = NativeStackNavigationProp<RootStackParamList, 'UsageDashboard'>;
+
+type Period = 'week' | 'month' | 'calendarMonth';
+
+const PERIODS: Array<{ value: Period; label: string }> = [
+  { value: 'week', label: '7 Days' },
+  { value: 'month', label: '30 Days' },
+  { value: 'calendarMonth', label: 'This Month' },
+];
+
+const WARNING_THRESHOLDS = [0.5, 0.75, 0.8, 0.9];
+
+const KIND_LABELS: Record<UsageKind, string> = {
+  chat: '💬 Chat',
+  transcription: '🎤 Transcription',
+  speech: '🔊 Speech',
+  search: '🔍 Web Search',
+  realtime: '🎧 Realtime Voice',
+  embedding: '🧭 Search Index',
+};
+
+const SERVICE_LABELS: Record<string, string> = {
+  'whisper-1': 'Whisper',
+  'tts-1': 'TTS',
+  'tts-1-hd': 'TTS HD',
+  tavily: 'Tavily Search',
+  'gpt-4o-realtime-preview': 'Realtime',
+  'text-embedding-3-small': 'Embeddings',
+};
+
+const BUDGET_COLORS: Record<BudgetStatus['state'], string> = {
+  none: '#007AFF',
+  ok: '#34C759',
+  warning: '#FF9500',
+  exceeded: '#FF3B30',
+};
+
+function getPeriodStart(period: Period): Date {
+  if (period === 'calendarMonth') {
+    return getMonthStart();
+  }
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (period === 'week' ? 6 : 29));
+  return start;
+}
+
+// Costs below a cent still show their magnitude
+function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) {
+    return `$${cost.toFixed(4)}`;
+  }
+  return `$${cost.toFixed(2)}`;
+}
+
+function getModelLabel(model: string): string {
+  return getChatProviderInfo(model as ModelType)?.shortName ?? SERVICE_LABELS[model] ?? model;
+}
+
+export function UsageDashboardScreen() {
+  const navigation = useNavigation<UsageDashboardNavigationProp>();
+  const [period, setPeriod] = useState<Period>('month');
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null);
+  const [limitText, setLimitText] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [loadedSummary, loadedStatus] = await Promise.all([
+        UsageLedgerService.getSummary(getPeriodStart(period)),
+        UsageLedgerService.getBudgetStatus(),
+      ]);
+      setSummary(loadedSummary);
+      setBudgetStatus(loadedStatus);
+      setLimitText(loadedStatus.budget.monthlyLimit > 0 ? loadedStatus.budget.monthlyLimit.toString() : '');
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+      Alert.alert('Error', 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const saveBudget = useCallback(async (changes: { monthlyLimit?: number; warningThreshold?: number }) => {
+    if (!budgetStatus) return;
+
+    try {
+      await UsageLedgerService.saveBudget({ ...budgetStatus.budget, ...changes });
+      setBudgetStatus(await UsageLedgerService.getBudgetStatus());
+    } catch (error) {
+      console.error('Failed to save budget:', error);
+      Alert.alert('Error', 'Failed to save budget');
+    }
+  }, [budgetStatus]);
+
+  const saveLimit = useCallback(() => {
+    const limit = parseFloat(limitText.replace(',', '.'));
+    if (limitText.trim() && (isNaN(limit) || limit < 0)) {
+      Alert.alert('Invalid Budget', 'Enter an amount in US dollars, or leave it empty for no budget.');
+      return;
+    }
+    saveBudget({ monthlyLimit: limitText.trim() ? limit : 0 });
+  }, [limitText, saveBudget]);
+
+  const clearLedger = useCallback(() => {
+    Alert.alert(
+      'Clear Usage History',
+      'All recorded usage will be deleted from this device. Spend this month will restart from zero.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await UsageLedgerService.clearLedger();
+              await loadData();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to clear usage history');
+            }
+          },
+        },
+      ]
+    );
+  }, [loadData]);
+
+  const renderBars = (items: UsageBreakdownItem[], getLabel: (item: UsageBreakdownItem) => string) => {
+    const maxCost = Math.max(...items.map(item => item.cost), 0);
+    return items.map((item) => (
+      <View key={item.key} style={styles.barRow}>
+        <View style={styles.barHeader}>
+          <Text style={styles.barLabel} numberOfLines={1}>{getLabel(item)}</Text>
+          <Text style={styles.barValue}>
+            {formatCost(item.cost)} · {item.requests}
+          </Text>
+        </View>
+        <View style={styles.barTrack}>
+          <View style={[styles.barFill, { width: `${maxCost > 0 ? (item.cost / maxCost) * 100 : 0}%` }]} />
+        </View>
+      </View>
+    ));
+  };
+
+  if (isLoading || !summary || !budgetStatus) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading usage...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const { budget, spent, state } = budgetStatus;
+  const maxDayCost = Math.max(...summary.byDay.map(day => day.cost), 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Usage & Costs</Text>
+        </View>
+
+        {/* Budget */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Monthly Budget</Text>
+          <Text style={styles.budgetSpent}>
+            {formatCost(spent)}
+            {budget.monthlyLimit > 0 && (
+              <Text style={styles.budgetLimit}> of {formatCost(budget.monthlyLimit)}</Text>
+            )}
+          </Text>
+          {budget.monthlyLimit > 0 && (
+            <View style={styles.barTrack}>
+              <View
+                style={[
+                  styles.barFill,
+                  {
+                    width: `${Math.min(100, (spent / budget.monthlyLimit) * 100)}%`,
+                    backgroundColor: BUDGET_COLORS[state],
+                  },
+                ]}
+              />
+            </View>
+          )}
+          {state === 'exceeded' && (
+            <Text style={styles.budgetExceeded}>
+              Budget reached. New requests are blocked until next month or until you raise the limit.
+            </Text>
+          )}
+
+          <Text style={styles.label}>Limit (USD)</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.textInput}
+              value={limitText}
+              onChangeText={setLimitText}
+              placeholder="No budget"
+              placeholderTextColor="#C7C7CC"
+              keyboardType="decimal-pad"
+              returnKeyType="done"
+              onSubmitEditing={saveLimit}
+            />
+            <TouchableOpacity style={styles.saveButton} onPress={saveLimit}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Warn At</Text>
+          <View style={styles.chipRow}>
+            {WARNING_THRESHOLDS.map((threshold) => {
+              const isActive = budget.warningThreshold === threshold;
+              return (
+                <TouchableOpacity
+                  key={threshold}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => saveBudget({ warningThreshold: threshold })}
+                >
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                    {Math.round(threshold * 100)}%
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.sectionNote}>
+            Costs are estimated on this device from published prices and may differ from your provider's bill.
+          </Text>
+        </View>
+
+        {/* Period */}
+        <View style={styles.section}>
+          <View style={styles.chipRow}>
+            {PERIODS.map(({ value, label }) => {
+              const isActive = period === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => setPeriod(value)}
+                >
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.totalsRow}>
+            <View style={styles.totalItem}>
+              <Text style={styles.totalValue}>{formatCost(summary.totalCost)}</Text>
+              <Text style={styles.totalLabel}>Estimated cost</Text>
+            </View>
+            <View style={styles.totalItem}>
+              <Text style={styles.totalValue}>{summary.requests.toLocaleString()}</Text>
+              <Text style={styles.totalLabel}>Requests</Text>
+            </View>
+            <View style={styles.totalItem}>
+              <Text style={styles.totalValue}>
+                {(summary.promptTokens + summary.completionTokens).toLocaleString()}
+              </Text>
+              <Text style={styles.totalLabel}>Tokens</Text>
+            </View>
+          </View>
+          {(summary.audioSeconds > 0 || summary.characters > 0) && (
+            <Text style={styles.sectionNote}>
+              {Math.round(summary.audioSeconds / 60)} min transcribed · {summary.characters.toLocaleString()} characters spoken
+            </Text>
+          )}
+        </View>
+
+        {/* Per day */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Per Day</Text>
+          <View style={styles.dayChart}>
+            {summary.byDay.map((day) => (
+              <View key={day.key} style={styles.dayColumn}>
+                <View
+                  style={[
+                    styles.dayBar,
+                    { height: `${maxDayCost > 0 ? Math.max((day.cost / maxDayCost) * 100, day.cost > 0 ? 2 : 0) : 0}%` },
+                  ]}
+                />
+              </View>
+            ))}
+          </View>
+          <View style={styles.dayAxis}>
+            <Text style={styles.axisLabel}>{summary.byDay[0]?.key.slice(5)}</Text>
+            <Text style={styles.axisLabel}>Peak {formatCost(maxDayCost)}</Text>
+            <Text style={styles.axisLabel}>Today</Text>
+          </View>
+        </View>
+
+        {summary.requests === 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionDescription}>No usage recorded in this period</Text>
+          </View>
+        ) : (
+          <>
+            {/* Per model */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Per Model</Text>
+              {renderBars(summary.byModel, item => getModelLabel(item.key))}
+            </View>
+
+            {/* Per kind */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Per Service</Text>
+              {renderBars(summary.byKind, item => KIND_LABELS[item.key as UsageKind] ?? item.key)}
+            </View>
+
+            {/* Per conversation */}
+            {summary.byConversation.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Per Conversation</Text>
+                {summary.byConversation.slice(0, 10).map((item) => (
+                  <TouchableOpacity
+                    key={item.key}
+                    style={styles.conversationItem}
+                    disabled={!item.label}
+                    onPress={() => navigation.navigate('Chat', { conversationId: item.key })}
+                  >
+                    <Text style={[styles.conversationTitle, !item.label && styles.conversationDeleted]} numberOfLines={1}>
+                      {item.label || 'Deleted conversation'}
+                    </Text>
+                    <Text style={styles.barValue}>
+                      {formatCost(item.cost)} · {item.requests}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.dangerButton} onPress={clearLedger}>
+            <Text style={styles.dangerButtonText}>Clear Usage History</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  backButtonText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  sectionNote: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  budgetSpent: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  budgetLimit: {
+    fontSize: 16,
+    fontWeight: '400',
+    color: '#666666',
+  },
+  budgetExceeded: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  textInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000000',
+    backgroundColor: '#FFFFFF',
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  chipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  totalItem: {
+    flex: 1,
+  },
+  totalValue: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  totalLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  dayChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 120,
+    gap: 2,
+  },
+  dayColumn: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  dayBar: {
+    backgroundColor: '#007AFF',
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  dayAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  axisLabel: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  barRow: {
+    paddingVertical: 8,
+  },
+  barHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  barLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000000',
+    marginRight: 12,
+  },
+  barValue: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F2F2F7',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#007AFF',
+  },
+  conversationItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  conversationTitle: {
+    flex: 1,
+    fontSize: 15,
+    color: '#007AFF',
+    marginRight: 12,
+  },
+  conversationDeleted: {
+    color: '#8E8E93',
+  },
+  dangerButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+});
@@ -8,11 +8,14 @@ import {
   Alert,
   Switch,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { AppSettings, VoiceType } from '@/types';
 import { SettingsStorageService } from '@/services/settingsStorage';
+import { TextToSpeechService } from '@/services/TextToSpeechService';
+import { isRealtimeVoiceSupported } from '@/services/realtimeAudio';
 
 interface VoiceOption {
   value: VoiceType;
@@ -22,12 +25,27 @@ interface VoiceOption {
   style: string;
 }
 
+// Lower thresholds pick up quieter speech but also more background noise
+const SENSITIVITY_OPTIONS = [
+  { value: 6, label: 'High' },
+  { value: 12, label: 'Medium' },
+  { value: 20, label: 'Low' },
+];
+
+const PAUSE_OPTIONS = [800, 1200, 2000, 3000];
+
+const ENGINE_OPTIONS: { value: AppSettings['voiceEngine']; label: string }[] = [
+  { value: 'classic', label: 'Classic' },
+  { value: 'realtime', label: 'Realtime' },
+];
+
 export function VoiceSettingsScreen() {
   const navigation = useNavigation();
   const [settings, setSettings] = useState<AppSettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isTestingVoice, setIsTestingVoice] = useState<VoiceType | null>(null);
+  const [realtimeUrlDraft, setRealtimeUrlDraft] = useState('');
 
   // Load settings
   const loadSettings = useCallback(async () => {
@@ -35,6 +53,7 @@ export function VoiceSettingsScreen() {
       setIsLoading(true);
       const loadedSettings = await SettingsStorageService.loadSettings();
       setSettings(loadedSettings);
+      setRealtimeUrlDraft(loadedSettings.realtimeUrl);
     } catch (error) {
       console.error('Failed to load settings:', error);
       Alert.alert('Error', 'Failed to load settings');
@@ -117,12 +136,13 @@ export function VoiceSettingsScreen() {
     try {
       setIsTestingVoice(voice);
       
-      // Here you would implement voice testing with the TTS API
-      // For now, we'll just show a success message
-      Alert.alert('Voice Test', `Testing ${voice} voice...`);
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Uses the current speed and quality so the preview sounds like voice mode
+      await TextToSpeechService.speak(`Hi, I'm ${voice}. This is how I'll sound when reading replies to you.`, {
+        voice,
+        speed: settings.speechRate,
+        quality: settings.audioQuality,
+        apiKey: settings.openaiApiKey,
+      });
       
     } catch (error) {
       console.error('Failed to test voice:', error);
@@ -130,7 +150,7 @@ export function VoiceSettingsScreen() {
     } finally {
       setIsTestingVoice(null);
     }
-  }, [settings?.openaiApiKey]);
+  }, [settings?.openaiApiKey, settings?.speechRate, settings?.audioQuality]);
 
   // Render voice selection
   const renderVoiceSelection = () => (
@@ -360,6 +380,155 @@ export function VoiceSettingsScreen() {
     </View>
   );
 
+  // Render hands-free conversation settings
+  const renderHandsFreeSettings = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Hands-Free Conversation</Text>
+
+      <View style={styles.switchItem}>
+        <View style={styles.switchContent}>
+          <Text style={styles.switchTitle}>Detect End of Speech</Text>
+          <Text style={styles.switchDescription}>
+            In voice mode, send your message when you stop talking and listen again after each reply
+          </Text>
+        </View>
+        <Switch
+          value={settings?.handsFreeVoice || false}
+          onValueChange={(value) => saveSetting('handsFreeVoice', value)}
+          disabled={isSaving}
+          trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+          thumbColor="#FFFFFF"
+        />
+      </View>
+
+      {settings?.handsFreeVoice && (
+        <>
+          <View style={styles.controlItem}>
+            <Text style={styles.controlTitle}>Sensitivity</Text>
+            <Text style={styles.controlDescription}>
+              How loud speech must be compared to the background noise measured when the mic opens
+            </Text>
+            <View style={styles.optionRow}>
+              {SENSITIVITY_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.optionChip, settings.vadSilenceThreshold === option.value && styles.optionChipActive]}
+                  onPress={() => saveSetting('vadSilenceThreshold', option.value)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.optionChipText, settings.vadSilenceThreshold === option.value && styles.optionChipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.controlItem}>
+            <Text style={styles.controlTitle}>Pause Before Sending</Text>
+            <Text style={styles.controlDescription}>
+              How long to wait after you stop talking
+            </Text>
+            <View style={styles.optionRow}>
+              {PAUSE_OPTIONS.map((pause) => (
+                <TouchableOpacity
+                  key={pause}
+                  style={[styles.optionChip, settings.vadHangTime === pause && styles.optionChipActive]}
+                  onPress={() => saveSetting('vadHangTime', pause)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.optionChipText, settings.vadHangTime === pause && styles.optionChipTextActive]}>
+                    {(pause / 1000).toFixed(1)}s
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </>
+      )}
+
+      <View style={styles.switchItem}>
+        <View style={styles.switchContent}>
+          <Text style={styles.switchTitle}>Interrupt by Speaking</Text>
+          <Text style={styles.switchDescription}>
+            Start talking while a reply is read aloud to stop it and take your turn. Works best with headphones.
+          </Text>
+        </View>
+        <Switch
+          value={settings?.voiceBargeIn || false}
+          onValueChange={(value) => saveSetting('voiceBargeIn', value)}
+          disabled={isSaving}
+          trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+          thumbColor="#FFFFFF"
+        />
+      </View>
+    </View>
+  );
+
+  const saveRealtimeUrl = () => {
+    const url = realtimeUrlDraft.trim();
+    if (url === settings?.realtimeUrl) return;
+    if (url && !/^wss?:\/\//.test(url)) {
+      Alert.alert('Invalid URL', 'The realtime server URL must start with ws:// or wss://');
+      setRealtimeUrlDraft(settings?.realtimeUrl || '');
+      return;
+    }
+    saveSetting('realtimeUrl', url);
+  };
+
+  // Render voice engine settings
+  const renderEngineSettings = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Voice Engine</Text>
+      <Text style={styles.sectionDescription}>
+        Classic transcribes your speech, answers with the selected chat model and reads the reply aloud. Realtime talks
+        to a speech-to-speech model over a live connection for much faster replies, at a higher cost per minute.
+      </Text>
+
+      <View style={styles.optionRow}>
+        {ENGINE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.optionChip, settings?.voiceEngine === option.value && styles.optionChipActive]}
+            onPress={() => saveSetting('voiceEngine', option.value)}
+            disabled={isSaving}
+          >
+            <Text style={[styles.optionChipText, settings?.voiceEngine === option.value && styles.optionChipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {settings?.voiceEngine === 'realtime' && (
+        <View style={styles.engineDetails}>
+          {!isRealtimeVoiceSupported() && (
+            <Text style={styles.warningText}>
+              Realtime voice is not available on this device yet; voice mode uses the classic engine.
+            </Text>
+          )}
+          <Text style={styles.controlTitle}>Server URL</Text>
+          <Text style={styles.controlDescription}>
+            Leave empty for OpenAI. Point it at a local server (for example ws://192.168.1.10:8765) to test without an API key. Your OpenAI key is only sent to OpenAI.
+          </Text>
+          <TextInput
+            style={styles.textInput}
+            value={realtimeUrlDraft}
+            onChangeText={setRealtimeUrlDraft}
+            onBlur={saveRealtimeUrl}
+            onSubmitEditing={saveRealtimeUrl}
+            placeholder="wss://api.openai.com/v1/realtime"
+            placeholderTextColor="#8E8E93"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            returnKeyType="done"
+          />
+        </View>
+      )}
+    </View>
+  );
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -394,6 +563,12 @@ export function VoiceSettingsScreen() {
         {/* Auto-Play Settings */}
         {renderAutoPlaySettings()}
 
+        {/* Hands-Free Settings */}
+        {renderHandsFreeSettings()}
+
+        {/* Voice Engine */}
+        {renderEngineSettings()}
+
         {/* Tips */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Tips</Text>
@@ -629,4 +804,48 @@ const styles = StyleSheet.create({
     color: '#666666',
     lineHeight: 20,
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  optionChipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  optionChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  engineDetails: {
+    marginTop: 16,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#FF9500',
+    marginBottom: 12,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000000',
+    backgroundColor: '#FFFFFF',
+    marginTop: 8,
+  },
 });
\ No newline at end of file
@@ -1,15 +1,20 @@
-import { OpenAIService } from './OpenAIService';
+import { Message, ToolCall, ToolDefinition, ToolResult } from '@/types';
+import { ChatProvider, ChatRequestOptions, StreamDeltaHandler } from './chatProviders';
 import { TavilySearchTool } from './tools/TavilySearchTool';
 import { CalculatorTool } from './tools/CalculatorTool';
 import { DateTimeTool } from './tools/DateTimeTool';
+import { createAbortError, isAbortError, withMemories } from '@/utils/openai';
 
-export interface Tool {
-  name: string;
-  description: string;
-  execute(input: string): Promise<string>;
+export interface Tool extends ToolDefinition {
+  execute(args: Record<string, any>, signal?: AbortSignal): Promise<string>;
+  // Keyword heuristic, only used for providers without native function calling
   shouldActivate(query: string): boolean;
 }
 
+// Guard against models that keep requesting tools; after this many rounds
+// the model is asked for a final answer with no tools offered
+const MAX_TOOL_ITERATIONS = 5;
+
 export interface AgentContext {
   originalQuery: string;
   gatheredInfo: Array<{
@@ -21,8 +26,16 @@ export interface AgentContext {
   timestamp: Date;
 }
 
+export interface AgentQueryOptions extends ChatRequestOptions {
+  onDelta?: StreamDeltaHandler;
+  // Long-term memories about the user, added to the system prompt
+  memories?: string[];
+  // Names of the tools the agent may use; all tools when undefined
+  enabledTools?: string[];
+}
+
 export class AIAgentService {
-  private openAIService: OpenAIService;
+  private provider: ChatProvider;
   private tools: Tool[] = [];
   private usageStats = {
     totalQueries: 0,
@@ -32,8 +45,8 @@ export class AIAgentService {
     costSaved: 0, // Estimated API calls saved
   };
 
-  constructor(openAIService: OpenAIService) {
-    this.openAIService = openAIService;
+  constructor(provider: ChatProvider) {
+    this.provider = provider;
     this.initializeTools();
   }
 
@@ -47,18 +60,174 @@ export class AIAgentService {
   }
 
   /**
-   * Main agent processing pipeline
+   * Switch the model that answers queries; tools and usage stats are kept
+   */
+  setProvider(provider: ChatProvider): void {
+    this.provider = provider;
+  }
+
+  getProvider(): ChatProvider {
+    return this.provider;
+  }
+
+  /**
+   * Main agent processing pipeline. Takes the full conversation (ending with the
+   * new user message) and returns the assistant message from the current provider.
+   * Providers with native function calling decide which tools to run themselves;
+   * the rest go through intent analysis and keyword heuristics.
    */
   async processQuery(
-    query: string, 
-    conversationId: string,
-    systemPrompt?: string
-  ): Promise<string> {
-    console.log('🤖 AI Agent processing query:', query);
+    messages: Message[],
+    options: AgentQueryOptions = {}
+  ): Promise<Message> {
+    const latestMessage = messages[messages.length - 1];
+
+    if (!latestMessage || latestMessage.role !== 'user') {
+      throw new Error('AI Agent requires the conversation to end with a user message');
+    }
+
+    console.log('🤖 AI Agent processing query:', latestMessage.content);
     this.usageStats.totalQueries++;
 
+    const queryOptions: AgentQueryOptions = {
+      ...options,
+      systemPrompt: withMemories(options.systemPrompt, options.memories),
+    };
+
+    if (this.provider.capabilities.tools) {
+      return this.processWithFunctionCalling(messages, queryOptions);
+    }
+
+    return this.processWithIntentAnalysis(messages, queryOptions);
+  }
+
+  /**
+   * Tool loop: offer every tool to the model, run the calls it requests (in
+   * parallel when it asks for several at once), feed the results back, and
+   * repeat until it answers in plain text.
+   */
+  private async processWithFunctionCalling(
+    messages: Message[],
+    options: AgentQueryOptions
+  ): Promise<Message> {
+    const { onDelta, signal } = options;
+    const toolDefinitions: ToolDefinition[] = this.getEnabledTools(options.enabledTools).map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters,
+    }));
+    const transcript: Message[] = [...messages];
+    const toolsUsed: string[] = [];
+
+    for (let iteration = 0; iteration <= MAX_TOOL_ITERATIONS; iteration++) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const requestOptions: ChatRequestOptions = {
+        systemPrompt: options.systemPrompt,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        signal,
+        conversationId: options.conversationId,
+        tools: iteration < MAX_TOOL_ITERATIONS ? toolDefinitions : undefined,
+      };
+
+      const response = onDelta && this.provider.capabilities.streaming
+        ? await this.provider.streamChat(transcript, onDelta, requestOptions)
+        : await this.provider.sendChat(transcript, requestOptions);
+
+      if (!response.toolCalls?.length) {
+        if (!response.content) {
+          throw new Error('Failed to generate AI response');
+        }
+
+        return {
+          ...response,
+          metadata: {
+            ...response.metadata,
+            agentUsed: true,
+            toolsUsed,
+          },
+        };
+      }
+
+      console.log(`🔧 Model requested ${response.toolCalls.length} tool call(s):`, response.toolCalls.map(call => call.name));
+
+      const toolResults = await Promise.all(
+        response.toolCalls.map(call => this.executeToolCall(call, signal))
+      );
+
+      response.toolCalls.forEach(call => {
+        if (!toolsUsed.includes(call.name)) {
+          toolsUsed.push(call.name);
+        }
+      });
+
+      transcript.push(response, {
+        id: `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        content: '',
+        role: 'user',
+        timestamp: new Date(),
+        toolResults,
+      });
+    }
+
+    throw new Error(`Model kept requesting tools after ${MAX_TOOL_ITERATIONS} rounds`);
+  }
+
+  private async executeToolCall(call: ToolCall, signal?: AbortSignal): Promise<ToolResult> {
+    const tool = this.tools.find(candidate => candidate.name === call.name);
+    if (!tool) {
+      return { toolCallId: call.id, name: call.name, content: `Error: unknown tool "${call.name}"` };
+    }
+
+    try {
+      console.log(`🔧 Using tool: ${tool.name}`, call.arguments);
+      this.trackToolUsage(tool.name);
+
+      const content = await tool.execute(call.arguments, signal);
+      return { toolCallId: call.id, name: call.name, content };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error(`Tool ${tool.name} failed:`, error);
+      // Report the failure to the model so it can answer without the tool or try again
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: `Error: ${error instanceof Error ? error.message : 'Tool execution failed'}`,
+      };
+    }
+  }
+
+  private trackToolUsage(toolName: string): void {
+    // Track usage for cost monitoring
+    if (toolName === 'TavilySearch') {
+      this.usageStats.webSearches++;
+      console.log('💸 Tavily API call initiated - estimated cost: $0.003');
+    } else if (toolName === 'Calculator') {
+      this.usageStats.calculations++;
+    } else if (toolName === 'DateTime') {
+      this.usageStats.dateTimeQueries++;
+    }
+  }
+
+  /**
+   * Fallback pipeline for providers without native function calling:
+   * decide on tools up front, run them, and fold the results into the prompt
+   */
+  private async processWithIntentAnalysis(
+    messages: Message[],
+    options: AgentQueryOptions
+  ): Promise<Message> {
+    const { systemPrompt, onDelta, signal } = options;
+    const latestMessage = messages[messages.length - 1];
+    const query = latestMessage.content;
+
     // Step 1: Intent Analysis - Determine what tools might be needed
-    const intent = await this.analyzeIntent(query);
+    const intent = await this.analyzeIntent(query, signal);
     console.log('🧠 Intent analysis:', intent);
 
     // Log cost optimization decisions
@@ -68,7 +237,7 @@ export class AIAgentService {
     }
 
     // Step 2: Tool Selection and Execution
-    const context = await this.gatherInformation(query, intent);
+    const context = await this.gatherInformation(query, intent, options.enabledTools, signal);
     console.log('🔍 Gathered context:', {
       toolsUsed: context.toolsUsed,
       infoSources: context.gatheredInfo.length,
@@ -78,6 +247,10 @@ export class AIAgentService {
     const enhancedPrompt = await this.synthesizeContext(query, context);
     console.log('📝 Enhanced prompt created');
 
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
     // Step 4: Generate final response using enhanced context
     // Enhance the system prompt to encourage detailed, structured responses
     const isVoiceMode = systemPrompt?.includes('voice-optimized') || systemPrompt?.includes('spoken aloud');
@@ -86,24 +259,44 @@ export class AIAgentService {
       `${systemPrompt}\n\nIMPORTANT: Given that I have gathered additional context from tools${context.toolsUsed.length > 0 ? ` (${context.toolsUsed.join(', ')})` : ''}, please provide a comprehensive, well-structured response that integrates this information seamlessly. ${isVoiceMode ? 'Structure your response for clear speech delivery with natural transitions between ideas.' : 'Use clear headings, bullet points, and examples where appropriate to make the information easily digestible.'}` 
       : undefined;
 
-    const response = await this.openAIService.sendMessageWithContext(
-      enhancedPrompt,
-      conversationId,
-      enhancedSystemPrompt
-    );
+    // Only the outgoing request sees the enhanced prompt; the stored conversation keeps the original
+    const enhancedMessages: Message[] = [
+      ...messages.slice(0, -1),
+      { ...latestMessage, content: enhancedPrompt },
+    ];
+
+    const requestOptions: ChatRequestOptions = {
+      systemPrompt: enhancedSystemPrompt,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      signal,
+      conversationId: options.conversationId,
+    };
 
-    if (response.choices[0]?.message?.content) {
-      return response.choices[0].message.content;
+    // Stream the final answer when the caller wants incremental output
+    const response = onDelta && this.provider.capabilities.streaming
+      ? await this.provider.streamChat(enhancedMessages, onDelta, requestOptions)
+      : await this.provider.sendChat(enhancedMessages, requestOptions);
+
+    if (!response.content) {
+      throw new Error('Failed to generate AI response');
     }
 
-    throw new Error('Failed to generate AI response');
+    return {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        agentUsed: true,
+        toolsUsed: context.toolsUsed,
+      },
+    };
   }
 
   /**
    * Analyze user intent to determine which tools to use
    * Enhanced with cost-optimization to minimize expensive API calls
    */
-  private async analyzeIntent(query: string): Promise<{
+  private async analyzeIntent(query: string, signal?: AbortSignal): Promise<{
     needsWebSearch: boolean;
     needsCalculation: boolean;
     needsDateTime: boolean;
@@ -129,14 +322,14 @@ export class AIAgentService {
 
     // Only use AI analysis for ambiguous queries or those likely needing web search
     const intentPrompt = `
-Analyze this query to determine if it REQUIRES current/real-time information that GPT-4o wouldn't know:
+Analyze this query to determine if it REQUIRES current/real-time information that the model wouldn't know:
 
 Query: "${query}"
 
 IMPORTANT: Only set needsWebSearch=true if the query absolutely REQUIRES:
 - Current news, events, or breaking news
 - Live data (stock prices, weather, sports scores)
-- Recent information after GPT-4o's training cutoff
+- Recent information after the model's training cutoff
 - Specific current facts that change frequently
 
 General knowledge questions, explanations, how-to guides, and most educational content should NOT need web search.
@@ -152,12 +345,13 @@ Respond with JSON only:
 }`;
 
     try {
-      const response = await this.openAIService.sendSingleMessage(intentPrompt, {
-        max_tokens: 150,
+      const response = await this.provider.sendChat([this.createPromptMessage(intentPrompt)], {
+        maxTokens: 150,
         temperature: 0.1,
+        signal,
       });
 
-      const content = response.choices[0]?.message?.content;
+      const content = response.content;
       if (content) {
         // Extract JSON from response
         const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -168,6 +362,9 @@ Respond with JSON only:
         }
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Intent analysis failed, using fallback:', error);
     }
 
@@ -175,6 +372,15 @@ Respond with JSON only:
     return this.enhancedFallbackAnalysis(query);
   }
 
+  private createPromptMessage(content: string): Message {
+    return {
+      id: `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      content,
+      role: 'user',
+      timestamp: new Date(),
+    };
+  }
+
   /**
    * Quick local analysis to avoid expensive API calls for obvious cases
    */
@@ -305,7 +511,12 @@ Respond with JSON only:
   /**
    * Gather information using selected tools
    */
-  private async gatherInformation(query: string, intent: any): Promise<AgentContext> {
+  private async gatherInformation(
+    query: string,
+    intent: any,
+    enabledTools?: string[],
+    signal?: AbortSignal
+  ): Promise<AgentContext> {
     const context: AgentContext = {
       originalQuery: query,
       gatheredInfo: [],
@@ -314,22 +525,17 @@ Respond with JSON only:
     };
 
     // Execute tools based on intent analysis
-    for (const tool of this.tools) {
+    for (const tool of this.getEnabledTools(enabledTools)) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
       if (this.shouldUseTool(tool, intent, query)) {
         try {
           console.log(`🔧 Using tool: ${tool.name}`);
+          this.trackToolUsage(tool.name);
           
-          // Track usage for cost monitoring
-          if (tool.name === 'TavilySearch') {
-            this.usageStats.webSearches++;
-            console.log('💸 Tavily API call initiated - estimated cost: $0.003');
-          } else if (tool.name === 'Calculator') {
-            this.usageStats.calculations++;
-          } else if (tool.name === 'DateTime') {
-            this.usageStats.dateTimeQueries++;
-          }
-          
-          const result = await tool.execute(query);
+          const result = await tool.execute(this.buildFallbackArguments(tool, query), signal);
           
           context.gatheredInfo.push({
             source: tool.name,
@@ -339,6 +545,9 @@ Respond with JSON only:
           
           context.toolsUsed.push(tool.name);
         } catch (error) {
+          if (isAbortError(error)) {
+            throw error;
+          }
           console.error(`Tool ${tool.name} failed:`, error);
         }
       }
@@ -347,6 +556,19 @@ Respond with JSON only:
     return context;
   }
 
+  /**
+   * Without a model to fill in arguments, every required string parameter gets the raw query
+   */
+  private buildFallbackArguments(tool: Tool, query: string): Record<string, any> {
+    const args: Record<string, any> = {};
+    (tool.parameters.required || []).forEach(key => {
+      if (tool.parameters.properties[key]?.type === 'string') {
+        args[key] = query;
+      }
+    });
+    return args;
+  }
+
   /**
    * Determine if a specific tool should be used
    */
@@ -458,6 +680,12 @@ If any gathered information seems outdated or contradictory, please note this an
     return this.tools.map(tool => tool.name);
   }
 
+  private getEnabledTools(enabledTools?: string[]): Tool[] {
+    return enabledTools
+      ? this.tools.filter(tool => enabledTools.includes(tool.name))
+      : this.tools;
+  }
+
   /**
    * Get usage statistics and cost information
    */
@@ -0,0 +1,318 @@
+import { fetch as streamingFetch } from 'expo/fetch';
+import { Message, ModelType } from '@/types';
+import { readServerSentEvents } from '@/utils/sse';
+import { getModelTokenLimit, isAbortError } from '@/utils/openai';
+import { getImageMimeType, ImageMimeType } from '@/utils/images';
+import {
+  ChatProvider,
+  ChatProviderCapabilities,
+  ChatProviderTokenLimits,
+  ChatRequestOptions,
+  StreamDeltaHandler,
+} from './chatProviders';
+import { UsageLedgerService } from './usageLedger';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'image';
+      source: {
+        type: 'base64';
+        media_type: ImageMimeType;
+        data: string;
+      };
+    };
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  max_tokens: number;
+  system?: string;
+  temperature?: number;
+  stream?: boolean;
+}
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+export interface AnthropicResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null;
+  usage: AnthropicUsage;
+}
+
+// Events sent by `/v1/messages` when `stream: true`
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicResponse }
+  | { type: 'content_block_start'; index: number; content_block: { type: string; text?: string } }
+  | { type: 'content_block_delta'; index: number; delta: { type: string; text?: string } }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta: { stop_reason?: AnthropicResponse['stop_reason'] }; usage?: Partial<AnthropicUsage> }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } };
+
+export class AnthropicService implements ChatProvider {
+  public readonly model: ModelType = 'claude-sonnet-4-5';
+  public readonly capabilities: ChatProviderCapabilities = {
+    streaming: true,
+    vision: true,
+    tools: false,
+    webGrounding: false,
+  };
+  public readonly tokenLimits: ChatProviderTokenLimits = {
+    contextWindow: getModelTokenLimit('claude-sonnet-4-5'),
+    maxOutputTokens: 64000,
+  };
+
+  private apiKey: string;
+  private baseUrl = 'https://api.anthropic.com/v1';
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  // ChatProvider: send the full conversation and return the assistant message
+  async sendChat(messages: Message[], options: ChatRequestOptions = {}): Promise<Message> {
+    const response = await this.sendMessage(messages, options);
+    return this.recordUsage(this.convertResponseToMessage(response), options);
+  }
+
+  // ChatProvider: stream the full conversation and return the assistant message
+  async streamChat(
+    messages: Message[],
+    onDelta: StreamDeltaHandler,
+    options: ChatRequestOptions = {}
+  ): Promise<Message> {
+    const response = await this.streamMessage(messages, onDelta, options);
+    return this.recordUsage(this.convertResponseToMessage(response), options);
+  }
+
+  private recordUsage(message: Message, options: ChatRequestOptions): Message {
+    UsageLedgerService.recordChat(this.model, message, options.conversationId);
+    return message;
+  }
+
+  private convertMessagesToAnthropic(messages: Message[]): AnthropicMessage[] {
+    const converted: AnthropicMessage[] = [];
+
+    messages.forEach(msg => {
+      const content: AnthropicContentBlock[] = [];
+
+      // Images go before the text, as recommended by the Messages API
+      if (msg.imageBase64) {
+        content.push({
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: getImageMimeType(msg),
+            data: msg.imageBase64,
+          },
+        });
+      }
+
+      if (msg.content) {
+        content.push({ type: 'text', text: msg.content });
+      } else if (msg.imageBase64) {
+        content.push({ type: 'text', text: 'What do you see in this image?' });
+      }
+
+      if (content.length === 0) return;
+
+      // The API requires alternating roles, so merge consecutive turns from the same side
+      const previous = converted[converted.length - 1];
+      if (previous && previous.role === msg.role) {
+        previous.content = [...(previous.content as AnthropicContentBlock[]), ...content];
+        return;
+      }
+
+      converted.push({ role: msg.role, content });
+    });
+
+    // The conversation must open with a user turn
+    while (converted.length > 0 && converted[0].role !== 'user') {
+      converted.shift();
+    }
+
+    return converted;
+  }
+
+  private buildRequest(messages: Message[], options: ChatRequestOptions): AnthropicRequest {
+    const request: AnthropicRequest = {
+      model: this.model,
+      messages: this.convertMessagesToAnthropic(messages),
+      max_tokens: options.maxTokens ?? 4096,
+      temperature: options.temperature ?? 0.7,
+    };
+
+    // System prompt is a top-level field rather than a message
+    if (options.systemPrompt) {
+      request.system = options.systemPrompt;
+    }
+
+    return request;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'content-type': 'application/json',
+    };
+  }
+
+  async sendMessage(
+    messages: Message[],
+    options: ChatRequestOptions = {}
+  ): Promise<AnthropicResponse> {
+    try {
+      const request = this.buildRequest(messages, options);
+
+      const response = await fetch(`${this.baseUrl}/messages`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(request),
+        signal: options.signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw new Error(`Anthropic API error: ${response.status} - ${errorData}`);
+      }
+
+      const data: AnthropicResponse = await response.json();
+
+      if (!data.content || data.content.length === 0) {
+        throw new Error('No response from Anthropic API');
+      }
+
+      return data;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Anthropic API error:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a response from `/v1/messages` (SSE). Text deltas are passed to
+   * onDelta as they arrive; the resolved value is the assembled response with
+   * the final usage from `message_delta`.
+   */
+  async streamMessage(
+    messages: Message[],
+    onDelta: StreamDeltaHandler,
+    options: ChatRequestOptions = {}
+  ): Promise<AnthropicResponse> {
+    try {
+      const request: AnthropicRequest = {
+        ...this.buildRequest(messages, options),
+        stream: true,
+      };
+
+      const response = await streamingFetch(`${this.baseUrl}/messages`, {
+        method: 'POST',
+        headers: {
+          ...this.getHeaders(),
+          'accept': 'text/event-stream',
+        },
+        body: JSON.stringify(request),
+        signal: options.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.text();
+        throw new Error(`Anthropic API error: ${response.status} - ${errorData}`);
+      }
+
+      let message: AnthropicResponse | null = null;
+      let content = '';
+
+      for await (const data of readServerSentEvents(response.body)) {
+        let event: AnthropicStreamEvent;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          console.warn('Anthropic: Skipping malformed stream event');
+          continue;
+        }
+
+        switch (event.type) {
+          case 'message_start':
+            message = event.message;
+            break;
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta' && event.delta.text) {
+              content += event.delta.text;
+              onDelta(event.delta.text, content);
+            }
+            break;
+          case 'message_delta':
+            if (message) {
+              message.stop_reason = event.delta.stop_reason ?? message.stop_reason;
+              message.usage = { ...message.usage, ...event.usage };
+            }
+            break;
+          case 'error':
+            throw new Error(`Anthropic API error: ${event.error.type} - ${event.error.message}`);
+        }
+      }
+
+      if (!message) {
+        throw new Error('No response from Anthropic API');
+      }
+
+      return {
+        ...message,
+        content: [{ type: 'text', text: content }],
+      };
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Anthropic API error:', error);
+      }
+      throw error;
+    }
+  }
+
+  convertResponseToMessage(response: AnthropicResponse): Message {
+    const content = response.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+
+    const { input_tokens, output_tokens } = response.usage;
+
+    return {
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      content,
+      role: 'assistant',
+      timestamp: new Date(),
+      tokenCount: output_tokens,
+      metadata: {
+        model: this.model,
+        processingTime: Date.now(),
+        usage: {
+          promptTokens: input_tokens,
+          completionTokens: output_tokens,
+          totalTokens: input_tokens + output_tokens,
+        },
+      },
+    };
+  }
+}
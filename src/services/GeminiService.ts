@@ -1,4 +1,21 @@
-import { Message } from '@/types';
+import { fetch as streamingFetch } from 'expo/fetch';
+import { Message, ModelType, ToolCall, ToolDefinition, ToolParameterSchema } from '@/types';
+import { readServerSentEvents } from '@/utils/sse';
+import { getModelTokenLimit, isAbortError } from '@/utils/openai';
+import { getImageMimeType } from '@/utils/images';
+import {
+  ChatProvider,
+  ChatProviderCapabilities,
+  ChatProviderTokenLimits,
+  ChatRequestOptions,
+  StreamDeltaHandler,
+} from './chatProviders';
+import { UsageLedgerService } from './usageLedger';
+
+export interface GeminiFunctionCall {
+  name: string;
+  args?: Record<string, any>;
+}
 
 export interface GeminiMessage {
   role: 'user' | 'model';
@@ -8,9 +25,20 @@ export interface GeminiMessage {
       mimeType: string;
       data: string;
     };
+    functionCall?: GeminiFunctionCall;
+    functionResponse?: {
+      name: string;
+      response: Record<string, any>;
+    };
   }>;
 }
 
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
 export interface GeminiRequest {
   contents: GeminiMessage[];
   generationConfig?: {
@@ -26,6 +54,7 @@ export interface GeminiRequest {
   }>;
   tools?: Array<{
     google_search?: {};
+    functionDeclarations?: GeminiFunctionDeclaration[];
   }>;
 }
 
@@ -33,7 +62,8 @@ export interface GeminiResponse {
   candidates: Array<{
     content: {
       parts: Array<{
-        text: string;
+        text?: string;
+        functionCall?: GeminiFunctionCall;
       }>;
       role: string;
     };
@@ -64,6 +94,11 @@ export interface GeminiResponse {
       }>;
     };
   }>;
+  // Set instead of candidates when the prompt itself was blocked
+  promptFeedback?: {
+    blockReason?: string;
+    blockReasonMessage?: string;
+  };
   usageMetadata: {
     promptTokenCount: number;
     candidatesTokenCount: number;
@@ -71,7 +106,23 @@ export interface GeminiResponse {
   };
 }
 
-export class GeminiService {
+export interface GeminiSendOptions extends ChatRequestOptions {
+  enableGrounding?: boolean;
+}
+
+export class GeminiService implements ChatProvider {
+  public readonly model: ModelType = 'gemini-2.5-flash';
+  public readonly capabilities: ChatProviderCapabilities = {
+    streaming: true,
+    vision: true,
+    tools: true,
+    webGrounding: true,
+  };
+  public readonly tokenLimits: ChatProviderTokenLimits = {
+    contextWindow: getModelTokenLimit('gemini-2.5-flash'),
+    maxOutputTokens: 65536,
+  };
+
   private apiKey: string;
   private baseUrl = 'https://generativelanguage.googleapis.com/v1beta/models';
 
@@ -79,6 +130,27 @@ export class GeminiService {
     this.apiKey = apiKey;
   }
 
+  // ChatProvider: send the full conversation and return the assistant message
+  async sendChat(messages: Message[], options: ChatRequestOptions = {}): Promise<Message> {
+    const response = await this.sendMessage(messages, options);
+    return this.recordUsage(this.convertResponseToMessage(response), options);
+  }
+
+  // ChatProvider: stream the full conversation and return the assistant message
+  async streamChat(
+    messages: Message[],
+    onDelta: StreamDeltaHandler,
+    options: ChatRequestOptions = {}
+  ): Promise<Message> {
+    const response = await this.streamMessage(messages, onDelta, options);
+    return this.recordUsage(this.convertResponseToMessage(response), options);
+  }
+
+  private recordUsage(message: Message, options: ChatRequestOptions): Message {
+    UsageLedgerService.recordChat(this.model, message, options.conversationId);
+    return message;
+  }
+
   private shouldEnableGrounding(messages: Message[]): boolean {
     // Enable grounding for queries that likely need real-time information
     const lastMessage = messages[messages.length - 1];
@@ -127,17 +199,34 @@ export class GeminiService {
   private convertMessagesToGemini(messages: Message[]): GeminiMessage[] {
     return messages.map(msg => {
       const parts: GeminiMessage['parts'] = [];
+
+      // Tool loop turns: results go back as functionResponse parts
+      if (msg.toolResults?.length) {
+        return {
+          role: 'user',
+          parts: msg.toolResults.map(result => ({
+            functionResponse: {
+              name: result.name,
+              response: { content: result.content },
+            },
+          })),
+        };
+      }
       
       // Add text content
       if (msg.content) {
         parts.push({ text: msg.content });
       }
+
+      msg.toolCalls?.forEach(call => {
+        parts.push({ functionCall: { name: call.name, args: call.arguments } });
+      });
       
       // Add image if present
       if (msg.imageBase64) {
         parts.push({
           inlineData: {
-            mimeType: 'image/jpeg',
+            mimeType: getImageMimeType(msg),
             data: msg.imageBase64
           }
         });
@@ -150,75 +239,109 @@ export class GeminiService {
     });
   }
 
-  async sendMessage(
-    messages: Message[],
-    options: {
-      temperature?: number;
-      maxTokens?: number;
-      systemPrompt?: string;
-      enableGrounding?: boolean;
-    } = {}
-  ): Promise<GeminiResponse> {
-    try {
-      const geminiMessages = this.convertMessagesToGemini(messages);
-      
-      // Add system prompt as first user message if provided
-      if (options.systemPrompt) {
-        geminiMessages.unshift({
-          role: 'user',
-          parts: [{ text: options.systemPrompt }]
-        });
-        geminiMessages.splice(1, 0, {
-          role: 'model',
-          parts: [{ text: 'I understand. I will follow these instructions.' }]
-        });
-      }
+  private buildRequest(messages: Message[], options: GeminiSendOptions): GeminiRequest {
+    const geminiMessages = this.convertMessagesToGemini(messages);
+    
+    // Add system prompt as first user message if provided
+    if (options.systemPrompt) {
+      geminiMessages.unshift({
+        role: 'user',
+        parts: [{ text: options.systemPrompt }]
+      });
+      geminiMessages.splice(1, 0, {
+        role: 'model',
+        parts: [{ text: 'I understand. I will follow these instructions.' }]
+      });
+    }
 
-      // Automatically enable grounding if not explicitly set
-      const shouldUseGrounding = options.enableGrounding ?? this.shouldEnableGrounding(messages);
+    // Gemini does not combine Search grounding with function declarations,
+    // so grounding only applies when no tools are offered
+    const hasTools = !!options.tools?.length;
+    const shouldUseGrounding = !hasTools && (options.enableGrounding ?? this.shouldEnableGrounding(messages));
 
-      const request: GeminiRequest = {
-        contents: geminiMessages,
-        generationConfig: {
-          temperature: options.temperature ?? 0.7,
-          maxOutputTokens: options.maxTokens ?? 4096,
-          topK: 40,
-          topP: 0.95,
+    const request: GeminiRequest = {
+      contents: geminiMessages,
+      generationConfig: {
+        temperature: options.temperature ?? 0.7,
+        maxOutputTokens: options.maxTokens ?? 4096,
+        topK: 40,
+        topP: 0.95,
+      },
+      safetySettings: [
+        {
+          category: 'HARM_CATEGORY_HARASSMENT',
+          threshold: 'BLOCK_MEDIUM_AND_ABOVE'
         },
-        safetySettings: [
-          {
-            category: 'HARM_CATEGORY_HARASSMENT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          },
-          {
-            category: 'HARM_CATEGORY_HATE_SPEECH',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          },
-          {
-            category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          },
-          {
-            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          }
-        ]
+        {
+          category: 'HARM_CATEGORY_HATE_SPEECH',
+          threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+        },
+        {
+          category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+          threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+        },
+        {
+          category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+          threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+        }
+      ]
+    };
+
+    if (hasTools) {
+      request.tools = [{ functionDeclarations: options.tools!.map(tool => this.toFunctionDeclaration(tool)) }];
+    }
+
+    // Add Google Search grounding tool if enabled
+    if (shouldUseGrounding) {
+      request.tools = [{ google_search: {} }];
+      console.log('🔍 Gemini: Enabling Google Search grounding for query');
+    }
+
+    return request;
+  }
+
+  private toFunctionDeclaration(tool: ToolDefinition): GeminiFunctionDeclaration {
+    return {
+      name: tool.name,
+      description: tool.description,
+      parameters: this.toGeminiSchema(tool.parameters),
+    };
+  }
+
+  // Gemini's OpenAPI-style schema expects upper-case type names
+  private toGeminiSchema(schema: ToolParameterSchema): Record<string, any> {
+    const properties: Record<string, any> = {};
+    Object.entries(schema.properties).forEach(([key, property]) => {
+      properties[key] = {
+        ...property,
+        type: property.type.toUpperCase(),
+        ...(property.items ? { items: { type: property.items.type.toUpperCase() } } : {}),
       };
+    });
 
-      // Add Google Search grounding tool if enabled
-      if (shouldUseGrounding) {
-        request.tools = [{ google_search: {} }];
-        console.log('🔍 Gemini: Enabling Google Search grounding for query');
-      }
+    return {
+      type: 'OBJECT',
+      properties,
+      ...(schema.required?.length ? { required: schema.required } : {}),
+    };
+  }
+
+  async sendMessage(
+    messages: Message[],
+    options: GeminiSendOptions = {}
+  ): Promise<GeminiResponse> {
+    try {
+      const request = this.buildRequest(messages, options);
 
       const response = await fetch(
-        `${this.baseUrl}/gemini-2.5-flash:generateContent?key=${this.apiKey}`,
+        `${this.baseUrl}/${this.model}:generateContent?key=${this.apiKey}`,
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify(request),
+          signal: options.signal,
         }
       );
 
@@ -229,26 +352,157 @@ export class GeminiService {
 
       const data: GeminiResponse = await response.json();
       
+      if (data.promptFeedback?.blockReason) {
+        throw new Error(`Gemini blocked the prompt: ${data.promptFeedback.blockReasonMessage || data.promptFeedback.blockReason}`);
+      }
       if (!data.candidates || data.candidates.length === 0) {
         throw new Error('No response from Gemini API');
       }
 
       return data;
     } catch (error) {
-      console.error('Gemini API error:', error);
+      if (!isAbortError(error)) {
+        console.error('Gemini API error:', error);
+      }
       throw error;
     }
   }
 
-  convertResponseToMessage(response: GeminiResponse, conversationId: string): Message {
+  /**
+   * Stream a response via streamGenerateContent (SSE). Text deltas are passed
+   * to onDelta as they arrive; the resolved value merges all chunks into a
+   * single GeminiResponse so it can go through convertResponseToMessage.
+   */
+  async streamMessage(
+    messages: Message[],
+    onDelta: StreamDeltaHandler,
+    options: GeminiSendOptions = {}
+  ): Promise<GeminiResponse> {
+    try {
+      const request = this.buildRequest(messages, options);
+
+      const response = await streamingFetch(
+        `${this.baseUrl}/${this.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'text/event-stream',
+          },
+          body: JSON.stringify(request),
+          signal: options.signal,
+        }
+      );
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.text();
+        throw new Error(`Gemini API error: ${response.status} - ${errorData}`);
+      }
+
+      let merged: GeminiResponse | null = null;
+      let content = '';
+      const functionCalls: GeminiFunctionCall[] = [];
+
+      for await (const data of readServerSentEvents(response.body)) {
+        let chunk: GeminiResponse & { error?: { code?: number; status?: string; message?: string } };
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          console.warn('Gemini: Skipping malformed stream chunk');
+          continue;
+        }
+
+        // Quota and safety failures can arrive mid-stream after a 200 response
+        if (chunk.error) {
+          throw new Error(`Gemini API error: ${chunk.error.code ?? chunk.error.status} - ${chunk.error.message}`);
+        }
+        if (chunk.promptFeedback?.blockReason) {
+          throw new Error(`Gemini blocked the prompt: ${chunk.promptFeedback.blockReasonMessage || chunk.promptFeedback.blockReason}`);
+        }
+
+        const candidate = chunk.candidates?.[0];
+        const delta = candidate?.content?.parts?.map(part => part.text || '').join('') || '';
+        if (delta) {
+          content += delta;
+          onDelta(delta, content);
+        }
+
+        candidate?.content?.parts?.forEach(part => {
+          if (part.functionCall) {
+            functionCalls.push(part.functionCall);
+          }
+        });
+
+        merged = this.mergeStreamChunk(merged, chunk, content, functionCalls);
+      }
+
+      if (!merged || merged.candidates.length === 0) {
+        throw new Error('No response from Gemini API');
+      }
+
+      return merged;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Gemini API error:', error);
+      }
+      throw error;
+    }
+  }
+
+  private mergeStreamChunk(
+    merged: GeminiResponse | null,
+    chunk: GeminiResponse,
+    content: string,
+    functionCalls: GeminiFunctionCall[]
+  ): GeminiResponse {
+    const previous = merged?.candidates[0];
+    const candidate = chunk.candidates?.[0];
+
+    return {
+      candidates: candidate || previous ? [{
+        content: {
+          parts: [
+            { text: content },
+            ...functionCalls.map(functionCall => ({ functionCall })),
+          ],
+          role: candidate?.content?.role || previous?.content.role || 'model',
+        },
+        finishReason: candidate?.finishReason || previous?.finishReason || '',
+        index: 0,
+        safetyRatings: candidate?.safetyRatings || previous?.safetyRatings || [],
+        groundingMetadata: candidate?.groundingMetadata || previous?.groundingMetadata,
+      }] : [],
+      usageMetadata: chunk.usageMetadata || merged?.usageMetadata || {
+        promptTokenCount: 0,
+        candidatesTokenCount: 0,
+        totalTokenCount: 0,
+      },
+    };
+  }
+
+  convertResponseToMessage(response: GeminiResponse, conversationId?: string): Message {
     const candidate = response.candidates[0];
-    const content = candidate.content.parts.map(part => part.text).join('');
+    const content = candidate.content.parts.map(part => part.text || '').join('');
+
+    // Gemini has no call ids; results are matched back by function name
+    const toolCalls: ToolCall[] = candidate.content.parts
+      .filter(part => part.functionCall)
+      .map((part, index) => ({
+        id: `call_${Date.now()}_${index}`,
+        name: part.functionCall!.name,
+        arguments: part.functionCall!.args || {},
+      }));
     
     // Extract grounding metadata if available
     const groundingMetadata = candidate.groundingMetadata;
     const metadata: any = {
-      model: 'gemini-2.5-flash',
+      model: this.model,
       processingTime: Date.now(),
+      usage: {
+        promptTokens: response.usageMetadata.promptTokenCount,
+        completionTokens: response.usageMetadata.candidatesTokenCount,
+        totalTokens: response.usageMetadata.totalTokenCount,
+      },
     };
 
     // Add grounding information to metadata if available
@@ -274,6 +528,7 @@ export class GeminiService {
       role: 'assistant',
       timestamp: new Date(),
       tokenCount: response.usageMetadata.totalTokenCount,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
       metadata,
     };
   }
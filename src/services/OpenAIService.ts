@@ -1,13 +1,32 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
+import { fetch as streamingFetch } from 'expo/fetch';
 import {
   OpenAIMessage,
   OpenAIChatRequest,
   OpenAIChatResponse,
+  OpenAIChatStreamChunk,
+  OpenAIEmbeddingRequest,
+  OpenAIEmbeddingResponse,
   OpenAIError,
+  OpenAIToolCall,
   Message,
   ModelType,
+  ToolCall,
 } from '@/types';
 import { DEFAULT_COST_OPTIMIZATION, CostOptimizationConfig } from '@/config/costOptimization';
+import { readServerSentEvents } from '@/utils/sse';
+import { getBranchPath } from '@/utils/messageTree';
+import { getImageMimeType } from '@/utils/images';
+import { convertOpenAIResponseToMessage, createAbortError, getModelTokenLimit, isAbortError } from '@/utils/openai';
+import { countMessageTokens, countMessagesTokens, countTokens } from '@/utils/tokenizer';
+import {
+  ChatProvider,
+  ChatProviderCapabilities,
+  ChatProviderTokenLimits,
+  ChatRequestOptions,
+  StreamDeltaHandler,
+} from './chatProviders';
+import { UsageLedgerService } from './usageLedger';
 
 interface QueuedRequest {
   id: string;
@@ -17,6 +36,9 @@ interface QueuedRequest {
   priority: number;
   retryCount: number;
   maxRetries: number;
+  signal?: AbortSignal;
+  // Tokens the request is expected to use, checked against the per-minute budget
+  estimatedTokens: number;
 }
 
 interface RateLimitState {
@@ -31,6 +53,9 @@ interface OpenAIServiceConfig {
   apiKey: string;
   baseURL?: string;
   model?: ModelType;
+  // Model name sent to the API when it differs from the registry key (custom endpoints)
+  requestModel?: string;
+  capabilities?: Partial<ChatProviderCapabilities>;
   maxTokens?: number;
   temperature?: number;
   maxRetries?: number;
@@ -40,7 +65,24 @@ interface OpenAIServiceConfig {
   costOptimization?: CostOptimizationConfig;
 }
 
-export class OpenAIService {
+// Split history into units that must be trimmed as a whole: an assistant message with
+// tool_calls plus the tool results that follow it, or any other single message
+function groupToolCallUnits(messages: OpenAIMessage[]): OpenAIMessage[][] {
+  const units: OpenAIMessage[][] = [];
+  messages.forEach(message => {
+    const current = units[units.length - 1];
+    if (message.role === 'tool' && current) {
+      current.push(message);
+    } else {
+      units.push([message]);
+    }
+  });
+  return units;
+}
+
+export class OpenAIService implements ChatProvider {
+  public readonly capabilities: ChatProviderCapabilities;
+
   private axios: AxiosInstance;
   private config: Required<OpenAIServiceConfig>;
   private requestQueue: QueuedRequest[] = [];
@@ -59,7 +101,17 @@ export class OpenAIService {
       rateLimitRPM: 60,
       rateLimitTPM: 90000,
       costOptimization: DEFAULT_COST_OPTIMIZATION,
+      capabilities: {},
       ...config,
+      requestModel: config.requestModel || config.model || 'gpt-4o',
+    };
+
+    this.capabilities = {
+      streaming: true,
+      vision: true,
+      tools: true,
+      webGrounding: false,
+      ...this.config.capabilities,
     };
 
     this.rateLimitState = {
@@ -74,7 +126,7 @@ export class OpenAIService {
       baseURL: this.config.baseURL,
       timeout: this.config.requestTimeout,
       headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
+        ...this.getAuthHeaders(),
         'Content-Type': 'application/json',
         'User-Agent': 'HatGPT-App/1.0.0',
       },
@@ -83,6 +135,11 @@ export class OpenAIService {
     this.setupInterceptors();
   }
 
+  // Self-hosted OpenAI-compatible servers often run without a key
+  private getAuthHeaders(): Record<string, string> {
+    return this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {};
+  }
+
   private setupInterceptors(): void {
     this.axios.interceptors.request.use(
       (config) => {
@@ -167,9 +224,18 @@ export class OpenAIService {
   private async addToQueue<T>(
     request: () => Promise<T>,
     priority: number = 1,
-    maxRetries: number = this.config.maxRetries
+    maxRetries: number = this.config.maxRetries,
+    signal?: AbortSignal,
+    estimatedTokens: number = 0
   ): Promise<T> {
-    return new Promise((resolve, reject) => {
+    let onAbort: (() => void) | null = null;
+
+    const queued = new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
       const queuedRequest: QueuedRequest = {
         id: this.generateRequestId(),
         request,
@@ -178,7 +244,21 @@ export class OpenAIService {
         priority,
         retryCount: 0,
         maxRetries,
+        signal,
+        estimatedTokens,
+      };
+
+      // Drop the request from the queue if it is cancelled before it runs.
+      // A request already in flight is aborted through the same signal by axios/fetch.
+      onAbort = () => {
+        const queuedIndex = this.requestQueue.indexOf(queuedRequest);
+        if (queuedIndex !== -1) {
+          this.requestQueue.splice(queuedIndex, 1);
+          console.log(`[OpenAI] Removed cancelled request ${queuedRequest.id} from queue`);
+        }
+        reject(createAbortError());
       };
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       // Insert based on priority (higher priority first)
       const insertIndex = this.requestQueue.findIndex(req => req.priority < priority);
@@ -190,6 +270,15 @@ export class OpenAIService {
 
       this.processQueue();
     });
+
+    try {
+      return await queued;
+    } finally {
+      // Long-lived signals (a whole chat session) would otherwise collect one listener per request
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
   }
 
   private async processQueue(): Promise<void> {
@@ -203,16 +292,22 @@ export class OpenAIService {
       const queuedRequest = this.requestQueue.shift()!;
 
       try {
-        await this.checkRateLimit();
+        await this.checkRateLimit(queuedRequest.estimatedTokens);
         const result = await queuedRequest.request();
         queuedRequest.resolve(result);
       } catch (error) {
-        if (queuedRequest.retryCount < queuedRequest.maxRetries) {
+        if (queuedRequest.signal?.aborted || isAbortError(error)) {
+          console.log(`[OpenAI] Request ${queuedRequest.id} was cancelled`);
+          queuedRequest.reject(createAbortError());
+        } else if (queuedRequest.retryCount < queuedRequest.maxRetries) {
           queuedRequest.retryCount++;
           const delay = Math.min(1000 * Math.pow(2, queuedRequest.retryCount), 30000);
           console.log(`[OpenAI] Retrying request ${queuedRequest.id} in ${delay}ms (attempt ${queuedRequest.retryCount})`);
           
           setTimeout(() => {
+            if (queuedRequest.signal?.aborted) {
+              return;
+            }
             this.requestQueue.unshift(queuedRequest);
             this.processQueue();
           }, delay);
@@ -227,27 +322,13 @@ export class OpenAIService {
   }
 
   private estimateTokenCount(messages: OpenAIMessage[]): number {
-    const totalLength = messages.reduce((sum, msg) => {
-      if (typeof msg.content === 'string') {
-        return sum + msg.content.length;
-      } else if (Array.isArray(msg.content)) {
-        // For array content (with images), estimate tokens for text parts
-        const textLength = msg.content
-          .filter(item => item.type === 'text')
-          .reduce((textSum, item) => textSum + (item.text?.length || 0), 0);
-        // Add estimated tokens for images (roughly 765 tokens per image)
-        const imageCount = msg.content.filter(item => item.type === 'image_url').length;
-        return sum + textLength + (imageCount * 765);
-      }
-      return sum;
-    }, 0);
-    return Math.ceil(totalLength / 4); // Rough estimation: 4 characters per token
+    return countMessagesTokens(messages, this.config.requestModel);
   }
 
   private convertMessageToOpenAI(message: Message): OpenAIMessage {
     // Check if message has an image
     if (message.imageUrl || message.imageBase64) {
-      const imageUrl = message.imageUrl || `data:image/jpeg;base64,${message.imageBase64}`;
+      const imageUrl = message.imageUrl || `data:${getImageMimeType(message)};base64,${message.imageBase64}`;
       
       console.log('[OpenAI] Converting image message:', {
         hasImageUrl: !!message.imageUrl,
@@ -297,14 +378,158 @@ export class OpenAIService {
     
     return messages
       .filter(msg => msg && msg.role !== 'system')
-      .map(msg => this.convertMessageToOpenAI(msg));
+      .flatMap(msg => this.convertToolTurnToOpenAI(msg) || [this.convertMessageToOpenAI(msg)]);
+  }
+
+  // Tool loop turns: assistant tool_calls, and one `tool` message per result
+  private convertToolTurnToOpenAI(message: Message): OpenAIMessage[] | null {
+    if (message.toolResults?.length) {
+      return message.toolResults.map(result => ({
+        role: 'tool' as const,
+        tool_call_id: result.toolCallId,
+        content: result.content,
+      }));
+    }
+
+    if (message.toolCalls?.length) {
+      return [{
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      }];
+    }
+
+    return null;
+  }
+
+  private parseToolCalls(toolCalls?: OpenAIToolCall[]): ToolCall[] | undefined {
+    if (!toolCalls?.length) return undefined;
+
+    return toolCalls.map(call => {
+      let args: Record<string, any> = {};
+      try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch {
+        console.warn(`[OpenAI] Could not parse arguments for tool call ${call.function.name}`);
+      }
+      return { id: call.id, name: call.function.name, arguments: args };
+    });
   }
 
   // Public methods
 
+  public get model(): ModelType {
+    return this.config.model;
+  }
+
+  public get tokenLimits(): ChatProviderTokenLimits {
+    return {
+      contextWindow: getModelTokenLimit(this.config.model),
+      maxOutputTokens: this.config.maxTokens,
+    };
+  }
+
+  // ChatProvider: stateless send of a full conversation
+  public async sendChat(messages: Message[], options: ChatRequestOptions = {}): Promise<Message> {
+    const openAIMessages = await this.buildProviderMessages(messages, options.systemPrompt);
+    const response = await this.sendChatCompletion(
+      openAIMessages,
+      this.toRequestOptions(options),
+      options.signal
+    );
+    return this.recordUsage(this.convertResponseToMessage(response), options);
+  }
+
+  // ChatProvider: stateless streaming of a full conversation
+  public async streamChat(
+    messages: Message[],
+    onDelta: StreamDeltaHandler,
+    options: ChatRequestOptions = {}
+  ): Promise<Message> {
+    const openAIMessages = await this.buildProviderMessages(messages, options.systemPrompt);
+    const response = await this.streamChatCompletion(
+      openAIMessages,
+      onDelta,
+      this.toRequestOptions(options),
+      options.signal
+    );
+    return this.recordUsage(this.convertResponseToMessage(response), options);
+  }
+
+  private recordUsage(message: Message, options: ChatRequestOptions): Message {
+    UsageLedgerService.recordChat(this.config.model, message, options.conversationId);
+    return message;
+  }
+
+  private async buildProviderMessages(messages: Message[], systemPrompt?: string): Promise<OpenAIMessage[]> {
+    const units = groupToolCallUnits(this.convertMessagesToOpenAI(messages));
+    // Inside the tool loop the latest unit is the assistant's tool calls and their results
+    const latest = units.pop() || [];
+
+    const result: OpenAIMessage[] = [];
+    if (systemPrompt) {
+      result.push({ role: 'system', content: systemPrompt });
+    }
+
+    // COST OPTIMIZATION: only the history is trimmed, never the latest message
+    result.push(...await this.optimizeConversationContext(units.flat()));
+    result.push(...latest);
+
+    return result;
+  }
+
+  private toRequestOptions(options: ChatRequestOptions): Partial<OpenAIChatRequest> {
+    const requestOptions: Partial<OpenAIChatRequest> = {};
+    if (options.temperature !== undefined) {
+      requestOptions.temperature = options.temperature;
+    }
+    if (options.maxTokens !== undefined) {
+      requestOptions.max_tokens = options.maxTokens;
+    }
+    if (options.tools?.length && this.capabilities.tools) {
+      requestOptions.tools = options.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      }));
+      requestOptions.tool_choice = 'auto';
+    }
+    return requestOptions;
+  }
+
+  private convertResponseToMessage(response: OpenAIChatResponse): Message {
+    const message = convertOpenAIResponseToMessage(response);
+    const toolCalls = this.parseToolCalls(response.choices[0]?.message.tool_calls);
+    return {
+      ...message,
+      content: typeof message.content === 'string' ? message.content : '',
+      ...(toolCalls ? { toolCalls } : {}),
+      metadata: {
+        ...message.metadata,
+        model: response.model || this.config.model,
+        usage: response.usage ? {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        } : undefined,
+      },
+    };
+  }
+
   public async sendSingleMessage(
     message: string,
-    options?: Partial<OpenAIChatRequest>
+    options?: Partial<OpenAIChatRequest>,
+    signal?: AbortSignal
   ): Promise<OpenAIChatResponse> {
     const messages: OpenAIMessage[] = [
       {
@@ -313,15 +538,51 @@ export class OpenAIService {
       },
     ];
 
-    return this.sendChatCompletion(messages, options);
+    return this.sendChatCompletion(messages, options, signal);
   }
 
   public async sendMessageWithContext(
     message: string | Message,
     conversationId: string,
     systemPrompt?: string,
-    options?: Partial<OpenAIChatRequest>
+    options?: Partial<OpenAIChatRequest>,
+    signal?: AbortSignal
+  ): Promise<OpenAIChatResponse> {
+    const { messages, newUserMessage } = await this.buildContextMessages(message, conversationId, systemPrompt);
+
+    const response = await this.sendChatCompletion(messages, options, signal);
+
+    this.recordExchange(conversationId, newUserMessage, response);
+
+    return response;
+  }
+
+  /**
+   * Streaming variant of sendMessageWithContext. Deltas are delivered through
+   * onDelta as they arrive; the resolved value is the assembled response.
+   */
+  public async streamMessageWithContext(
+    message: string | Message,
+    conversationId: string,
+    onDelta: StreamDeltaHandler,
+    systemPrompt?: string,
+    options?: Partial<OpenAIChatRequest>,
+    signal?: AbortSignal
   ): Promise<OpenAIChatResponse> {
+    const { messages, newUserMessage } = await this.buildContextMessages(message, conversationId, systemPrompt);
+
+    const response = await this.streamChatCompletion(messages, onDelta, options, signal);
+
+    this.recordExchange(conversationId, newUserMessage, response);
+
+    return response;
+  }
+
+  private async buildContextMessages(
+    message: string | Message,
+    conversationId: string,
+    systemPrompt?: string
+  ): Promise<{ messages: OpenAIMessage[]; newUserMessage: OpenAIMessage }> {
     const fullConversationHistory = this.getConversationHistory(conversationId);
     
     const messages: OpenAIMessage[] = [];
@@ -352,24 +613,29 @@ export class OpenAIService {
     }
     messages.push(newUserMessage);
 
-    const response = await this.sendChatCompletion(messages, options);
+    return { messages, newUserMessage };
+  }
 
+  private recordExchange(
+    conversationId: string,
+    newUserMessage: OpenAIMessage,
+    response: OpenAIChatResponse
+  ): void {
     // Update conversation history
     this.addToConversationHistory(conversationId, newUserMessage);
 
     if (response.choices[0]?.message) {
       this.addToConversationHistory(conversationId, response.choices[0].message);
     }
-
-    return response;
   }
 
   public async sendChatCompletion(
     messages: OpenAIMessage[],
-    options?: Partial<OpenAIChatRequest>
+    options?: Partial<OpenAIChatRequest>,
+    signal?: AbortSignal
   ): Promise<OpenAIChatResponse> {
     const request: OpenAIChatRequest = {
-      model: this.config.model,
+      model: this.config.requestModel,
       messages,
       max_tokens: this.config.maxTokens,
       temperature: this.config.temperature,
@@ -411,7 +677,7 @@ export class OpenAIService {
       this.rateLimitState.requestCount++;
       this.rateLimitState.tokenCount += estimatedTokens;
 
-      const response = await this.axios.post<OpenAIChatResponse>('/chat/completions', request);
+      const response = await this.axios.post<OpenAIChatResponse>('/chat/completions', request, { signal });
       
       if (hasImageMessages) {
         console.log('[OpenAI] Received response for image request:', {
@@ -422,7 +688,152 @@ export class OpenAIService {
       }
       
       return response.data;
-    });
+    }, 1, this.config.maxRetries, signal, estimatedTokens);
+  }
+
+  /**
+   * Send a chat completion with `stream: true` and parse the SSE response.
+   * axios cannot expose a streaming body in React Native, so this goes through
+   * expo/fetch. Streams are not retried once queued: a retry after partial
+   * output would replay deltas the caller has already rendered.
+   */
+  public async streamChatCompletion(
+    messages: OpenAIMessage[],
+    onDelta: StreamDeltaHandler,
+    options?: Partial<OpenAIChatRequest>,
+    signal?: AbortSignal
+  ): Promise<OpenAIChatResponse> {
+    const request: OpenAIChatRequest = {
+      model: this.config.requestModel,
+      messages,
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      ...options,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    const estimatedTokens = this.estimateTokenCount(messages) + (request.max_tokens || 0);
+
+    return this.addToQueue(async () => {
+      this.rateLimitState.requestCount++;
+      this.rateLimitState.tokenCount += estimatedTokens;
+
+      console.log(`[OpenAI] Making streaming request to /chat/completions`);
+
+      const response = await streamingFetch(`${this.config.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...this.getAuthHeaders(),
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          'User-Agent': 'HatGPT-App/1.0.0',
+        },
+        body: JSON.stringify(request),
+        signal,
+      });
+
+      console.log(`[OpenAI] Stream opened with status ${response.status}`);
+
+      if (!response.ok || !response.body) {
+        throw await this.parseStreamError(response);
+      }
+
+      let id = '';
+      let model = request.model;
+      let created = Math.floor(Date.now() / 1000);
+      let content = '';
+      // Tool call fragments arrive keyed by index; arguments are streamed as JSON text
+      const toolCalls: OpenAIToolCall[] = [];
+      let finishReason: OpenAIChatResponse['choices'][number]['finish_reason'] = null;
+      let usage: OpenAIChatResponse['usage'] = {
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        total_tokens: 0,
+      };
+
+      for await (const data of readServerSentEvents(response.body)) {
+        let chunk: OpenAIChatStreamChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          console.warn('[OpenAI] Skipping malformed stream chunk');
+          continue;
+        }
+
+        id = chunk.id || id;
+        model = chunk.model || model;
+        created = chunk.created || created;
+
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+
+        const choice = chunk.choices?.[0];
+        if (!choice) continue;
+
+        if (choice.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+
+        const delta = choice.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta, content);
+        }
+
+        choice.delta?.tool_calls?.forEach(fragment => {
+          const toolCall = toolCalls[fragment.index] || (toolCalls[fragment.index] = {
+            id: '',
+            type: 'function',
+            function: { name: '', arguments: '' },
+          });
+          toolCall.id = fragment.id || toolCall.id;
+          toolCall.function.name += fragment.function?.name || '';
+          toolCall.function.arguments += fragment.function?.arguments || '';
+        });
+      }
+
+      return {
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content,
+              ...(toolCalls.length > 0 ? { tool_calls: toolCalls.filter(Boolean) } : {}),
+            },
+            finish_reason: finishReason,
+          },
+        ],
+        usage,
+      };
+    }, 1, 0, signal, estimatedTokens);
+  }
+
+  private async parseStreamError(response: { status: number; text(): Promise<string> }): Promise<OpenAIError> {
+    const body = await response.text().catch(() => '');
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed && typeof parsed === 'object' && 'error' in parsed) {
+        return parsed as OpenAIError;
+      }
+    } catch {
+      // Fall through to a generic error
+    }
+
+    return {
+      error: {
+        message: body || `Streaming request failed with status ${response.status}`,
+        type: 'stream_error',
+        param: null,
+        code: String(response.status),
+      },
+    };
   }
 
   public getConversationHistory(conversationId: string): OpenAIMessage[] {
@@ -441,13 +852,14 @@ export class OpenAIService {
     }
   }
 
-  public setConversationHistory(conversationId: string, messages: Message[]): void {
+  // Messages may be a branched tree; only the path ending at activeLeafId (default: last message) is sent
+  public setConversationHistory(conversationId: string, messages: Message[], activeLeafId?: string): void {
     if (!conversationId) {
       console.warn('[OpenAIService] setConversationHistory: conversationId is required');
       return;
     }
     
-    const openAIMessages = this.convertMessagesToOpenAI(messages);
+    const openAIMessages = this.convertMessagesToOpenAI(getBranchPath(messages, activeLeafId));
     this.conversationHistory.set(conversationId, openAIMessages);
   }
 
@@ -476,6 +888,10 @@ export class OpenAIService {
     if (newConfig.apiKey) {
       this.axios.defaults.headers['Authorization'] = `Bearer ${newConfig.apiKey}`;
     }
+
+    if (newConfig.requestTimeout) {
+      this.axios.defaults.timeout = newConfig.requestTimeout;
+    }
   }
 
   // COST OPTIMIZATION: Smart context management
@@ -492,38 +908,54 @@ export class OpenAIService {
       return history;
     }
 
-    // Always keep the most recent messages
-    const recentMessages = history.slice(-maxContextMessages);
-
-    // Estimate tokens (rough approximation: 4 chars = 1 token)
-    const estimateTokens = (messages: OpenAIMessage[]) => 
-      messages.reduce((sum, msg) => sum + Math.ceil(msg.content.length / 4), 0);
-
-    const recentTokens = estimateTokens(recentMessages);
-    
-    // If recent messages are within token limit, return them
-    if (recentTokens <= maxContextTokens) {
-      console.log(`[OpenAI] Context kept: ${recentMessages.length} messages (~${recentTokens} tokens)`);
-      return recentMessages;
-    }
+    const estimateTokens = (messages: OpenAIMessage[]) =>
+      messages.reduce((sum, msg) => sum + countMessageTokens(msg, this.config.requestModel), 0);
 
-    // If recent messages exceed token limit, truncate them
+    // Keep the most recent messages that fit both limits. An assistant tool-call message and
+    // its results are kept or dropped together: a call without all its results is rejected.
+    const units = groupToolCallUnits(history);
+    const kept: OpenAIMessage[][] = [];
+    let messageCount = 0;
     let tokenCount = 0;
-    const truncatedRecent: OpenAIMessage[] = [];
-    
-    // Add messages from most recent backwards until we hit token limit
-    for (let i = recentMessages.length - 1; i >= 0; i--) {
-      const messageTokens = Math.ceil(recentMessages[i].content.length / 4);
-      if (tokenCount + messageTokens <= maxContextTokens) {
-        truncatedRecent.unshift(recentMessages[i]);
-        tokenCount += messageTokens;
-      } else {
+
+    for (let i = units.length - 1; i >= 0; i--) {
+      const unitTokens = estimateTokens(units[i]);
+      if (messageCount + units[i].length > maxContextMessages || tokenCount + unitTokens > maxContextTokens) {
         break;
       }
+      kept.unshift(units[i]);
+      messageCount += units[i].length;
+      tokenCount += unitTokens;
     }
 
-    console.log(`[OpenAI] Context optimized: ${history.length} → ${truncatedRecent.length} messages (~${tokenCount} tokens)`);
-    return truncatedRecent;
+    console.log(`[OpenAI] Context optimized: ${history.length} → ${messageCount} messages (~${tokenCount} tokens)`);
+    return kept.flat();
+  }
+
+  /**
+   * Embed a batch of texts, returning one vector per input in input order.
+   * Queued below chat requests since indexing runs in the background.
+   */
+  public async createEmbeddings(
+    input: string[],
+    model: string = 'text-embedding-3-small',
+    signal?: AbortSignal
+  ): Promise<number[][]> {
+    await UsageLedgerService.assertWithinBudget({ notify: false });
+
+    const request: OpenAIEmbeddingRequest = { model, input };
+    const estimatedTokens = input.reduce((total, text) => total + countTokens(text, model), 0);
+
+    return this.addToQueue(async () => {
+      this.rateLimitState.requestCount++;
+      this.rateLimitState.tokenCount += estimatedTokens;
+
+      const response = await this.axios.post<OpenAIEmbeddingResponse>('/embeddings', request, { signal });
+      UsageLedgerService.recordEmbedding(response.data.usage?.prompt_tokens ?? estimatedTokens, model);
+      return [...response.data.data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    }, 0, this.config.maxRetries, signal, estimatedTokens);
   }
 
   public async testConnection(): Promise<boolean> {
@@ -540,15 +972,20 @@ export class OpenAIService {
 // Singleton instance
 let openAIServiceInstance: OpenAIService | null = null;
 
+// User settings applied to the shared instance, kept so a later-created instance picks them up
+let openAIServiceOverrides: Partial<OpenAIServiceConfig> = {};
+
 export function getOpenAIService(): OpenAIService {
   if (!openAIServiceInstance) {
-    const apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
+    // A key saved in API Settings takes precedence over the build-time one
+    const apiKey = openAIServiceOverrides.apiKey || process.env.EXPO_PUBLIC_OPENAI_API_KEY;
     
     if (!apiKey) {
       throw new Error('OpenAI API key not found. Please set EXPO_PUBLIC_OPENAI_API_KEY in your environment variables.');
     }
 
     openAIServiceInstance = new OpenAIService({
+      ...openAIServiceOverrides,
       apiKey,
     });
   }
@@ -556,6 +993,11 @@ export function getOpenAIService(): OpenAIService {
   return openAIServiceInstance;
 }
 
+export function configureOpenAIService(config: Partial<OpenAIServiceConfig>): void {
+  openAIServiceOverrides = { ...openAIServiceOverrides, ...config };
+  openAIServiceInstance?.updateConfig(config);
+}
+
 export function createOpenAIService(config: OpenAIServiceConfig): OpenAIService {
   return new OpenAIService(config);
 }
\ No newline at end of file
@@ -0,0 +1,457 @@
+import { Message, RealtimeUsage, VoiceType } from '@/types';
+import { UsageLedgerService } from './usageLedger';
+import { RealtimeAudioCapture, RealtimeAudioPlayer } from './realtimeAudio';
+
+export const DEFAULT_REALTIME_URL = 'wss://api.openai.com/v1/realtime';
+export const REALTIME_MODEL = 'gpt-4o-realtime-preview';
+
+// TTS voices that the realtime model can also speak with
+const REALTIME_VOICES: VoiceType[] = ['alloy', 'echo', 'shimmer'];
+// Recent turns replayed into a new session as text, so the model knows the conversation
+const MAX_HISTORY_MESSAGES = 20;
+// How long a finished reply waits for the transcript of the question that triggered it
+const TRANSCRIPT_WAIT_MS = 3000;
+// Sent when the user taps to end a turn before any audio reached the server
+const EMPTY_COMMIT_ERROR = 'input_audio_buffer_commit_empty';
+
+// React Native's WebSocket takes headers as a third argument, which the DOM typings lack
+const HeaderWebSocket = WebSocket as unknown as new (
+  url: string,
+  protocols: string | string[] | undefined,
+  options: { headers: Record<string, string> }
+) => WebSocket;
+
+export type RealtimeVoicePhase = 'connecting' | 'listening' | 'userSpeaking' | 'thinking' | 'speaking';
+
+export interface RealtimeResponse {
+  text: string;
+  // The user talked over the reply or stopped it
+  interrupted: boolean;
+  // Part of the reply played before the interruption
+  spokenText?: string;
+  usage?: RealtimeUsage;
+}
+
+export interface RealtimeVoiceConfig {
+  // WebSocket endpoint; point it at a local mock server for testing
+  url?: string;
+  apiKey?: string;
+  model?: string;
+  voice?: VoiceType;
+  instructions?: string;
+  history?: Message[];
+  // Milliseconds of silence after which the server ends the user's turn
+  silenceDuration?: number;
+  // Keep the mic open while the reply plays, so speaking interrupts it
+  bargeIn?: boolean;
+  conversationId?: string;
+  onPhaseChange?: (phase: RealtimeVoicePhase) => void;
+  onUserTranscript?: (text: string) => void;
+  // Transcript of the reply so far
+  onResponseTranscript?: (text: string) => void;
+  onResponseComplete?: (response: RealtimeResponse) => void;
+  onError?: (message: string) => void;
+  // The connection closed without disconnect() being called
+  onClose?: () => void;
+}
+
+interface ResponseTurn {
+  id: string;
+  text: string;
+  itemId: string | null;
+  // The server finished generating; audio may still be playing
+  done: boolean;
+  usage?: RealtimeUsage;
+  interruption?: { spokenText: string };
+}
+
+// Cut a transcript at a word boundary, keeping roughly `fraction` of it
+function transcriptPrefix(text: string, fraction: number): string {
+  if (fraction >= 1) return text;
+  if (fraction <= 0) return '';
+  const cut = text.lastIndexOf(' ', Math.round(text.length * fraction));
+  return text.slice(0, cut > 0 ? cut : 0).trim();
+}
+
+function parseUsage(usage: any): RealtimeUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    inputAudioTokens: usage.input_token_details?.audio_tokens || 0,
+    outputAudioTokens: usage.output_token_details?.audio_tokens || 0,
+  };
+}
+
+/**
+ * Speech-to-speech session over an OpenAI Realtime-style WebSocket. The mic
+ * streams continuously, the server detects turns (server VAD) and replies
+ * with streamed audio. Speaking over a reply stops playback, cancels the
+ * response and truncates it to what was heard.
+ */
+export class RealtimeVoiceService {
+  private socket: WebSocket | null = null;
+  private readonly capture: RealtimeAudioCapture;
+  private readonly player: RealtimeAudioPlayer;
+  private phase: RealtimeVoicePhase = 'connecting';
+  private closing = false;
+  private response: ResponseTurn | null = null;
+  // User item whose transcript has not arrived yet
+  private pendingTranscriptItemId: string | null = null;
+  private transcriptTimer: ReturnType<typeof setTimeout> | null = null;
+  private heldResponses: RealtimeResponse[] = [];
+
+  constructor(private readonly config: RealtimeVoiceConfig) {
+    this.capture = new RealtimeAudioCapture((audio) => {
+      this.send({ type: 'input_audio_buffer.append', audio });
+    });
+    this.player = new RealtimeAudioPlayer({
+      onPlaybackStart: () => {
+        this.setPhase('speaking');
+        // Without barge-in the reply would be heard by the mic and taken as the user talking
+        this.capture.muted = !this.config.bargeIn;
+      },
+      onPlaybackEnd: () => {
+        this.capture.muted = false;
+        this.setPhase('listening');
+        this.completeResponse();
+      },
+    });
+  }
+
+  get model(): string {
+    return this.config.model || REALTIME_MODEL;
+  }
+
+  get isConnected(): boolean {
+    return !!this.socket && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  // Open the socket, configure the session and start streaming the mic
+  async connect(): Promise<void> {
+    const baseUrl = this.config.url || DEFAULT_REALTIME_URL;
+    const url = `${baseUrl}${baseUrl.includes('?') ? '&' : '?'}model=${encodeURIComponent(this.model)}`;
+    const headers: Record<string, string> = { 'OpenAI-Beta': 'realtime=v1' };
+    if (this.config.apiKey) {
+      if (!baseUrl.startsWith('wss://')) {
+        throw new Error('Refusing to send an API key over an unencrypted ws:// connection');
+      }
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    this.closing = false;
+    this.setPhase('connecting');
+    console.log(`🎧 Connecting realtime voice session to ${baseUrl}`);
+
+    const socket = new HeaderWebSocket(url, undefined, { headers });
+    this.socket = socket;
+
+    await new Promise<void>((resolve, reject) => {
+      socket.onopen = () => resolve();
+      socket.onerror = (event: any) => reject(new Error(event?.message || 'Failed to connect to the realtime server'));
+      socket.onclose = (event) => reject(new Error(`Realtime server closed the connection (${event.code})`));
+    });
+
+    socket.onmessage = (event) => {
+      try {
+        this.handleEvent(JSON.parse(event.data as string));
+      } catch (error) {
+        console.warn('Invalid realtime event:', error);
+      }
+    };
+    socket.onerror = (event: any) => {
+      console.error('Realtime socket error:', event?.message);
+    };
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (!this.closing) {
+        console.warn(`🎧 Realtime session closed by the server (${event.code})`);
+        this.shutdown();
+        this.config.onClose?.();
+      }
+    };
+
+    this.configureSession();
+    await this.capture.start();
+    this.setPhase('listening');
+  }
+
+  async disconnect(): Promise<void> {
+    this.closing = true;
+    await this.shutdown();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    console.log('🎧 Realtime voice session ended');
+  }
+
+  // End the user's turn now instead of waiting for the server to hear silence
+  commitTurn(): void {
+    this.send({ type: 'input_audio_buffer.commit' });
+    this.send({ type: 'response.create' });
+  }
+
+  // Send a recorded clip (PCM16, base64) as one user turn
+  sendAudioTurn(base64Pcm: string): void {
+    this.send({ type: 'input_audio_buffer.append', audio: base64Pcm });
+    this.commitTurn();
+  }
+
+  setMicMuted(muted: boolean): void {
+    this.capture.muted = muted;
+    if (muted) {
+      // Drop anything half-said so it is not answered later
+      this.send({ type: 'input_audio_buffer.clear' });
+    }
+  }
+
+  // Stop the reply where the user is and tell the server what was heard
+  async interrupt(): Promise<void> {
+    const response = this.response;
+    if (!response || response.interruption) return;
+
+    const receivedMs = response.itemId ? this.player.getReceivedMs(response.itemId) : 0;
+    // Set first so deltas still in flight are dropped while playback stops
+    response.interruption = { spokenText: '' };
+    const position = await this.player.stop();
+    this.capture.muted = false;
+
+    if (!response.done) {
+      this.send({ type: 'response.cancel' });
+    }
+    if (position) {
+      this.send({
+        type: 'conversation.item.truncate',
+        item_id: position.itemId,
+        content_index: 0,
+        audio_end_ms: position.audioEndMs,
+      });
+    }
+
+    const heardFraction = position && receivedMs > 0 ? position.audioEndMs / receivedMs : 0;
+    response.interruption.spokenText = transcriptPrefix(response.text, heardFraction);
+    console.log(`🎧 Reply interrupted after ${position?.audioEndMs ?? 0}ms`);
+    if (this.phase !== 'userSpeaking') {
+      this.setPhase('listening');
+    }
+
+    // A cancelled response still gets response.done; a finished one is complete now
+    if (response.done) {
+      this.completeResponse();
+    }
+  }
+
+  private configureSession(): void {
+    const voice = this.config.voice && REALTIME_VOICES.includes(this.config.voice) ? this.config.voice : 'alloy';
+    this.send({
+      type: 'session.update',
+      session: {
+        modalities: ['audio', 'text'],
+        instructions: this.config.instructions,
+        voice,
+        input_audio_format: 'pcm16',
+        output_audio_format: 'pcm16',
+        input_audio_transcription: { model: 'whisper-1' },
+        turn_detection: {
+          type: 'server_vad',
+          threshold: 0.5,
+          prefix_padding_ms: 300,
+          silence_duration_ms: this.config.silenceDuration ?? 700,
+          create_response: true,
+        },
+      },
+    });
+
+    const history = (this.config.history || [])
+      .filter(msg => msg.content.trim() && !msg.error && !msg.isStreaming)
+      .slice(-MAX_HISTORY_MESSAGES);
+    for (const msg of history) {
+      this.send({
+        type: 'conversation.item.create',
+        item: {
+          type: 'message',
+          role: msg.role,
+          content: [{ type: msg.role === 'user' ? 'input_text' : 'text', text: msg.content }],
+        },
+      });
+    }
+  }
+
+  private handleEvent(event: any): void {
+    switch (event.type) {
+      case 'session.created':
+        console.log('🎧 Realtime session created');
+        break;
+
+      case 'input_audio_buffer.speech_started':
+        this.setPhase('userSpeaking');
+        if (this.response) {
+          void this.interrupt().catch(error => {
+            console.error('Failed to interrupt realtime response:', error);
+            this.config.onError?.(error instanceof Error ? error.message : 'Failed to interrupt the reply');
+          });
+        }
+        break;
+
+      case 'input_audio_buffer.speech_stopped':
+        this.setPhase('thinking');
+        break;
+
+      case 'input_audio_buffer.committed':
+        this.awaitTranscript(event.item_id);
+        break;
+
+      case 'conversation.item.input_audio_transcription.completed':
+        this.resolveTranscript(event.item_id, (event.transcript || '').trim());
+        break;
+
+      case 'conversation.item.input_audio_transcription.failed':
+        console.warn('Realtime transcription failed:', event.error?.message);
+        this.resolveTranscript(event.item_id, '');
+        break;
+
+      case 'response.created':
+        this.response = { id: event.response?.id, text: '', itemId: null, done: false };
+        if (this.phase !== 'userSpeaking') {
+          this.setPhase('thinking');
+        }
+        break;
+
+      case 'response.audio.delta':
+        if (this.isCurrentResponse(event.response_id)) {
+          this.response!.itemId = event.item_id;
+          this.player.append(event.item_id, event.delta);
+        }
+        break;
+
+      case 'response.audio_transcript.delta':
+        if (this.isCurrentResponse(event.response_id)) {
+          this.response!.text += event.delta;
+          this.config.onResponseTranscript?.(this.response!.text);
+        }
+        break;
+
+      case 'response.audio.done':
+        if (this.isCurrentResponse(event.response_id)) {
+          this.player.finish();
+        }
+        break;
+
+      case 'response.done':
+        this.handleResponseDone(event.response);
+        break;
+
+      case 'error':
+        this.handleServerError(event.error);
+        break;
+    }
+  }
+
+  // Deltas that arrive after an interruption belong to the cancelled reply
+  private isCurrentResponse(responseId: string): boolean {
+    return !!this.response && this.response.id === responseId && !this.response.interruption;
+  }
+
+  private handleResponseDone(result: any): void {
+    const response = this.response;
+    if (!response || response.id !== result?.id) return;
+
+    response.done = true;
+    response.usage = parseUsage(result.usage);
+    if (response.usage) {
+      UsageLedgerService.recordRealtime(this.model, response.usage, this.config.conversationId);
+    }
+    if (result.status === 'failed') {
+      this.config.onError?.(result.status_details?.error?.message || 'The realtime response failed');
+    }
+
+    // Otherwise completion waits for the remaining audio to play
+    if (response.interruption || !this.player.isActive) {
+      if (this.phase !== 'userSpeaking') {
+        this.setPhase('listening');
+      }
+      this.completeResponse();
+    }
+  }
+
+  private completeResponse(): void {
+    const response = this.response;
+    if (!response || !response.done) return;
+    this.response = null;
+
+    const completed: RealtimeResponse = {
+      text: response.text.trim(),
+      interrupted: !!response.interruption,
+      spokenText: response.interruption?.spokenText,
+      usage: response.usage,
+    };
+    if (!completed.text) return;
+
+    // Keep the conversation in order: the question is reported before its answer
+    if (this.pendingTranscriptItemId) {
+      this.heldResponses.push(completed);
+    } else {
+      this.config.onResponseComplete?.(completed);
+    }
+  }
+
+  private awaitTranscript(itemId: string): void {
+    this.flushHeldResponses();
+    this.pendingTranscriptItemId = itemId;
+    this.transcriptTimer = setTimeout(() => {
+      this.pendingTranscriptItemId = null;
+      this.flushHeldResponses();
+    }, TRANSCRIPT_WAIT_MS);
+  }
+
+  private resolveTranscript(itemId: string, transcript: string): void {
+    if (transcript) {
+      this.config.onUserTranscript?.(transcript);
+    }
+    if (itemId === this.pendingTranscriptItemId) {
+      this.pendingTranscriptItemId = null;
+      this.flushHeldResponses();
+    }
+  }
+
+  private flushHeldResponses(): void {
+    if (this.transcriptTimer) {
+      clearTimeout(this.transcriptTimer);
+      this.transcriptTimer = null;
+    }
+    const held = this.heldResponses;
+    this.heldResponses = [];
+    held.forEach(response => this.config.onResponseComplete?.(response));
+  }
+
+  private handleServerError(error: any): void {
+    if (error?.code === EMPTY_COMMIT_ERROR) {
+      console.log('🎧 Nothing to send yet');
+      return;
+    }
+    const message = error?.message || 'Realtime server error';
+    console.error('Realtime server error:', message);
+    this.config.onError?.(message);
+  }
+
+  private send(event: Record<string, any>): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(event));
+    }
+  }
+
+  private setPhase(phase: RealtimeVoicePhase): void {
+    if (this.phase === phase) return;
+    this.phase = phase;
+    this.config.onPhaseChange?.(phase);
+  }
+
+  private async shutdown(): Promise<void> {
+    await this.capture.stop();
+    await this.player.stop();
+    this.response = null;
+    this.pendingTranscriptItemId = null;
+    this.flushHeldResponses();
+  }
+}
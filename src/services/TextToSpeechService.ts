@@ -0,0 +1,367 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import * as Speech from 'expo-speech';
+import { AudioQualityType, VoiceType } from '@/types';
+import { SettingsStorageService } from './settingsStorage';
+import { NetworkService } from './networkService';
+import { UsageLedgerService } from './usageLedger';
+
+export type SpeechEngine = 'openai' | 'device';
+
+export interface SpeechOptions {
+  voice?: VoiceType;
+  speed?: number;
+  quality?: AudioQualityType;
+  // Defaults to the key saved in settings
+  apiKey?: string;
+  signal?: AbortSignal;
+}
+
+export interface SpeakOptions extends SpeechOptions {
+  volume?: number;
+  // Called as each chunk starts playing
+  onChunkStart?: (index: number, chunk: string, engine: SpeechEngine) => void;
+}
+
+export interface SpeechResult {
+  // Playback was stopped before the end
+  interrupted: boolean;
+  // Text of the chunks that started playing
+  spokenText: string;
+}
+
+type ResolvedSpeechOptions = Required<Omit<SpeechOptions, 'signal' | 'apiKey'>> & {
+  apiKey?: string;
+  signal?: AbortSignal;
+};
+
+const SPEECH_URL = 'https://api.openai.com/v1/audio/speech';
+const CACHE_DIRECTORY = `${FileSystem.cacheDirectory}tts/`;
+const MAX_CACHED_FILES = 200;
+// Last use of each cached file (seconds, like modificationTime), so pruning drops the least recently played
+const CACHE_ACCESS_KEY = '@tts_cache_access';
+// Long enough for a natural sentence, short enough that the first chunk arrives quickly
+const MAX_CHUNK_LENGTH = 200;
+
+// 53-bit string hash (cyrb53); only used to name cache files
+function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+const isAborted = (signal?: AbortSignal) => !!signal?.aborted;
+
+/**
+ * Speech synthesis for assistant replies. Uses OpenAI TTS with an on-disk
+ * cache, and the device's own voice when there is no key or no network.
+ */
+export class TextToSpeechService {
+  private static cacheAccess: Promise<Record<string, number>> | null = null;
+
+  static getModel(quality: AudioQualityType): string {
+    return quality === 'hd' ? 'tts-1-hd' : 'tts-1';
+  }
+
+  // Fill unset options from AppSettings
+  private static async resolveOptions(options: SpeechOptions): Promise<ResolvedSpeechOptions> {
+    const settings = await SettingsStorageService.loadSettings();
+    return {
+      voice: options.voice ?? settings.voiceType,
+      speed: options.speed ?? settings.speechRate,
+      quality: options.quality ?? settings.audioQuality,
+      apiKey: options.apiKey ?? (settings.openaiApiKey || undefined),
+      signal: options.signal,
+    };
+  }
+
+  // Strip markdown and emoji, then split on sentence boundaries into TTS-sized chunks
+  static splitIntoChunks(text: string): string[] {
+    const cleanText = text
+      .replace(/```[\s\S]*?```/g, '') // Remove code blocks
+      .replace(/#{1,6}\s+/g, '') // Remove headers
+      .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
+      .replace(/\*(.*?)\*/g, '$1') // Remove italic
+      .replace(/`(.*?)`/g, '$1') // Remove inline code
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links, keep text
+      .replace(/[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu, '') // Remove emojis
+      .replace(/[•▪▫◦‣⁃]/g, '-') // Replace bullet points with dashes
+      .replace(/\s+/g, ' ') // Normalize whitespace
+      .trim();
+
+    const sentences = cleanText
+      .split(/(?<=[.!?])\s+/)
+      .filter(sentence => sentence.trim().length > 0);
+
+    const chunks: string[] = [];
+    let currentChunk = '';
+    for (const sentence of sentences) {
+      if ((currentChunk + sentence).length <= MAX_CHUNK_LENGTH) {
+        currentChunk += (currentChunk ? ' ' : '') + sentence;
+      } else {
+        if (currentChunk) {
+          chunks.push(currentChunk.trim());
+        }
+        currentChunk = sentence;
+      }
+    }
+    if (currentChunk) {
+      chunks.push(currentChunk.trim());
+    }
+
+    return chunks
+      // Drop chunks that are only whitespace or punctuation
+      .filter(chunk => chunk.replace(/[\s\-–—•▪▫◦‣⁃]/g, '').length > 0)
+      // End every chunk with punctuation so the voice closes the sentence
+      .map(chunk => (/[.!?。！？]$/.test(chunk) ? chunk : `${chunk}.`));
+  }
+
+  /**
+   * Synthesize one chunk with OpenAI TTS and return the local file URI.
+   * Audio is cached by text, voice, speed and model, so repeated phrases
+   * and replayed replies are free.
+   */
+  static async synthesize(text: string, options: SpeechOptions = {}): Promise<string> {
+    return this.synthesizeResolved(text, await this.resolveOptions(options));
+  }
+
+  private static async synthesizeResolved(text: string, resolved: ResolvedSpeechOptions): Promise<string> {
+    if (!resolved.apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    const model = this.getModel(resolved.quality);
+    const fileName = `${hashString(`${model}|${resolved.voice}|${resolved.speed}|${text}`)}.mp3`;
+    const fileUri = `${CACHE_DIRECTORY}${fileName}`;
+
+    const cached = await FileSystem.getInfoAsync(fileUri);
+    if (cached.exists) {
+      this.touchCachedFile(fileName);
+      return fileUri;
+    }
+
+    await UsageLedgerService.assertWithinBudget({ notify: false });
+    const response = await fetch(SPEECH_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${resolved.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        input: text,
+        voice: resolved.voice,
+        response_format: 'mp3',
+        speed: resolved.speed,
+      }),
+      signal: resolved.signal,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => 'Unknown error');
+      throw new Error(`OpenAI TTS API error: ${response.status} - ${errorBody}`);
+    }
+    UsageLedgerService.recordSpeech(text.length, model);
+
+    const base64 = await blobToBase64(await response.blob());
+    await FileSystem.makeDirectoryAsync(CACHE_DIRECTORY, { intermediates: true }).catch(() => {});
+    await FileSystem.writeAsStringAsync(fileUri, base64, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    this.touchCachedFile(fileName);
+    this.pruneCache();
+
+    return fileUri;
+  }
+
+  /**
+   * Speak a whole reply. Chunk N+1 is synthesized while chunk N plays, so
+   * only the first chunk's request delays the start. Aborting the signal
+   * stops playback and cancels pending requests.
+   */
+  static async speak(text: string, options: SpeakOptions = {}): Promise<SpeechResult> {
+    const resolved = await this.resolveOptions(options);
+    const { signal } = options;
+    const chunks = this.splitIntoChunks(text);
+    const spokenChunks: string[] = [];
+
+    const engine = await this.getEngine(resolved.apiKey);
+    console.log(`🔊 Speaking ${chunks.length} chunk(s) with ${engine === 'openai' ? 'OpenAI TTS' : 'the device voice'}`);
+
+    const prefetch = (index: number): Promise<string | null> | null => {
+      if (engine === 'device' || index >= chunks.length) {
+        return null;
+      }
+      const request = this.synthesizeResolved(chunks[index], resolved).catch((error) => {
+        if (!isAborted(signal)) {
+          console.warn(`TTS failed for chunk ${index + 1}, using the device voice:`, error);
+        }
+        return null;
+      });
+      return request;
+    };
+
+    let nextAudio = prefetch(0);
+    for (let i = 0; i < chunks.length && !isAborted(signal); i++) {
+      const audioUri = nextAudio ? await nextAudio : null;
+      nextAudio = prefetch(i + 1);
+      if (isAborted(signal)) break;
+
+      spokenChunks.push(chunks[i]);
+      try {
+        if (audioUri) {
+          options.onChunkStart?.(i, chunks[i], 'openai');
+          await this.playFile(audioUri, options.volume ?? 1.0, signal);
+        } else {
+          options.onChunkStart?.(i, chunks[i], 'device');
+          await this.speakWithDevice(chunks[i], resolved.speed, signal);
+        }
+      } catch (error) {
+        console.error(`Error speaking chunk ${i + 1}:`, error);
+        // Continue with next chunk instead of failing completely
+      }
+    }
+
+    return { interrupted: isAborted(signal), spokenText: spokenChunks.join(' ') };
+  }
+
+  // OpenAI when a key and a connection are available, otherwise the device voice
+  static async getEngine(apiKey?: string): Promise<SpeechEngine> {
+    if (!apiKey) {
+      return 'device';
+    }
+    const isOnline = await NetworkService.getInstance().checkConnectivity();
+    return isOnline ? 'openai' : 'device';
+  }
+
+  private static async playFile(uri: string, volume: number, signal?: AbortSignal): Promise<void> {
+    if (isAborted(signal)) return;
+
+    // Loaded paused so an abort during loading never starts playback
+    const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: false, volume });
+    if (isAborted(signal)) {
+      await sound.unloadAsync().catch(() => {});
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const finish = async () => {
+        signal?.removeEventListener('abort', finish);
+        try {
+          await sound.unloadAsync();
+        } catch (error) {
+          // Already unloaded
+        }
+        resolve();
+      };
+      signal?.addEventListener('abort', finish);
+      sound.setOnPlaybackStatusUpdate((status) => {
+        if (status.isLoaded && status.didJustFinish) {
+          finish();
+        } else if (!status.isLoaded && status.error) {
+          console.warn('Playback error:', status.error);
+          finish();
+        }
+      });
+      sound.playAsync().catch((error) => {
+        console.warn('Playback error:', error);
+        finish();
+      });
+    });
+  }
+
+  private static speakWithDevice(text: string, speed: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const onAbort = () => Speech.stop();
+      const done = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort);
+      Speech.speak(text, {
+        rate: speed,
+        onDone: done,
+        onStopped: done,
+        onError: (error) => {
+          console.warn('Device speech error:', error);
+          done();
+        },
+      });
+    });
+  }
+
+  private static loadCacheAccess(): Promise<Record<string, number>> {
+    if (!this.cacheAccess) {
+      this.cacheAccess = AsyncStorage.getItem(CACHE_ACCESS_KEY)
+        .then(data => (data ? JSON.parse(data) : {}))
+        .catch(() => ({}));
+    }
+    return this.cacheAccess;
+  }
+
+  private static async saveCacheAccess(access: Record<string, number>): Promise<void> {
+    await AsyncStorage.setItem(CACHE_ACCESS_KEY, JSON.stringify(access)).catch((error) => {
+      console.warn('Failed to save speech cache index:', error);
+    });
+  }
+
+  private static async touchCachedFile(name: string): Promise<void> {
+    const access = await this.loadCacheAccess();
+    access[name] = Date.now() / 1000;
+    await this.saveCacheAccess(access);
+  }
+
+  // Keep the most recently played files; older ones are re-synthesized if needed
+  private static async pruneCache(): Promise<void> {
+    try {
+      const files = await FileSystem.readDirectoryAsync(CACHE_DIRECTORY);
+      if (files.length <= MAX_CACHED_FILES) {
+        return;
+      }
+
+      const access = await this.loadCacheAccess();
+      const infos = await Promise.all(
+        files.map(async (name) => {
+          if (access[name]) {
+            return { name, used: access[name] };
+          }
+          // Files cached before the index existed
+          const info = await FileSystem.getInfoAsync(`${CACHE_DIRECTORY}${name}`);
+          return { name, used: info.exists ? info.modificationTime : 0 };
+        })
+      );
+      infos.sort((a, b) => a.used - b.used);
+      for (const { name } of infos.slice(0, files.length - MAX_CACHED_FILES)) {
+        await FileSystem.deleteAsync(`${CACHE_DIRECTORY}${name}`, { idempotent: true });
+        delete access[name];
+      }
+      await this.saveCacheAccess(access);
+    } catch (error) {
+      console.warn('Failed to prune speech cache:', error);
+    }
+  }
+
+  static async clearCache(): Promise<void> {
+    await FileSystem.deleteAsync(CACHE_DIRECTORY, { idempotent: true });
+    this.cacheAccess = Promise.resolve({});
+    await AsyncStorage.removeItem(CACHE_ACCESS_KEY);
+    console.log('🔊 Speech cache cleared');
+  }
+}
@@ -5,6 +5,15 @@ import {
   OpenAIWhisperResponse,
   OpenAIError,
 } from '@/types';
+import { estimateAudioDuration, RECOMMENDED_MAX_SIZE } from '@/utils/whisper';
+import {
+  AudioSegment,
+  deleteAudioSegments,
+  isSplittableFormat,
+  splitAudioFile,
+  SplitAudioResult,
+} from '@/utils/audioSplitter';
+import { UsageLedgerService } from './usageLedger';
 
 interface WhisperServiceConfig {
   apiKey: string;
@@ -14,6 +23,9 @@ interface WhisperServiceConfig {
   timeout?: number;
   maxFileSize?: number; // in bytes
   supportedFormats?: string[];
+  segmentSize?: number; // in bytes; longer recordings are split
+  segmentOverlap?: number; // in seconds
+  maxConcurrentSegments?: number;
 }
 
 interface TranscriptionProgress {
@@ -22,6 +34,9 @@ interface TranscriptionProgress {
   bytesUploaded?: number;
   totalBytes?: number;
   estimatedTimeRemaining?: number;
+  // Set while a long recording is transcribed in segments
+  segmentsCompleted?: number;
+  totalSegments?: number;
 }
 
 interface TranscriptionResult {
@@ -49,6 +64,103 @@ interface TranscriptionOptions {
   signal?: AbortSignal;
 }
 
+type TranscriptionRequestOptions = Omit<TranscriptionOptions, 'onProgress' | 'signal'>;
+
+interface SegmentTranscript {
+  segment: AudioSegment;
+  result: TranscriptionResult;
+}
+
+// Characters of the previous transcript passed as the next segment's prompt
+const SEGMENT_PROMPT_CHARS = 200;
+// Words compared when removing text repeated on both sides of a cut
+const MAX_REPEATED_WORDS = 20;
+
+function buildSegmentPrompt(userPrompt?: string, previousText?: string): string | undefined {
+  let context = previousText?.trim().slice(-SEGMENT_PROMPT_CHARS) || '';
+  if (context.length === SEGMENT_PROMPT_CHARS) {
+    // Start on a word boundary
+    context = context.slice(context.indexOf(' ') + 1);
+  }
+  return [userPrompt, context].filter(Boolean).join(' ') || undefined;
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[.,!?;:"“”()…-]/g, '');
+
+// Drop words at the start of `text` that repeat the end of `previous`
+function removeRepeatedWords(previous: string, text: string): string {
+  const previousWords = previous.split(/\s+/).filter(Boolean).slice(-MAX_REPEATED_WORDS).map(normalizeWord);
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const normalized = words.map(normalizeWord);
+
+  // Single words repeat too often by chance to be treated as overlap
+  for (let count = Math.min(previousWords.length, words.length); count >= 2; count--) {
+    if (previousWords.slice(-count).every((word, i) => word === normalized[i])) {
+      return words.slice(count).join(' ');
+    }
+  }
+  return words.join(' ');
+}
+
+/**
+ * Join per-segment transcripts into one result on the original timeline.
+ * Each overlap is cut at its midpoint: a Whisper segment belongs to the side
+ * of the cut it starts on, and words repeated across the cut are dropped.
+ */
+function stitchSegmentTranscripts(parts: SegmentTranscript[], duration: number): TranscriptionResult {
+  const segments: NonNullable<TranscriptionResult['segments']> = [];
+  let text = '';
+
+  parts.forEach(({ segment, result }, index) => {
+    const previous = parts[index - 1]?.segment;
+    const next = parts[index + 1]?.segment;
+    const keepFrom = previous ? (previous.end + segment.start) / 2 : 0;
+    const keepUntil = next ? (segment.end + next.start) / 2 : Infinity;
+    let atCut = index > 0;
+
+    const append = (piece: string) => {
+      const cleaned = atCut && text ? removeRepeatedWords(text, piece) : piece.trim();
+      atCut = false;
+      if (cleaned) {
+        text = text ? `${text} ${cleaned}` : cleaned;
+      }
+      return cleaned;
+    };
+
+    // Without timestamps only the word matching can remove the overlap
+    if (!result.segments?.length) {
+      append(result.text);
+      return;
+    }
+
+    for (const piece of result.segments) {
+      const start = segment.start + piece.start;
+      if (start < keepFrom || start >= keepUntil) continue;
+
+      const pieceText = append(piece.text);
+      if (pieceText) {
+        segments.push({
+          ...piece,
+          id: segments.length,
+          start,
+          end: Math.min(segment.start + piece.end, duration),
+          text: pieceText,
+        });
+      }
+    }
+  });
+
+  return {
+    text,
+    language: parts.find(part => part.result.language)?.result.language,
+    duration,
+    confidence: segments.length > 0
+      ? segments.reduce((sum, seg) => sum + seg.confidence, 0) / segments.length
+      : undefined,
+    segments,
+  };
+}
+
 export class WhisperService {
   private axios: AxiosInstance;
   private config: Required<WhisperServiceConfig>;
@@ -61,6 +173,9 @@ export class WhisperService {
       timeout: 120000, // 2 minutes
       maxFileSize: 25 * 1024 * 1024, // 25MB (OpenAI limit)
       supportedFormats: ['.m4a', '.mp3', '.wav', '.webm', '.mp4', '.mpeg', '.mpga', '.oga', '.ogg'],
+      segmentSize: RECOMMENDED_MAX_SIZE,
+      segmentOverlap: 3,
+      maxConcurrentSegments: 3,
       ...config,
     };
 
@@ -168,14 +283,14 @@ export class WhisperService {
         };
       }
 
-      // Check file size
+      // Check file size; recordings that can be split have no limit
       const fileSize = (fileInfo as any).size || 0;
-      if (fileSize && fileSize > this.config.maxFileSize) {
+      if (fileSize && fileSize > this.config.maxFileSize && !isSplittableFormat(fileUri)) {
         const maxSizeMB = Math.round(this.config.maxFileSize / (1024 * 1024));
         const fileSizeMB = Math.round(fileSize / (1024 * 1024));
         return {
           isValid: false,
-          error: `File size (${fileSizeMB}MB) exceeds maximum allowed size (${maxSizeMB}MB)`,
+          error: `File size (${fileSizeMB}MB) exceeds maximum allowed size (${maxSizeMB}MB). Save long recordings as .m4a, .mp3 or .wav to have them split automatically`,
         };
       }
 
@@ -359,7 +474,168 @@ export class WhisperService {
   }
 
   /**
-   * Transcribe an audio file using OpenAI Whisper API
+   * Upload one file to the transcriptions endpoint, retrying transient failures
+   */
+  private async requestTranscription(
+    fileUri: string,
+    requestOptions: TranscriptionRequestOptions,
+    signal?: AbortSignal,
+    onUploadProgress?: (loaded: number, total: number) => void,
+    onProgress?: (progress: TranscriptionProgress) => void
+  ): Promise<OpenAIWhisperResponse> {
+    const formData = this.createFormData(fileUri, requestOptions);
+
+    const uploadOperation = async () => {
+      return await this.axios.post<OpenAIWhisperResponse>('/audio/transcriptions', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        signal,
+        onUploadProgress: (progressEvent: AxiosProgressEvent) => {
+          if (progressEvent.total) {
+            onUploadProgress?.(progressEvent.loaded, progressEvent.total);
+          }
+        },
+      });
+    };
+
+    // Execute with retry logic
+    const response = await this.retryWithBackoff(uploadOperation, 0, onProgress);
+    return response.data;
+  }
+
+  /**
+   * Split a long recording, or return null to upload it whole when splitting
+   * fails but the file is still within the upload limit
+   */
+  private async splitRecording(fileUri: string, fileSize: number): Promise<SplitAudioResult | null> {
+    try {
+      const split = await splitAudioFile(fileUri, {
+        maxSegmentBytes: this.config.segmentSize,
+        overlapSeconds: this.config.segmentOverlap,
+      });
+      console.log(`[Whisper] Split ${this.formatFileSize(fileSize)} recording into ${split.segments.length} segments`);
+      return split;
+    } catch (error) {
+      if (fileSize <= this.config.maxFileSize) {
+        console.warn('[Whisper] Could not split recording, uploading it whole:', error);
+        return null;
+      }
+      throw {
+        error: {
+          message: `Could not split the recording into segments: ${error instanceof Error ? error.message : error}`,
+          type: 'invalid_request_error',
+          param: 'file',
+          code: 'invalid_file',
+        },
+      };
+    }
+  }
+
+  /**
+   * Transcribe the segments of a split recording and stitch the results.
+   * Segments are divided into contiguous runs transcribed in parallel; within
+   * a run each segment is prompted with the end of the previous transcript so
+   * wording and spelling carry across the cut.
+   */
+  private async transcribeSegments(
+    split: SplitAudioResult,
+    requestOptions: TranscriptionRequestOptions,
+    startTime: number,
+    onProgress?: (progress: TranscriptionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<TranscriptionResult> {
+    const { segments } = split;
+    const totalBytes = segments.reduce((sum, segment) => sum + segment.size, 0);
+    const uploaded: number[] = segments.map(() => 0); // fraction of each segment sent
+    const results: Array<TranscriptionResult | undefined> = [];
+    let segmentsCompleted = 0;
+
+    const reportProgress = () => {
+      // Uploads count for 80% of a segment, like a single file
+      const done = segments.reduce((sum, _, i) => sum + (results[i] ? 1 : uploaded[i] * 0.8), 0);
+      onProgress?.({
+        phase: 'uploading',
+        progress: Math.round((done / segments.length) * 90),
+        bytesUploaded: Math.round(segments.reduce((sum, segment, i) => sum + segment.size * uploaded[i], 0)),
+        totalBytes,
+        segmentsCompleted,
+        totalSegments: segments.length,
+      });
+    };
+
+    // One failed segment fails the transcription, so stop the others too
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    // An abort that already happened never fires the event
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', abort);
+
+    const transcribeRun = async (first: number, last: number) => {
+      for (let i = first; i < last; i++) {
+        const segment = segments[i];
+        const response = await this.requestTranscription(
+          segment.uri,
+          {
+            ...requestOptions,
+            // Segment timestamps are needed to stitch the overlaps
+            response_format: 'verbose_json',
+            prompt: buildSegmentPrompt(requestOptions.prompt, i > first ? results[i - 1]?.text : undefined),
+          },
+          controller.signal,
+          (loaded, total) => {
+            uploaded[i] = loaded / total;
+            reportProgress();
+          }
+        );
+
+        const result = this.parseTranscriptionResponse(response, startTime);
+        UsageLedgerService.recordTranscription(result.duration ?? segment.end - segment.start);
+        results[i] = result;
+        uploaded[i] = 1;
+        segmentsCompleted++;
+        reportProgress();
+      }
+    };
+
+    const runCount = Math.max(1, Math.min(this.config.maxConcurrentSegments, segments.length));
+    const runSize = Math.ceil(segments.length / runCount);
+
+    try {
+      reportProgress();
+      await Promise.all(
+        Array.from({ length: runCount }, (_, run) =>
+          transcribeRun(run * runSize, Math.min(segments.length, (run + 1) * runSize)).catch((error) => {
+            controller.abort();
+            throw error;
+          })
+        )
+      );
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      await deleteAudioSegments(segments);
+    }
+
+    onProgress?.({
+      phase: 'processing',
+      progress: 95,
+      segmentsCompleted,
+      totalSegments: segments.length,
+    });
+
+    const result = stitchSegmentTranscripts(
+      segments.map((segment, i) => ({ segment, result: results[i]! })),
+      split.duration
+    );
+    result.processing_time = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Transcribe an audio file using OpenAI Whisper API. Recordings larger than
+   * `segmentSize` are split into overlapping segments and stitched back together.
    */
   public async transcribeAudio(
     fileUri: string,
@@ -367,6 +643,7 @@ export class WhisperService {
   ): Promise<TranscriptionResult> {
     const startTime = Date.now();
     const { onProgress, signal, ...requestOptions } = options;
+    await UsageLedgerService.assertWithinBudget();
 
     try {
       // Phase 1: Validation
@@ -387,43 +664,43 @@ export class WhisperService {
         };
       }
 
+      const fileSize = (validation.fileInfo as any)?.size || 0;
+      const split = fileSize > this.config.segmentSize && isSplittableFormat(fileUri)
+        ? await this.splitRecording(fileUri, fileSize)
+        : null;
+
       onProgress?.({
         phase: 'validating',
         progress: 100,
       });
 
+      if (split) {
+        const result = await this.transcribeSegments(split, requestOptions, startTime, onProgress, signal);
+        onProgress?.({
+          phase: 'completed',
+          progress: 100,
+          segmentsCompleted: split.segments.length,
+          totalSegments: split.segments.length,
+        });
+        return result;
+      }
+
       // Phase 2: Prepare upload
       onProgress?.({
         phase: 'uploading',
         progress: 0,
-        totalBytes: validation.fileInfo?.size,
+        totalBytes: fileSize,
       });
 
-      const formData = this.createFormData(fileUri, requestOptions);
-
       // Phase 3: Upload and process
-      const uploadOperation = async () => {
-        return await this.axios.post<OpenAIWhisperResponse>('/audio/transcriptions', formData, {
-          headers: {
-            'Content-Type': 'multipart/form-data',
-          },
-          signal,
-          onUploadProgress: (progressEvent: AxiosProgressEvent) => {
-            if (progressEvent.total) {
-              const uploadProgress = Math.round((progressEvent.loaded / progressEvent.total) * 80); // 80% for upload
-              onProgress?.({
-                phase: 'uploading',
-                progress: uploadProgress,
-                bytesUploaded: progressEvent.loaded,
-                totalBytes: progressEvent.total,
-              });
-            }
-          },
+      const response = await this.requestTranscription(fileUri, requestOptions, signal, (loaded, total) => {
+        onProgress?.({
+          phase: 'uploading',
+          progress: Math.round((loaded / total) * 80), // 80% for upload
+          bytesUploaded: loaded,
+          totalBytes: total,
         });
-      };
-
-      // Execute with retry logic
-      const response = await this.retryWithBackoff(uploadOperation, 0, onProgress);
+      }, onProgress);
 
       // Phase 4: Processing complete
       onProgress?.({
@@ -431,7 +708,8 @@ export class WhisperService {
         progress: 90,
       });
 
-      const result = this.parseTranscriptionResponse(response.data, startTime);
+      const result = this.parseTranscriptionResponse(response, startTime);
+      UsageLedgerService.recordTranscription(result.duration ?? estimateAudioDuration(fileSize));
 
       onProgress?.({
         phase: 'completed',
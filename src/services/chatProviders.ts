@@ -0,0 +1,154 @@
+import { Message, ModelType, ToolDefinition } from '@/types';
+import { getOpenAIService } from './OpenAIService';
+import { GeminiService } from './GeminiService';
+import { AnthropicService } from './AnthropicService';
+
+export type StreamDeltaHandler = (delta: string, content: string) => void;
+
+export interface ChatProviderCapabilities {
+  streaming: boolean;
+  vision: boolean;
+  tools: boolean;
+  webGrounding: boolean;
+}
+
+export interface ChatProviderTokenLimits {
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+export interface ChatRequestOptions {
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // Offered for native function calling; only honoured when capabilities.tools is set.
+  // Requested calls come back on the returned message's toolCalls.
+  tools?: ToolDefinition[];
+  // Conversation the request belongs to, for the usage ledger
+  conversationId?: string;
+}
+
+/**
+ * Common contract for every chat backend. Providers are stateless: callers pass
+ * the full conversation and get back the assistant message.
+ */
+export interface ChatProvider {
+  readonly model: ModelType;
+  readonly capabilities: ChatProviderCapabilities;
+  readonly tokenLimits: ChatProviderTokenLimits;
+  sendChat(messages: Message[], options?: ChatRequestOptions): Promise<Message>;
+  streamChat(
+    messages: Message[],
+    onDelta: StreamDeltaHandler,
+    options?: ChatRequestOptions
+  ): Promise<Message>;
+}
+
+// Display metadata, available without instantiating the provider (no API key needed)
+export interface ChatProviderInfo {
+  name: string;
+  shortName: string;
+  description: string;
+  color: string;
+}
+
+interface ChatProviderRegistration {
+  model: ModelType;
+  info: ChatProviderInfo;
+  create: () => ChatProvider;
+}
+
+// Used when a requested model is no longer registered, e.g. its custom endpoint was removed
+export const DEFAULT_CHAT_MODEL: ModelType = 'gpt-4o';
+
+const registrations = new Map<ModelType, ChatProviderRegistration>();
+const instances = new Map<ModelType, ChatProvider>();
+
+export function registerChatProvider(
+  model: ModelType,
+  info: ChatProviderInfo,
+  create: () => ChatProvider
+): void {
+  registrations.set(model, { model, info, create });
+  instances.delete(model);
+}
+
+export function unregisterChatProvider(model: ModelType): void {
+  registrations.delete(model);
+  instances.delete(model);
+}
+
+export function getChatProvider(model: ModelType): ChatProvider {
+  const cached = instances.get(model);
+  if (cached) {
+    return cached;
+  }
+
+  const registration = registrations.get(model);
+  if (!registration) {
+    if (model !== DEFAULT_CHAT_MODEL && registrations.has(DEFAULT_CHAT_MODEL)) {
+      console.warn(`No chat provider registered for model "${model}", using ${DEFAULT_CHAT_MODEL}`);
+      return getChatProvider(DEFAULT_CHAT_MODEL);
+    }
+    throw new Error(`No chat provider registered for model "${model}"`);
+  }
+
+  const provider = registration.create();
+  instances.set(model, provider);
+  return provider;
+}
+
+export function getChatProviderInfo(model: ModelType): ChatProviderInfo | undefined {
+  return registrations.get(model)?.info;
+}
+
+export function getRegisteredModels(): Array<{ model: ModelType; info: ChatProviderInfo }> {
+  return Array.from(registrations.values()).map(({ model, info }) => ({ model, info }));
+}
+
+// Built-in providers
+registerChatProvider(
+  'gpt-4o',
+  {
+    name: 'GPT-4o',
+    shortName: '4o',
+    description: 'OpenAI\'s most capable model',
+    color: '#10A37F',
+  },
+  () => getOpenAIService()
+);
+
+registerChatProvider(
+  'gemini-2.5-flash',
+  {
+    name: 'Gemini 2.5 Flash',
+    shortName: 'Gemini',
+    description: 'Google\'s fastest multimodal model',
+    color: '#4285F4',
+  },
+  () => {
+    const geminiApiKey = process.env.EXPO_PUBLIC_GOOGLE_GEMINI_API_KEY;
+    if (!geminiApiKey) {
+      throw new Error('Gemini API key not found. Please set EXPO_PUBLIC_GOOGLE_GEMINI_API_KEY in your environment variables.');
+    }
+    return new GeminiService(geminiApiKey);
+  }
+);
+
+registerChatProvider(
+  'claude-sonnet-4-5',
+  {
+    name: 'Claude Sonnet 4.5',
+    shortName: 'Claude',
+    description: 'Anthropic\'s balanced model for reasoning and writing',
+    color: '#D97757',
+  },
+  () => {
+    const anthropicApiKey = process.env.EXPO_PUBLIC_ANTHROPIC_API_KEY;
+    if (!anthropicApiKey) {
+      throw new Error('Anthropic API key not found. Please set EXPO_PUBLIC_ANTHROPIC_API_KEY in your environment variables.');
+    }
+    return new AnthropicService(anthropicApiKey);
+  }
+);
@@ -0,0 +1,956 @@
+import * as SQLite from 'expo-sqlite';
+import {
+  Conversation,
+  ConversationSearchFilters,
+  ConversationSettings,
+  ConversationStatistics,
+  Message,
+  ModelType,
+  UsageKind,
+  UsageRecord,
+} from '@/types';
+import { buildMatchQuery, tokenizeForIndex } from '@/utils/textSearch';
+import { blobToVector, vectorToBlob } from '@/utils/vectors';
+
+const DATABASE_NAME = 'conversations.db';
+
+// Bump when the schema changes and add the upgrade step to runMigrations
+const SCHEMA_VERSION = 7;
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+  last_activity: number;
+  is_archived: number;
+  is_starred: number;
+  total_tokens: number | null;
+  message_count: number;
+  tags: string;
+  summary: string | null;
+  summarized_through_id: string | null;
+  statistics: string | null;
+  persona_id: string | null;
+  settings: string | null;
+  last_message_preview?: string | null;
+}
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  parent_id: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  position: number;
+  is_active: number;
+  audio_url: string | null;
+  image_url: string | null;
+  image_base64: string | null;
+  token_count: number | null;
+  metadata: string | null;
+}
+
+// A stored message as compared against the next save; the image is fingerprinted, not read
+interface ExistingMessageRow extends Omit<MessageRow, 'conversation_id' | 'image_base64'> {
+  rowid: number;
+  image_length: number | null;
+  image_prefix: string | null;
+}
+
+interface UsageRow {
+  id: string;
+  timestamp: number;
+  kind: UsageKind;
+  model: string;
+  conversation_id: string | null;
+  conversation_title: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  audio_seconds: number | null;
+  characters: number | null;
+  cost: number;
+}
+
+export interface EmbeddingCandidate {
+  messageId: string;
+  content: string;
+  // Hash and embedder of the stored embedding, if there is one
+  contentHash: string | null;
+  embedderId: string | null;
+}
+
+export interface StoredEmbedding {
+  messageId: string;
+  conversationId: string;
+  vector: Float32Array;
+}
+
+export interface MessageSummary {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+}
+
+// Usage record with the title of its conversation, when that still exists
+export interface UsageLedgerEntry extends UsageRecord {
+  conversationTitle?: string;
+}
+
+export interface MessageSearchHit extends MessageSummary {
+  rank: number;
+}
+
+export interface ConversationStorageTotals {
+  conversationCount: number;
+  totalMessages: number;
+  totalSize: number;
+  audioFileCount: number;
+  oldestConversation?: Date;
+  newestConversation?: Date;
+}
+
+// Column used for each ConversationSearchFilters.sortBy value
+const SORT_COLUMNS: Record<NonNullable<ConversationSearchFilters['sortBy']>, string> = {
+  createdAt: 'c.created_at',
+  updatedAt: 'c.updated_at',
+  lastActivity: 'c.last_activity',
+  messageCount: 'c.message_count',
+  title: 'c.title COLLATE NOCASE',
+};
+
+// Preview length stored on list results, which do not load messages
+const PREVIEW_LENGTH = 200;
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const parseJson = <T>(value: string | null, fallback: T): T => {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * SQLite persistence for conversations. Conversations and messages live in
+ * separate tables so lists, filters and pagination run as indexed queries
+ * without reading message bodies (or image payloads).
+ */
+export class ConversationRepository {
+  private static databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  static getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = this.openDatabase().catch(error => {
+        this.databasePromise = null;
+        throw error;
+      });
+    }
+    return this.databasePromise;
+  }
+
+  private static async openDatabase(): Promise<SQLite.SQLiteDatabase> {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    await db.execAsync('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+    await this.runMigrations(db);
+    return db;
+  }
+
+  private static async runMigrations(db: SQLite.SQLiteDatabase): Promise<void> {
+    const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const currentVersion = result?.user_version ?? 0;
+
+    if (currentVersion >= SCHEMA_VERSION) {
+      return;
+    }
+
+    // Each step commits together with its version bump, so a failed step is retried in full
+    const migrate = async (version: number, step: (txn: SQLite.SQLiteDatabase) => Promise<void>) => {
+      if (currentVersion >= version) return;
+      await db.withExclusiveTransactionAsync(async txn => {
+        await step(txn);
+        await txn.execAsync(`PRAGMA user_version = ${version}`);
+      });
+    };
+
+    await migrate(1, async txn => {
+      await txn.execAsync(`
+        CREATE TABLE IF NOT EXISTS conversations (
+          id TEXT PRIMARY KEY NOT NULL,
+          title TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          last_activity INTEGER NOT NULL,
+          is_archived INTEGER NOT NULL DEFAULT 0,
+          is_starred INTEGER NOT NULL DEFAULT 0,
+          total_tokens INTEGER,
+          message_count INTEGER NOT NULL DEFAULT 0,
+          tags TEXT NOT NULL DEFAULT '[]',
+          summary TEXT,
+          statistics TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_conversations_last_activity ON conversations (last_activity);
+        CREATE INDEX IF NOT EXISTS idx_conversations_updated_at ON conversations (updated_at);
+        CREATE INDEX IF NOT EXISTS idx_conversations_created_at ON conversations (created_at);
+        CREATE INDEX IF NOT EXISTS idx_conversations_flags ON conversations (is_archived, is_starred);
+
+        CREATE TABLE IF NOT EXISTS messages (
+          id TEXT PRIMARY KEY NOT NULL,
+          conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+          parent_id TEXT,
+          role TEXT NOT NULL,
+          content TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          is_active INTEGER NOT NULL DEFAULT 1,
+          audio_url TEXT,
+          image_url TEXT,
+          image_base64 TEXT,
+          token_count INTEGER,
+          metadata TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages (conversation_id, is_active, position);
+      `);
+    });
+
+    await migrate(2, async txn => {
+      // Full-text index over active messages, keyed by the message rowid
+      await txn.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+          content,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+      `);
+
+      const rows = await txn.getAllAsync<{ rowid: number; content: string }>(
+        'SELECT rowid, content FROM messages WHERE is_active = 1'
+      );
+      for (const row of rows) {
+        await txn.runAsync(
+          'INSERT INTO messages_fts (rowid, content) VALUES (?, ?)',
+          [row.rowid, tokenizeForIndex(row.content)]
+        );
+      }
+    });
+
+    await migrate(3, async txn => {
+      // Message embeddings live next to their conversation and are dropped with it
+      await txn.execAsync(`
+        CREATE TABLE IF NOT EXISTS message_embeddings (
+          message_id TEXT PRIMARY KEY NOT NULL,
+          conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+          embedder_id TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          vector BLOB NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_message_embeddings_conversation ON message_embeddings (conversation_id);
+      `);
+    });
+
+    await migrate(4, async txn => {
+      await txn.execAsync('ALTER TABLE conversations ADD COLUMN persona_id TEXT');
+    });
+
+    await migrate(5, async txn => {
+      // Per-conversation model and parameter overrides as JSON
+      await txn.execAsync('ALTER TABLE conversations ADD COLUMN settings TEXT');
+    });
+
+    await migrate(6, async txn => {
+      await txn.execAsync('ALTER TABLE conversations ADD COLUMN summarized_through_id TEXT');
+    });
+
+    await migrate(7, async txn => {
+      // Usage ledger; rows outlive their conversation since the spend already happened
+      await txn.execAsync(`
+        CREATE TABLE IF NOT EXISTS usage_records (
+          id TEXT PRIMARY KEY NOT NULL,
+          timestamp INTEGER NOT NULL,
+          kind TEXT NOT NULL,
+          model TEXT NOT NULL,
+          conversation_id TEXT,
+          prompt_tokens INTEGER,
+          completion_tokens INTEGER,
+          audio_seconds REAL,
+          characters INTEGER,
+          cost REAL NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_usage_records_timestamp ON usage_records (timestamp);
+      `);
+    });
+
+    console.log(`🗄️ Conversation database migrated to schema v${SCHEMA_VERSION}`);
+  }
+
+  // Insert or update a conversation and write the messages that changed since the last save
+  static async saveConversation(conversation: Conversation): Promise<void> {
+    const db = await this.getDatabase();
+
+    await db.withExclusiveTransactionAsync(async txn => {
+      await txn.runAsync(
+        `INSERT INTO conversations (
+          id, title, created_at, updated_at, last_activity, is_archived, is_starred,
+          total_tokens, message_count, tags, summary, summarized_through_id, statistics, persona_id, settings
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          title = excluded.title,
+          created_at = excluded.created_at,
+          updated_at = excluded.updated_at,
+          last_activity = excluded.last_activity,
+          is_archived = excluded.is_archived,
+          is_starred = excluded.is_starred,
+          total_tokens = excluded.total_tokens,
+          message_count = excluded.message_count,
+          tags = excluded.tags,
+          summary = excluded.summary,
+          summarized_through_id = excluded.summarized_through_id,
+          statistics = excluded.statistics,
+          persona_id = excluded.persona_id,
+          settings = excluded.settings`,
+        [
+          conversation.id,
+          conversation.title,
+          conversation.createdAt.getTime(),
+          conversation.updatedAt.getTime(),
+          conversation.lastActivity.getTime(),
+          conversation.isArchived ? 1 : 0,
+          conversation.isStarred ? 1 : 0,
+          conversation.totalTokens ?? null,
+          conversation.messages.length,
+          JSON.stringify(conversation.tags || []),
+          conversation.summary ?? null,
+          conversation.summarizedThroughId ?? null,
+          conversation.statistics ? JSON.stringify(conversation.statistics) : null,
+          conversation.personaId ?? null,
+          conversation.settings ? JSON.stringify(conversation.settings) : null,
+        ]
+      );
+
+      // Only write messages that changed: a streamed reply saves the conversation many times,
+      // and rewriting every message (and its image) each time grows with the conversation
+      const existingRows = await txn.getAllAsync<ExistingMessageRow>(
+        `SELECT rowid, id, parent_id, role, content, timestamp, position, is_active, audio_url, image_url,
+          length(image_base64) AS image_length, substr(image_base64, 1, 64) AS image_prefix, token_count, metadata
+        FROM messages WHERE conversation_id = ?`,
+        [conversation.id]
+      );
+      const existing = new Map(existingRows.map(row => [row.id, row]));
+
+      const insert = await txn.prepareAsync(
+        `INSERT OR REPLACE INTO messages (
+          id, conversation_id, parent_id, role, content, timestamp, position, is_active,
+          audio_url, image_url, image_base64, token_count, metadata
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      const update = await txn.prepareAsync(
+        `UPDATE messages SET parent_id = ?, role = ?, content = ?, timestamp = ?, position = ?, is_active = ?,
+          audio_url = ?, image_url = ?, token_count = ?, metadata = ?
+        WHERE rowid = ?`
+      );
+      const updateImage = await txn.prepareAsync('UPDATE messages SET image_base64 = ? WHERE rowid = ?');
+      const index = await txn.prepareAsync('INSERT INTO messages_fts (rowid, content) VALUES (?, ?)');
+      const unindex = await txn.prepareAsync('DELETE FROM messages_fts WHERE rowid = ?');
+      // Messages removed or moved off the active branch, whose embeddings must go
+      let deactivated = false;
+
+      try {
+        const rows: Array<[Message, number, boolean]> = [
+          ...conversation.messages.map((msg, index): [Message, number, boolean] => [msg, index, true]),
+          ...(conversation.branchMessages || []).map((msg, index): [Message, number, boolean] => [msg, index, false]),
+        ];
+
+        for (const [msg, position, isActive] of rows) {
+          const values = {
+            parentId: msg.parentId ?? null,
+            timestamp: msg.timestamp.getTime(),
+            audioUrl: msg.audioUrl ?? null,
+            imageUrl: msg.imageUrl ?? null,
+            tokenCount: msg.tokenCount ?? null,
+            metadata: msg.metadata ? JSON.stringify(msg.metadata) : null,
+          };
+          const row = existing.get(msg.id);
+          existing.delete(msg.id);
+
+          if (!row) {
+            const result = await insert.executeAsync([
+              msg.id,
+              conversation.id,
+              values.parentId,
+              msg.role,
+              msg.content,
+              values.timestamp,
+              position,
+              isActive ? 1 : 0,
+              values.audioUrl,
+              values.imageUrl,
+              msg.imageBase64 ?? null,
+              values.tokenCount,
+              values.metadata,
+            ]);
+
+            // Only the active branch is searchable
+            if (isActive) {
+              await index.executeAsync([result.lastInsertRowId, tokenizeForIndex(msg.content)]);
+            }
+            continue;
+          }
+
+          const wasActive = row.is_active === 1;
+          const changed =
+            row.parent_id !== values.parentId ||
+            row.role !== msg.role ||
+            row.content !== msg.content ||
+            row.timestamp !== values.timestamp ||
+            row.position !== position ||
+            wasActive !== isActive ||
+            row.audio_url !== values.audioUrl ||
+            row.image_url !== values.imageUrl ||
+            row.token_count !== values.tokenCount ||
+            row.metadata !== values.metadata;
+
+          if (changed) {
+            await update.executeAsync([
+              values.parentId,
+              msg.role,
+              msg.content,
+              values.timestamp,
+              position,
+              isActive ? 1 : 0,
+              values.audioUrl,
+              values.imageUrl,
+              values.tokenCount,
+              values.metadata,
+              row.rowid,
+            ]);
+          }
+
+          const image = msg.imageBase64 ?? null;
+          if ((row.image_length ?? null) !== (image?.length ?? null) || (row.image_prefix ?? null) !== (image?.slice(0, 64) ?? null)) {
+            await updateImage.executeAsync([image, row.rowid]);
+          }
+
+          if (wasActive && (!isActive || row.content !== msg.content)) {
+            await unindex.executeAsync([row.rowid]);
+          }
+          if (isActive && (!wasActive || row.content !== msg.content)) {
+            await index.executeAsync([row.rowid, tokenizeForIndex(msg.content)]);
+          }
+          if (wasActive && !isActive) {
+            deactivated = true;
+          }
+        }
+
+        // Whatever is left was removed from the conversation
+        for (const row of existing.values()) {
+          if (row.is_active === 1) {
+            await unindex.executeAsync([row.rowid]);
+            deactivated = true;
+          }
+          await txn.runAsync('DELETE FROM messages WHERE rowid = ?', [row.rowid]);
+        }
+      } finally {
+        await insert.finalizeAsync();
+        await update.finalizeAsync();
+        await updateImage.finalizeAsync();
+        await index.finalizeAsync();
+        await unindex.finalizeAsync();
+      }
+
+      // Embeddings of messages that left the active branch are no longer searchable
+      if (deactivated) {
+        await txn.runAsync(
+          `DELETE FROM message_embeddings WHERE conversation_id = ? AND message_id NOT IN (
+            SELECT id FROM messages WHERE conversation_id = ? AND is_active = 1
+          )`,
+          [conversation.id, conversation.id]
+        );
+      }
+    });
+  }
+
+  // Load one conversation with all of its messages
+  static async loadConversation(conversationId: string): Promise<Conversation | null> {
+    const db = await this.getDatabase();
+
+    const row = await db.getFirstAsync<ConversationRow>(
+      'SELECT * FROM conversations WHERE id = ?',
+      [conversationId]
+    );
+    if (!row) {
+      return null;
+    }
+
+    const messageRows = await db.getAllAsync<MessageRow>(
+      'SELECT * FROM messages WHERE conversation_id = ? ORDER BY is_active DESC, position ASC',
+      [conversationId]
+    );
+
+    const messages = messageRows.map(messageRow => this.toMessage(messageRow));
+
+    return {
+      ...this.toConversation(row),
+      messages: messages.filter((_, index) => messageRows[index].is_active === 1),
+      branchMessages: messages.filter((_, index) => messageRows[index].is_active === 0),
+    };
+  }
+
+  /**
+   * Filter, sort and page conversations in SQL. Results carry `messageCount`
+   * and `lastMessagePreview` instead of messages; load a conversation to get those.
+   */
+  static async queryConversations(
+    filters: ConversationSearchFilters = {},
+    // Restrict results to these conversations (e.g. semantic matches)
+    conversationIds?: string[]
+  ): Promise<Conversation[]> {
+    const db = await this.getDatabase();
+    const where: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (conversationIds) {
+      if (conversationIds.length === 0) {
+        return [];
+      }
+      where.push(`c.id IN (${conversationIds.map(() => '?').join(', ')})`);
+      params.push(...conversationIds);
+    }
+
+    if (filters.query) {
+      const pattern = `%${escapeLike(filters.query)}%`;
+      const matchQuery = buildMatchQuery(filters.query);
+      const conditions = [
+        `c.title LIKE ? ESCAPE '\\'`,
+        `EXISTS (SELECT 1 FROM json_each(c.tags) t WHERE t.value LIKE ? ESCAPE '\\')`,
+      ];
+      params.push(pattern, pattern);
+
+      if (matchQuery) {
+        conditions.push(`c.id IN (
+          SELECT m.conversation_id FROM messages_fts
+          JOIN messages m ON m.rowid = messages_fts.rowid
+          WHERE messages_fts MATCH ?
+        )`);
+        params.push(matchQuery);
+      }
+
+      where.push(`(${conditions.join(' OR ')})`);
+    }
+
+    if (filters.isArchived !== undefined) {
+      where.push('c.is_archived = ?');
+      params.push(filters.isArchived ? 1 : 0);
+    }
+
+    if (filters.isStarred !== undefined) {
+      where.push('c.is_starred = ?');
+      params.push(filters.isStarred ? 1 : 0);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      where.push(`EXISTS (
+        SELECT 1 FROM json_each(c.tags) t WHERE t.value IN (${filters.tags.map(() => '?').join(', ')})
+      )`);
+      params.push(...filters.tags);
+    }
+
+    if (filters.dateRange) {
+      where.push('c.created_at BETWEEN ? AND ?');
+      params.push(filters.dateRange.start.getTime(), filters.dateRange.end.getTime());
+    }
+
+    if (filters.messageCountRange) {
+      where.push('c.message_count BETWEEN ? AND ?');
+      params.push(filters.messageCountRange.min, filters.messageCountRange.max);
+    }
+
+    const sortColumn = SORT_COLUMNS[filters.sortBy || 'lastActivity'] || SORT_COLUMNS.lastActivity;
+    const sortOrder = filters.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    let sql = `
+      SELECT c.*, (
+        SELECT substr(m.content, 1, ${PREVIEW_LENGTH}) FROM messages m
+        WHERE m.conversation_id = c.id AND m.is_active = 1
+        ORDER BY m.position DESC LIMIT 1
+      ) AS last_message_preview
+      FROM conversations c
+      ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+      ORDER BY ${sortColumn} ${sortOrder}
+    `;
+
+    if (filters.limit || filters.offset) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(filters.limit ?? -1, filters.offset ?? 0);
+    }
+
+    const rows = await db.getAllAsync<ConversationRow>(sql, params);
+    return rows.map(row => ({
+      ...this.toConversation(row),
+      lastMessagePreview: row.last_message_preview ?? undefined,
+    }));
+  }
+
+  // Ranked full-text matches over the active messages of every conversation
+  static async searchMessages(query: string, limit = 50): Promise<MessageSearchHit[]> {
+    const matchQuery = buildMatchQuery(query);
+    if (!matchQuery) {
+      return [];
+    }
+
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{
+      id: string;
+      conversation_id: string;
+      title: string;
+      role: 'user' | 'assistant';
+      content: string;
+      timestamp: number;
+      rank: number;
+    }>(
+      `SELECT m.id, m.conversation_id, c.title, m.role, m.content, m.timestamp, bm25(messages_fts) AS rank
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.rowid
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE messages_fts MATCH ?
+      ORDER BY rank
+      LIMIT ?`,
+      [matchQuery, limit]
+    );
+
+    return rows.map(row => ({
+      messageId: row.id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.title,
+      role: row.role,
+      content: row.content,
+      timestamp: new Date(row.timestamp),
+      rank: row.rank,
+    }));
+  }
+
+  // Active messages of a conversation with the state of their stored embeddings
+  static async getEmbeddingCandidates(conversationId: string): Promise<EmbeddingCandidate[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{
+      id: string;
+      content: string;
+      content_hash: string | null;
+      embedder_id: string | null;
+    }>(
+      `SELECT m.id, m.content, e.content_hash, e.embedder_id
+      FROM messages m
+      LEFT JOIN message_embeddings e ON e.message_id = m.id
+      WHERE m.conversation_id = ? AND m.is_active = 1
+      ORDER BY m.position`,
+      [conversationId]
+    );
+
+    return rows.map(row => ({
+      messageId: row.id,
+      content: row.content,
+      contentHash: row.content_hash,
+      embedderId: row.embedder_id,
+    }));
+  }
+
+  static async saveEmbeddings(
+    conversationId: string,
+    embedderId: string,
+    embeddings: Array<{ messageId: string; contentHash: string; vector: Float32Array }>
+  ): Promise<void> {
+    const db = await this.getDatabase();
+
+    await db.withExclusiveTransactionAsync(async txn => {
+      for (const embedding of embeddings) {
+        await txn.runAsync(
+          `INSERT OR REPLACE INTO message_embeddings (message_id, conversation_id, embedder_id, content_hash, vector)
+          VALUES (?, ?, ?, ?, ?)`,
+          [embedding.messageId, conversationId, embedderId, embedding.contentHash, vectorToBlob(embedding.vector)]
+        );
+      }
+    });
+  }
+
+  // Stored embeddings of active messages produced by `embedderId`
+  static async getEmbeddings(embedderId: string): Promise<StoredEmbedding[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{ message_id: string; conversation_id: string; vector: Uint8Array }>(
+      `SELECT e.message_id, e.conversation_id, e.vector
+      FROM message_embeddings e
+      JOIN messages m ON m.id = e.message_id AND m.is_active = 1
+      WHERE e.embedder_id = ?`,
+      [embedderId]
+    );
+
+    return rows.map(row => ({
+      messageId: row.message_id,
+      conversationId: row.conversation_id,
+      vector: blobToVector(row.vector),
+    }));
+  }
+
+  static async getMessageSummaries(messageIds: string[]): Promise<MessageSummary[]> {
+    if (messageIds.length === 0) {
+      return [];
+    }
+
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{
+      id: string;
+      conversation_id: string;
+      title: string;
+      role: 'user' | 'assistant';
+      content: string;
+      timestamp: number;
+    }>(
+      `SELECT m.id, m.conversation_id, c.title, m.role, m.content, m.timestamp
+      FROM messages m
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE m.id IN (${messageIds.map(() => '?').join(', ')})`,
+      messageIds
+    );
+
+    return rows.map(row => ({
+      messageId: row.id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.title,
+      role: row.role,
+      content: row.content,
+      timestamp: new Date(row.timestamp),
+    }));
+  }
+
+  // Update conversation fields without touching its messages
+  static async updateConversationFields(
+    conversationId: string,
+    updates: Partial<Omit<Conversation, 'id' | 'messages' | 'branchMessages'>>
+  ): Promise<boolean> {
+    const db = await this.getDatabase();
+    const assignments: string[] = [];
+    const params: Array<string | number | null> = [];
+
+    const set = (column: string, value: string | number | null) => {
+      assignments.push(`${column} = ?`);
+      params.push(value);
+    };
+
+    if (updates.title !== undefined) set('title', updates.title);
+    if (updates.isArchived !== undefined) set('is_archived', updates.isArchived ? 1 : 0);
+    if (updates.isStarred !== undefined) set('is_starred', updates.isStarred ? 1 : 0);
+    if (updates.tags !== undefined) set('tags', JSON.stringify(updates.tags));
+    if (updates.summary !== undefined) set('summary', updates.summary ?? null);
+    if (updates.summarizedThroughId !== undefined) set('summarized_through_id', updates.summarizedThroughId ?? null);
+    if (updates.totalTokens !== undefined) set('total_tokens', updates.totalTokens ?? null);
+    if (updates.personaId !== undefined) set('persona_id', updates.personaId ?? null);
+    if (updates.settings !== undefined) set('settings', updates.settings ? JSON.stringify(updates.settings) : null);
+    set('updated_at', (updates.updatedAt ?? new Date()).getTime());
+    set('last_activity', (updates.lastActivity ?? new Date()).getTime());
+
+    const result = await db.runAsync(
+      `UPDATE conversations SET ${assignments.join(', ')} WHERE id = ?`,
+      [...params, conversationId]
+    );
+    return result.changes > 0;
+  }
+
+  // Drop per-conversation model overrides that `keep` rejects; returns how many were cleared
+  static async clearConversationModels(keep: (model: ModelType) => boolean): Promise<number> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{ id: string; settings: string | null }>(
+      `SELECT id, settings FROM conversations WHERE settings LIKE '%"model"%'`
+    );
+
+    let cleared = 0;
+    await db.withExclusiveTransactionAsync(async txn => {
+      for (const row of rows) {
+        const settings = parseJson<ConversationSettings | undefined>(row.settings, undefined);
+        if (!settings?.model || keep(settings.model)) continue;
+
+        const { model: _, ...rest } = settings;
+        await txn.runAsync('UPDATE conversations SET settings = ? WHERE id = ?', [
+          Object.keys(rest).length > 0 ? JSON.stringify(rest) : null,
+          row.id,
+        ]);
+        cleared++;
+      }
+    });
+    return cleared;
+  }
+
+  static async deleteConversation(conversationId: string): Promise<void> {
+    const db = await this.getDatabase();
+    await db.withExclusiveTransactionAsync(async txn => {
+      // The index is not covered by the cascade
+      await txn.runAsync(
+        'DELETE FROM messages_fts WHERE rowid IN (SELECT rowid FROM messages WHERE conversation_id = ?)',
+        [conversationId]
+      );
+      await txn.runAsync('DELETE FROM conversations WHERE id = ?', [conversationId]);
+    });
+  }
+
+  static async deleteAllConversations(): Promise<void> {
+    const db = await this.getDatabase();
+    await db.execAsync('DELETE FROM messages_fts; DELETE FROM messages; DELETE FROM conversations;');
+  }
+
+  // Audio files referenced by a conversation (or every conversation), for cleanup
+  static async getAudioUrls(conversationId?: string): Promise<string[]> {
+    const db = await this.getDatabase();
+    const rows = conversationId
+      ? await db.getAllAsync<{ audio_url: string }>(
+          'SELECT audio_url FROM messages WHERE conversation_id = ? AND audio_url IS NOT NULL',
+          [conversationId]
+        )
+      : await db.getAllAsync<{ audio_url: string }>(
+          'SELECT audio_url FROM messages WHERE audio_url IS NOT NULL'
+        );
+    return rows.map(row => row.audio_url);
+  }
+
+  static async getConversationIds(): Promise<string[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<{ id: string }>(
+      'SELECT id FROM conversations ORDER BY last_activity DESC'
+    );
+    return rows.map(row => row.id);
+  }
+
+  static async addUsageRecord(record: UsageRecord): Promise<void> {
+    const db = await this.getDatabase();
+    await db.runAsync(
+      `INSERT INTO usage_records (
+        id, timestamp, kind, model, conversation_id, prompt_tokens, completion_tokens, audio_seconds, characters, cost
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.timestamp.getTime(),
+        record.kind,
+        record.model,
+        record.conversationId ?? null,
+        record.promptTokens ?? null,
+        record.completionTokens ?? null,
+        record.audioSeconds ?? null,
+        record.characters ?? null,
+        record.cost,
+      ]
+    );
+  }
+
+  // Usage records from `since` onwards, oldest first
+  static async getUsageRecords(since: Date): Promise<UsageLedgerEntry[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<UsageRow>(
+      `SELECT u.*, c.title AS conversation_title
+      FROM usage_records u
+      LEFT JOIN conversations c ON c.id = u.conversation_id
+      WHERE u.timestamp >= ?
+      ORDER BY u.timestamp ASC`,
+      [since.getTime()]
+    );
+    return rows.map(row => this.toUsageRecord(row));
+  }
+
+  // Total estimated cost from `since` onwards
+  static async getUsageCost(since: Date): Promise<number> {
+    const db = await this.getDatabase();
+    const row = await db.getFirstAsync<{ total: number | null }>(
+      'SELECT SUM(cost) AS total FROM usage_records WHERE timestamp >= ?',
+      [since.getTime()]
+    );
+    return row?.total ?? 0;
+  }
+
+  static async deleteUsageRecords(): Promise<void> {
+    const db = await this.getDatabase();
+    await db.runAsync('DELETE FROM usage_records');
+  }
+
+  static async getStorageTotals(): Promise<ConversationStorageTotals> {
+    const db = await this.getDatabase();
+
+    const conversationTotals = await db.getFirstAsync<{
+      conversation_count: number;
+      oldest: number | null;
+      newest: number | null;
+    }>('SELECT COUNT(*) AS conversation_count, MIN(created_at) AS oldest, MAX(created_at) AS newest FROM conversations');
+
+    const messageTotals = await db.getFirstAsync<{
+      total_messages: number;
+      total_size: number | null;
+      audio_file_count: number;
+    }>(`
+      SELECT
+        SUM(is_active) AS total_messages,
+        SUM(LENGTH(content) + IFNULL(LENGTH(image_base64), 0) + IFNULL(LENGTH(metadata), 0)) AS total_size,
+        COUNT(audio_url) AS audio_file_count
+      FROM messages
+    `);
+
+    return {
+      conversationCount: conversationTotals?.conversation_count ?? 0,
+      totalMessages: messageTotals?.total_messages ?? 0,
+      totalSize: messageTotals?.total_size ?? 0,
+      audioFileCount: messageTotals?.audio_file_count ?? 0,
+      oldestConversation: conversationTotals?.oldest ? new Date(conversationTotals.oldest) : undefined,
+      newestConversation: conversationTotals?.newest ? new Date(conversationTotals.newest) : undefined,
+    };
+  }
+
+  private static toConversation(row: ConversationRow): Conversation {
+    return {
+      id: row.id,
+      title: row.title,
+      messages: [],
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      lastActivity: new Date(row.last_activity),
+      isArchived: row.is_archived === 1,
+      isStarred: row.is_starred === 1,
+      totalTokens: row.total_tokens ?? undefined,
+      messageCount: row.message_count,
+      tags: parseJson<string[]>(row.tags, []),
+      summary: row.summary ?? undefined,
+      summarizedThroughId: row.summarized_through_id ?? undefined,
+      statistics: parseJson<ConversationStatistics | undefined>(row.statistics, undefined),
+      personaId: row.persona_id ?? undefined,
+      settings: parseJson<ConversationSettings | undefined>(row.settings, undefined),
+    };
+  }
+
+  private static toUsageRecord(row: UsageRow): UsageLedgerEntry {
+    return {
+      id: row.id,
+      timestamp: new Date(row.timestamp),
+      kind: row.kind,
+      model: row.model,
+      conversationId: row.conversation_id ?? undefined,
+      conversationTitle: row.conversation_title ?? undefined,
+      promptTokens: row.prompt_tokens ?? undefined,
+      completionTokens: row.completion_tokens ?? undefined,
+      audioSeconds: row.audio_seconds ?? undefined,
+      characters: row.characters ?? undefined,
+      cost: row.cost,
+    };
+  }
+
+  private static toMessage(row: MessageRow): Message {
+    return {
+      id: row.id,
+      content: row.content,
+      role: row.role,
+      timestamp: new Date(row.timestamp),
+      parentId: row.parent_id,
+      audioUrl: row.audio_url ?? undefined,
+      imageUrl: row.image_url ?? undefined,
+      imageBase64: row.image_base64 ?? undefined,
+      tokenCount: row.token_count ?? undefined,
+      metadata: parseJson<Message['metadata']>(row.metadata, undefined),
+    };
+  }
+}
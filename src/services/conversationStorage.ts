@@ -7,11 +7,20 @@ import {
   ConversationSearchFilters, 
   ConversationBackup,
   ConversationStatistics,
+  MessageSearchResult,
+  ModelType,
   VoiceType
 } from '@/types';
-
-// Storage keys
+import type { ChatProvider } from './chatProviders';
+import { linkMessagePath } from '@/utils/messageTree';
+import { buildSnippet, findMatchRanges, parseSearchTerms } from '@/utils/textSearch';
+import { ConversationRepository } from './conversationRepository';
+import { SemanticSearchService } from './semanticSearch';
+import { UsageLedgerService } from './usageLedger';
+
+// Storage keys (conversations themselves live in SQLite, see ConversationRepository)
 const STORAGE_KEYS = {
+  // Legacy JSON blobs, read once by the SQLite migration
   CONVERSATIONS: '@conversations',
   CONVERSATION_INDEX: '@conversation_index',
   LAST_CONVERSATION_ID: '@last_conversation_id',
@@ -20,9 +29,12 @@ const STORAGE_KEYS = {
 } as const;
 
 // Version for data migration
-const STORAGE_VERSION = '1.0.0';
+// 1.1.0: messages form a tree (parentId) with inactive branches in branchMessages
+const STORAGE_VERSION = '1.1.0';
 
 export class ConversationStorageService {
+  private static readyPromise: Promise<void> | null = null;
+
   // Convert between runtime and storage formats
   private static toStorageFormat(conversation: Conversation): StorageConversation {
     return {
@@ -30,7 +42,11 @@ export class ConversationStorageService {
       createdAt: conversation.createdAt.toISOString(),
       updatedAt: conversation.updatedAt.toISOString(),
       lastActivity: conversation.lastActivity.toISOString(),
-      messages: conversation.messages.map(msg => ({
+      messages: linkMessagePath(conversation.messages).map(msg => ({
+        ...msg,
+        timestamp: msg.timestamp.toISOString(),
+      })),
+      branchMessages: (conversation.branchMessages || []).map(msg => ({
         ...msg,
         timestamp: msg.timestamp.toISOString(),
       })),
@@ -43,7 +59,12 @@ export class ConversationStorageService {
       createdAt: new Date(storage.createdAt),
       updatedAt: new Date(storage.updatedAt),
       lastActivity: new Date(storage.lastActivity),
-      messages: storage.messages.map(msg => ({
+      // Conversations saved before branching are linear: link each message to the previous one
+      messages: linkMessagePath(storage.messages.map(msg => ({
+        ...msg,
+        timestamp: new Date(msg.timestamp),
+      }))),
+      branchMessages: (storage.branchMessages || []).map(msg => ({
         ...msg,
         timestamp: new Date(msg.timestamp),
       })),
@@ -108,47 +129,39 @@ export class ConversationStorageService {
     return stats;
   }
 
-  // Generate conversation title using OpenAI
-  static async generateTitle(messages: Message[], openaiApiKey: string): Promise<string> {
+  // Generate conversation title using the selected chat provider
+  static async generateTitle(messages: Message[], provider: ChatProvider): Promise<string> {
     if (messages.length === 0) {
-      return 'HatGPT 4o';
+      return 'New Conversation';
     }
 
     try {
+      await UsageLedgerService.assertWithinBudget({ notify: false });
+
       // Use first few messages to generate title
       const contextMessages = messages.slice(0, 3);
       const context = contextMessages.map(msg => 
         `${msg.role}: ${msg.content.substring(0, 200)}`
       ).join('\n');
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'system',
-              content: 'Generate a concise, descriptive title for this conversation based on the main topic. Maximum 50 characters. Return only the title without quotes, punctuation, or explanations. Examples: "React Native Performance", "JavaScript Questions", "Travel Planning", "Recipe Ideas".',
-            },
-            {
-              role: 'user',
-              content: `Please create a title for this conversation:\n\n${context}`,
-            },
-          ],
-          max_tokens: 30,
+      const response = await provider.sendChat(
+        [
+          {
+            id: `title_${Date.now()}`,
+            role: 'user',
+            content: `Please create a title for this conversation:\n\n${context}`,
+            timestamp: new Date(),
+          },
+        ],
+        {
+          systemPrompt: 'Generate a concise, descriptive title for this conversation based on the main topic. Maximum 50 characters. Return only the title without quotes, punctuation, or explanations. Examples: "React Native Performance", "JavaScript Questions", "Travel Planning", "Recipe Ideas".',
+          maxTokens: 30,
           temperature: 0.3,
-        }),
-      });
+        }
+      );
 
-      if (response.ok) {
-        const data = await response.json();
-        const title = data.choices[0]?.message?.content?.trim();
-        return title && title.length > 0 ? title.substring(0, 50) : 'New Conversation';
-      }
+      const title = response.content.trim();
+      return title.length > 0 ? title.substring(0, 50) : 'New Conversation';
     } catch (error) {
       console.warn('Failed to generate title:', error);
     }
@@ -187,25 +200,74 @@ export class ConversationStorageService {
     return 'New Conversation';
   }
 
+  // Move conversations saved as AsyncStorage JSON blobs into SQLite (runs once)
+  private static ensureReady(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.migrateFromAsyncStorage().catch(error => {
+        this.readyPromise = null;
+        throw error;
+      });
+    }
+    return this.readyPromise;
+  }
+
+  private static async migrateFromAsyncStorage(): Promise<void> {
+    const indexData = await AsyncStorage.getItem(STORAGE_KEYS.CONVERSATION_INDEX);
+    if (!indexData) {
+      return;
+    }
+
+    const index: string[] = JSON.parse(indexData);
+    const migratedKeys: string[] = [];
+    const failedIds: string[] = [];
+
+    for (const id of index) {
+      const key = `${STORAGE_KEYS.CONVERSATIONS}:${id}`;
+      const data = await AsyncStorage.getItem(key);
+      if (!data) continue;
+
+      try {
+        const conversation = this.fromStorageFormat(JSON.parse(data));
+        await ConversationRepository.saveConversation({
+          ...conversation,
+          statistics: conversation.statistics ?? this.calculateStatistics(conversation.messages),
+        });
+        migratedKeys.push(key);
+      } catch (error) {
+        console.warn(`Failed to migrate conversation ${key}:`, error);
+        failedIds.push(id);
+      }
+    }
+
+    // Only drop the blobs that were written; failed ones stay indexed and are retried on the next launch
+    await AsyncStorage.multiRemove(migratedKeys);
+    if (failedIds.length > 0) {
+      await AsyncStorage.setItem(STORAGE_KEYS.CONVERSATION_INDEX, JSON.stringify(failedIds));
+      console.warn(`🗄️ Migrated ${migratedKeys.length} conversations to SQLite, ${failedIds.length} left for retry`);
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEYS.CONVERSATION_INDEX);
+      console.log(`🗄️ Migrated ${migratedKeys.length} conversations to SQLite`);
+    }
+  }
+
   // Save conversation
   static async saveConversation(conversation: Conversation): Promise<void> {
     try {
-      const storageConversation = this.toStorageFormat(conversation);
-      
-      // Calculate and update statistics
-      storageConversation.statistics = this.calculateStatistics(conversation.messages);
-      storageConversation.messageCount = conversation.messages.length;
-      storageConversation.updatedAt = new Date().toISOString();
-      storageConversation.lastActivity = new Date().toISOString();
-
-      // Save individual conversation
-      await AsyncStorage.setItem(
-        `${STORAGE_KEYS.CONVERSATIONS}:${conversation.id}`,
-        JSON.stringify(storageConversation)
-      );
+      await this.ensureReady();
 
-      // Update conversation index
-      await this.updateConversationIndex(conversation.id);
+      await ConversationRepository.saveConversation({
+        ...conversation,
+        messages: linkMessagePath(conversation.messages),
+        // Calculate and update statistics
+        statistics: this.calculateStatistics(conversation.messages),
+        messageCount: conversation.messages.length,
+        updatedAt: new Date(),
+        lastActivity: new Date(),
+      });
+
+      // Keep semantic search embeddings in step with the messages
+      SemanticSearchService.invalidate();
+      SemanticSearchService.scheduleIndexing(conversation.id);
 
       // Update last conversation ID
       await AsyncStorage.setItem(STORAGE_KEYS.LAST_CONVERSATION_ID, conversation.id);
@@ -219,77 +281,65 @@ export class ConversationStorageService {
   // Load conversation by ID
   static async loadConversation(conversationId: string): Promise<Conversation | null> {
     try {
-      const data = await AsyncStorage.getItem(`${STORAGE_KEYS.CONVERSATIONS}:${conversationId}`);
-      if (!data) {
-        return null;
-      }
-
-      const storageConversation: StorageConversation = JSON.parse(data);
-      return this.fromStorageFormat(storageConversation);
+      await this.ensureReady();
+      return await ConversationRepository.loadConversation(conversationId);
     } catch (error) {
       console.error('Failed to load conversation:', error);
       return null;
     }
   }
 
-  // Get all conversations with filters
+  /**
+   * Get conversations with filters. Filtering, sorting and pagination run in
+   * SQLite and results come without messages (see `messageCount` and
+   * `lastMessagePreview`); use loadConversation for the full history.
+   */
   static async getConversations(filters: ConversationSearchFilters = {}): Promise<Conversation[]> {
     try {
-      const index = await this.getConversationIndex();
-      let conversations: Conversation[] = [];
+      await this.ensureReady();
 
-      // Load conversations in batches
-      for (const id of index) {
-        const conversation = await this.loadConversation(id);
-        if (conversation) {
-          conversations.push(conversation);
-        }
+      if (filters.searchMode === 'semantic' && filters.query) {
+        return await this.getConversationsByMeaning(filters);
       }
 
-      // Apply filters
-      conversations = this.applyFilters(conversations, filters);
-
-      // Apply sorting
-      conversations = this.applySorting(conversations, filters);
-
-      // Apply pagination
-      if (filters.offset || filters.limit) {
-        const start = filters.offset || 0;
-        const end = filters.limit ? start + filters.limit : undefined;
-        conversations = conversations.slice(start, end);
-      }
-
-      return conversations;
+      return await ConversationRepository.queryConversations(filters);
     } catch (error) {
       console.error('Failed to get conversations:', error);
       return [];
     }
   }
 
+  // Semantic matches ordered by similarity; the other filters still apply
+  private static async getConversationsByMeaning(filters: ConversationSearchFilters): Promise<Conversation[]> {
+    const scores = await SemanticSearchService.rankConversations(filters.query || '');
+    const { query, limit, offset, ...otherFilters } = filters;
+
+    const matches = await ConversationRepository.queryConversations(otherFilters, Array.from(scores.keys()));
+    const start = offset || 0;
+
+    return matches
+      .sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0))
+      .slice(start, limit ? start + limit : undefined);
+  }
+
+  // ID of the conversation saved most recently
+  static async getLastConversationId(): Promise<string | null> {
+    return AsyncStorage.getItem(STORAGE_KEYS.LAST_CONVERSATION_ID);
+  }
+
   // Delete conversation
   static async deleteConversation(conversationId: string): Promise<void> {
     try {
-      // Load conversation to get audio files
-      const conversation = await this.loadConversation(conversationId);
-      
-      // Delete audio files
-      if (conversation) {
-        for (const message of conversation.messages) {
-          if (message.audioUrl) {
-            try {
-              await FileSystem.deleteAsync(message.audioUrl, { idempotent: true });
-            } catch (error) {
-              console.warn('Failed to delete audio file:', error);
-            }
-          }
-        }
-      }
+      await this.ensureReady();
+
+      // Collect audio files before the messages are gone
+      const audioUrls = await ConversationRepository.getAudioUrls(conversationId);
 
-      // Delete conversation data
-      await AsyncStorage.removeItem(`${STORAGE_KEYS.CONVERSATIONS}:${conversationId}`);
+      // Delete conversation data (messages and embeddings cascade)
+      await ConversationRepository.deleteConversation(conversationId);
+      SemanticSearchService.invalidate();
 
-      // Remove from index
-      await this.removeFromConversationIndex(conversationId);
+      await this.deleteAudioFiles(audioUrls);
     } catch (error) {
       console.error('Failed to delete conversation:', error);
       throw new Error('Failed to delete conversation');
@@ -302,25 +352,44 @@ export class ConversationStorageService {
     updates: Partial<Conversation>
   ): Promise<void> {
     try {
+      await this.ensureReady();
+
+      // Metadata-only updates (title, star, archive, tags) skip rewriting messages
+      if (!updates.messages && !updates.branchMessages) {
+        const updated = await ConversationRepository.updateConversationFields(conversationId, {
+          ...updates,
+          updatedAt: new Date(),
+          lastActivity: new Date(),
+        });
+        if (!updated) {
+          throw new Error('Conversation not found');
+        }
+        return;
+      }
+
       const conversation = await this.loadConversation(conversationId);
       if (!conversation) {
         throw new Error('Conversation not found');
       }
 
-      const updatedConversation: Conversation = {
-        ...conversation,
-        ...updates,
-        updatedAt: new Date(),
-        lastActivity: new Date(),
-      };
-
-      await this.saveConversation(updatedConversation);
+      await this.saveConversation({ ...conversation, ...updates });
     } catch (error) {
       console.error('Failed to update conversation:', error);
       throw new Error('Failed to update conversation');
     }
   }
 
+  // Drop conversation model overrides that `keep` rejects, e.g. models of a removed endpoint
+  static async clearConversationModels(keep: (model: ModelType) => boolean): Promise<number> {
+    try {
+      await this.ensureReady();
+      return await ConversationRepository.clearConversationModels(keep);
+    } catch (error) {
+      console.error('Failed to clear conversation models:', error);
+      return 0;
+    }
+  }
+
   // Search conversations
   static async searchConversations(query: string): Promise<Conversation[]> {
     const filters: ConversationSearchFilters = {
@@ -331,142 +400,77 @@ export class ConversationStorageService {
     return this.getConversations(filters);
   }
 
-  // Get conversation index
-  private static async getConversationIndex(): Promise<string[]> {
+  // Full-text search over messages, best match first, with highlighted snippets
+  static async searchMessages(query: string, limit = 50): Promise<MessageSearchResult[]> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.CONVERSATION_INDEX);
-      return data ? JSON.parse(data) : [];
+      await this.ensureReady();
+
+      const terms = parseSearchTerms(query);
+      const hits = await ConversationRepository.searchMessages(query, limit);
+
+      return hits.map(hit => {
+        const snippet = buildSnippet(hit.content, findMatchRanges(hit.content, terms));
+        return {
+          conversationId: hit.conversationId,
+          conversationTitle: hit.conversationTitle,
+          messageId: hit.messageId,
+          role: hit.role,
+          timestamp: hit.timestamp,
+          snippet: snippet.text,
+          highlights: snippet.highlights,
+          rank: hit.rank,
+        };
+      });
     } catch (error) {
-      console.error('Failed to get conversation index:', error);
+      console.error('Failed to search messages:', error);
       return [];
     }
   }
 
-  // Update conversation index
-  private static async updateConversationIndex(conversationId: string): Promise<void> {
+  // Messages closest in meaning to the query (semantic search), best match first
+  static async searchMessagesByMeaning(query: string, limit = 20): Promise<MessageSearchResult[]> {
     try {
-      const index = await this.getConversationIndex();
-      if (!index.includes(conversationId)) {
-        index.unshift(conversationId); // Add to beginning for recent-first order
-        await AsyncStorage.setItem(STORAGE_KEYS.CONVERSATION_INDEX, JSON.stringify(index));
-      }
+      await this.ensureReady();
+      return await SemanticSearchService.searchMessages(query, limit);
     } catch (error) {
-      console.error('Failed to update conversation index:', error);
+      console.error('Failed to search messages by meaning:', error);
+      return [];
     }
   }
 
-  // Remove from conversation index
-  private static async removeFromConversationIndex(conversationId: string): Promise<void> {
+  // Past conversations about similar topics, most similar first
+  static async getRelatedConversations(conversationId: string, limit = 5): Promise<Conversation[]> {
     try {
-      const index = await this.getConversationIndex();
-      const updatedIndex = index.filter(id => id !== conversationId);
-      await AsyncStorage.setItem(STORAGE_KEYS.CONVERSATION_INDEX, JSON.stringify(updatedIndex));
+      await this.ensureReady();
+      return await SemanticSearchService.getRelatedConversations(conversationId, limit);
     } catch (error) {
-      console.error('Failed to remove from conversation index:', error);
+      console.error('Failed to get related conversations:', error);
+      return [];
     }
   }
 
-  // Apply filters to conversations
-  private static applyFilters(
-    conversations: Conversation[], 
-    filters: ConversationSearchFilters
-  ): Conversation[] {
-    return conversations.filter(conversation => {
-      // Text search
-      if (filters.query) {
-        const query = filters.query.toLowerCase();
-        const titleMatch = conversation.title.toLowerCase().includes(query);
-        const contentMatch = conversation.messages.some(msg => 
-          msg.content.toLowerCase().includes(query)
-        );
-        const tagMatch = conversation.tags?.some(tag => 
-          tag.toLowerCase().includes(query)
-        );
-        
-        if (!titleMatch && !contentMatch && !tagMatch) {
-          return false;
-        }
-      }
-
-      // Archive filter
-      if (filters.isArchived !== undefined && conversation.isArchived !== filters.isArchived) {
-        return false;
-      }
-
-      // Starred filter
-      if (filters.isStarred !== undefined && conversation.isStarred !== filters.isStarred) {
-        return false;
-      }
-
-      // Tags filter
-      if (filters.tags && filters.tags.length > 0) {
-        const hasMatchingTag = filters.tags.some(tag => 
-          conversation.tags?.includes(tag)
-        );
-        if (!hasMatchingTag) {
-          return false;
-        }
-      }
-
-      // Date range filter
-      if (filters.dateRange) {
-        const { start, end } = filters.dateRange;
-        if (conversation.createdAt < start || conversation.createdAt > end) {
-          return false;
-        }
+  private static async deleteAudioFiles(audioUrls: string[]): Promise<void> {
+    for (const audioUrl of audioUrls) {
+      try {
+        await FileSystem.deleteAsync(audioUrl, { idempotent: true });
+      } catch (error) {
+        console.warn('Failed to delete audio file:', error);
       }
-
-      // Message count filter
-      if (filters.messageCountRange) {
-        const { min, max } = filters.messageCountRange;
-        const messageCount = conversation.messages.length;
-        if (messageCount < min || messageCount > max) {
-          return false;
-        }
-      }
-
-      return true;
-    });
-  }
-
-  // Apply sorting to conversations
-  private static applySorting(
-    conversations: Conversation[], 
-    filters: ConversationSearchFilters
-  ): Conversation[] {
-    const { sortBy = 'lastActivity', sortOrder = 'desc' } = filters;
-
-    return [...conversations].sort((a, b) => {
-      let comparison = 0;
-
-      switch (sortBy) {
-        case 'createdAt':
-          comparison = a.createdAt.getTime() - b.createdAt.getTime();
-          break;
-        case 'updatedAt':
-          comparison = a.updatedAt.getTime() - b.updatedAt.getTime();
-          break;
-        case 'lastActivity':
-          comparison = a.lastActivity.getTime() - b.lastActivity.getTime();
-          break;
-        case 'messageCount':
-          comparison = a.messages.length - b.messages.length;
-          break;
-        case 'title':
-          comparison = a.title.localeCompare(b.title);
-          break;
-        default:
-          comparison = a.lastActivity.getTime() - b.lastActivity.getTime();
-      }
-
-      return sortOrder === 'desc' ? -comparison : comparison;
-    });
+    }
   }
 
   // Export conversations to backup
   static async exportConversations(): Promise<ConversationBackup> {
     try {
-      const conversations = await this.getConversations();
+      await this.ensureReady();
+
+      const conversations: Conversation[] = [];
+      for (const id of await ConversationRepository.getConversationIds()) {
+        const conversation = await ConversationRepository.loadConversation(id);
+        if (conversation) {
+          conversations.push(conversation);
+        }
+      }
       const storageConversations = conversations.map(conv => this.toStorageFormat(conv));
 
       // Get settings (you may need to implement settings storage)
@@ -516,15 +520,15 @@ export class ConversationStorageService {
   // Clear all conversations
   static async clearAllConversations(): Promise<void> {
     try {
-      const index = await this.getConversationIndex();
+      await this.ensureReady();
+
+      const audioUrls = await ConversationRepository.getAudioUrls();
 
       // Delete all conversation data
-      for (const id of index) {
-        await this.deleteConversation(id);
-      }
+      await ConversationRepository.deleteAllConversations();
+      SemanticSearchService.invalidate();
+      await this.deleteAudioFiles(audioUrls);
 
-      // Clear index
-      await AsyncStorage.removeItem(STORAGE_KEYS.CONVERSATION_INDEX);
       await AsyncStorage.removeItem(STORAGE_KEYS.LAST_CONVERSATION_ID);
     } catch (error) {
       console.error('Failed to clear conversations:', error);
@@ -542,37 +546,8 @@ export class ConversationStorageService {
     newestConversation?: Date;
   }> {
     try {
-      const conversations = await this.getConversations();
-      
-      let totalSize = 0;
-      let audioFileCount = 0;
-      let oldestDate: Date | undefined;
-      let newestDate: Date | undefined;
-
-      for (const conversation of conversations) {
-        // Calculate approximate size
-        totalSize += JSON.stringify(this.toStorageFormat(conversation)).length;
-        
-        // Count audio files
-        audioFileCount += conversation.messages.filter(msg => msg.audioUrl).length;
-        
-        // Track date ranges
-        if (!oldestDate || conversation.createdAt < oldestDate) {
-          oldestDate = conversation.createdAt;
-        }
-        if (!newestDate || conversation.createdAt > newestDate) {
-          newestDate = conversation.createdAt;
-        }
-      }
-
-      return {
-        conversationCount: conversations.length,
-        totalMessages: conversations.reduce((total, conv) => total + conv.messages.length, 0),
-        totalSize,
-        audioFileCount,
-        oldestConversation: oldestDate,
-        newestConversation: newestDate,
-      };
+      await this.ensureReady();
+      return await ConversationRepository.getStorageTotals();
     } catch (error) {
       console.error('Failed to get storage statistics:', error);
       return {
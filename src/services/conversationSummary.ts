@@ -0,0 +1,153 @@
+import { Message } from '@/types';
+import { DEFAULT_COST_OPTIMIZATION } from '@/config/costOptimization';
+import { countTokens } from '@/utils/tokenizer';
+import { isAbortError } from '@/utils/openai';
+import { ChatProvider } from './chatProviders';
+import { UsageLedgerService } from './usageLedger';
+
+// Summary of the turns that no longer fit in the model's context
+export interface ContextSummary {
+  summary: string;
+  // Last message folded into the summary; later messages are sent verbatim
+  summarizedThroughId: string;
+}
+
+export interface PreparedContext {
+  // Messages to send verbatim, ending with the latest user message
+  messages: Message[];
+  summary?: ContextSummary;
+  // Set when this call folded more messages into the summary
+  summaryUpdated: boolean;
+}
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant. The summary replaces the older messages, so the assistant relies on it to remember the conversation.
+
+Update the existing summary with the new messages. Keep:
+- facts the user shared about themselves and their goals
+- decisions, conclusions and answers the assistant gave
+- names, numbers, code identifiers and open questions
+
+Drop small talk and repetition. Write plain prose or short bullet points, at most 250 words, in the language of the conversation. Return only the summary.`;
+
+const SUMMARY_MAX_TOKENS = 400;
+// Image turns are summarized by their text; this stands in for the image itself
+const IMAGE_PLACEHOLDER = '[image]';
+
+export class ConversationSummaryService {
+  /**
+   * Decide what to send for a conversation. While the messages since the last
+   * summary fit the context budget they are sent as they are. Once they
+   * overflow, the older half is folded into the summary so the next few turns
+   * fit again without another summarization call.
+   */
+  static async prepareContext(
+    messages: Message[],
+    provider: ChatProvider,
+    current?: ContextSummary,
+    signal?: AbortSignal,
+    conversationId?: string
+  ): Promise<PreparedContext> {
+    const { maxContextMessages, maxContextTokens } = DEFAULT_COST_OPTIMIZATION;
+
+    // A summary only applies while its last message is still on the active branch
+    const summarizedIndex = current
+      ? messages.findIndex(msg => msg.id === current.summarizedThroughId)
+      : -1;
+    const summary = summarizedIndex !== -1 ? current : undefined;
+    const unsummarized = messages.slice(summarizedIndex + 1);
+
+    if (this.fits(unsummarized, provider, maxContextMessages, maxContextTokens)) {
+      return { messages: unsummarized, summary, summaryUpdated: false };
+    }
+
+    // Keep the recent half of the budget verbatim, always including the latest message
+    let keepFrom = unsummarized.length - 1;
+    while (
+      keepFrom > 0 &&
+      this.fits(unsummarized.slice(keepFrom - 1), provider, maxContextMessages / 2, maxContextTokens / 2)
+    ) {
+      keepFrom--;
+    }
+    // Start the kept part on a user turn so the model never sees a reply without its question
+    while (keepFrom > 0 && unsummarized[keepFrom].role !== 'user') {
+      keepFrom--;
+    }
+    if (keepFrom === 0) {
+      return { messages: unsummarized, summary, summaryUpdated: false };
+    }
+
+    const toSummarize = unsummarized.slice(0, keepFrom);
+    try {
+      const updatedSummary = await this.summarize(toSummarize, provider, summary?.summary, signal, conversationId);
+      console.log(`📝 Summarized ${toSummarize.length} older message(s) into the conversation summary`);
+      return {
+        messages: unsummarized.slice(keepFrom),
+        summary: {
+          summary: updatedSummary,
+          summarizedThroughId: toSummarize[toSummarize.length - 1].id,
+        },
+        summaryUpdated: true,
+      };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      // Fall back to the provider's own trimming rather than failing the reply
+      console.warn('Failed to update conversation summary:', error);
+      return { messages: unsummarized, summary, summaryUpdated: false };
+    }
+  }
+
+  private static fits(
+    messages: Message[],
+    provider: ChatProvider,
+    maxMessages: number,
+    maxTokens: number
+  ): boolean {
+    if (messages.length > maxMessages) {
+      return false;
+    }
+    const tokens = messages.reduce((sum, msg) => sum + countTokens(msg.content, provider.model), 0);
+    return tokens <= maxTokens;
+  }
+
+  private static async summarize(
+    messages: Message[],
+    provider: ChatProvider,
+    previousSummary: string | undefined,
+    signal?: AbortSignal,
+    conversationId?: string
+  ): Promise<string> {
+    const transcript = messages
+      .map(msg => {
+        const image = msg.imageBase64 || msg.imageUrl ? `${IMAGE_PLACEHOLDER} ` : '';
+        return `${msg.role === 'user' ? 'User' : 'Assistant'}: ${image}${msg.content}`;
+      })
+      .join('\n\n');
+
+    await UsageLedgerService.assertWithinBudget({ notify: false });
+    const response = await provider.sendChat(
+      [
+        {
+          id: `summary_${Date.now()}`,
+          role: 'user',
+          content: `Existing summary:\n${previousSummary || '(none yet)'}\n\nNew messages:\n${transcript}`,
+          timestamp: new Date(),
+        },
+      ],
+      {
+        systemPrompt: SUMMARY_PROMPT,
+        maxTokens: SUMMARY_MAX_TOKENS,
+        temperature: 0.2,
+        signal,
+        conversationId,
+      }
+    );
+
+    const summary = response.content.trim();
+    if (!summary) {
+      throw new Error('Empty summary');
+    }
+    return summary;
+  }
+}
@@ -0,0 +1,124 @@
+import { CustomModelType, CustomProviderConfig, ModelType } from '@/types';
+import { OpenAIService } from './OpenAIService';
+import { SettingsStorageService } from './settingsStorage';
+import { ConversationStorageService } from './conversationStorage';
+import {
+  DEFAULT_CHAT_MODEL,
+  getChatProviderInfo,
+  registerChatProvider,
+  unregisterChatProvider,
+} from './chatProviders';
+
+const CUSTOM_MODEL_PREFIX = 'custom:';
+const CUSTOM_PROVIDER_COLOR = '#8E8E93';
+
+// Models currently registered from custom providers, so a reload can drop stale ones
+const registeredCustomModels = new Set<ModelType>();
+
+export function toCustomModelType(providerId: string, model: string): CustomModelType {
+  return `${CUSTOM_MODEL_PREFIX}${providerId}/${model}`;
+}
+
+export function isCustomModel(model: ModelType): model is CustomModelType {
+  return model.startsWith(CUSTOM_MODEL_PREFIX);
+}
+
+export function generateCustomProviderId(): string {
+  return `provider_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+/**
+ * Normalize a server address to its OpenAI-compatible API root.
+ * `http://host:11434` and `http://host:11434/v1/` both become `http://host:11434/v1`.
+ */
+export function normalizeCustomBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+// List the models a server exposes through `GET /v1/models`
+export async function fetchCustomProviderModels(
+  baseUrl: string,
+  apiKey?: string,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const response = await fetch(`${normalizeCustomBaseUrl(baseUrl)}/models`, {
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch models (${response.status}): ${errorText || response.statusText}`);
+  }
+
+  const data = await response.json();
+  const models: string[] = Array.isArray(data?.data)
+    ? data.data.map((model: { id?: string }) => model.id).filter((id: unknown): id is string => typeof id === 'string')
+    : [];
+
+  return models.sort((a, b) => a.localeCompare(b));
+}
+
+// Replace all custom registrations with the given providers
+export function registerCustomProviders(providers: CustomProviderConfig[]): void {
+  registeredCustomModels.forEach(model => unregisterChatProvider(model));
+  registeredCustomModels.clear();
+
+  providers.forEach(provider => {
+    const baseURL = normalizeCustomBaseUrl(provider.baseUrl);
+
+    provider.models.forEach(modelName => {
+      const model = toCustomModelType(provider.id, modelName);
+
+      registerChatProvider(
+        model,
+        {
+          name: modelName,
+          shortName: modelName,
+          description: `${provider.name} · ${baseURL}`,
+          color: CUSTOM_PROVIDER_COLOR,
+        },
+        () => new OpenAIService({
+          apiKey: provider.apiKey || '',
+          baseURL,
+          model,
+          requestModel: modelName,
+          capabilities: {
+            vision: provider.capabilities.vision,
+            tools: provider.capabilities.tools,
+          },
+        })
+      );
+      registeredCustomModels.add(model);
+    });
+  });
+
+  console.log(`🔌 Registered ${registeredCustomModels.size} custom model(s) from ${providers.length} provider(s)`);
+}
+
+// Move the default model and conversation overrides off models that are no longer registered,
+// after an endpoint was removed or stopped listing a model
+export async function resetUnregisteredModels(): Promise<void> {
+  const isRegistered = (model: ModelType) => !!getChatProviderInfo(model);
+
+  const settings = await SettingsStorageService.loadSettings();
+  if (!isRegistered(settings.model)) {
+    console.log(`🔌 Default model ${settings.model} was removed, switching to ${DEFAULT_CHAT_MODEL}`);
+    await SettingsStorageService.saveSettings({ model: DEFAULT_CHAT_MODEL });
+  }
+
+  const cleared = await ConversationStorageService.clearConversationModels(isRegistered);
+  if (cleared > 0) {
+    console.log(`🔌 Cleared removed models from ${cleared} conversation(s)`);
+  }
+}
+
+// Load saved providers from settings and register their models
+export async function loadCustomProviders(): Promise<void> {
+  const providers = await SettingsStorageService.getCustomProviders();
+  registerCustomProviders(providers);
+}
@@ -0,0 +1,44 @@
+import { getOpenAIService } from './OpenAIService';
+import { truncateToTokens } from '@/utils/tokenizer';
+
+// text-embedding-3 models accept 8191 tokens per input
+const OPENAI_MAX_INPUT_TOKENS = 8191;
+
+/**
+ * Turns text into vectors for semantic search. The default embedder calls the
+ * OpenAI embeddings endpoint; an on-device model can be plugged in with
+ * setEmbedder. Vectors from different embedders are not comparable, so stored
+ * embeddings are tagged with the embedder `id` and recomputed when it changes.
+ */
+export interface Embedder {
+  readonly id: string;
+  // Cut text to the longest input the model accepts
+  truncate(text: string): string;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export class OpenAIEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private readonly model: string = 'text-embedding-3-small') {
+    this.id = `openai:${model}`;
+  }
+
+  truncate(text: string): string {
+    return truncateToTokens(text, OPENAI_MAX_INPUT_TOKENS, this.model);
+  }
+
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    return getOpenAIService().createEmbeddings(texts, this.model, signal);
+  }
+}
+
+let currentEmbedder: Embedder = new OpenAIEmbedder();
+
+export function getEmbedder(): Embedder {
+  return currentEmbedder;
+}
+
+export function setEmbedder(embedder: Embedder): void {
+  currentEmbedder = embedder;
+}
@@ -436,6 +436,33 @@ export class ErrorHandlingService {
     };
   }
 
+  public createBudgetError(
+    type: ErrorType.BUDGET_WARNING | ErrorType.BUDGET_EXCEEDED,
+    context: { spent: number; limit: number }
+  ): AppError {
+    const spent = `$${context.spent.toFixed(2)}`;
+    const limit = `$${context.limit.toFixed(2)}`;
+    const isExceeded = type === ErrorType.BUDGET_EXCEEDED;
+
+    return {
+      type,
+      code: isExceeded ? 'BUDGET_EXCEEDED_001' : 'BUDGET_WARNING_001',
+      message: isExceeded ? 'Monthly budget exceeded' : 'Monthly budget nearly used',
+      userMessage: isExceeded
+        ? `You have spent ${spent} of your ${limit} monthly budget. New requests are blocked until next month or until you raise the budget in Settings > Usage & Costs.`
+        : `You have spent ${spent} of your ${limit} monthly budget this month.`,
+      severity: ErrorSeverity.HIGH,
+      recoveryStrategy: isExceeded ? RecoveryStrategy.USER_ACTION : RecoveryStrategy.IGNORE,
+      timestamp: new Date(),
+      context: {
+        component: 'UsageLedger',
+        operation: 'budget_check',
+        metadata: context,
+      },
+      recoveryActions: [],
+    };
+  }
+
   // Recovery action generators
   private getNetworkRecoveryActions(type: ErrorType): RecoveryAction[] {
     switch (type) {
@@ -717,7 +744,7 @@ export class ErrorHandlingService {
     const primaryAction = actions.find(a => a.isPrimary) || actions[0];
 
     Alert.alert(
-      'Error',
+      error.type === ErrorType.BUDGET_WARNING || error.type === ErrorType.BUDGET_EXCEEDED ? 'Budget' : 'Error',
       error.userMessage,
       [
         { text: 'Dismiss', style: 'cancel' },
@@ -0,0 +1,226 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MemoryFact, Message } from '@/types';
+import type { ChatProvider } from './chatProviders';
+import { parseSearchTerms } from '@/utils/textSearch';
+import { UsageLedgerService } from './usageLedger';
+
+const MEMORIES_KEY = '@memories';
+
+// Memories injected into a prompt; when there are more, the most relevant are picked
+const MAX_PROMPT_MEMORIES = 10;
+
+// User messages shorter than this rarely state anything worth remembering
+const MIN_EXTRACTION_LENGTH = 12;
+
+interface StoredMemoryFact extends Omit<MemoryFact, 'createdAt' | 'updatedAt'> {
+  createdAt: string;
+  updatedAt: string;
+}
+
+const EXTRACTION_PROMPT = `You maintain a long-term memory of durable facts about the user: preferences, tools and languages they use, where they live, their job, their time zone, ongoing projects.
+Read the user's message and return a JSON array of new facts worth remembering for future conversations, each a short sentence in the third person ("Uses TypeScript", "Time zone is CET").
+Ignore one-off requests, questions, and anything already known. Never store passwords, keys or other secrets.
+Return [] when there is nothing to remember. Return only the JSON array.`;
+
+const normalizeFact = (content: string) => content.trim().toLowerCase().replace(/[.!]+$/, '');
+
+const generateMemoryId = () => `mem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Background extraction and the settings screen both rewrite the whole list,
+// so writes run one at a time and each sees the previous one's result
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function serializeWrite<T>(write: () => Promise<T>): Promise<T> {
+  const result = pendingWrite.then(write, write);
+  pendingWrite = result.catch(() => {});
+  return result;
+}
+
+export class MemoryStorageService {
+  private static toStorageFormat(memory: MemoryFact): StoredMemoryFact {
+    return {
+      ...memory,
+      createdAt: memory.createdAt.toISOString(),
+      updatedAt: memory.updatedAt.toISOString(),
+    };
+  }
+
+  private static fromStorageFormat(stored: StoredMemoryFact): MemoryFact {
+    return {
+      ...stored,
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt),
+    };
+  }
+
+  // All memories, most recently updated first. Throws when the stored list
+  // cannot be read, so a write never replaces memories it failed to load
+  static async getMemories(): Promise<MemoryFact[]> {
+    try {
+      const data = await AsyncStorage.getItem(MEMORIES_KEY);
+      const stored: StoredMemoryFact[] = data ? JSON.parse(data) : [];
+      return stored
+        .map(memory => this.fromStorageFormat(memory))
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    } catch (error) {
+      console.error('Failed to load memories:', error);
+      throw new Error('Failed to load memories');
+    }
+  }
+
+  private static async saveMemories(memories: MemoryFact[]): Promise<void> {
+    await AsyncStorage.setItem(
+      MEMORIES_KEY,
+      JSON.stringify(memories.map(memory => this.toStorageFormat(memory)))
+    );
+  }
+
+  static async addMemory(content: string, source?: MemoryFact['source']): Promise<MemoryFact | null> {
+    const trimmed = content.trim();
+    if (!trimmed) return null;
+
+    return serializeWrite(async () => {
+      const memories = await this.getMemories();
+      if (memories.some(memory => normalizeFact(memory.content) === normalizeFact(trimmed))) {
+        return null;
+      }
+
+      const memory: MemoryFact = {
+        id: generateMemoryId(),
+        content: trimmed,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        source,
+      };
+      await this.saveMemories([memory, ...memories]);
+      return memory;
+    });
+  }
+
+  static async updateMemory(memoryId: string, content: string): Promise<void> {
+    try {
+      await serializeWrite(async () => {
+        const memories = await this.getMemories();
+        await this.saveMemories(memories.map(memory =>
+          memory.id === memoryId ? { ...memory, content: content.trim(), updatedAt: new Date() } : memory
+        ));
+      });
+    } catch (error) {
+      console.error('Failed to update memory:', error);
+      throw new Error('Failed to update memory');
+    }
+  }
+
+  static async deleteMemory(memoryId: string): Promise<void> {
+    try {
+      await serializeWrite(async () => {
+        const memories = await this.getMemories();
+        await this.saveMemories(memories.filter(memory => memory.id !== memoryId));
+      });
+    } catch (error) {
+      console.error('Failed to delete memory:', error);
+      throw new Error('Failed to delete memory');
+    }
+  }
+
+  static async clearMemories(): Promise<void> {
+    try {
+      await serializeWrite(() => AsyncStorage.removeItem(MEMORIES_KEY));
+    } catch (error) {
+      console.error('Failed to clear memories:', error);
+      throw new Error('Failed to clear memories');
+    }
+  }
+
+  /**
+   * Memories to include in the system prompt for `query`. Everything is sent
+   * while the list is short; beyond that, memories sharing words with the
+   * query win, then the most recent ones.
+   */
+  static async getRelevantMemories(query: string, limit = MAX_PROMPT_MEMORIES): Promise<MemoryFact[]> {
+    const memories = await this.getMemories();
+    if (memories.length <= limit) {
+      return memories;
+    }
+
+    const queryTerms = parseSearchTerms(query).map(term => term.text);
+    const scoreMemory = (memory: MemoryFact) => {
+      const content = memory.content.toLowerCase();
+      return queryTerms.filter(term => content.includes(term)).length;
+    };
+
+    return memories
+      .map((memory, recencyIndex) => ({ memory, score: scoreMemory(memory), recencyIndex }))
+      .sort((a, b) => b.score - a.score || a.recencyIndex - b.recencyIndex)
+      .slice(0, limit)
+      .map(({ memory }) => memory);
+  }
+
+  /**
+   * Ask the chat provider for durable facts stated in a user message and
+   * store the new ones with a reference to that message.
+   */
+  static async extractMemories(
+    message: Message,
+    conversationId: string,
+    provider: ChatProvider
+  ): Promise<MemoryFact[]> {
+    if (message.role !== 'user' || message.content.trim().length < MIN_EXTRACTION_LENGTH) {
+      return [];
+    }
+
+    await UsageLedgerService.assertWithinBudget({ notify: false });
+
+    const existing = await this.getMemories();
+    const knownFacts = existing.length > 0
+      ? `\n\nAlready known:\n${existing.map(memory => `- ${memory.content}`).join('\n')}`
+      : '';
+
+    const response = await provider.sendChat(
+      [
+        {
+          id: `memory_${Date.now()}`,
+          role: 'user',
+          content: `User message:\n${message.content}${knownFacts}`,
+          timestamp: new Date(),
+        },
+      ],
+      {
+        systemPrompt: EXTRACTION_PROMPT,
+        maxTokens: 200,
+        temperature: 0,
+      }
+    );
+
+    const facts = this.parseFacts(response.content);
+    const added: MemoryFact[] = [];
+
+    for (const fact of facts) {
+      const memory = await this.addMemory(fact, { conversationId, messageId: message.id });
+      if (memory) {
+        added.push(memory);
+      }
+    }
+
+    if (added.length > 0) {
+      console.log(`🧠 Remembered ${added.length} new fact(s):`, added.map(memory => memory.content));
+    }
+    return added;
+  }
+
+  // Pull the JSON array out of the model output, tolerating code fences and surrounding text
+  private static parseFacts(content: string): string[] {
+    const match = content.match(/\[[\s\S]*\]/);
+    if (!match) return [];
+
+    try {
+      const parsed = JSON.parse(match[0]);
+      return Array.isArray(parsed)
+        ? parsed.filter((fact): fact is string => typeof fact === 'string' && fact.trim().length > 0)
+        : [];
+    } catch {
+      console.warn('Could not parse extracted memories:', content);
+      return [];
+    }
+  }
+}
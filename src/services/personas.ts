@@ -0,0 +1,139 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { AppSettings, Persona, VoiceType } from '@/types';
+import { SYSTEM_PROMPTS } from '@/utils/openai';
+
+const BUILT_IN_PREFIX = 'builtin:';
+const EXPORT_FORMAT = 'hatgpt-personas';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_PERSONA_ID = `${BUILT_IN_PREFIX}chatgpt`;
+
+// Agent tools a persona can switch on or off, by tool name
+export const PERSONA_TOOLS: Array<{ name: string; label: string }> = [
+  { name: 'TavilySearch', label: 'Web search' },
+  { name: 'Calculator', label: 'Calculator' },
+  { name: 'DateTime', label: 'Date & time' },
+];
+
+const VOICES: VoiceType[] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+// One persona per text prompt template; the voice prompt stays reserved for voice mode
+const BUILT_IN_PERSONAS: Persona[] = [
+  { id: DEFAULT_PERSONA_ID, name: 'Assistant', icon: '💬', systemPrompt: SYSTEM_PROMPTS.chatgpt, isBuiltIn: true },
+  { id: `${BUILT_IN_PREFIX}concise`, name: 'Concise', icon: '✂️', systemPrompt: SYSTEM_PROMPTS.concise, isBuiltIn: true },
+  { id: `${BUILT_IN_PREFIX}creative`, name: 'Creative', icon: '🎨', systemPrompt: SYSTEM_PROMPTS.creative, temperature: 1.0, isBuiltIn: true },
+  { id: `${BUILT_IN_PREFIX}technical`, name: 'Technical', icon: '🛠️', systemPrompt: SYSTEM_PROMPTS.technical, temperature: 0.3, isBuiltIn: true },
+  { id: `${BUILT_IN_PREFIX}casual`, name: 'Casual', icon: '☕', systemPrompt: SYSTEM_PROMPTS.casual, isBuiltIn: true },
+];
+
+export function generatePersonaId(): string {
+  return `persona_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+// Built-in personas followed by the user's own
+export function getPersonas(settings: AppSettings): Persona[] {
+  return [...BUILT_IN_PERSONAS, ...(settings.personas || [])];
+}
+
+// The persona with this id, else the default persona (also when it was deleted)
+export function findPersona(settings: AppSettings, personaId?: string): Persona {
+  const personas = getPersonas(settings);
+  return personas.find(persona => persona.id === personaId)
+    || personas.find(persona => persona.id === settings.defaultPersonaId)
+    || BUILT_IN_PERSONAS[0];
+}
+
+// The custom system prompt from API settings still replaces the default persona's prompt
+export function getPersonaSystemPrompt(persona: Persona, settings: AppSettings): string {
+  if (persona.id === DEFAULT_PERSONA_ID && settings.systemPrompt?.trim()) {
+    return settings.systemPrompt.trim();
+  }
+  return persona.systemPrompt;
+}
+
+// Serialize personas for sharing; built-in personas are never exported
+export function exportPersonas(personas: Persona[]): string {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    personas: personas
+      .filter(persona => !persona.isBuiltIn)
+      .map(({ isBuiltIn, ...persona }) => persona),
+  }, null, 2);
+}
+
+/**
+ * Read personas from exported JSON. Accepts the export envelope, a plain
+ * array or a single persona. Imported personas get fresh ids so they never
+ * replace existing ones.
+ */
+export function parsePersonas(json: string): Persona[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.personas) ? data.personas : [data];
+
+  const personas = entries.map((entry, index) => {
+    const persona = toPersona(entry);
+    if (!persona) {
+      throw new Error(`Persona ${index + 1} needs a name and a system prompt`);
+    }
+    return persona;
+  });
+
+  if (personas.length === 0) {
+    throw new Error('No personas found');
+  }
+  return personas;
+}
+
+function toPersona(entry: any): Persona | null {
+  if (typeof entry?.name !== 'string' || !entry.name.trim()
+    || typeof entry?.systemPrompt !== 'string' || !entry.systemPrompt.trim()) {
+    return null;
+  }
+
+  const toolNames = PERSONA_TOOLS.map(tool => tool.name);
+  return {
+    id: generatePersonaId(),
+    name: entry.name.trim(),
+    icon: typeof entry.icon === 'string' && entry.icon.trim() ? entry.icon.trim() : '🤖',
+    systemPrompt: entry.systemPrompt.trim(),
+    model: typeof entry.model === 'string' ? entry.model : undefined,
+    temperature: typeof entry.temperature === 'number'
+      ? Math.min(2, Math.max(0, entry.temperature))
+      : undefined,
+    enabledTools: Array.isArray(entry.enabledTools)
+      ? entry.enabledTools.filter((name: unknown): name is string => typeof name === 'string' && toolNames.includes(name))
+      : undefined,
+    voice: VOICES.includes(entry.voice) ? entry.voice : undefined,
+  };
+}
+
+// Write personas to a JSON file and open the share sheet
+export async function sharePersonas(personas: Persona[]): Promise<void> {
+  const fileUri = `${FileSystem.documentDirectory}personas_${new Date().toISOString().split('T')[0]}.json`;
+
+  await FileSystem.writeAsStringAsync(fileUri, exportPersonas(personas), {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  try {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(fileUri, {
+      mimeType: 'application/json',
+      dialogTitle: 'Share Personas',
+    });
+  } finally {
+    await FileSystem.deleteAsync(fileUri, { idempotent: true });
+  }
+}
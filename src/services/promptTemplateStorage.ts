@@ -0,0 +1,267 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { PromptTemplate } from '@/types';
+import { toCommand } from '@/utils/promptTemplates';
+
+const TEMPLATES_KEY = '@prompt_templates';
+const EXPORT_FORMAT = 'hatgpt-prompt-templates';
+const EXPORT_VERSION = 1;
+
+interface StoredPromptTemplate extends Omit<PromptTemplate, 'lastUsedAt' | 'createdAt' | 'updatedAt'> {
+  lastUsedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Starter templates written to storage the first time the library is opened
+const STARTER_TEMPLATES: Array<Pick<PromptTemplate, 'name' | 'command' | 'content' | 'tags'>> = [
+  {
+    name: 'Code Review',
+    command: 'review',
+    content: 'Review the following {{language}} code. Point out bugs, unclear naming and missing error handling, most important first, and suggest concrete fixes.\n\n{{code}}',
+    tags: ['code'],
+  },
+  {
+    name: 'Summarize',
+    command: 'summarize',
+    content: 'Summarize the following text in {{length}}. Keep names, numbers and decisions.\n\n{{text}}',
+    tags: ['writing'],
+  },
+  {
+    name: 'Translate',
+    command: 'translate',
+    content: 'Translate the following text into {{language}}. Keep the tone and formatting, and only return the translation.\n\n{{text}}',
+    tags: ['writing', 'language'],
+  },
+];
+
+const generateTemplateId = () => `tpl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export class PromptTemplateService {
+  private static toStorageFormat(template: PromptTemplate): StoredPromptTemplate {
+    return {
+      ...template,
+      lastUsedAt: template.lastUsedAt?.toISOString(),
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+
+  private static fromStorageFormat(stored: StoredPromptTemplate): PromptTemplate {
+    return {
+      ...stored,
+      tags: stored.tags || [],
+      usageCount: stored.usageCount || 0,
+      lastUsedAt: stored.lastUsedAt ? new Date(stored.lastUsedAt) : undefined,
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt),
+    };
+  }
+
+  // All templates, most used first
+  static async getTemplates(): Promise<PromptTemplate[]> {
+    try {
+      const data = await AsyncStorage.getItem(TEMPLATES_KEY);
+      if (data === null) {
+        return await this.seedStarterTemplates();
+      }
+
+      const stored: StoredPromptTemplate[] = JSON.parse(data);
+      return stored
+        .map(template => this.fromStorageFormat(template))
+        .sort((a, b) => b.usageCount - a.usageCount || a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Failed to load prompt templates:', error);
+      return [];
+    }
+  }
+
+  private static async saveTemplates(templates: PromptTemplate[]): Promise<void> {
+    await AsyncStorage.setItem(
+      TEMPLATES_KEY,
+      JSON.stringify(templates.map(template => this.toStorageFormat(template)))
+    );
+  }
+
+  private static async seedStarterTemplates(): Promise<PromptTemplate[]> {
+    const now = new Date();
+    const templates = STARTER_TEMPLATES.map(template => ({
+      ...template,
+      id: generateTemplateId(),
+      usageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    await this.saveTemplates(templates);
+    return templates;
+  }
+
+  /**
+   * Templates for a slash command being typed: commands starting with the
+   * query first, then names or tags containing it.
+   */
+  static async searchTemplates(query: string): Promise<PromptTemplate[]> {
+    const templates = await this.getTemplates();
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!normalizedQuery) {
+      return templates;
+    }
+
+    const prefixMatches = templates.filter(template => template.command.startsWith(normalizedQuery));
+    const otherMatches = templates.filter(template =>
+      !prefixMatches.includes(template) && (
+        template.name.toLowerCase().includes(normalizedQuery) ||
+        template.tags.some(tag => tag.toLowerCase().includes(normalizedQuery))
+      )
+    );
+    return [...prefixMatches, ...otherMatches];
+  }
+
+  // Add or replace a template (matched by id); its command must be unique
+  static async saveTemplate(template: PromptTemplate): Promise<PromptTemplate> {
+    const templates = await this.getTemplates();
+    const command = toCommand(template.command || template.name);
+
+    if (!command) {
+      throw new Error('Template needs a name or command');
+    }
+    if (templates.some(existing => existing.id !== template.id && existing.command === command)) {
+      throw new Error(`The command /${command} is already used by another template`);
+    }
+
+    const saved: PromptTemplate = {
+      ...template,
+      name: template.name.trim(),
+      command,
+      tags: Array.from(new Set(template.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))),
+      updatedAt: new Date(),
+    };
+    await this.saveTemplates([
+      ...templates.filter(existing => existing.id !== template.id),
+      saved,
+    ]);
+    return saved;
+  }
+
+  static createTemplate(): PromptTemplate {
+    return {
+      id: generateTemplateId(),
+      name: '',
+      command: '',
+      content: '',
+      tags: [],
+      usageCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  static async deleteTemplate(templateId: string): Promise<void> {
+    try {
+      const templates = await this.getTemplates();
+      await this.saveTemplates(templates.filter(template => template.id !== templateId));
+    } catch (error) {
+      console.error('Failed to delete prompt template:', error);
+      throw new Error('Failed to delete prompt template');
+    }
+  }
+
+  // Count an insertion from the slash menu
+  static async recordUsage(templateId: string): Promise<void> {
+    try {
+      const templates = await this.getTemplates();
+      await this.saveTemplates(templates.map(template =>
+        template.id === templateId
+          ? { ...template, usageCount: template.usageCount + 1, lastUsedAt: new Date() }
+          : template
+      ));
+    } catch (error) {
+      console.warn('Failed to record template usage:', error);
+    }
+  }
+
+  // Serialize templates for sharing; usage counts stay on this device
+  static exportTemplates(templates: PromptTemplate[]): string {
+    return JSON.stringify({
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      templates: templates.map(({ name, command, content, tags }) => ({ name, command, content, tags })),
+    }, null, 2);
+  }
+
+  /**
+   * Add templates from exported JSON (the export envelope or a plain array).
+   * A template whose command is taken is skipped when the content is the same
+   * and gets a numbered command otherwise.
+   */
+  static async importTemplates(json: string): Promise<number> {
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Not valid JSON');
+    }
+
+    const entries: any[] = Array.isArray(data) ? data : Array.isArray(data?.templates) ? data.templates : [];
+    const valid = entries.filter(entry =>
+      typeof entry?.name === 'string' && entry.name.trim() &&
+      typeof entry?.content === 'string' && entry.content.trim()
+    );
+    if (valid.length === 0) {
+      throw new Error('No templates found');
+    }
+
+    const templates = await this.getTemplates();
+    let imported = 0;
+
+    for (const entry of valid) {
+      const baseCommand = toCommand(typeof entry.command === 'string' && entry.command ? entry.command : entry.name);
+      if (!baseCommand) continue;
+
+      const duplicate = templates.find(template => template.command === baseCommand && template.content === entry.content);
+      if (duplicate) continue;
+
+      let command = baseCommand;
+      for (let suffix = 2; templates.some(template => template.command === command); suffix++) {
+        command = `${baseCommand}-${suffix}`;
+      }
+
+      templates.push({
+        ...this.createTemplate(),
+        name: entry.name.trim(),
+        command,
+        content: entry.content,
+        tags: Array.isArray(entry.tags)
+          ? entry.tags.filter((tag: unknown): tag is string => typeof tag === 'string')
+          : [],
+      });
+      imported++;
+    }
+
+    await this.saveTemplates(templates);
+    console.log(`📚 Imported ${imported} prompt template(s)`);
+    return imported;
+  }
+
+  // Write templates to a JSON file and open the share sheet
+  static async shareTemplates(templates: PromptTemplate[]): Promise<void> {
+    const fileUri = `${FileSystem.documentDirectory}prompt_templates_${new Date().toISOString().split('T')[0]}.json`;
+
+    await FileSystem.writeAsStringAsync(fileUri, this.exportTemplates(templates), {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+      }
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'application/json',
+        dialogTitle: 'Share Prompt Templates',
+      });
+    } finally {
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    }
+  }
+}
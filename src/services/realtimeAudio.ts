@@ -0,0 +1,380 @@
+import { Platform } from 'react-native';
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  concatBytes,
+  createWav,
+  extractWavData,
+  PCM_SAMPLE_RATE,
+  pcmDurationMs,
+} from '@/utils/pcmAudio';
+
+// Length of each recorded segment sent to the server
+const CAPTURE_SEGMENT_MS = 200;
+// The first reply segment is short so playback starts quickly; later ones are
+// longer so there are fewer gaps between files
+const FIRST_PLAYBACK_SEGMENT_MS = 300;
+const PLAYBACK_SEGMENT_MS = 1200;
+const PLAYBACK_DIRECTORY = `${FileSystem.cacheDirectory}realtime/`;
+
+const PCM_RECORDING_OPTIONS: Audio.RecordingOptions = {
+  isMeteringEnabled: false,
+  // Android's recorder cannot write PCM, which is why the realtime engine is iOS-only
+  android: Audio.RecordingOptionsPresets.HIGH_QUALITY.android,
+  ios: {
+    extension: '.wav',
+    outputFormat: Audio.IOSOutputFormat.LINEARPCM,
+    audioQuality: Audio.IOSAudioQuality.HIGH,
+    sampleRate: PCM_SAMPLE_RATE,
+    numberOfChannels: 1,
+    bitRate: PCM_SAMPLE_RATE * 16,
+    linearPCMBitDepth: 16,
+    linearPCMIsBigEndian: false,
+    linearPCMIsFloat: false,
+  },
+  web: Audio.RecordingOptionsPresets.HIGH_QUALITY.web,
+};
+
+export function isRealtimeVoiceSupported(): boolean {
+  return Platform.OS === 'ios';
+}
+
+/**
+ * Streams the microphone as PCM16. expo-av can only record to files, so the
+ * mic is recorded in short back-to-back segments and each one is sent as it
+ * closes.
+ */
+export class RealtimeAudioCapture {
+  private recording: Audio.Recording | null = null;
+  private segmentTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  // Keeps segments in recording order while files are read
+  private sending: Promise<void> = Promise.resolve();
+  // Segments recorded while muted are dropped instead of sent
+  muted = false;
+
+  constructor(private readonly onAudio: (base64Pcm: string) => void) {}
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    if (global.globalRecordingInProgress) {
+      throw new Error('Another recording is already in progress');
+    }
+
+    global.globalRecordingInProgress = true;
+    this.running = true;
+    try {
+      await this.startSegment();
+    } catch (error) {
+      this.running = false;
+      global.globalRecordingInProgress = false;
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.segmentTimer) {
+      clearTimeout(this.segmentTimer);
+      this.segmentTimer = null;
+    }
+
+    const recording = this.recording;
+    this.recording = null;
+    if (recording) {
+      await this.discard(recording);
+    }
+    global.globalRecordingInProgress = false;
+  }
+
+  private async startSegment(): Promise<void> {
+    const recording = new Audio.Recording();
+    await recording.prepareToRecordAsync(PCM_RECORDING_OPTIONS);
+    await recording.startAsync();
+
+    // Stopped while the recorder was starting
+    if (!this.running) {
+      await this.discard(recording);
+      return;
+    }
+    this.recording = recording;
+    this.segmentTimer = setTimeout(() => this.rotateSegment(), CAPTURE_SEGMENT_MS);
+  }
+
+  // Close the current segment and open the next before sending the closed one
+  private async rotateSegment(): Promise<void> {
+    const finished = this.recording;
+    this.recording = null;
+    this.segmentTimer = null;
+    if (!finished) return;
+
+    try {
+      await finished.stopAndUnloadAsync();
+    } catch (error) {
+      console.warn('Failed to close capture segment:', error);
+    }
+
+    if (this.running) {
+      try {
+        await this.startSegment();
+      } catch (error) {
+        console.error('Failed to continue realtime capture:', error);
+        this.running = false;
+        global.globalRecordingInProgress = false;
+      }
+    }
+
+    const uri = finished.getURI();
+    if (uri) {
+      this.sending = this.sending.then(() => this.sendSegment(uri));
+    }
+  }
+
+  private async sendSegment(uri: string): Promise<void> {
+    try {
+      if (!this.muted) {
+        const base64 = await FileSystem.readAsStringAsync(uri, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        const pcm = extractWavData(base64ToBytes(base64));
+        if (pcm.length > 0) {
+          this.onAudio(bytesToBase64(pcm));
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to read capture segment:', error);
+    } finally {
+      await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+    }
+  }
+
+  private async discard(recording: Audio.Recording): Promise<void> {
+    try {
+      await recording.stopAndUnloadAsync();
+    } catch (error) {
+      // Already stopped
+    }
+    const uri = recording.getURI();
+    if (uri) {
+      await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+    }
+  }
+}
+
+interface PlaybackSegment {
+  uri: string;
+  itemId: string;
+  durationMs: number;
+}
+
+export interface PlaybackPosition {
+  itemId: string;
+  // Milliseconds of the item's audio the user has heard
+  audioEndMs: number;
+}
+
+interface RealtimeAudioPlayerCallbacks {
+  onPlaybackStart?: () => void;
+  // All audio of the response has been played
+  onPlaybackEnd?: () => void;
+}
+
+/**
+ * Plays streamed PCM16 reply audio. Deltas are buffered into WAV segments
+ * that play back to back; the player tracks how much of each item was heard
+ * so an interrupted reply can be truncated to what the user actually heard.
+ */
+export class RealtimeAudioPlayer {
+  private pending: Uint8Array[] = [];
+  private pendingBytes = 0;
+  private pendingItemId: string | null = null;
+  private queue: PlaybackSegment[] = [];
+  private current: { sound: Audio.Sound; segment: PlaybackSegment } | null = null;
+  // A segment is loading or playing
+  private playing = false;
+  private started = false;
+  // The server has sent all audio for the response
+  private complete = false;
+  private writing: Promise<void> = Promise.resolve();
+  // Bumped by stop() so in-flight writes and loads are dropped
+  private generation = 0;
+  private segmentCount = 0;
+  private playedMs = new Map<string, number>();
+  private receivedMs = new Map<string, number>();
+
+  constructor(private readonly callbacks: RealtimeAudioPlayerCallbacks = {}) {}
+
+  get isActive(): boolean {
+    return this.playing || this.queue.length > 0 || this.pendingBytes > 0;
+  }
+
+  // Milliseconds of audio received so far for an item
+  getReceivedMs(itemId: string): number {
+    return this.receivedMs.get(itemId) || 0;
+  }
+
+  append(itemId: string, base64Pcm: string): void {
+    if (this.pendingItemId && this.pendingItemId !== itemId) {
+      this.flush();
+    }
+    this.pendingItemId = itemId;
+    this.complete = false;
+
+    const bytes = base64ToBytes(base64Pcm);
+    this.pending.push(bytes);
+    this.pendingBytes += bytes.length;
+    this.receivedMs.set(itemId, this.getReceivedMs(itemId) + pcmDurationMs(bytes.length));
+
+    const target = this.playing || this.queue.length > 0 ? PLAYBACK_SEGMENT_MS : FIRST_PLAYBACK_SEGMENT_MS;
+    if (pcmDurationMs(this.pendingBytes) >= target) {
+      this.flush();
+    }
+  }
+
+  // The response's audio is complete; play what is left and report the end
+  finish(): void {
+    this.complete = true;
+    this.flush();
+    this.writing = this.writing.then(() => {
+      if (!this.playing && this.queue.length === 0) {
+        this.endPlayback();
+      }
+    });
+  }
+
+  /**
+   * Stop playback and drop queued audio. Returns how far into its item the
+   * segment that was playing got, for `conversation.item.truncate`.
+   */
+  async stop(): Promise<PlaybackPosition | null> {
+    this.generation++;
+    const current = this.current;
+    const queued = this.queue;
+    this.current = null;
+    this.queue = [];
+    this.pending = [];
+    this.pendingBytes = 0;
+    this.pendingItemId = null;
+    this.playing = false;
+    this.started = false;
+    this.complete = false;
+
+    let position: PlaybackPosition | null = null;
+    if (current) {
+      let positionMillis = 0;
+      try {
+        const status = await current.sound.getStatusAsync();
+        if (status.isLoaded) {
+          positionMillis = status.positionMillis;
+        }
+      } catch (error) {
+        // Unloaded in the meantime
+      }
+      await current.sound.unloadAsync().catch(() => {});
+      await FileSystem.deleteAsync(current.segment.uri, { idempotent: true }).catch(() => {});
+
+      const { itemId } = current.segment;
+      position = { itemId, audioEndMs: Math.round((this.playedMs.get(itemId) || 0) + positionMillis) };
+    }
+
+    for (const segment of queued) {
+      await FileSystem.deleteAsync(segment.uri, { idempotent: true }).catch(() => {});
+    }
+    this.playedMs.clear();
+    this.receivedMs.clear();
+    return position;
+  }
+
+  private flush(): void {
+    const itemId = this.pendingItemId;
+    if (!itemId || this.pendingBytes === 0) return;
+
+    const pcm = concatBytes(this.pending);
+    this.pending = [];
+    this.pendingBytes = 0;
+    const generation = this.generation;
+    const uri = `${PLAYBACK_DIRECTORY}segment_${this.segmentCount++}.wav`;
+
+    this.writing = this.writing
+      .then(async () => {
+        await FileSystem.makeDirectoryAsync(PLAYBACK_DIRECTORY, { intermediates: true }).catch(() => {});
+        await FileSystem.writeAsStringAsync(uri, bytesToBase64(createWav(pcm)), {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        if (generation !== this.generation) {
+          await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+          return;
+        }
+        this.queue.push({ uri, itemId, durationMs: pcmDurationMs(pcm.length) });
+        if (!this.playing) {
+          this.playNext();
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to queue reply audio:', error);
+      });
+  }
+
+  private async playNext(): Promise<void> {
+    const segment = this.queue.shift();
+    if (!segment) {
+      this.playing = false;
+      if (this.complete) {
+        this.endPlayback();
+      }
+      return;
+    }
+
+    this.playing = true;
+    if (!this.started) {
+      this.started = true;
+      this.callbacks.onPlaybackStart?.();
+    }
+
+    const generation = this.generation;
+    try {
+      const { sound } = await Audio.Sound.createAsync({ uri: segment.uri }, { shouldPlay: true });
+      if (generation !== this.generation) {
+        await sound.unloadAsync().catch(() => {});
+        return;
+      }
+      this.current = { sound, segment };
+      sound.setOnPlaybackStatusUpdate((status) => {
+        if (status.isLoaded && status.didJustFinish) {
+          this.finishSegment(sound);
+        } else if (!status.isLoaded && status.error) {
+          console.warn('Reply playback error:', status.error);
+          this.finishSegment(sound);
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to play reply segment:', error);
+      await FileSystem.deleteAsync(segment.uri, { idempotent: true }).catch(() => {});
+      if (generation === this.generation) {
+        this.playNext();
+      }
+    }
+  }
+
+  private finishSegment(sound: Audio.Sound): void {
+    if (this.current?.sound !== sound) return;
+
+    const { segment } = this.current;
+    this.current = null;
+    this.playedMs.set(segment.itemId, (this.playedMs.get(segment.itemId) || 0) + segment.durationMs);
+    sound.unloadAsync().catch(() => {});
+    FileSystem.deleteAsync(segment.uri, { idempotent: true }).catch(() => {});
+    this.playNext();
+  }
+
+  private endPlayback(): void {
+    if (!this.started) return;
+    this.started = false;
+    this.complete = false;
+    this.playedMs.clear();
+    this.receivedMs.clear();
+    this.callbacks.onPlaybackEnd?.();
+  }
+}
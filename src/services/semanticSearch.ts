@@ -0,0 +1,219 @@
+import { Conversation, MessageSearchResult } from '@/types';
+import { ConversationRepository, StoredEmbedding } from './conversationRepository';
+import { getEmbedder } from './embeddings';
+import { centroid, cosineSimilarity, hashContent, normalizeVector } from '@/utils/vectors';
+import { buildSnippet } from '@/utils/textSearch';
+
+// Messages sent to the embedder per request
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Wait for a conversation to settle (e.g. a streamed response) before embedding it
+const INDEXING_DELAY = 2000;
+
+// Older conversations are indexed a few at a time, pausing in between so it stays in the background
+const BACKFILL_BATCH_SIZE = 5;
+const BACKFILL_PAUSE = 1000;
+
+// Matches below this similarity are noise for typical embedding models
+const MIN_SIMILARITY = 0.25;
+
+/**
+ * Semantic search over message embeddings. Every active message is embedded
+ * once and stored with a hash of its text, so an edited message is embedded
+ * again on the next indexing pass while unchanged ones are reused.
+ */
+export class SemanticSearchService {
+  // Stored vectors for the current embedder, dropped whenever embeddings change
+  private static vectorCache: { embedderId: string; embeddings: StoredEmbedding[] } | null = null;
+  private static pendingIndexing = new Map<string, ReturnType<typeof setTimeout>>();
+  private static backfillPromise: Promise<void> | null = null;
+
+  // Drop cached vectors after conversations are saved or deleted
+  static invalidate(): void {
+    this.vectorCache = null;
+  }
+
+  // Index a conversation shortly, coalescing repeated saves
+  static scheduleIndexing(conversationId: string): void {
+    const pending = this.pendingIndexing.get(conversationId);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.pendingIndexing.set(conversationId, setTimeout(() => {
+      this.pendingIndexing.delete(conversationId);
+      this.indexConversation(conversationId).catch(error => {
+        console.warn('Failed to index conversation for semantic search:', error);
+      });
+    }, INDEXING_DELAY));
+  }
+
+  // Embed the conversation's messages that are new, edited or from another embedder
+  static async indexConversation(conversationId: string): Promise<number> {
+    const embedder = getEmbedder();
+    const candidates = await ConversationRepository.getEmbeddingCandidates(conversationId);
+
+    const stale = candidates
+      .filter(candidate => candidate.content.trim().length > 0)
+      .map(candidate => ({ ...candidate, hash: hashContent(candidate.content) }))
+      .filter(candidate => candidate.embedderId !== embedder.id || candidate.contentHash !== candidate.hash);
+
+    for (let start = 0; start < stale.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = stale.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const vectors = await embedder.embed(
+        batch.map(candidate => embedder.truncate(candidate.content))
+      );
+
+      await ConversationRepository.saveEmbeddings(
+        conversationId,
+        embedder.id,
+        batch.map((candidate, index) => ({
+          messageId: candidate.messageId,
+          contentHash: candidate.hash,
+          vector: normalizeVector(vectors[index]),
+        }))
+      );
+    }
+
+    if (stale.length > 0) {
+      this.invalidate();
+      console.log(`🧭 Embedded ${stale.length} messages of ${conversationId}`);
+    }
+    return stale.length;
+  }
+
+  /**
+   * Bring older conversations' embeddings up to date in the background, most
+   * recent first (once per session). Saves are indexed as they happen, so this
+   * only catches up on history; searches cover whatever is indexed so far.
+   */
+  static startBackfill(): void {
+    if (this.backfillPromise) return;
+
+    this.backfillPromise = (async () => {
+      const ids = await ConversationRepository.getConversationIds();
+      let embedded = 0;
+      for (let start = 0; start < ids.length; start += BACKFILL_BATCH_SIZE) {
+        for (const id of ids.slice(start, start + BACKFILL_BATCH_SIZE)) {
+          embedded += await this.indexConversation(id);
+        }
+        await new Promise(resolve => setTimeout(resolve, BACKFILL_PAUSE));
+      }
+      console.log(`🧭 Semantic search backfill done (${embedded} messages embedded)`);
+    })().catch(error => {
+      console.warn('Semantic search backfill stopped:', error);
+      // Try again on the next search
+      this.backfillPromise = null;
+    });
+  }
+
+  // Messages closest in meaning to the query, best first
+  static async searchMessages(query: string, limit = 20): Promise<MessageSearchResult[]> {
+    const scored = await this.scoreMessages(query);
+    const top = scored.slice(0, limit);
+    const summaries = await ConversationRepository.getMessageSummaries(top.map(item => item.messageId));
+    const summariesById = new Map(summaries.map(summary => [summary.messageId, summary]));
+
+    return top.flatMap(item => {
+      const summary = summariesById.get(item.messageId);
+      if (!summary) return [];
+
+      const snippet = buildSnippet(summary.content, []);
+      return [{
+        conversationId: summary.conversationId,
+        conversationTitle: summary.conversationTitle,
+        messageId: summary.messageId,
+        role: summary.role,
+        timestamp: summary.timestamp,
+        snippet: snippet.text,
+        highlights: [],
+        rank: 1 - item.similarity,
+        similarity: item.similarity,
+      }];
+    });
+  }
+
+  // Best message similarity per conversation, for ranking conversations by meaning
+  static async rankConversations(query: string): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    (await this.scoreMessages(query)).forEach(item => {
+      scores.set(item.conversationId, Math.max(scores.get(item.conversationId) ?? 0, item.similarity));
+    });
+    return scores;
+  }
+
+  /**
+   * Conversations most similar to `conversationId`, comparing the mean
+   * embedding of each conversation. Results come without messages, like
+   * ConversationStorageService.getConversations.
+   */
+  static async getRelatedConversations(conversationId: string, limit = 5): Promise<Conversation[]> {
+    await this.indexConversation(conversationId);
+    const embeddings = await this.loadEmbeddings();
+
+    const vectorsByConversation = new Map<string, Float32Array[]>();
+    embeddings.forEach(embedding => {
+      const vectors = vectorsByConversation.get(embedding.conversationId) || [];
+      vectors.push(embedding.vector);
+      vectorsByConversation.set(embedding.conversationId, vectors);
+    });
+
+    const target = centroid(vectorsByConversation.get(conversationId) || []);
+    if (!target) {
+      return [];
+    }
+
+    const scores = new Map<string, number>();
+    vectorsByConversation.forEach((vectors, id) => {
+      const candidate = centroid(vectors);
+      if (id === conversationId || !candidate) return;
+
+      const similarity = cosineSimilarity(target, candidate);
+      if (similarity >= MIN_SIMILARITY) {
+        scores.set(id, similarity);
+      }
+    });
+
+    const related = await ConversationRepository.queryConversations(
+      { isArchived: false },
+      Array.from(scores.keys())
+    );
+    return related
+      .sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0))
+      .slice(0, limit);
+  }
+
+  private static async scoreMessages(
+    query: string
+  ): Promise<Array<{ messageId: string; conversationId: string; similarity: number }>> {
+    if (!query.trim()) {
+      return [];
+    }
+
+    this.startBackfill();
+
+    const embedder = getEmbedder();
+    const [queryVector] = await embedder.embed([embedder.truncate(query)]);
+    const normalizedQuery = normalizeVector(queryVector);
+
+    return (await this.loadEmbeddings())
+      .map(embedding => ({
+        messageId: embedding.messageId,
+        conversationId: embedding.conversationId,
+        similarity: cosineSimilarity(normalizedQuery, embedding.vector),
+      }))
+      .filter(item => item.similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  private static async loadEmbeddings(): Promise<StoredEmbedding[]> {
+    const embedderId = getEmbedder().id;
+    if (this.vectorCache?.embedderId !== embedderId) {
+      this.vectorCache = {
+        embedderId,
+        embeddings: await ConversationRepository.getEmbeddings(embedderId),
+      };
+    }
+    return this.vectorCache.embeddings;
+  }
+}
@@ -1,10 +1,14 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
-import { AppSettings } from '@/types';
+import { AppSettings, CustomProviderConfig } from '@/types';
+import { DEFAULT_PERSONA_ID } from './personas';
+import { DEFAULT_VAD_HANG_TIME, DEFAULT_VAD_SILENCE_THRESHOLD } from '@/utils/voiceActivity';
 
 // Storage keys
 const SETTINGS_KEY = '@app_settings';
 const SECURE_API_KEY = 'openai_api_key';
+const CUSTOM_PROVIDERS_KEY = '@custom_providers';
+const getCustomProviderKeyName = (providerId: string) => `custom_provider_key_${providerId}`;
 
 // Default settings
 const DEFAULT_SETTINGS: AppSettings = {
@@ -15,6 +19,10 @@ const DEFAULT_SETTINGS: AppSettings = {
   temperature: 0.7,
   systemPrompt: undefined,
   apiTimeout: 30000,
+
+  // Personas
+  personas: [],
+  defaultPersonaId: DEFAULT_PERSONA_ID,
   
   // Voice Settings
   voiceType: 'alloy',
@@ -23,6 +31,12 @@ const DEFAULT_SETTINGS: AppSettings = {
   voiceVolume: 1.0,
   autoPlayAudio: true,
   autoStopAudio: true,
+  handsFreeVoice: true,
+  vadSilenceThreshold: DEFAULT_VAD_SILENCE_THRESHOLD,
+  vadHangTime: DEFAULT_VAD_HANG_TIME,
+  voiceBargeIn: false,
+  voiceEngine: 'classic',
+  realtimeUrl: '',
   
   // Audio Settings
   audioQuality: 'standard',
@@ -54,6 +68,7 @@ const DEFAULT_SETTINGS: AppSettings = {
   dataCollection: true,
   biometricLock: false,
   autoLockTimeout: 300000, // 5 minutes
+  memoryEnabled: false,
   
   // Backup Settings
   autoBackup: false,
@@ -73,7 +88,37 @@ const DEFAULT_SETTINGS: AppSettings = {
   logLevel: 'warn',
 };
 
+type SettingsChangeListener = (settings: AppSettings) => void;
+
 export class SettingsStorageService {
+  private static changeListeners = new Set<SettingsChangeListener>();
+
+  // Subscribe to saved settings changes; returns an unsubscribe function
+  static addChangeListener(listener: SettingsChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private static async notifyChangeListeners(): Promise<void> {
+    if (this.changeListeners.size === 0) return;
+
+    const settings = await this.loadSettings();
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(settings);
+      } catch (error) {
+        console.error('Settings change listener failed:', error);
+      }
+    });
+  }
+
+  // Defaults used before stored settings are loaded
+  static getDefaultSettings(): AppSettings {
+    return { ...DEFAULT_SETTINGS };
+  }
+
   // Load all settings
   static async loadSettings(): Promise<AppSettings> {
     try {
@@ -117,6 +162,8 @@ export class SettingsStorageService {
           await SecureStore.setItemAsync(SECURE_API_KEY, openaiApiKey);
         }
       }
+
+      await this.notifyChangeListeners();
     } catch (error) {
       console.error('Failed to save settings:', error);
       throw new Error('Failed to save settings');
@@ -150,11 +197,76 @@ export class SettingsStorageService {
     }
   }
 
+  // Load user-defined OpenAI-compatible providers, with their keys from SecureStore
+  static async getCustomProviders(): Promise<CustomProviderConfig[]> {
+    try {
+      const data = await AsyncStorage.getItem(CUSTOM_PROVIDERS_KEY);
+      const providers: CustomProviderConfig[] = data ? JSON.parse(data) : [];
+
+      return await Promise.all(
+        providers.map(async (provider) => {
+          const apiKey = await SecureStore.getItemAsync(getCustomProviderKeyName(provider.id));
+          return apiKey ? { ...provider, apiKey } : provider;
+        })
+      );
+    } catch (error) {
+      console.error('Failed to load custom providers:', error);
+      return [];
+    }
+  }
+
+  // Add or replace a custom provider (matched by id)
+  static async saveCustomProvider(provider: CustomProviderConfig): Promise<void> {
+    try {
+      const { apiKey, ...providerToStore } = provider;
+      const providers = await this.getCustomProviders();
+      const storedProviders = providers
+        .filter(existing => existing.id !== provider.id)
+        .map(({ apiKey: _, ...existing }) => existing);
+      storedProviders.push(providerToStore);
+
+      await AsyncStorage.setItem(CUSTOM_PROVIDERS_KEY, JSON.stringify(storedProviders));
+
+      if (apiKey && apiKey.trim() !== '') {
+        await SecureStore.setItemAsync(getCustomProviderKeyName(provider.id), apiKey.trim());
+      } else {
+        await SecureStore.deleteItemAsync(getCustomProviderKeyName(provider.id));
+      }
+    } catch (error) {
+      console.error('Failed to save custom provider:', error);
+      throw new Error('Failed to save custom provider');
+    }
+  }
+
+  // Remove a custom provider and its stored key
+  static async deleteCustomProvider(providerId: string): Promise<void> {
+    try {
+      const providers = await this.getCustomProviders();
+      const storedProviders = providers
+        .filter(provider => provider.id !== providerId)
+        .map(({ apiKey: _, ...provider }) => provider);
+
+      await AsyncStorage.setItem(CUSTOM_PROVIDERS_KEY, JSON.stringify(storedProviders));
+      await SecureStore.deleteItemAsync(getCustomProviderKeyName(providerId));
+    } catch (error) {
+      console.error('Failed to delete custom provider:', error);
+      throw new Error('Failed to delete custom provider');
+    }
+  }
+
   // Reset all settings to defaults
   static async resetSettings(): Promise<void> {
     try {
+      const customProviders = await this.getCustomProviders();
+      await Promise.all(
+        customProviders.map(provider =>
+          SecureStore.deleteItemAsync(getCustomProviderKeyName(provider.id))
+        )
+      );
+      await AsyncStorage.removeItem(CUSTOM_PROVIDERS_KEY);
       await AsyncStorage.removeItem(SETTINGS_KEY);
       await SecureStore.deleteItemAsync(SECURE_API_KEY);
+      await this.notifyChangeListeners();
     } catch (error) {
       console.error('Failed to reset settings:', error);
       throw new Error('Failed to reset settings');
@@ -300,6 +412,12 @@ export class SettingsStorageService {
           voiceVolume: DEFAULT_SETTINGS.voiceVolume,
           autoPlayAudio: DEFAULT_SETTINGS.autoPlayAudio,
           autoStopAudio: DEFAULT_SETTINGS.autoStopAudio,
+          handsFreeVoice: DEFAULT_SETTINGS.handsFreeVoice,
+          vadSilenceThreshold: DEFAULT_SETTINGS.vadSilenceThreshold,
+          vadHangTime: DEFAULT_SETTINGS.vadHangTime,
+          voiceBargeIn: DEFAULT_SETTINGS.voiceBargeIn,
+          voiceEngine: DEFAULT_SETTINGS.voiceEngine,
+          realtimeUrl: DEFAULT_SETTINGS.realtimeUrl,
         };
       case 'audio':
         return {
@@ -327,6 +445,21 @@ export class SettingsStorageService {
           dataCollection: DEFAULT_SETTINGS.dataCollection,
           biometricLock: DEFAULT_SETTINGS.biometricLock,
           autoLockTimeout: DEFAULT_SETTINGS.autoLockTimeout,
+          memoryEnabled: DEFAULT_SETTINGS.memoryEnabled,
+        };
+      case 'backup':
+        return {
+          autoBackup: DEFAULT_SETTINGS.autoBackup,
+          backupFrequency: DEFAULT_SETTINGS.backupFrequency,
+          cloudBackupEnabled: DEFAULT_SETTINGS.cloudBackupEnabled,
+          backupIncludeAudio: DEFAULT_SETTINGS.backupIncludeAudio,
+        };
+      case 'accessibility':
+        return {
+          voiceOverEnabled: DEFAULT_SETTINGS.voiceOverEnabled,
+          highContrast: DEFAULT_SETTINGS.highContrast,
+          reduceMotion: DEFAULT_SETTINGS.reduceMotion,
+          largeText: DEFAULT_SETTINGS.largeText,
         };
       default:
         return {};
@@ -367,6 +500,24 @@ export class SettingsStorageService {
       }
     }
     
+    if (settings.vadSilenceThreshold !== undefined) {
+      if (settings.vadSilenceThreshold < 3 || settings.vadSilenceThreshold > 30) {
+        errors.push('Speech detection threshold must be between 3 and 30 dB');
+      }
+    }
+    
+    if (settings.vadHangTime !== undefined) {
+      if (settings.vadHangTime < 300 || settings.vadHangTime > 5000) {
+        errors.push('End-of-speech pause must be between 0.3 and 5 seconds');
+      }
+    }
+    
+    if (settings.realtimeUrl) {
+      if (!/^wss?:\/\//.test(settings.realtimeUrl)) {
+        errors.push('Realtime server URL must start with ws:// or wss://');
+      }
+    }
+    
     if (settings.audioFileRetentionDays !== undefined) {
       if (settings.audioFileRetentionDays < 1 || settings.audioFileRetentionDays > 365) {
         errors.push('Audio file retention must be between 1 and 365 days');
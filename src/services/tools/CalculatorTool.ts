@@ -1,8 +1,19 @@
 import { Tool } from '../AIAgentService';
+import { ToolParameterSchema } from '@/types';
 
 export class CalculatorTool implements Tool {
   name = 'Calculator';
-  description = 'Perform mathematical calculations and solve equations';
+  description = 'Perform mathematical calculations: arithmetic, percentages, powers and square roots';
+  parameters: ToolParameterSchema = {
+    type: 'object',
+    properties: {
+      expression: {
+        type: 'string',
+        description: 'The calculation to perform, e.g. "(12.5 * 4) / 3", "15% of 240" or "square root of 144"',
+      },
+    },
+    required: ['expression'],
+  };
 
   shouldActivate(query: string): boolean {
     const lowerQuery = query.toLowerCase();
@@ -29,7 +40,8 @@ export class CalculatorTool implements Tool {
     return hasKeywords || hasSymbols || hasNumberPattern;
   }
 
-  async execute(query: string): Promise<string> {
+  async execute(args: { expression?: string }): Promise<string> {
+    const query = args.expression || '';
     try {
       console.log('🧮 Executing calculation for:', query);
 
@@ -1,8 +1,19 @@
 import { Tool } from '../AIAgentService';
+import { ToolParameterSchema } from '@/types';
 
 export class DateTimeTool implements Tool {
   name = 'DateTime';
-  description = 'Provide current date, time, and time-related calculations';
+  description = 'Provide the current date, time and timezone on the user\'s device, and date calculations such as days until or since a date';
+  parameters: ToolParameterSchema = {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'What is needed, e.g. "current time", "what day is tomorrow", "days until 2026-12-25", "3 weeks ago"',
+      },
+    },
+    required: ['query'],
+  };
 
   shouldActivate(query: string): boolean {
     const lowerQuery = query.toLowerCase();
@@ -19,7 +30,8 @@ export class DateTimeTool implements Tool {
     return timeKeywords.some(keyword => lowerQuery.includes(keyword));
   }
 
-  async execute(query: string): Promise<string> {
+  async execute(args: { query?: string }): Promise<string> {
+    const query = args.query || '';
     try {
       console.log('📅 Executing date/time query for:', query);
 
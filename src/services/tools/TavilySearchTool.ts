@@ -1,8 +1,21 @@
 import { Tool } from '../AIAgentService';
+import { ToolParameterSchema } from '@/types';
+import { isAbortError } from '@/utils/openai';
+import { UsageLedgerService } from '../usageLedger';
 
 export class TavilySearchTool implements Tool {
   name = 'TavilySearch';
-  description = 'Search the web for current information using Tavily AI';
+  description = 'Search the web for current information using Tavily AI. Use for news, live data (prices, weather, scores) and anything that may have changed after your training cutoff.';
+  parameters: ToolParameterSchema = {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Search query, phrased the way you would type it into a search engine',
+      },
+    },
+    required: ['query'],
+  };
   private apiKey: string;
   private baseUrl = 'https://api.tavily.com/search';
 
@@ -34,7 +47,8 @@ export class TavilySearchTool implements Tool {
            /latest\s+(news|update|information)/i.test(query);
   }
 
-  async execute(query: string): Promise<string> {
+  async execute(args: { query?: string }, signal?: AbortSignal): Promise<string> {
+    const query = args.query || '';
     if (!this.apiKey) {
       throw new Error('Tavily API key not configured');
     }
@@ -58,12 +72,15 @@ export class TavilySearchTool implements Tool {
           include_domains: [],
           exclude_domains: []
         }),
+        signal,
       });
 
       if (!response.ok) {
         throw new Error(`Tavily API error: ${response.status}`);
       }
 
+      UsageLedgerService.recordSearch();
+
       const data = await response.json();
 
       if (data.answer) {
@@ -96,6 +113,9 @@ export class TavilySearchTool implements Tool {
       }
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Tavily search error:', error);
       throw new Error(`Web search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
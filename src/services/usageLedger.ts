@@ -0,0 +1,303 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Message, RealtimeUsage, UsageBudget, UsageKind, UsageRecord } from '@/types';
+import { ErrorType } from '@/types/errors';
+import {
+  estimateEmbeddingCost,
+  estimateRealtimeCost,
+  estimateSpeechCost,
+  estimateTokenCost,
+  estimateTranscriptionCost,
+  TAVILY_COST_PER_SEARCH,
+} from '@/config/costOptimization';
+import { ConversationRepository, UsageLedgerEntry } from './conversationRepository';
+import { ErrorHandlingService } from './errorHandling';
+
+const BUDGET_KEY = '@usage_budget';
+// Month (YYYY-MM) in which the budget warning was last shown
+const BUDGET_WARNED_KEY = '@usage_budget_warned';
+
+const DEFAULT_BUDGET: UsageBudget = {
+  monthlyLimit: 0,
+  warningThreshold: 0.8,
+};
+
+const BUDGET_EXCEEDED_ERROR = 'BudgetExceededError';
+
+export type BudgetState = 'none' | 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  budget: UsageBudget;
+  // Estimated spend this calendar month, in USD
+  spent: number;
+  state: BudgetState;
+}
+
+export interface UsageBreakdownItem {
+  key: string;
+  label?: string;
+  cost: number;
+  requests: number;
+}
+
+export interface UsageSummary {
+  totalCost: number;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  audioSeconds: number;
+  characters: number;
+  // One entry per local day (YYYY-MM-DD) from `since` to today, including days without usage
+  byDay: UsageBreakdownItem[];
+  // Sorted by cost, highest first
+  byModel: UsageBreakdownItem[];
+  byConversation: UsageBreakdownItem[];
+  byKind: UsageBreakdownItem[];
+}
+
+const generateUsageId = () => `usage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const toMonthKey = (date: Date) => toDayKey(date).slice(0, 7);
+
+export function getMonthStart(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function isBudgetExceededError(error: any): boolean {
+  return error instanceof Error && error.name === BUDGET_EXCEEDED_ERROR;
+}
+
+/**
+ * Local ledger of billed API calls with estimated costs. Recording never
+ * throws: a failed write only loses a ledger row, never a reply.
+ */
+export class UsageLedgerService {
+  // Chat completion usage as reported by the provider on the response
+  static async recordChat(model: string, response: Message, conversationId?: string): Promise<void> {
+    const usage = response.metadata?.usage;
+    if (!usage) {
+      return;
+    }
+
+    await this.addRecord({
+      kind: 'chat',
+      model,
+      conversationId,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      // Custom servers have no known price list
+      cost: model.startsWith('custom:') ? 0 : estimateTokenCost(usage.promptTokens, usage.completionTokens, model),
+    });
+  }
+
+  static async recordTranscription(audioSeconds: number, model: string = 'whisper-1'): Promise<void> {
+    await this.addRecord({
+      kind: 'transcription',
+      model,
+      audioSeconds,
+      cost: estimateTranscriptionCost(audioSeconds),
+    });
+  }
+
+  static async recordSpeech(characters: number, model: string = 'tts-1'): Promise<void> {
+    await this.addRecord({
+      kind: 'speech',
+      model,
+      characters,
+      cost: estimateSpeechCost(characters, model),
+    });
+  }
+
+  // Semantic search indexing and queries
+  static async recordEmbedding(tokens: number, model: string = 'text-embedding-3-small'): Promise<void> {
+    await this.addRecord({
+      kind: 'embedding',
+      model,
+      promptTokens: tokens,
+      cost: estimateEmbeddingCost(tokens, model),
+    });
+  }
+
+  // One realtime voice response; input includes the conversation so far
+  static async recordRealtime(model: string, usage: RealtimeUsage, conversationId?: string): Promise<void> {
+    await this.addRecord({
+      kind: 'realtime',
+      model,
+      conversationId,
+      promptTokens: usage.inputTokens,
+      completionTokens: usage.outputTokens,
+      cost: estimateRealtimeCost(usage),
+    });
+  }
+
+  static async recordSearch(service: string = 'tavily'): Promise<void> {
+    await this.addRecord({
+      kind: 'search',
+      model: service,
+      cost: TAVILY_COST_PER_SEARCH,
+    });
+  }
+
+  private static async addRecord(record: Omit<UsageRecord, 'id' | 'timestamp'>): Promise<void> {
+    try {
+      await ConversationRepository.addUsageRecord({
+        ...record,
+        id: generateUsageId(),
+        timestamp: new Date(),
+      });
+      await this.checkBudgetWarning();
+    } catch (error) {
+      console.warn('Failed to record usage:', error);
+    }
+  }
+
+  // Totals and breakdowns for the dashboard
+  static async getSummary(since: Date): Promise<UsageSummary> {
+    const records = await ConversationRepository.getUsageRecords(since);
+
+    const byDay = new Map<string, UsageBreakdownItem>();
+    for (let day = new Date(since.getFullYear(), since.getMonth(), since.getDate()); day <= new Date(); day.setDate(day.getDate() + 1)) {
+      byDay.set(toDayKey(day), { key: toDayKey(day), cost: 0, requests: 0 });
+    }
+    const byModel = new Map<string, UsageBreakdownItem>();
+    const byConversation = new Map<string, UsageBreakdownItem>();
+    const byKind = new Map<UsageKind, UsageBreakdownItem>();
+
+    const add = <K extends string>(groups: Map<K, UsageBreakdownItem>, key: K, record: UsageLedgerEntry, label?: string) => {
+      const group = groups.get(key) || { key, label, cost: 0, requests: 0 };
+      group.cost += record.cost;
+      group.requests++;
+      groups.set(key, group);
+    };
+
+    const summary: UsageSummary = {
+      totalCost: 0,
+      requests: records.length,
+      promptTokens: 0,
+      completionTokens: 0,
+      audioSeconds: 0,
+      characters: 0,
+      byDay: [],
+      byModel: [],
+      byConversation: [],
+      byKind: [],
+    };
+
+    for (const record of records) {
+      summary.totalCost += record.cost;
+      summary.promptTokens += record.promptTokens || 0;
+      summary.completionTokens += record.completionTokens || 0;
+      summary.audioSeconds += record.audioSeconds || 0;
+      summary.characters += record.characters || 0;
+
+      add(byDay, toDayKey(record.timestamp), record);
+      add(byModel, record.model, record);
+      add(byKind, record.kind, record);
+      if (record.conversationId) {
+        add(byConversation, record.conversationId, record, record.conversationTitle);
+      }
+    }
+
+    const byCost = (a: UsageBreakdownItem, b: UsageBreakdownItem) => b.cost - a.cost || b.requests - a.requests;
+    summary.byDay = Array.from(byDay.values()).sort((a, b) => a.key.localeCompare(b.key));
+    summary.byModel = Array.from(byModel.values()).sort(byCost);
+    summary.byConversation = Array.from(byConversation.values()).sort(byCost);
+    summary.byKind = Array.from(byKind.values()).sort(byCost);
+    return summary;
+  }
+
+  static async getBudget(): Promise<UsageBudget> {
+    try {
+      const data = await AsyncStorage.getItem(BUDGET_KEY);
+      return data ? { ...DEFAULT_BUDGET, ...JSON.parse(data) } : { ...DEFAULT_BUDGET };
+    } catch (error) {
+      console.error('Failed to load usage budget:', error);
+      return { ...DEFAULT_BUDGET };
+    }
+  }
+
+  static async saveBudget(budget: UsageBudget): Promise<void> {
+    await AsyncStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+    // A new limit gets its own warning
+    await AsyncStorage.removeItem(BUDGET_WARNED_KEY);
+  }
+
+  static async getBudgetStatus(): Promise<BudgetStatus> {
+    const budget = await this.getBudget();
+    const spent = await ConversationRepository.getUsageCost(getMonthStart());
+
+    let state: BudgetState = 'none';
+    if (budget.monthlyLimit > 0) {
+      if (spent >= budget.monthlyLimit) {
+        state = 'exceeded';
+      } else if (spent >= budget.monthlyLimit * budget.warningThreshold) {
+        state = 'warning';
+      } else {
+        state = 'ok';
+      }
+    }
+
+    return { budget, spent, state };
+  }
+
+  /**
+   * Throw before a new request once this month's budget is used up. The user
+   * is told through ErrorHandlingService; callers only need to stop. Background
+   * work (titles, memories, indexing, speech) passes `notify: false` so one
+   * reply does not raise an alert per follow-up call.
+   */
+  static async assertWithinBudget(options: { notify?: boolean } = {}): Promise<void> {
+    let status: BudgetStatus;
+    try {
+      status = await this.getBudgetStatus();
+    } catch (error) {
+      // A broken ledger must not lock the user out
+      console.warn('Failed to check usage budget:', error);
+      return;
+    }
+
+    if (status.state !== 'exceeded') {
+      return;
+    }
+
+    if (options.notify !== false) {
+      const errorHandler = ErrorHandlingService.getInstance();
+      errorHandler.handleError(errorHandler.createBudgetError(ErrorType.BUDGET_EXCEEDED, {
+        spent: status.spent,
+        limit: status.budget.monthlyLimit,
+      }));
+    }
+
+    const error = new Error('Monthly budget exceeded');
+    error.name = BUDGET_EXCEEDED_ERROR;
+    throw error;
+  }
+
+  // Warn once per month when spend first passes the warning threshold
+  private static async checkBudgetWarning(): Promise<void> {
+    const status = await this.getBudgetStatus();
+    if (status.state !== 'warning' && status.state !== 'exceeded') {
+      return;
+    }
+
+    const month = toMonthKey(new Date());
+    if (await AsyncStorage.getItem(BUDGET_WARNED_KEY) === month) {
+      return;
+    }
+    await AsyncStorage.setItem(BUDGET_WARNED_KEY, month);
+
+    const errorHandler = ErrorHandlingService.getInstance();
+    errorHandler.handleError(errorHandler.createBudgetError(ErrorType.BUDGET_WARNING, {
+      spent: status.spent,
+      limit: status.budget.monthlyLimit,
+    }));
+  }
+
+  static async clearLedger(): Promise<void> {
+    await ConversationRepository.deleteUsageRecords();
+    await AsyncStorage.removeItem(BUDGET_WARNED_KEY);
+    console.log('🧾 Usage ledger cleared');
+  }
+}
@@ -31,6 +31,10 @@ export enum ErrorType {
   APP_MEMORY_WARNING = 'APP_MEMORY_WARNING',
   APP_UPDATE_REQUIRED = 'APP_UPDATE_REQUIRED',
   
+  // Budget Errors
+  BUDGET_WARNING = 'BUDGET_WARNING',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
+  
   // Feature Errors
   FEATURE_NOT_SUPPORTED = 'FEATURE_NOT_SUPPORTED',
   FEATURE_DISABLED = 'FEATURE_DISABLED',
@@ -4,16 +4,33 @@ export interface Message {
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
+  // Message this one replies to (null for the first message); see utils/messageTree
+  parentId?: string | null;
   audioUrl?: string;
   isLoading?: boolean;
+  isStreaming?: boolean;
   error?: string;
   tokenCount?: number;
   imageUrl?: string;
   imageBase64?: string;
+  // Function calling turns; only present on transient messages inside the agent tool loop
+  toolCalls?: ToolCall[];
+  toolResults?: ToolResult[];
   metadata?: {
     inputType?: 'voice' | 'text' | 'image';
     model?: string;
     processingTime?: number;
+    stopped?: boolean;
+    // Voice mode reply cut off by the user; only spokenText was read aloud
+    speechInterrupted?: boolean;
+    spokenText?: string;
+    agentUsed?: boolean;
+    toolsUsed?: string[];
+    usage?: {
+      promptTokens: number;
+      completionTokens: number;
+      totalTokens: number;
+    };
     audioSettings?: {
       voice?: VoiceType;
       speed?: number;
@@ -41,9 +58,42 @@ export interface Message {
   };
 }
 
+// JSON schema describing a tool's arguments, passed to the model for function calling
+export interface ToolParameterSchema {
+  type: 'object';
+  properties: Record<string, {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    description?: string;
+    enum?: string[];
+    items?: { type: string };
+  }>;
+  required?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+}
+
 export interface Conversation {
   id: string;
+  // Active branch, from the first message to the latest
   messages: Message[];
+  // Messages on inactive branches, linked into the tree through parentId
+  branchMessages?: Message[];
   title: string;
   createdAt: Date;
   updatedAt: Date;
@@ -51,15 +101,33 @@ export interface Conversation {
   totalTokens?: number;
   lastActivity: Date;
   messageCount?: number;
+  // Start of the latest message, set on list results that are loaded without messages
+  lastMessagePreview?: string;
   tags?: string[];
   isStarred?: boolean;
+  // Rolling summary of the messages that no longer fit in the model context
   summary?: string;
+  // Last message covered by the summary; see services/conversationSummary
+  summarizedThroughId?: string;
   statistics?: ConversationStatistics;
+  // Persona the conversation was held with; see services/personas
+  personaId?: string;
+  settings?: ConversationSettings;
+}
+
+// Per-conversation overrides; unset fields fall back to the persona, then to AppSettings
+export interface ConversationSettings {
+  model?: ModelType;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  // false turns agent tools off for this conversation
+  toolsEnabled?: boolean;
 }
 
 // OpenAI API Types
 export interface OpenAIMessage {
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string | Array<{
     type: 'text' | 'image_url';
     text?: string;
@@ -68,6 +136,26 @@ export interface OpenAIMessage {
       detail?: 'low' | 'high' | 'auto';
     };
   }>;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: ToolParameterSchema;
+  };
 }
 
 export interface OpenAIChatRequest {
@@ -81,6 +169,12 @@ export interface OpenAIChatRequest {
   presence_penalty?: number;
   frequency_penalty?: number;
   stream?: boolean;
+  stream_options?: {
+    include_usage?: boolean;
+  };
+  tools?: OpenAITool[];
+  tool_choice?: 'auto' | 'none' | 'required';
+  parallel_tool_calls?: boolean;
   user?: string;
 }
 
@@ -92,7 +186,7 @@ export interface OpenAIChatResponse {
   choices: {
     index: number;
     message: OpenAIMessage;
-    finish_reason: 'stop' | 'length' | 'function_call' | 'content_filter' | null;
+    finish_reason: 'stop' | 'length' | 'function_call' | 'tool_calls' | 'content_filter' | null;
   }[];
   usage: {
     prompt_tokens: number;
@@ -101,6 +195,54 @@ export interface OpenAIChatResponse {
   };
 }
 
+export interface OpenAIChatStreamChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: 'function';
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
+    };
+    finish_reason: 'stop' | 'length' | 'function_call' | 'tool_calls' | 'content_filter' | null;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
+export interface OpenAIEmbeddingRequest {
+  model: string;
+  input: string[];
+}
+
+export interface OpenAIEmbeddingResponse {
+  object: 'list';
+  data: {
+    object: 'embedding';
+    index: number;
+    embedding: number[];
+  }[];
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
 export interface OpenAIWhisperRequest {
   file: File | Blob;
   model: string;
@@ -185,6 +327,10 @@ export interface AppSettings {
   temperature: number;
   systemPrompt?: string;
   apiTimeout: number;
+
+  // Personas
+  personas: Persona[];
+  defaultPersonaId: string;
   
   // Voice Settings
   voiceType: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
@@ -193,6 +339,18 @@ export interface AppSettings {
   voiceVolume: number;
   autoPlayAudio: boolean;
   autoStopAudio: boolean;
+  // Voice mode ends turns on silence and reopens the mic after each reply
+  handsFreeVoice: boolean;
+  // Decibels above the ambient noise that count as speech
+  vadSilenceThreshold: number;
+  // Milliseconds of silence that end a turn
+  vadHangTime: number;
+  // Speaking during a spoken reply interrupts it
+  voiceBargeIn: boolean;
+  // 'realtime' streams speech to a speech-to-speech model instead of Whisper, chat and TTS
+  voiceEngine: 'classic' | 'realtime';
+  // Realtime WebSocket endpoint; empty uses OpenAI
+  realtimeUrl: string;
   
   // Audio Settings
   audioQuality: 'standard' | 'hd';
@@ -224,6 +382,8 @@ export interface AppSettings {
   dataCollection: boolean;
   biometricLock: boolean;
   autoLockTimeout: number;
+  // Remember facts about the user across conversations (opt-in)
+  memoryEnabled: boolean;
   
   // Backup Settings
   autoBackup: boolean;
@@ -243,6 +403,36 @@ export interface AppSettings {
   logLevel: 'error' | 'warn' | 'info' | 'debug';
 }
 
+// User-defined OpenAI-compatible server (Ollama, llama.cpp, vLLM, ...)
+export interface CustomProviderConfig {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+  capabilities: {
+    vision: boolean;
+    tools: boolean;
+  };
+  createdAt: string;
+}
+
+// Assistant profile: a system prompt plus the model, sampling, tools and voice to use with it.
+// Optional fields fall back to the global settings.
+export interface Persona {
+  id: string;
+  name: string;
+  icon: string;
+  systemPrompt: string;
+  model?: ModelType;
+  temperature?: number;
+  // Agent tool names (e.g. 'TavilySearch'); all tools when undefined
+  enabledTools?: string[];
+  voice?: VoiceType;
+  // Built from SYSTEM_PROMPTS; not stored and not editable
+  isBuiltIn?: boolean;
+}
+
 // Action Types for State Management
 export type AppAction =
   | { type: 'SET_CONVERSATIONS'; payload: Conversation[] }
@@ -269,6 +459,7 @@ export interface StorageConversation {
     content: string;
     role: 'user' | 'assistant';
     timestamp: string;
+    parentId?: string | null;
     audioUrl?: string;
     imageUrl?: string;
     imageBase64?: string;
@@ -277,6 +468,16 @@ export interface StorageConversation {
       inputType?: 'voice' | 'text' | 'image';
       model?: string;
       processingTime?: number;
+      stopped?: boolean;
+      speechInterrupted?: boolean;
+      spokenText?: string;
+      agentUsed?: boolean;
+      toolsUsed?: string[];
+      usage?: {
+        promptTokens: number;
+        completionTokens: number;
+        totalTokens: number;
+      };
       audioSettings?: {
         voice?: VoiceType;
         speed?: number;
@@ -303,6 +504,7 @@ export interface StorageConversation {
       };
     };
   }[];
+  branchMessages?: StorageConversation['messages'];
   title: string;
   createdAt: string;
   updatedAt: string;
@@ -313,7 +515,10 @@ export interface StorageConversation {
   tags?: string[];
   isStarred?: boolean;
   summary?: string;
+  summarizedThroughId?: string;
   statistics?: ConversationStatistics;
+  personaId?: string;
+  settings?: ConversationSettings;
 }
 
 export interface ConversationStatistics {
@@ -342,12 +547,96 @@ export interface ConversationSearchFilters {
     min: number;
     max: number;
   };
+  // 'semantic' ranks by meaning using message embeddings instead of matching keywords
+  searchMode?: 'keyword' | 'semantic';
   sortBy?: 'createdAt' | 'updatedAt' | 'lastActivity' | 'messageCount' | 'title';
   sortOrder?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
 }
 
+// Reusable prompt with {{variable}} placeholders, inserted by typing /<command>
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  command: string;
+  content: string;
+  tags: string[];
+  usageCount: number;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A durable fact about the user, remembered across conversations
+export interface MemoryFact {
+  id: string;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Message the fact was learned from; absent for memories added by hand
+  source?: {
+    conversationId: string;
+    messageId: string;
+  };
+}
+
+// One billed API call in the local usage ledger; see services/usageLedger
+export type UsageKind = 'chat' | 'transcription' | 'speech' | 'search' | 'realtime' | 'embedding';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: Date;
+  kind: UsageKind;
+  // Registered model for chat, API model for audio, service name for search
+  model: string;
+  conversationId?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  // Seconds of audio sent for transcription
+  audioSeconds?: number;
+  // Characters converted to speech
+  characters?: number;
+  // Estimated cost in USD
+  cost: number;
+}
+
+// Token usage of one realtime voice response; audio tokens are counted within the totals
+export interface RealtimeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  inputAudioTokens: number;
+  outputAudioTokens: number;
+}
+
+// Monthly spending limit in USD; a limit of 0 means no budget
+export interface UsageBudget {
+  monthlyLimit: number;
+  // Fraction of the limit at which a warning is shown
+  warningThreshold: number;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// A message matched by full-text search, best match first
+export interface MessageSearchResult {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  // Excerpt around the first match, with the matched ranges of that excerpt
+  snippet: string;
+  highlights: TextRange[];
+  // Lower is better: bm25 for keyword matches, cosine distance for semantic ones
+  rank: number;
+  // Cosine similarity to the query, for semantic matches
+  similarity?: number;
+}
+
 export interface ConversationBackup {
   version: string;
   exportDate: string;
@@ -378,16 +667,32 @@ export interface StorageSettings {
 
 // Navigation Types
 export type RootStackParamList = {
-  ConversationList: undefined;
-  Chat: { conversationId?: string };
+  // Conversation to suggest related ones for (defaults to the last one saved)
+  ConversationList: { currentConversationId?: string } | undefined;
+  Chat: { conversationId?: string; messageId?: string };
   Settings: undefined;
+  APISettings: undefined;
+  VoiceSettings: undefined;
+  AudioSettings: undefined;
+  AppearanceSettings: undefined;
+  PrivacySettings: undefined;
+  BackupSettings: undefined;
+  AccessibilitySettings: undefined;
+  AboutScreen: undefined;
+  MemorySettings: undefined;
+  PersonaSettings: undefined;
+  PromptLibrary: undefined;
+  UsageDashboard: undefined;
   ConversationDetail: { conversationId: string };
 };
 
 // Utility Types
 export type MessageRole = 'user' | 'assistant' | 'system';
 export type VoiceType = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
-export type ModelType = 'gpt-4o' | 'gemini-2.5-flash';
+export type BuiltInModelType = 'gpt-4o' | 'gemini-2.5-flash' | 'claude-sonnet-4-5';
+// Models served by a user-defined OpenAI-compatible endpoint: `custom:<providerId>/<model>`
+export type CustomModelType = `custom:${string}`;
+export type ModelType = BuiltInModelType | CustomModelType;
 export type ThemeType = 'light' | 'dark' | 'system';
 export type AudioQualityType = 'standard' | 'hd';
 export type RecordingStatus = 'idle' | 'recording' | 'paused' | 'processing' | 'completed' | 'error';
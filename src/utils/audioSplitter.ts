@@ -0,0 +1,556 @@
+import * as FileSystem from 'expo-file-system';
+import { base64ToBytes, bytesToBase64, concatBytes } from './pcmAudio';
+
+// Splits long recordings into overlapping segments small enough for one
+// Whisper request. Segments are cut on frame boundaries and rewritten as
+// standalone files of the same format, reading the source in ranges so a
+// meeting-length file never has to fit in memory.
+
+export interface AudioSegment {
+  uri: string;
+  index: number;
+  // Seconds from the start of the original recording
+  start: number;
+  end: number;
+  size: number;
+}
+
+export interface SplitAudioOptions {
+  // Target size of each segment file in bytes
+  maxSegmentBytes: number;
+  // Seconds of audio shared by neighbouring segments
+  overlapSeconds: number;
+}
+
+export interface SplitAudioResult {
+  segments: AudioSegment[];
+  // Length of the whole recording in seconds
+  duration: number;
+}
+
+// A parsed recording that can write any time range as its own file
+interface AudioSource {
+  duration: number;
+  dataSize: number;
+  // Writes the frames covering [start, end) and returns the exact range written
+  writeRange(start: number, end: number, outputUri: string): Promise<{ start: number; end: number; size: number }>;
+}
+
+const SEGMENT_DIRECTORY = `${FileSystem.cacheDirectory}whisper-segments/`;
+// Containers add a little on top of the audio data
+const SIZE_MARGIN = 0.95;
+const READ_WINDOW = 512 * 1024;
+
+const FORMAT_EXTENSIONS: Record<string, 'wav' | 'mp3' | 'mp4'> = {
+  '.wav': 'wav',
+  '.mp3': 'mp3',
+  '.mpeg': 'mp3',
+  '.mpga': 'mp3',
+  '.m4a': 'mp4',
+  '.mp4': 'mp4',
+};
+
+const getExtension = (uri: string) => uri.toLowerCase().substring(uri.lastIndexOf('.'));
+
+export function isSplittableFormat(uri: string): boolean {
+  return getExtension(uri) in FORMAT_EXTENSIONS;
+}
+
+async function readBytes(uri: string, position: number, length: number): Promise<Uint8Array> {
+  if (length <= 0) return new Uint8Array(0);
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+  return base64ToBytes(base64);
+}
+
+async function writeBytes(uri: string, bytes: Uint8Array): Promise<void> {
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(bytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+}
+
+const readType = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const u16 = (value: number) => new Uint8Array([(value >>> 8) & 0xff, value & 0xff]);
+const u32 = (value: number) =>
+  new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+const ascii = (text: string) => new Uint8Array(Array.from(text, char => char.charCodeAt(0)));
+
+// Index of the last entry in a sorted array that is <= value
+function floorIndex(values: ArrayLike<number>, value: number): number {
+  let low = 0;
+  let high = values.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (values[mid] <= value) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+// ---------------------------------------------------------------------------
+// WAV: cut the sample data on block boundaries and reuse the original fmt chunk
+
+async function openWav(uri: string, fileSize: number): Promise<AudioSource> {
+  const header = await readBytes(uri, 0, Math.min(fileSize, 64 * 1024));
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  if (readType(header, 0) !== 'RIFF' || readType(header, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let fmtChunk: Uint8Array | null = null;
+  let dataOffset = -1;
+  let dataSize = 0;
+  for (let offset = 12; offset + 8 <= header.length;) {
+    const id = readType(header, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      fmtChunk = header.slice(offset, offset + 8 + size);
+    } else if (id === 'data') {
+      dataOffset = offset + 8;
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF
+      dataSize = size > 0 && size < 0xffffffff ? Math.min(size, fileSize - dataOffset) : fileSize - dataOffset;
+      break;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  if (!fmtChunk || dataOffset < 0) {
+    throw new Error('WAV file has no audio data');
+  }
+
+  const fmt = new DataView(fmtChunk.buffer, fmtChunk.byteOffset, fmtChunk.byteLength);
+  const sampleRate = fmt.getUint32(12, true);
+  const blockAlign = fmt.getUint16(20, true);
+  const byteRate = sampleRate * blockAlign;
+
+  return {
+    duration: dataSize / byteRate,
+    dataSize,
+    async writeRange(start, end, outputUri) {
+      const first = Math.floor(start * sampleRate) * blockAlign;
+      const last = Math.min(dataSize, Math.ceil(end * sampleRate) * blockAlign);
+      const pcm = await readBytes(uri, dataOffset + first, last - first);
+
+      const riff = new Uint8Array(12);
+      riff.set(ascii('RIFF'));
+      new DataView(riff.buffer).setUint32(4, 4 + fmtChunk!.length + 8 + pcm.length, true);
+      riff.set(ascii('WAVE'), 8);
+      const dataHeader = new Uint8Array(8);
+      dataHeader.set(ascii('data'));
+      new DataView(dataHeader.buffer).setUint32(4, pcm.length, true);
+
+      const wav = concatBytes([riff, fmtChunk!, dataHeader, pcm]);
+      await writeBytes(outputUri, wav);
+      return { start: first / byteRate, end: last / byteRate, size: wav.length };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// MP3: frames are self-contained, so a run of frames is a playable file
+
+// Kbps by [MPEG-1 ? 0 : 1][layer - 1][bitrate index]
+const MPEG_BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+// By version bits: MPEG-2.5, reserved, MPEG-2, MPEG-1
+const MPEG_SAMPLE_RATES = [[11025, 12000, 8000], [], [22050, 24000, 16000], [44100, 48000, 32000]];
+
+function parseMpegFrameHeader(b0: number, b1: number, b2: number): { length: number; seconds: number } | null {
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const version = (b1 >> 3) & 3;
+  const layer = 4 - ((b1 >> 1) & 3);
+  const bitrateIndex = (b2 >> 4) & 0x0f;
+  const sampleRateIndex = (b2 >> 2) & 3;
+  if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = version === 3;
+  const bitrate = MPEG_BITRATES[isMpeg1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+  const sampleRate = MPEG_SAMPLE_RATES[version][sampleRateIndex];
+  const padding = (b2 >> 1) & 1;
+
+  if (layer === 1) {
+    return { length: (Math.floor((12 * bitrate) / sampleRate) + padding) * 4, seconds: 384 / sampleRate };
+  }
+  const samples = layer === 3 && !isMpeg1 ? 576 : 1152;
+  return { length: Math.floor((samples / 8) * bitrate / sampleRate) + padding, seconds: samples / sampleRate };
+}
+
+async function openMp3(uri: string, fileSize: number): Promise<AudioSource> {
+  let window: Uint8Array = new Uint8Array(0);
+  let windowStart = 0;
+  const byteAt = async (position: number): Promise<number> => {
+    if (position < windowStart || position >= windowStart + window.length) {
+      windowStart = position;
+      window = await readBytes(uri, position, Math.min(READ_WINDOW, fileSize - position));
+    }
+    return window[position - windowStart];
+  };
+
+  // Skip an ID3v2 tag (its size is stored as a syncsafe integer)
+  let position = 0;
+  const head = await readBytes(uri, 0, Math.min(10, fileSize));
+  if (head.length === 10 && readType(head, 0).startsWith('ID3')) {
+    const tagSize = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+    position = 10 + tagSize + (head[5] & 0x10 ? 10 : 0);
+  }
+
+  const frameOffsets: number[] = [];
+  const frameTimes: number[] = [];
+  let time = 0;
+  let framesEnd = position;
+  while (position + 4 <= fileSize) {
+    const frame = parseMpegFrameHeader(await byteAt(position), await byteAt(position + 1), await byteAt(position + 2));
+    if (!frame || position + frame.length > fileSize) {
+      // Lost sync (tags, junk): look for the next frame
+      position++;
+      continue;
+    }
+    frameOffsets.push(position);
+    frameTimes.push(time);
+    time += frame.seconds;
+    position += frame.length;
+    framesEnd = position;
+  }
+  if (frameOffsets.length === 0) {
+    throw new Error('No MPEG audio frames found');
+  }
+  // Sentinel so the last frame has an end (trailing tags are left out)
+  frameOffsets.push(framesEnd);
+  frameTimes.push(time);
+
+  return {
+    duration: time,
+    dataSize: framesEnd - frameOffsets[0],
+    async writeRange(start, end, outputUri) {
+      const first = floorIndex(frameTimes, start);
+      const last = Math.min(frameTimes.length - 1, Math.max(first + 1, floorIndex(frameTimes, end) + 1));
+      const bytes = await readBytes(uri, frameOffsets[first], frameOffsets[last] - frameOffsets[first]);
+      await writeBytes(outputUri, bytes);
+      return { start: frameTimes[first], end: frameTimes[last], size: bytes.length };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// M4A/MP4: read the audio track's sample table and remux each range into a
+// minimal single-track file (ftyp, moov, mdat) that reuses the original codec config
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+function readBoxes(bytes: Uint8Array, start: number, end: number): Mp4Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Mp4Box[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type: readType(bytes, offset + 4), start: offset, dataStart: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(bytes: Uint8Array, parent: Mp4Box, path: string[]): Mp4Box | null {
+  let current: Mp4Box | undefined = parent;
+  for (const type of path) {
+    current = readBoxes(bytes, current.dataStart, current.end).find(child => child.type === type);
+    if (!current) return null;
+  }
+  return current;
+}
+
+const box = (type: string, ...payloads: Uint8Array[]) => {
+  const body = concatBytes(payloads);
+  return concatBytes([u32(body.length + 8), ascii(type), body]);
+};
+const fullBox = (type: string, version: number, flags: number, ...payloads: Uint8Array[]) =>
+  box(type, u32((version << 24) | flags), ...payloads);
+
+const UNITY_MATRIX = concatBytes([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32));
+
+async function openMp4(uri: string, fileSize: number): Promise<AudioSource> {
+  // Find the moov box among the top-level boxes, reading only their headers
+  let moov: Uint8Array | null = null;
+  for (let position = 0; position + 8 <= fileSize;) {
+    const header = await readBytes(uri, position, Math.min(16, fileSize - position));
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    let size = view.getUint32(0);
+    if (size === 1 && header.length >= 16) {
+      size = view.getUint32(8) * 2 ** 32 + view.getUint32(12);
+    } else if (size === 0) {
+      size = fileSize - position;
+    }
+    if (size < 8) break;
+    if (readType(header, 4) === 'moov') {
+      moov = await readBytes(uri, position, size);
+      break;
+    }
+    position += size;
+  }
+  if (!moov) {
+    throw new Error('MP4 file has no moov box');
+  }
+
+  const moovBox: Mp4Box = { type: 'moov', start: 0, dataStart: 8, end: moov.length };
+  const view = new DataView(moov.buffer, moov.byteOffset, moov.byteLength);
+  const track = readBoxes(moov, moovBox.dataStart, moovBox.end)
+    .filter(child => child.type === 'trak')
+    .find(trak => {
+      const hdlr = findBox(moov!, trak, ['mdia', 'hdlr']);
+      return !!hdlr && readType(moov!, hdlr.dataStart + 8) === 'soun';
+    });
+  if (!track) {
+    throw new Error('MP4 file has no audio track');
+  }
+
+  const mdhd = findBox(moov, track, ['mdia', 'mdhd']);
+  const hdlr = findBox(moov, track, ['mdia', 'hdlr']);
+  const minf = findBox(moov, track, ['mdia', 'minf']);
+  const stbl = minf && findBox(moov, minf, ['stbl']);
+  const stsd = stbl && findBox(moov, stbl, ['stsd']);
+  const stts = stbl && findBox(moov, stbl, ['stts']);
+  const stsc = stbl && findBox(moov, stbl, ['stsc']);
+  const stsz = stbl && findBox(moov, stbl, ['stsz']);
+  const chunkBox = stbl && (findBox(moov, stbl, ['stco']) || findBox(moov, stbl, ['co64']));
+  if (!mdhd || !hdlr || !minf || !stsd || !stts || !stsc || !stsz || !chunkBox) {
+    // Fragmented MP4 keeps its samples in moof boxes instead
+    throw new Error('MP4 audio track has no sample table');
+  }
+
+  const mdhdVersion = moov[mdhd.dataStart];
+  const timescale = view.getUint32(mdhd.dataStart + (mdhdVersion === 1 ? 20 : 12));
+  const language = view.getUint16(mdhd.dataStart + (mdhdVersion === 1 ? 32 : 20));
+
+  // Sample sizes
+  const sampleCount = view.getUint32(stsz.dataStart + 8);
+  const fixedSize = view.getUint32(stsz.dataStart + 4);
+  const sampleSizes = new Uint32Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    sampleSizes[i] = fixedSize || view.getUint32(stsz.dataStart + 12 + i * 4);
+  }
+
+  // Sample start times in media timescale units, plus an end sentinel
+  const sampleTimes = new Float64Array(sampleCount + 1);
+  let sample = 0;
+  let mediaTime = 0;
+  const sttsCount = view.getUint32(stts.dataStart + 4);
+  for (let entry = 0; entry < sttsCount; entry++) {
+    const count = view.getUint32(stts.dataStart + 8 + entry * 8);
+    const delta = view.getUint32(stts.dataStart + 12 + entry * 8);
+    for (let i = 0; i < count && sample < sampleCount; i++) {
+      sampleTimes[sample++] = mediaTime;
+      mediaTime += delta;
+    }
+  }
+  sampleTimes[sampleCount] = mediaTime;
+
+  // Sample file offsets from the chunk offsets and the sample-to-chunk runs
+  const is64 = chunkBox.type === 'co64';
+  const chunkCount = view.getUint32(chunkBox.dataStart + 4);
+  const chunkOffset = (chunk: number) =>
+    is64
+      ? view.getUint32(chunkBox.dataStart + 8 + chunk * 8) * 2 ** 32 + view.getUint32(chunkBox.dataStart + 12 + chunk * 8)
+      : view.getUint32(chunkBox.dataStart + 8 + chunk * 4);
+  const stscCount = view.getUint32(stsc.dataStart + 4);
+  const sampleOffsets = new Float64Array(sampleCount);
+  sample = 0;
+  for (let entry = 0; entry < stscCount; entry++) {
+    const firstChunk = view.getUint32(stsc.dataStart + 8 + entry * 12) - 1;
+    const samplesPerChunk = view.getUint32(stsc.dataStart + 12 + entry * 12);
+    const nextFirstChunk = entry + 1 < stscCount ? view.getUint32(stsc.dataStart + 8 + (entry + 1) * 12) - 1 : chunkCount;
+    for (let chunk = firstChunk; chunk < nextFirstChunk; chunk++) {
+      let offset = chunkOffset(chunk);
+      for (let i = 0; i < samplesPerChunk && sample < sampleCount; i++) {
+        sampleOffsets[sample] = offset;
+        offset += sampleSizes[sample++];
+      }
+    }
+  }
+
+  const raw = (found: Mp4Box) => moov.slice(found.start, found.end);
+  const stsdRaw = raw(stsd);
+  const hdlrRaw = raw(hdlr);
+  const smhd = findBox(moov, minf, ['smhd']);
+  const dinf = findBox(moov, minf, ['dinf']);
+  const smhdRaw = smhd ? raw(smhd) : fullBox('smhd', 0, 0, u16(0), u16(0));
+  const dinfRaw = dinf ? raw(dinf) : box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+  const ftyp = box('ftyp', ascii('M4A '), u32(0x200), ascii('isomiso2M4A mp42'));
+
+  const buildMoov = (first: number, last: number, dataOffset: number) => {
+    const count = last - first;
+    const duration = sampleTimes[last] - sampleTimes[first];
+
+    // Run-length sample durations
+    const sttsEntries: Uint8Array[] = [];
+    let runDelta = -1;
+    let runCount = 0;
+    for (let i = first; i < last; i++) {
+      const delta = sampleTimes[i + 1] - sampleTimes[i];
+      if (delta !== runDelta && runCount > 0) {
+        sttsEntries.push(u32(runCount), u32(runDelta));
+        runCount = 0;
+      }
+      runDelta = delta;
+      runCount++;
+    }
+    if (runCount > 0) {
+      sttsEntries.push(u32(runCount), u32(runDelta));
+    }
+
+    const sizes = new Uint8Array(count * 4);
+    const sizesView = new DataView(sizes.buffer);
+    for (let i = 0; i < count; i++) {
+      sizesView.setUint32(i * 4, sampleSizes[first + i]);
+    }
+
+    const stblOut = box(
+      'stbl',
+      stsdRaw,
+      fullBox('stts', 0, 0, u32(sttsEntries.length / 2), ...sttsEntries),
+      // All samples in one chunk
+      fullBox('stsc', 0, 0, u32(1), u32(1), u32(count), u32(1)),
+      fullBox('stsz', 0, 0, u32(0), u32(count), sizes),
+      fullBox('stco', 0, 0, u32(1), u32(dataOffset))
+    );
+
+    return box(
+      'moov',
+      fullBox('mvhd', 0, 0, u32(0), u32(0), u32(timescale), u32(duration), u32(0x00010000), u16(0x0100),
+        new Uint8Array(10), UNITY_MATRIX, new Uint8Array(24), u32(2)),
+      box(
+        'trak',
+        fullBox('tkhd', 0, 3, u32(0), u32(0), u32(1), u32(0), u32(duration), new Uint8Array(8), u16(0), u16(0),
+          u16(0x0100), u16(0), UNITY_MATRIX, u32(0), u32(0)),
+        box(
+          'mdia',
+          fullBox('mdhd', 0, 0, u32(0), u32(0), u32(timescale), u32(duration), u16(language), u16(0)),
+          hdlrRaw,
+          box('minf', smhdRaw, dinfRaw, stblOut)
+        )
+      )
+    );
+  };
+
+  const firstOffset = sampleCount > 0 ? sampleOffsets[0] : 0;
+  const lastOffset = sampleCount > 0 ? sampleOffsets[sampleCount - 1] + sampleSizes[sampleCount - 1] : 0;
+
+  return {
+    duration: mediaTime / timescale,
+    dataSize: lastOffset - firstOffset,
+    async writeRange(start, end, outputUri) {
+      const first = floorIndex(sampleTimes, start * timescale);
+      const last = Math.min(sampleCount, Math.max(first + 1, floorIndex(sampleTimes, end * timescale) + 1));
+
+      // Read contiguous runs of samples; a single-track file is usually one run
+      const parts: Uint8Array[] = [];
+      for (let runStart = first; runStart < last;) {
+        let runEnd = runStart + 1;
+        while (runEnd < last && sampleOffsets[runEnd] === sampleOffsets[runEnd - 1] + sampleSizes[runEnd - 1]) {
+          runEnd++;
+        }
+        const runBytes = sampleOffsets[runEnd - 1] + sampleSizes[runEnd - 1] - sampleOffsets[runStart];
+        parts.push(await readBytes(uri, sampleOffsets[runStart], runBytes));
+        runStart = runEnd;
+      }
+      const data = concatBytes(parts);
+
+      // moov's size does not depend on the offset it records, so measure it first
+      const moovSize = buildMoov(first, last, 0).length;
+      const file = concatBytes([
+        ftyp,
+        buildMoov(first, last, ftyp.length + moovSize + 8),
+        u32(data.length + 8),
+        ascii('mdat'),
+        data,
+      ]);
+      await writeBytes(outputUri, file);
+      return { start: sampleTimes[first] / timescale, end: sampleTimes[last] / timescale, size: file.length };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Split a recording into overlapping segments of at most `maxSegmentBytes`.
+ * Segment times are where each file really starts and ends after snapping
+ * to frames, so transcript timestamps can be shifted back exactly.
+ */
+export async function splitAudioFile(uri: string, options: SplitAudioOptions): Promise<SplitAudioResult> {
+  const format = FORMAT_EXTENSIONS[getExtension(uri)];
+  if (!format) {
+    throw new Error(`Cannot split ${getExtension(uri)} audio; use m4a, mp3 or wav`);
+  }
+
+  const info = await FileSystem.getInfoAsync(uri);
+  const fileSize = (info as any).size || 0;
+  const source = format === 'wav'
+    ? await openWav(uri, fileSize)
+    : format === 'mp3'
+      ? await openMp3(uri, fileSize)
+      : await openMp4(uri, fileSize);
+
+  const bytesPerSecond = source.dataSize / Math.max(source.duration, 1);
+  const segmentSeconds = Math.max(
+    options.overlapSeconds * 4,
+    (options.maxSegmentBytes * SIZE_MARGIN) / bytesPerSecond
+  );
+  const step = segmentSeconds - options.overlapSeconds;
+
+  await FileSystem.makeDirectoryAsync(SEGMENT_DIRECTORY, { intermediates: true }).catch(() => {});
+  const baseName = `${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+  const extension = getExtension(uri);
+  const segments: AudioSegment[] = [];
+
+  try {
+    for (let start = 0; start < source.duration; start += step) {
+      const end = Math.min(start + segmentSeconds, source.duration);
+      const segmentUri = `${SEGMENT_DIRECTORY}${baseName}_${segments.length}${extension}`;
+      const written = await source.writeRange(start, end, segmentUri);
+      segments.push({ uri: segmentUri, index: segments.length, ...written });
+      if (end >= source.duration) break;
+    }
+  } catch (error) {
+    await deleteAudioSegments(segments);
+    throw error;
+  }
+
+  return { segments, duration: source.duration };
+}
+
+export async function deleteAudioSegments(segments: AudioSegment[]): Promise<void> {
+  await Promise.all(
+    segments.map(segment => FileSystem.deleteAsync(segment.uri, { idempotent: true }).catch(() => {}))
+  );
+}
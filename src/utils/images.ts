@@ -0,0 +1,39 @@
+import { Message } from '@/types';
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+const FORMAT_MIME_TYPES: Record<string, ImageMimeType> = {
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+// Leading base64 characters of each format's magic bytes
+const BASE64_SIGNATURES: Array<[string, ImageMimeType]> = [
+  ['/9j/', 'image/jpeg'],
+  ['iVBORw0KGgo', 'image/png'],
+  ['R0lGOD', 'image/gif'],
+  ['UklGR', 'image/webp'],
+];
+
+// `data:image/png;base64,...` → 'png'
+export function getDataUrlImageFormat(dataUrl: string): string | undefined {
+  return dataUrl.match(/^data:image\/([a-z0-9.+-]+);base64,/i)?.[1].toLowerCase();
+}
+
+/**
+ * MIME type of a message's attached image, sniffed from the data first since
+ * older messages recorded every image as jpeg, then from the stored format.
+ */
+export function getImageMimeType(message: Pick<Message, 'imageBase64' | 'metadata'>): ImageMimeType {
+  const data = message.imageBase64 || '';
+  const sniffed = BASE64_SIGNATURES.find(([signature]) => data.startsWith(signature))?.[1];
+  if (sniffed) {
+    return sniffed;
+  }
+
+  const format = message.metadata?.imageSettings?.format?.toLowerCase();
+  return (format && FORMAT_MIME_TYPES[format]) || 'image/jpeg';
+}
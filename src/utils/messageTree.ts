@@ -0,0 +1,193 @@
+import { Message } from '@/types';
+
+/**
+ * Conversations are stored as a tree: every message points at the message it
+ * replies to through `parentId` (null for the first message). Editing an
+ * earlier message forks the tree, so a message can have several children —
+ * its sibling branches. The UI shows one root-to-leaf path at a time (the
+ * active branch); everything else is kept aside as inactive branch messages.
+ */
+
+export interface BranchPosition {
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+export interface BranchState {
+  messages: Message[];
+  branchMessages: Message[];
+}
+
+const ROOT_KEY = '__root__';
+
+const parentKey = (message: Message): string => message.parentId ?? ROOT_KEY;
+
+const byTimestamp = (a: Message, b: Message) => a.timestamp.getTime() - b.timestamp.getTime();
+
+/**
+ * Point every message on a linear path at the one before it. Used to migrate
+ * conversations saved before branching existed, and to link messages that
+ * were appended to the active branch without a parent.
+ */
+export function linkMessagePath(path: Message[]): Message[] {
+  return path.map((message, index) => {
+    const parentId = index > 0 ? path[index - 1].id : null;
+    return message.parentId === parentId ? message : { ...message, parentId };
+  });
+}
+
+// Group all known messages (active and inactive) by the message they reply to
+function groupChildren(messages: Message[], branchMessages: Message[]): Map<string, Message[]> {
+  const children = new Map<string, Message[]>();
+
+  [...linkMessagePath(messages), ...branchMessages].forEach(message => {
+    const key = parentKey(message);
+    const siblings = children.get(key) || [];
+    siblings.push(message);
+    children.set(key, siblings);
+  });
+
+  children.forEach(siblings => siblings.sort(byTimestamp));
+  return children;
+}
+
+/**
+ * Root-to-leaf path ending at `leafId` (the last message by default). A plain
+ * linear history without parent links is returned unchanged.
+ */
+export function getBranchPath(messages: Message[], leafId?: string): Message[] {
+  if (messages.length === 0 || messages.every(message => message.parentId === undefined)) {
+    return messages;
+  }
+
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: Message[] = [];
+  let current = byId.get(leafId ?? messages[messages.length - 1].id);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+// Sibling branch positions for every message on the active path that has alternatives
+export function getBranchPositions(
+  messages: Message[],
+  branchMessages: Message[]
+): Map<string, BranchPosition> {
+  const positions = new Map<string, BranchPosition>();
+  if (branchMessages.length === 0) {
+    return positions;
+  }
+
+  const children = groupChildren(messages, branchMessages);
+
+  linkMessagePath(messages).forEach(message => {
+    const siblings = children.get(parentKey(message)) || [];
+    if (siblings.length > 1) {
+      positions.set(message.id, {
+        index: siblings.findIndex(sibling => sibling.id === message.id),
+        count: siblings.length,
+        siblingIds: siblings.map(sibling => sibling.id),
+      });
+    }
+  });
+
+  return positions;
+}
+
+/**
+ * Cut the active path just before `messageId`, keeping that message and
+ * everything after it as an inactive branch. The next message appended to the
+ * path becomes its sibling.
+ */
+export function detachBranch(
+  messages: Message[],
+  branchMessages: Message[],
+  messageId: string
+): BranchState {
+  const linked = linkMessagePath(messages);
+  const detachIndex = linked.findIndex(message => message.id === messageId);
+  if (detachIndex === -1) {
+    throw new Error(`Message ${messageId} is not on the active branch`);
+  }
+
+  return {
+    messages: linked.slice(0, detachIndex),
+    branchMessages: [...branchMessages, ...linked.slice(detachIndex)],
+  };
+}
+
+/**
+ * Replace `messageId` on the active path with `replacement`, which becomes a
+ * new sibling branch. The original message and everything after it are kept
+ * as an inactive branch.
+ */
+export function forkBranch(
+  messages: Message[],
+  branchMessages: Message[],
+  messageId: string,
+  replacement: Message
+): BranchState {
+  const detached = detachBranch(messages, branchMessages, messageId);
+  const parent = detached.messages[detached.messages.length - 1];
+
+  return {
+    messages: [...detached.messages, { ...replacement, parentId: parent?.id ?? null }],
+    branchMessages: detached.branchMessages,
+  };
+}
+
+// All sibling branches of a message (itself included), oldest first
+export function getSiblingMessages(
+  messages: Message[],
+  branchMessages: Message[],
+  messageId: string
+): Message[] {
+  const message = linkMessagePath(messages).find(candidate => candidate.id === messageId);
+  if (!message) {
+    return [];
+  }
+
+  return groupChildren(messages, branchMessages).get(parentKey(message)) || [message];
+}
+
+/**
+ * Make `targetId` (a sibling of `messageId`) part of the active path, following
+ * the most recent reply at every level below it.
+ */
+export function switchBranch(
+  messages: Message[],
+  branchMessages: Message[],
+  messageId: string,
+  targetId: string
+): BranchState {
+  const linked = linkMessagePath(messages);
+  const switchIndex = linked.findIndex(message => message.id === messageId);
+  const allMessages = [...linked, ...branchMessages];
+  const target = allMessages.find(message => message.id === targetId);
+
+  if (switchIndex === -1 || !target || parentKey(target) !== parentKey(linked[switchIndex])) {
+    throw new Error(`Cannot switch from message ${messageId} to ${targetId}`);
+  }
+
+  const children = groupChildren(messages, branchMessages);
+  const path = [...linked.slice(0, switchIndex), target];
+
+  let next = children.get(target.id);
+  while (next && next.length > 0) {
+    const latest = next[next.length - 1];
+    path.push(latest);
+    next = children.get(latest.id);
+  }
+
+  const activeIds = new Set(path.map(message => message.id));
+
+  return {
+    messages: path,
+    branchMessages: allMessages.filter(message => !activeIds.has(message.id)),
+  };
+}
@@ -1,58 +1,24 @@
-import { Message, OpenAIMessage, OpenAIChatResponse, ModelType } from '@/types';
+import { Message, OpenAIMessage, OpenAIChatResponse, ModelType, BuiltInModelType } from '@/types';
+import { countMessageTokens, countMessagesTokens, countTokens } from './tokenizer';
 
 // Token estimation utilities
-export function estimateTokenCount(text: string): number {
-  // More accurate token estimation
-  // OpenAI uses tiktoken, but this is a reasonable approximation
-  const words = text.split(/\s+/).length;
-  const characters = text.length;
-  
-  // Estimate based on the rule that 1 token ≈ 4 characters or ≈ 0.75 words
-  const charBasedEstimate = Math.ceil(characters / 4);
-  const wordBasedEstimate = Math.ceil(words / 0.75);
-  
-  // Use the higher estimate to be safe
-  return Math.max(charBasedEstimate, wordBasedEstimate);
+export function estimateTokenCount(text: string, model: string = 'gpt-4o'): number {
+  return countTokens(text, model);
 }
 
-export function estimateMessagesTokenCount(messages: OpenAIMessage[]): number {
-  let totalTokens = 0;
-  
-  for (const message of messages) {
-    // Each message has overhead tokens
-    totalTokens += 4; // Overhead per message
-    
-    // Handle both string and array content (for image messages)
-    if (typeof message.content === 'string') {
-      totalTokens += estimateTokenCount(message.content);
-    } else if (Array.isArray(message.content)) {
-      // For array content (with images), estimate tokens for text parts
-      const textTokens = message.content
-        .filter(item => item.type === 'text')
-        .reduce((sum, item) => sum + estimateTokenCount(item.text || ''), 0);
-      // Add estimated tokens for images (roughly 765 tokens per image)
-      const imageCount = message.content.filter(item => item.type === 'image_url').length;
-      totalTokens += textTokens + (imageCount * 765);
-    }
-    
-    totalTokens += estimateTokenCount(message.role);
-  }
-  
-  totalTokens += 2; // Overhead for the entire request
-  
-  return totalTokens;
+export function estimateMessagesTokenCount(messages: OpenAIMessage[], model: string = 'gpt-4o'): number {
+  return countMessagesTokens(messages, model);
 }
 
 // Model-specific token limits
 export function getModelTokenLimit(model: ModelType): number {
-  const limits: Record<ModelType, number> = {
-    'gpt-3.5-turbo': 4096,
-    'gpt-4': 8192,
-    'gpt-4-turbo': 128000,
+  const limits: Record<BuiltInModelType, number> = {
     'gpt-4o': 128000,
+    'gemini-2.5-flash': 1048576,
+    'claude-sonnet-4-5': 200000,
   };
   
-  return limits[model] || 4096;
+  return limits[model as BuiltInModelType] || 4096;
 }
 
 // Message processing utilities
@@ -91,9 +57,10 @@ export function convertOpenAIResponseToMessage(
 export function trimMessagesForTokenLimit(
   messages: OpenAIMessage[],
   maxTokens: number,
-  systemPrompt?: string
+  systemPrompt?: string,
+  model: string = 'gpt-4o'
 ): OpenAIMessage[] {
-  const systemTokens = systemPrompt ? estimateTokenCount(systemPrompt) + 4 : 0;
+  const systemTokens = systemPrompt ? countMessageTokens({ role: 'system', content: systemPrompt }, model) : 0;
   const availableTokens = maxTokens - systemTokens - 100; // Reserve 100 tokens for response
   
   if (availableTokens <= 0) {
@@ -106,7 +73,7 @@ export function trimMessagesForTokenLimit(
   // Process messages in reverse order (newest first)
   for (let i = messages.length - 1; i >= 0; i--) {
     const message = messages[i];
-    const messageTokens = estimateTokenCount(message.content) + 4; // +4 for overhead
+    const messageTokens = countMessageTokens(message, model);
     
     if (currentTokens + messageTokens <= availableTokens) {
       trimmedMessages.unshift(message);
@@ -161,14 +128,34 @@ export function isNetworkError(error: any): boolean {
           error.message.includes('ECONNREFUSED'));
 }
 
+// Cancellation utilities
+export function createAbortError(message: string = 'Request was cancelled'): Error {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+
+  // axios cancellations surface as OpenAIError objects via handleAxiosError
+  if (isOpenAIError(error)) {
+    return error.error.code === 'ERR_CANCELED';
+  }
+
+  return error.name === 'AbortError' || error.name === 'CanceledError' || error.code === 'ERR_CANCELED';
+}
+
 // Retry logic utilities
 export function shouldRetryError(error: any, retryCount: number, maxRetries: number): boolean {
   if (retryCount >= maxRetries) {
     return false;
   }
   
-  // Don't retry quota errors or authentication errors
-  if (isQuotaError(error) || 
+  // Don't retry cancellations, quota errors or authentication errors
+  if (isAbortError(error) || isQuotaError(error) || 
       (isOpenAIError(error) && error.error.type === 'invalid_api_key')) {
     return false;
   }
@@ -313,4 +300,24 @@ Organize information in a logical flow that works well when spoken aloud, using
 
 export function getSystemPrompt(type: keyof typeof SYSTEM_PROMPTS = 'default'): string {
   return SYSTEM_PROMPTS[type] || SYSTEM_PROMPTS.default;
-}
\ No newline at end of file
+}
+
+// Append remembered facts about the user to a system prompt
+export function withMemories(systemPrompt: string | undefined, memories: string[] = []): string | undefined {
+  if (memories.length === 0) {
+    return systemPrompt;
+  }
+
+  const memoryBlock = `Things you remember about the user from earlier conversations (use them when relevant, do not recite them):\n${memories.map(memory => `- ${memory}`).join('\n')}`;
+  return systemPrompt ? `${systemPrompt}\n\n${memoryBlock}` : memoryBlock;
+}
+
+// Append the summary of earlier, no longer sent messages to a system prompt
+export function withConversationSummary(systemPrompt: string | undefined, summary?: string): string | undefined {
+  if (!summary) {
+    return systemPrompt;
+  }
+
+  const summaryBlock = `Summary of the earlier part of this conversation (older messages are not shown):\n${summary}`;
+  return systemPrompt ? `${systemPrompt}\n\n${summaryBlock}` : summaryBlock;
+}
@@ -0,0 +1,85 @@
+// PCM16 helpers for the realtime voice engine, which streams raw
+// little-endian 16-bit mono audio as base64 in both directions.
+
+export const PCM_SAMPLE_RATE = 24000;
+const BYTES_PER_SAMPLE = 2;
+const WAV_HEADER_SIZE = 44;
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // String.fromCharCode takes arguments, so large buffers go in slices
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+export function pcmDurationMs(byteLength: number, sampleRate: number = PCM_SAMPLE_RATE): number {
+  return (byteLength / BYTES_PER_SAMPLE / sampleRate) * 1000;
+}
+
+/**
+ * Return the samples of a PCM WAV file. iOS writes extra chunks (FLLR) before
+ * the audio, so the data chunk is looked up rather than assumed at byte 44.
+ */
+export function extractWavData(wav: Uint8Array): Uint8Array {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  let offset = 12; // "RIFF", size, "WAVE"
+  while (offset + 8 <= wav.length) {
+    const id = String.fromCharCode(wav[offset], wav[offset + 1], wav[offset + 2], wav[offset + 3]);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'data') {
+      // Recordings stopped mid-write can report a size past the end of the file
+      return wav.subarray(offset + 8, Math.min(offset + 8 + size, wav.length));
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return wav.subarray(Math.min(WAV_HEADER_SIZE, wav.length));
+}
+
+// Wrap raw samples in a 44-byte WAV header so they can be played as a file
+export function createWav(pcm: Uint8Array, sampleRate: number = PCM_SAMPLE_RATE): Uint8Array {
+  const wav = new Uint8Array(WAV_HEADER_SIZE + pcm.length);
+  const view = new DataView(wav.buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      wav[offset + i] = text.charCodeAt(i);
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * BYTES_PER_SAMPLE, true); // byte rate
+  view.setUint16(32, BYTES_PER_SAMPLE, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, WAV_HEADER_SIZE);
+
+  return wav;
+}
@@ -0,0 +1,44 @@
+// Helpers for prompt templates with {{variable}} placeholders
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Variable names in order of first appearance
+export function extractVariables(content: string): string[] {
+  const names: string[] = [];
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+// Fill in placeholders; ones without a value are left as typed so they stay visible
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name]?.trim() ? values[name].trim() : placeholder
+  );
+}
+
+// Slash command for a template name: "Code Review" -> "code-review"
+export function toCommand(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s/]+/g, '-')
+    .replace(/[^\w\u00C0-\uFFFF-]/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// "snake_case" or "camelCase" variable name as a form label
+export function formatVariableLabel(name: string): string {
+  const spaced = name.replace(/[_-]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+// The command being typed when the input is "/<command>" with nothing after it
+export function parseSlashQuery(text: string): string | null {
+  const match = text.match(/^\/([^\s/]*)$/);
+  return match ? match[1].toLowerCase() : null;
+}
@@ -0,0 +1,65 @@
+// Server-Sent Events helpers shared by the streaming chat endpoints
+// (OpenAI `/chat/completions` with `stream: true`, Gemini `streamGenerateContent?alt=sse`)
+
+export const SSE_DONE_SENTINEL = '[DONE]';
+
+/**
+ * Read an SSE response body and yield the `data:` payload of every event.
+ * Multi-line data fields are joined with '\n' as per the SSE spec.
+ * Iteration stops at the end of the stream or at the OpenAI `[DONE]` sentinel.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+
+        // A blank line dispatches the current event
+        if (line === '') {
+          if (dataLines.length > 0) {
+            const data = dataLines.join('\n');
+            dataLines = [];
+            if (data === SSE_DONE_SENTINEL) return;
+            yield data;
+          }
+          continue;
+        }
+
+        // Comment lines (keep-alives) start with ':'
+        if (line.startsWith(':')) continue;
+
+        if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+
+    // Flush a trailing event that was not terminated by a blank line
+    buffer += decoder.decode();
+    if (buffer.startsWith('data:')) {
+      dataLines.push(buffer.slice(5).replace(/^ /, '').replace(/\r?\n?$/, ''));
+    }
+    if (dataLines.length > 0) {
+      const data = dataLines.join('\n');
+      if (data !== SSE_DONE_SENTINEL) {
+        yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
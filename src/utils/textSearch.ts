@@ -0,0 +1,107 @@
+import { TextRange } from '@/types';
+
+/**
+ * Helpers for the full-text message index. SQLite's unicode61 tokenizer splits
+ * on whitespace and punctuation, which leaves a run of Chinese or Japanese text
+ * as a single token. Before indexing we put spaces around every CJK character
+ * so each one becomes its own token, and CJK query terms are matched as
+ * phrases of adjacent characters. Latin terms are matched by prefix.
+ */
+
+export interface SearchTerm {
+  text: string;
+  isCJK: boolean;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: TextRange[];
+}
+
+// Han, Hiragana, Katakana, Hangul and their compatibility blocks
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const CJK_CHAR = new RegExp(CJK_PATTERN.source, 'g');
+const CJK_RUN = new RegExp(`${CJK_PATTERN.source}+|[^${CJK_PATTERN.source.slice(1, -1)}]+`, 'g');
+
+// ASCII and CJK punctuation that the index tokenizer treats as separators
+const SEPARATORS = /[\s!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~\u3000-\u303f\uff01-\uff0f\uff1a-\uff20\u2018\u2019\u201c\u201d\u2026]+/;
+
+const WORD_CHAR = /[0-9a-z\u00c0-\u024f]/i;
+
+// Text as it is written to the index: normalized, with CJK characters as separate tokens
+export function tokenizeForIndex(text: string): string {
+  return text.normalize('NFKC').replace(CJK_CHAR, ' $& ');
+}
+
+// Split a query into terms, separating CJK runs from Latin words ("react组件" → "react", "组件")
+export function parseSearchTerms(query: string): SearchTerm[] {
+  return query
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(SEPARATORS)
+    .flatMap(word => word.match(CJK_RUN) || [])
+    .filter(text => text.length > 0)
+    .map(text => ({ text, isCJK: CJK_PATTERN.test(text) }));
+}
+
+// FTS5 MATCH expression requiring every term; empty when the query has no searchable text
+export function buildMatchQuery(query: string): string {
+  return parseSearchTerms(query)
+    .map(term => (term.isCJK ? `"${Array.from(term.text).join(' ')}"` : `"${term.text}"*`))
+    .join(' ');
+}
+
+// Ranges of `text` matched by the terms, merged and in order
+export function findMatchRanges(text: string, terms: SearchTerm[]): TextRange[] {
+  const haystack = text.toLowerCase();
+  const ranges: TextRange[] = [];
+
+  terms.forEach(term => {
+    let index = haystack.indexOf(term.text);
+    while (index !== -1) {
+      // Latin terms are prefix matches, so they must start a word
+      const startsWord = term.isCJK || index === 0 || !WORD_CHAR.test(haystack[index - 1]);
+      if (startsWord) {
+        ranges.push({ start: index, end: index + term.text.length });
+      }
+      index = haystack.indexOf(term.text, index + term.text.length);
+    }
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  return ranges.reduce<TextRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Excerpt of `text` around its first match, on a single line, with the
+ * highlight ranges shifted to the excerpt.
+ */
+export function buildSnippet(text: string, ranges: TextRange[], contextLength = 60): SearchSnippet {
+  const firstMatch = ranges[0] ?? { start: 0, end: 0 };
+  const start = Math.max(0, firstMatch.start - contextLength);
+  const end = Math.min(text.length, Math.max(firstMatch.end + contextLength * 2, start + contextLength * 3));
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    // Whitespace is replaced one-for-one so the ranges stay aligned
+    text: `${prefix}${text.slice(start, end).replace(/\s/g, ' ')}${suffix}`,
+    highlights: ranges
+      .filter(range => range.end > start && range.start < end)
+      .map(range => ({
+        start: Math.max(range.start, start) + offset,
+        end: Math.min(range.end, end) + offset,
+      })),
+  };
+}
@@ -0,0 +1,208 @@
+// Token counting for context trimming, rate limiting and cost estimates.
+// OpenAI models are counted exactly with their BPE encoding; other models get an approximation.
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import { OpenAIMessage } from '@/types';
+
+type EncodingName = 'o200k_base' | 'cl100k_base';
+type ImageDetail = 'low' | 'high' | 'auto';
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Every chat message is wrapped in a few formatting tokens (role and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Every reply is primed with the assistant role
+const REPLY_PRIMING_TOKENS = 3;
+
+// Counts are cached because the same history is re-counted on every request
+const COUNT_CACHE_LIMIT = 500;
+const countCache = new Map<string, number>();
+
+const encoders: Partial<Record<EncodingName, Tiktoken>> = {};
+
+// Building an encoder parses its whole rank table, so it only happens on first use
+function getEncoder(encoding: EncodingName): Tiktoken {
+  if (!encoders[encoding]) {
+    encoders[encoding] = new Tiktoken(encoding === 'o200k_base' ? o200kBase : cl100kBase);
+  }
+  return encoders[encoding]!;
+}
+
+// Encoding used by an API model name; models from other vendors are approximated with cl100k
+function getEncodingName(model: string): EncodingName {
+  const name = model.toLowerCase().split('/').pop() || '';
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/.test(name)) {
+    return 'o200k_base';
+  }
+  return 'cl100k_base';
+}
+
+const isGeminiModel = (model: string) => model.toLowerCase().includes('gemini');
+
+const isClaudeModel = (model: string) => model.toLowerCase().includes('claude');
+
+// CJK characters, which tokenize at roughly one token each rather than four characters per token
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Gemini's SentencePiece vocabulary is not published in a form we can bundle.
+ * Google documents about 4 characters per token for English; CJK text is
+ * closer to one token per character.
+ */
+function approximateGeminiTokens(text: string): number {
+  const cjkCount = text.match(CJK_PATTERN)?.length ?? 0;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+// Number of tokens the model sees for a piece of text
+export function countTokens(text: string, model: string = 'gpt-4o'): number {
+  if (!text) {
+    return 0;
+  }
+
+  if (isGeminiModel(model)) {
+    return approximateGeminiTokens(text);
+  }
+
+  const encoding = getEncodingName(model);
+  const cacheKey = `${encoding}:${text}`;
+  const cached = countCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  // Special-token markers in user text are counted as plain text, not rejected
+  const count = getEncoder(encoding).encode(text, [], []).length;
+
+  if (countCache.size >= COUNT_CACHE_LIMIT) {
+    countCache.delete(countCache.keys().next().value!);
+  }
+  countCache.set(cacheKey, count);
+  return count;
+}
+
+// Longest prefix of `text` within `maxTokens`, for endpoints that reject longer input
+export function truncateToTokens(text: string, maxTokens: number, model: string = 'gpt-4o'): string {
+  // Every token covers at least one UTF-8 byte and a UTF-16 unit is at most three
+  if (text.length * 3 <= maxTokens) {
+    return text;
+  }
+
+  const encoder = getEncoder(getEncodingName(model));
+  const tokens = encoder.encode(text, [], []);
+  return tokens.length <= maxTokens ? text : encoder.decode(tokens.slice(0, maxTokens));
+}
+
+/**
+ * Tokens billed for one image. Uses the provider's published formula when the
+ * image size can be read from the data URL; otherwise assumes a 1024px square.
+ */
+export function estimateImageTokens(
+  imageUrl: string,
+  detail: ImageDetail = 'auto',
+  model: string = 'gpt-4o'
+): number {
+  const size = readImageSize(imageUrl) ?? { width: 1024, height: 1024 };
+
+  if (isGeminiModel(model)) {
+    // 258 tokens for small images, otherwise 258 per 768px tile
+    if (size.width <= 384 && size.height <= 384) {
+      return 258;
+    }
+    return Math.ceil(size.width / 768) * Math.ceil(size.height / 768) * 258;
+  }
+
+  if (isClaudeModel(model)) {
+    // Scaled to fit 1568px on the long edge, then about one token per 750 pixels
+    const scale = Math.min(1, 1568 / Math.max(size.width, size.height));
+    return Math.ceil((size.width * scale * size.height * scale) / 750);
+  }
+
+  if (detail === 'low') {
+    return 85;
+  }
+
+  // High detail: fit within 2048px, shortest side down to 768px, then 170 per 512px tile plus 85
+  let { width, height } = size;
+  const fitScale = Math.min(1, 2048 / Math.max(width, height));
+  width *= fitScale;
+  height *= fitScale;
+  const shortScale = Math.min(1, 768 / Math.min(width, height));
+  width *= shortScale;
+  height *= shortScale;
+
+  return Math.ceil(width / 512) * Math.ceil(height / 512) * 170 + 85;
+}
+
+// Tokens for one chat message, including images and formatting overhead
+export function countMessageTokens(message: OpenAIMessage, model: string = 'gpt-4o'): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (typeof message.content === 'string') {
+    tokens += countTokens(message.content, model);
+  } else if (Array.isArray(message.content)) {
+    for (const item of message.content) {
+      if (item.type === 'text') {
+        tokens += countTokens(item.text || '', model);
+      } else if (item.type === 'image_url' && item.image_url) {
+        tokens += estimateImageTokens(item.image_url.url, item.image_url.detail, model);
+      }
+    }
+  }
+
+  if (message.tool_calls) {
+    for (const call of message.tool_calls) {
+      tokens += countTokens(call.function.name, model) + countTokens(call.function.arguments, model);
+    }
+  }
+
+  return tokens;
+}
+
+// Prompt tokens for a whole request
+export function countMessagesTokens(messages: OpenAIMessage[], model: string = 'gpt-4o'): number {
+  return messages.reduce((sum, message) => sum + countMessageTokens(message, model), REPLY_PRIMING_TOKENS);
+}
+
+// Width and height of a base64 PNG or JPEG data URL, read from its header
+function readImageSize(imageUrl: string): ImageSize | null {
+  const match = imageUrl.match(/^data:image\/(png|jpe?g);base64,/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    // The header is near the start; 64KB of base64 covers JPEGs with large EXIF blocks
+    const base64 = imageUrl.slice(match[0].length, match[0].length + 65536);
+    const binary = atob(base64.slice(0, base64.length - (base64.length % 4)));
+    const byte = (index: number) => binary.charCodeAt(index);
+    const uint16 = (index: number) => (byte(index) << 8) | byte(index + 1);
+
+    if (match[1] === 'png') {
+      // IHDR chunk: width and height as 32-bit big-endian integers at bytes 16 and 20
+      const width = ((byte(16) << 24) | (byte(17) << 16) | uint16(18)) >>> 0;
+      const height = ((byte(20) << 24) | (byte(21) << 16) | uint16(22)) >>> 0;
+      return width && height ? { width, height } : null;
+    }
+
+    // JPEG: walk the segments until a start-of-frame marker
+    let offset = 2;
+    while (offset + 9 < binary.length) {
+      if (byte(offset) !== 0xFF) {
+        return null;
+      }
+      const marker = byte(offset + 1);
+      if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+        return { height: uint16(offset + 5), width: uint16(offset + 7) };
+      }
+      offset += 2 + uint16(offset + 2);
+    }
+  } catch (error) {
+    console.warn('Could not read image size:', error);
+  }
+  return null;
+}
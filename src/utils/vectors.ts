@@ -0,0 +1,65 @@
+// Vector helpers for embedding search. Vectors are stored as Float32Array BLOBs.
+
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+
+  const result = new Float32Array(vector.length);
+  if (norm === 0) {
+    return result;
+  }
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = vector[i] / norm;
+  }
+  return result;
+}
+
+// Cosine similarity of two normalized vectors (a plain dot product)
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+// Normalized mean of several vectors, used as a conversation-level embedding
+export function centroid(vectors: Float32Array[]): Float32Array | null {
+  if (vectors.length === 0) {
+    return null;
+  }
+
+  const sum = new Float32Array(vectors[0].length);
+  vectors.forEach(vector => {
+    for (let i = 0; i < sum.length; i++) {
+      sum[i] += vector[i] ?? 0;
+    }
+  });
+  return normalizeVector(sum);
+}
+
+export function vectorToBlob(vector: Float32Array): Uint8Array {
+  return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function blobToVector(blob: Uint8Array): Float32Array {
+  // Copy so the Float32Array view is 4-byte aligned
+  return new Float32Array(blob.slice().buffer);
+}
+
+// FNV-1a hash of a message's text, to notice when an embedded message has changed
+export function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${content.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+}
@@ -0,0 +1,98 @@
+// Voice activity detection from microphone metering levels (dBFS).
+// The detector calibrates against the room's ambient noise, then reports
+// speech and the silence that ends a turn.
+
+export interface VoiceActivityOptions {
+  // Decibels above the ambient noise level that count as speech
+  silenceThreshold: number;
+  // Milliseconds of silence after speech that end the turn
+  hangTime: number;
+  // Milliseconds of audio used to measure ambient noise
+  calibrationTime?: number;
+  // Ambient noise measured earlier; skips calibration when the user may already be talking
+  ambientLevel?: number;
+}
+
+export type VoiceActivityEvent = 'calibrating' | 'waiting' | 'speech' | 'silence' | 'endOfSpeech';
+
+export const DEFAULT_VAD_SILENCE_THRESHOLD = 12;
+export const DEFAULT_VAD_HANG_TIME = 1200;
+const DEFAULT_CALIBRATION_TIME = 500;
+
+// expo-av reports -160 dBFS for digital silence and when metering is unavailable
+export const METERING_FLOOR = -160;
+// Very quiet rooms calibrate so low that breathing would count as speech
+const MIN_AMBIENT_LEVEL = -60;
+// Loud sounds shorter than this (clicks, taps on the phone) do not start a turn
+const MIN_SPEECH_DURATION = 150;
+
+export class VoiceActivityDetector {
+  private readonly options: Required<Omit<VoiceActivityOptions, 'ambientLevel'>>;
+  private startedAt: number | null = null;
+  private calibrationLevels: number[] = [];
+  private ambientLevel: number | null = null;
+  private loudSince: number | null = null;
+  private lastSpeechAt = 0;
+  private speechDetected = false;
+  private meteringReceived = false;
+
+  constructor(options: VoiceActivityOptions) {
+    this.options = { calibrationTime: DEFAULT_CALIBRATION_TIME, ...options };
+    if (options.ambientLevel !== undefined) {
+      this.ambientLevel = Math.max(options.ambientLevel, MIN_AMBIENT_LEVEL);
+    }
+  }
+
+  // Calibrated ambient noise level, once known
+  get ambientNoiseLevel(): number | null {
+    return this.ambientLevel;
+  }
+
+  // True once the user has started speaking in this turn
+  get hasSpeech(): boolean {
+    return this.speechDetected;
+  }
+
+  // False while every sample was missing or at the floor, i.e. the device may not meter at all
+  get hasMetering(): boolean {
+    return this.meteringReceived;
+  }
+
+  // Feed one metering sample; returns what the turn looks like so far
+  process(level: number = METERING_FLOOR, timestamp: number = Date.now()): VoiceActivityEvent {
+    if (this.startedAt === null) {
+      this.startedAt = timestamp;
+    }
+    if (level > METERING_FLOOR) {
+      this.meteringReceived = true;
+    }
+
+    if (this.ambientLevel === null) {
+      if (timestamp - this.startedAt < this.options.calibrationTime) {
+        this.calibrationLevels.push(level);
+        return 'calibrating';
+      }
+      const levels = this.calibrationLevels.length > 0 ? this.calibrationLevels : [level];
+      const average = levels.reduce((sum, value) => sum + value, 0) / levels.length;
+      this.ambientLevel = Math.max(average, MIN_AMBIENT_LEVEL);
+      console.log(`🎙️ Ambient noise calibrated at ${this.ambientLevel.toFixed(1)} dB`);
+    }
+
+    if (level >= this.ambientLevel + this.options.silenceThreshold) {
+      if (this.loudSince === null) {
+        this.loudSince = timestamp;
+      }
+      this.lastSpeechAt = timestamp;
+      if (!this.speechDetected && timestamp - this.loudSince >= MIN_SPEECH_DURATION) {
+        this.speechDetected = true;
+      }
+      return this.speechDetected ? 'speech' : 'waiting';
+    }
+
+    this.loudSince = null;
+    if (!this.speechDetected) {
+      return 'waiting';
+    }
+    return timestamp - this.lastSpeechAt >= this.options.hangTime ? 'endOfSpeech' : 'silence';
+  }
+}
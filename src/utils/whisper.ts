@@ -1,4 +1,5 @@
 import * as FileSystem from 'expo-file-system';
+import { isSplittableFormat } from './audioSplitter';
 
 // Audio format validation
 export const SUPPORTED_AUDIO_FORMATS = [
@@ -120,17 +121,20 @@ export function validateAudioFile(fileUri: string): Promise<{
         });
       }
 
-      // Check file size
-      if (fileSize > MAX_FILE_SIZE) {
+      // Check file size; long recordings in splittable formats are transcribed in segments
+      const canSplit = isSplittableFormat(fileUri);
+      if (fileSize > MAX_FILE_SIZE && !canSplit) {
         return resolve({
           isValid: false,
-          error: `File size (${formatFileSize(fileSize)}) exceeds maximum allowed size (${formatFileSize(MAX_FILE_SIZE)})`,
+          error: `File size (${formatFileSize(fileSize)}) exceeds maximum allowed size (${formatFileSize(MAX_FILE_SIZE)}). Save long recordings as .m4a, .mp3 or .wav to have them split automatically`,
         });
       }
 
       // Add warnings for large files
       if (fileSize > RECOMMENDED_MAX_SIZE) {
-        warnings.push(`Large file size (${formatFileSize(fileSize)}) may take longer to process`);
+        warnings.push(canSplit
+          ? `Large file size (${formatFileSize(fileSize)}) will be transcribed in segments`
+          : `Large file size (${formatFileSize(fileSize)}) may take longer to process`);
       }
 
       // Add warning for uncompressed formats
@@ -205,6 +209,11 @@ export function detectLanguageFromText(text: string): WhisperLanguageCode | null
   return 'en';
 }
 
+// Rough estimate: 1MB ≈ 1.5 minutes for compressed audio
+export function estimateAudioDuration(fileSizeBytes: number): number {
+  return (fileSizeBytes / (1024 * 1024)) * 90;
+}
+
 export function estimateTranscriptionCost(fileSizeBytes: number, durationSeconds?: number): {
   estimatedCost: number;
   costPerMinute: number;
@@ -219,9 +228,7 @@ export function estimateTranscriptionCost(fileSizeBytes: number, durationSeconds
   if (durationSeconds) {
     estimatedDurationMinutes = durationSeconds / 60;
   } else {
-    // Rough estimate: 1MB ≈ 1-2 minutes for compressed audio
-    const fileSizeMB = fileSizeBytes / (1024 * 1024);
-    estimatedDurationMinutes = fileSizeMB * 1.5; // Conservative estimate
+    estimatedDurationMinutes = estimateAudioDuration(fileSizeBytes) / 60;
   }
   
   const estimatedCost = estimatedDurationMinutes * costPerMinute;
@@ -329,7 +336,7 @@ export function getOptimalTranscriptionSettings(
 
   // For large files, add specific recommendations
   if (fileSize > RECOMMENDED_MAX_SIZE) {
-    recommendations.push('Large file detected - consider splitting into smaller segments for faster processing');
+    recommendations.push('Large file detected - m4a, mp3 and wav recordings are transcribed in overlapping segments');
   }
 
   // For very short audio (< 5 seconds), increase temperature slightly for better results